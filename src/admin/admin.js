@@ -5,8 +5,13 @@ const $$ = (sel) => document.querySelectorAll(sel);
 
 let apiToken = '';
 let currentView = 'loading'; // 'wizard' | 'dashboard'
-let pollTimer = null;
-let pollFailures = 0;
+let liveSource = null;
+let lastTotalVideos = 0;
+let eventLog = [];
+const MAX_EVENT_LOG = 100;
+// Event types selected in the filter chips; empty = show everything
+const eventTypeFilter = new Set();
+let awaitingUpdateRestart = false;
 let lastHeartbeatAt = 0;
 let heartbeatIntervalMs = 5000;
 let heartbeatCountdownTimer = null;
@@ -35,7 +40,7 @@ function showWizard() {
   currentView = 'wizard';
   $('#view-wizard').classList.remove('hidden');
   $('#view-dashboard').classList.add('hidden');
-  stopPolling();
+  stopLiveUpdates();
   wizInitWizard();
 }
 
@@ -43,11 +48,13 @@ function showDashboard() {
   currentView = 'dashboard';
   $('#view-wizard').classList.add('hidden');
   $('#view-dashboard').classList.remove('hidden');
-  startPolling();
+  startLiveUpdates();
   loadSettings();
   loadAutostart();
   initPlaybackControls();
   initMpvLogs();
+  initBlacklist();
+  loadIncidents();
 }
 
 // --- API helper ---
@@ -80,36 +87,42 @@ async function api(url, opts) {
 
 // --- Playlist row helpers ---
 
-function addSetPlaylist(id, name) {
-  addPlaylistRow('#set-playlists-list', id || '', name || '');
+function addSetPlaylist(id, name, type) {
+  addPlaylistRow('#set-playlists-list', id || '', name || '', type || 'youtube');
 }
 
-function addPlaylistRow(containerSel, id, name) {
+const PLAYLIST_SOURCE_TYPES = {
+  youtube: { label: 'YouTube', placeholder: 'PLxxxxxxxxxxxxxxxx' },
+  local: { label: 'Local folder', placeholder: 'D:\\Videos\\Loop' },
+  m3u: { label: 'M3U file', placeholder: 'Path or URL to .m3u / .m3u8' },
+  url: { label: 'Direct URL', placeholder: 'https://example.com/video.mp4' },
+  ytdlp: { label: 'Other site', placeholder: 'Any URL yt-dlp supports' },
+};
+
+function addPlaylistRow(containerSel, id, name, type) {
   const container = $(containerSel);
   const row = document.createElement('div');
   row.className = 'playlist-row';
+  const options = Object.entries(PLAYLIST_SOURCE_TYPES)
+    .map(([value, t]) => `<option value="${value}">${t.label}</option>`).join('');
   row.innerHTML =
-    `<input type="text" class="pl-id" placeholder="PLxxxxxxxxxxxxxxxx" value="${escapeHtml(id)}">` +
+    `<select class="pl-type">${options}</select>` +
+    `<input type="text" class="pl-id" value="${escapeHtml(id)}">` +
     `<input type="text" class="pl-name" placeholder="Name (optional)" value="${escapeHtml(name)}">` +
     `<button type="button" class="btn-remove" title="Remove">&times;</button>`;
+  const typeSelect = row.querySelector('.pl-type');
+  const syncPlaceholder = () => {
+    row.querySelector('.pl-id').placeholder = PLAYLIST_SOURCE_TYPES[typeSelect.value].placeholder;
+  };
+  typeSelect.value = PLAYLIST_SOURCE_TYPES[type] ? type : 'youtube';
+  typeSelect.addEventListener('change', syncPlaceholder);
+  syncPlaceholder();
   row.querySelector('.btn-remove').addEventListener('click', () => {
     row.remove();
   });
   container.appendChild(row);
 }
 
-function extractPlaylistId(raw) {
-  try {
-    const url = new URL(raw);
-    if (url.hostname.includes('youtube.com') || url.hostname.includes('youtu.be')) {
-      const list = url.searchParams.get('list');
-      if (list) return list;
-      return null; // YouTube URL without a playlist
-    }
-  } catch { /* not a URL, treat as bare ID */ }
-  return raw;
-}
-
 function collectPlaylists(containerSel) {
   const rows = $$(containerSel + ' .playlist-row');
   const playlists = [];
@@ -118,7 +131,10 @@ function collectPlaylists(containerSel) {
     const input = row.querySelector('.pl-id');
     const raw = input.value.trim();
     if (!raw) continue;
-    const id = extractPlaylistId(raw);
+    const type = row.querySelector('.pl-type').value;
+    // Only YouTube entries are normalised from a pasted URL; every other
+    // source type is a path or URL that is used as-is.
+    const id = type === 'youtube' ? extractPlaylistId(raw) : raw;
     if (!id) {
       input.classList.add('invalid');
       showToast('That looks like a single video URL. Paste a playlist URL or a playlist ID (starts with PL).');
@@ -127,7 +143,9 @@ function collectPlaylists(containerSel) {
     }
     input.classList.remove('invalid');
     const name = row.querySelector('.pl-name').value.trim();
-    playlists.push(name ? { id, name } : { id });
+    const entry = type === 'youtube' ? { id } : { type, id };
+    if (name) entry.name = name;
+    playlists.push(entry);
   }
   if (hasError) return null;
   return playlists;
@@ -251,7 +269,7 @@ function wizInitStep(step) {
       const container = $('#wiz-playlists-list');
       container.innerHTML = '';
       if (wizState.playlists.length > 0) {
-        wizState.playlists.forEach(p => wizAddPlaylist(p.id, p.name || ''));
+        wizState.playlists.forEach(p => wizAddPlaylist(p.id, p.name || '', p.type));
       } else {
         wizAddPlaylist('', '');
       }
@@ -295,8 +313,8 @@ function wizValidateStep() {
   }
 }
 
-function wizAddPlaylist(id, name) {
-  addPlaylistRow('#wiz-playlists-list', id || '', name || '');
+function wizAddPlaylist(id, name, type) {
+  addPlaylistRow('#wiz-playlists-list', id || '', name || '', type || 'youtube');
 }
 
 async function wizTestObs() {
@@ -509,7 +527,11 @@ function renderVideoList(data) {
   tbody.innerHTML = '';
   data.videos.forEach(function(v) {
     const tr = document.createElement('tr');
-    if (v.index === data.currentIndex) tr.className = 'current';
+    if (v.index === data.currentIndex) tr.classList.add('current');
+    if (v.blacklisted) {
+      tr.classList.add('blacklisted');
+      tr.title = 'Blacklisted — skipped during playback';
+    }
     const mins = Math.floor((v.duration || 0) / 60);
     const secs = Math.floor((v.duration || 0) % 60);
     const dur = mins + ':' + (secs < 10 ? '0' : '') + secs;
@@ -546,11 +568,7 @@ function updateVideoListHighlight(currentIndex) {
   var rows = tbody.querySelectorAll('tr');
   rows.forEach(function(tr) {
     var playBtn = tr.querySelector('.btn-play');
-    if (playBtn && Number(playBtn.dataset.index) === currentIndex) {
-      tr.className = 'current';
-    } else {
-      tr.className = '';
-    }
+    tr.classList.toggle('current', !!playBtn && Number(playBtn.dataset.index) === currentIndex);
   });
 }
 
@@ -675,61 +693,99 @@ async function loadPlaylistSelector() {
   }
 }
 
-// --- Dashboard polling ---
+// --- Dashboard live updates ---
 
-function startPolling() {
-  pollOnce();
-  pollTimer = setInterval(pollOnce, 2000);
-}
-
-function stopPolling() {
-  if (pollTimer) { clearInterval(pollTimer); pollTimer = null; }
-  if (heartbeatCountdownTimer) { clearInterval(heartbeatCountdownTimer); heartbeatCountdownTimer = null; }
-}
+// The server pushes snapshots over Server-Sent Events: full status/state/events/update
+// payloads on connect and whenever they change, plus one `event` message per new log entry.
+// EventSource reconnects on its own (the server advertises a 3s retry).
+function startLiveUpdates() {
+  stopLiveUpdates();
+  liveSource = new EventSource('/api/stream');
 
-async function pollOnce() {
-  try {
-    const [status, state, events, updateStatus] = await Promise.all([
-      api('/api/status'),
-      api('/api/state'),
-      api('/api/events'),
-      api('/api/update/status').catch(() => null),
-    ]);
-    pollFailures = 0;
+  liveSource.onopen = () => {
     $('#connection-lost').classList.add('hidden');
+  };
+
+  liveSource.onerror = () => {
+    $('#connection-lost').classList.remove('hidden');
+    const pill = $('#header-pill');
+    pill.textContent = 'Disconnected';
+    pill.className = 'status-pill pill-err';
+    if (awaitingUpdateRestart) {
+      // Server went down to install the update — switch to restart polling
+      awaitingUpdateRestart = false;
+      stopLiveUpdates();
+      setTimeout(waitForRestart, 2000);
+    }
+  };
+
+  onLive('status', (status) => {
+    lastTotalVideos = status.totalVideos;
     renderStatus(status);
-    renderNowPlaying(state, status.totalVideos);
-    renderEvents(events);
-    if (updateStatus) renderUpdateBanner(updateStatus);
+    // Update pause button icon based on mpv state
+    updatePauseButton(status);
+  });
+
+  onLive('audio', renderAudio);
+
+  onLive('state', (state) => {
+    renderNowPlaying(state, lastTotalVideos);
 
     // Update seek bar
     const seekBar = document.getElementById('seek-bar');
     const seekTime = document.getElementById('seek-time');
-    if (state && seekBar && !seeking) {
+    if (seekBar && !seeking) {
       seekBar.max = Math.floor(state.videoDuration || 0);
       seekBar.value = Math.floor(state.currentTime || 0);
     }
-    if (state && seekTime) {
+    if (seekTime) {
       seekTime.textContent = formatTime(state.currentTime) + ' / ' + formatTime(state.videoDuration);
     }
 
     // Update highlighted row in video list when video changes
-    if (state) {
-      updateVideoListHighlight(state.videoIndex);
+    updateVideoListHighlight(state.videoIndex);
+  });
+
+  onLive('events', (events) => {
+    eventLog = events;
+    renderEvents(eventLog);
+  });
+
+  onLive('event', (entry) => {
+    eventLog.push(entry);
+    if (eventLog.length > MAX_EVENT_LOG) eventLog.shift();
+    renderEvents(eventLog);
+    if (entry.type === 'blacklistAdd') loadBlacklist();
+    if (entry.incidentId || entry.type === 'incidentClose') loadIncidents();
+  });
+
+  onLive('update', (updateStatus) => {
+    renderUpdateBanner(updateStatus);
+    if (awaitingUpdateRestart && updateStatus.status === 'ready') {
+      // Server is about to restart — wait for it to come back
+      awaitingUpdateRestart = false;
+      stopLiveUpdates();
+      setTimeout(waitForRestart, 3000);
+    } else if (updateStatus.status === 'error') {
+      // renderUpdateBanner already shows the error and Retry button
+      awaitingUpdateRestart = false;
     }
+  });
+}
 
-    // Update pause button icon based on mpv state
-    updatePauseButton(status);
-  } catch (err) {
-    console.error('Poll error:', err);
-    pollFailures++;
-    if (pollFailures >= 2) {
-      $('#connection-lost').classList.remove('hidden');
-      const pill = $('#header-pill');
-      pill.textContent = 'Disconnected';
-      pill.className = 'status-pill pill-err';
+function onLive(type, handler) {
+  liveSource.addEventListener(type, (e) => {
+    try {
+      handler(JSON.parse(e.data));
+    } catch (err) {
+      console.error(`Live ${type} update failed:`, err);
     }
-  }
+  });
+}
+
+function stopLiveUpdates() {
+  if (liveSource) { liveSource.close(); liveSource = null; }
+  if (heartbeatCountdownTimer) { clearInterval(heartbeatCountdownTimer); heartbeatCountdownTimer = null; }
 }
 
 // --- Rendering ---
@@ -737,8 +793,12 @@ async function pollOnce() {
 const RECOVERY_LABELS = {
   none: 'All Clear',
   retryCurrent: 'Retrying Video',
-  refreshSource: 'Refreshing Source',
-  toggleVisibility: 'Toggling Source',
+  reloadPlaylist: 'Reloading Playlist',
+  skipVideo: 'Skipping Video',
+  restartMpv: 'Restarting mpv',
+  toggleSource: 'Toggling Source',
+  restartStream: 'Restarting Stream',
+  relaunchObs: 'Relaunching OBS',
   criticalAlert: 'Critical Alert',
 };
 
@@ -748,10 +808,12 @@ function renderStatus(s) {
   const obsLabel = !s.obsConnected ? 'Disconnected' : s.obsStreaming ? 'Streaming' : 'Not Live';
   const obsLevel = !s.obsConnected ? 'err' : s.obsStreaming ? 'ok' : 'warn';
   setCard('obs-status', obsLabel, obsLevel);
+  renderObsHealth(s.obsHealth);
   const recoveryLabel = RECOVERY_LABELS[s.recoveryStep] || s.recoveryStep;
   const recoveryLevel = s.recoveryStep === 'none' ? 'ok' : s.recoveryStep === 'criticalAlert' ? 'err' : 'warn';
   setCard('recovery-step', recoveryLabel, recoveryLevel);
   setCard('errors', String(s.consecutiveErrors), s.consecutiveErrors === 0 ? 'ok' : 'warn');
+  if (s.audio) renderAudio(s.audio);
 
   // Twitch card
   if (s.twitch && s.twitch.enabled) {
@@ -797,15 +859,52 @@ function renderStatus(s) {
     heartbeatCountdownTimer = setInterval(updateHeartbeatPill, 1000);
   }
 
+  renderAlertBanner(s.alert);
+  renderBreakerBanner(s.restartBreaker);
+
   // Uptime
   $('#uptime').textContent = 'Uptime: ' + formatDuration(s.uptimeMs);
 
   // Playlist info in Now Playing
-  if (s.totalPlaylists > 1) {
+  if (s.fallbackActive) {
+    $('#np-playlist').textContent = 'Fallback source';
+  } else if (s.totalPlaylists > 1) {
     $('#np-playlist').textContent = `${s.playlistIndex + 1} of ${s.totalPlaylists}`;
   } else {
     $('#np-playlist').textContent = '1 of 1';
   }
+
+  // Next scheduled playlist change
+  const next = s.nextScheduleChange;
+  if (next) {
+    const when = new Date(next.at);
+    const sameDay = when.toDateString() === new Date().toDateString();
+    const time = when.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    $('#np-schedule').textContent = `${next.playlistName} at ${sameDay ? time : when.toLocaleDateString([], { weekday: 'short' }) + ' ' + time}`;
+  } else {
+    $('#np-schedule').textContent = '-';
+  }
+
+  // mpv playback quality: drop rate over the last heartbeat, plus the file's totals
+  const pb = s.playback;
+  if (pb && pb.dropPercent !== null) {
+    const total = Math.max(0, pb.frameDrops) + Math.max(0, pb.decoderFrameDrops);
+    $('#np-drops').textContent = `${pb.dropPercent}% (${total} this video, ${pb.vfps.toFixed(1)}/${pb.containerFps.toFixed(1)} fps)`;
+  } else {
+    $('#np-drops').textContent = '-';
+  }
+  $('#np-avsync').textContent = pb && pb.avsyncMs !== null ? `${pb.avsyncMs > 0 ? '+' : ''}${pb.avsyncMs} ms` : '-';
+
+  // Adaptive quality ladder: current rung, and when it steps back up if stepped down
+  const q = s.quality;
+  if (!q || !q.enabled) {
+    $('#np-quality').textContent = q && q.rung > 0 ? q.label : 'Full (adaptive off)';
+  } else if (q.rung > 0) {
+    const up = new Date(q.stepUpAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    $('#np-quality').textContent = `${q.label} (rung ${q.rung + 1}/${q.rungCount}, stepping up at ${up} if healthy)`;
+  } else {
+    $('#np-quality').textContent = `${q.label} (rung 1/${q.rungCount})`;
+  }
 }
 
 function updateHeartbeatPill() {
@@ -828,6 +927,52 @@ function updateHeartbeatPill() {
   }
 }
 
+// OBS card detail: GetStats / GetStreamStatus figures, yellow while any alert is active
+function renderObsHealth(h) {
+  const el = $('#obs-health');
+  if (!h) {
+    el.textContent = '';
+    el.className = 'card-detail';
+    return;
+  }
+  const parts = [`CPU ${h.cpuUsage}%`, `${h.activeFps} fps`];
+  if (h.encoderSkippedPercent !== null) parts.push(`encoder skipped ${h.encoderSkippedPercent}%`);
+  if (h.renderSkippedPercent !== null) parts.push(`render missed ${h.renderSkippedPercent}%`);
+  if (h.networkDroppedPercent !== null) parts.push(`dropped ${h.networkDroppedPercent}%`);
+  if (h.streamKbps !== null) parts.push(`${h.streamKbps} kb/s`);
+  if (h.reconnecting) parts.push('reconnecting');
+  el.textContent = parts.join(' · ');
+  el.title = h.congestion !== null ? `Congestion ${Math.round(h.congestion * 100)}%` : '';
+  el.className = 'card-detail' + (h.alerts.length || h.reconnecting ? ' warn' : '');
+}
+
+// Audio card: the watched OBS input's peak (or the program mix when the input
+// isn't metered) on a -60..0 dB bar, with the silence threshold marked.
+const AUDIO_METER_FLOOR_DB = -60;
+
+function renderAudio(a) {
+  const db = a.inputDb ?? a.programDb;
+  const meterPercent = (value) => Math.max(0, Math.min(100, (1 - value / AUDIO_METER_FLOOR_DB) * 100));
+  const fill = $('#audio-meter-fill');
+  $('#audio-meter-threshold').style.left = `${meterPercent(a.thresholdDb)}%`;
+  if (a.inputMuted || a.inputVolumeMul === 0) {
+    setCard('audio-level', a.inputMuted ? 'Muted' : 'Volume 0', 'err');
+    fill.style.width = '0';
+    return;
+  }
+  if (db === null) {
+    setCard('audio-level', '-', '');
+    fill.style.width = '0';
+    return;
+  }
+  const quiet = db < a.thresholdDb;
+  setCard('audio-level', db <= -100 ? 'Silent' : `${Math.round(db)} dB`, quiet ? 'warn' : 'ok');
+  fill.style.width = `${meterPercent(db)}%`;
+  fill.className = 'audio-meter-fill' + (quiet ? ' warn' : '');
+  $('#audio-level').title = `${a.inputDb !== null ? a.inputName : 'Program mix'}`
+    + (a.lastAudibleAt ? ` — last audible ${new Date(a.lastAudibleAt).toLocaleTimeString()}` : '');
+}
+
 function setCard(id, text, cls) {
   const el = $(`#${id}`);
   el.textContent = text;
@@ -850,16 +995,155 @@ function renderNowPlaying(s, totalVideos) {
 }
 
 function renderEvents(events) {
+  renderEventChips(events);
   const container = $('#event-log');
-  if (!events.length) {
-    container.innerHTML = '<div class="event-empty">No events yet</div>';
+  // Untyped entries predate typed events; they only show when no filter is active
+  const shown = eventTypeFilter.size ? events.filter(e => eventTypeFilter.has(e.type)) : events;
+  if (!shown.length) {
+    container.innerHTML = `<div class="event-empty">${events.length ? 'No events match the filter' : 'No events yet'}</div>`;
     return;
   }
   // Show newest first
-  const reversed = [...events].reverse();
-  container.innerHTML = reversed.map(e =>
-    `<div class="event-entry"><span class="event-time">${new Date(e.timestamp).toLocaleTimeString()}</span>${escapeHtml(e.message)}</div>`
+  const reversed = [...shown].reverse();
+  container.innerHTML = reversed.map(e => {
+    const sev = e.severity && e.severity !== 'info' ? ` sev-${e.severity}` : '';
+    const type = e.type ? `<span class="event-type">${escapeHtml(eventTypeLabel(e.type))}</span>` : '';
+    return `<div class="event-entry${sev}"><span class="event-time">${new Date(e.timestamp).toLocaleTimeString()}</span>${type}${escapeHtml(e.message)}</div>`;
+  }).join('');
+}
+
+/** 'videoFreeze' → 'Video freeze' */
+function eventTypeLabel(type) {
+  const words = type.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/** One chip per event type present in the log (plus any still selected). */
+function renderEventChips(events) {
+  const container = $('#event-chips');
+  const types = new Set(eventTypeFilter);
+  for (const e of events) if (e.type) types.add(e.type);
+  const sorted = [...types].sort();
+  container.innerHTML = sorted.map(t =>
+    `<button type="button" class="event-chip${eventTypeFilter.has(t) ? ' active' : ''}" data-type="${escapeHtml(t)}">${escapeHtml(eventTypeLabel(t))}</button>`
   ).join('');
+  container.querySelectorAll('.event-chip').forEach(chip => {
+    chip.addEventListener('click', () => {
+      const t = chip.dataset.type;
+      if (eventTypeFilter.has(t)) eventTypeFilter.delete(t);
+      else eventTypeFilter.add(t);
+      renderEvents(eventLog);
+    });
+  });
+}
+
+// --- Incidents ---
+
+const INCIDENT_ROOT_LABELS = {
+  stall: 'Player stall',
+  videoFreeze: 'Video freeze',
+  outputFreeze: 'Output freeze',
+  blackScreen: 'Black screen',
+  audioSilence: 'Audio silence',
+  playbackQuality: 'Dropped frames / A/V desync',
+  nonPlaying: 'Not playing',
+  heartbeat: 'Heartbeat timeout',
+  urlRetry: 'Premature stream end',
+};
+
+const INCIDENT_ACTION_LABELS = {
+  urlRetry: 'URL retry',
+  retryCurrent: 'Retry video',
+  reloadPlaylist: 'Playlist reload',
+  skipVideo: 'Skip video',
+  restartMpv: 'mpv restart',
+  toggleSource: 'OBS source toggle',
+  restartStream: 'Stream restart',
+  relaunchObs: 'OBS relaunch',
+  criticalAlert: 'Critical alert',
+  fallback: 'Fallback source',
+};
+
+async function loadIncidents() {
+  const container = $('#incident-list');
+  if (!container) return;
+  try {
+    const { incidents } = await api('/api/incidents?limit=20');
+    renderIncidents(incidents);
+  } catch (err) {
+    container.innerHTML = `<div class="event-empty">Failed to load incidents: ${escapeHtml(err.message)}</div>`;
+  }
+}
+
+function renderIncidents(incidents) {
+  const container = $('#incident-list');
+  if (!incidents.length) {
+    container.innerHTML = '<div class="event-empty">No incidents yet</div>';
+    return;
+  }
+  // Keep expanded incidents expanded across live refreshes
+  const expanded = new Set([...container.querySelectorAll('details[open]')].map(d => d.dataset.id));
+  container.innerHTML = incidents.map(i => {
+    const ongoing = !i.endedAt;
+    const root = INCIDENT_ROOT_LABELS[i.root] || i.root;
+    const lasted = ongoing ? `ongoing for ${formatDuration(Date.now() - Date.parse(i.startedAt))}` : formatDuration(i.durationMs);
+    const fix = ongoing ? '' : ` · fixed by ${i.resolvedBy ? (INCIDENT_ACTION_LABELS[i.resolvedBy] || i.resolvedBy) : 'no action'}`;
+    const events = i.events.map(e => {
+      const sev = e.severity && e.severity !== 'info' ? ` sev-${e.severity}` : '';
+      return `<div class="event-entry${sev}"><span class="event-time">${new Date(e.timestamp).toLocaleTimeString()}</span>${escapeHtml(e.message)}</div>`;
+    }).join('');
+    const more = i.eventCount > i.events.length
+      ? `<div class="event-entry event-type">${i.eventCount - i.events.length} more in the event log</div>` : '';
+    return `<details class="incident${ongoing ? ' ongoing' : ''}" data-id="${escapeHtml(i.id)}"${expanded.has(i.id) ? ' open' : ''}>` +
+      `<summary class="event-entry"><span class="event-time">${new Date(i.startedAt).toLocaleString()}</span>` +
+      `<strong>${escapeHtml(root)}</strong> · ${escapeHtml(lasted + fix)} · ${i.eventCount} events</summary>${events}${more}</details>`;
+  }).join('');
+}
+
+// --- Video blacklist ---
+
+let blacklistInitialized = false;
+
+async function loadBlacklist() {
+  const tbody = $('#blacklist-body');
+  if (!tbody) return;
+  try {
+    const { entries } = await api('/api/blacklist');
+    $('#blacklist-empty').style.display = entries.length ? 'none' : '';
+    tbody.innerHTML = entries.map(e => {
+      const label = e.title ? `${e.title} (${e.videoId})` : e.videoId;
+      const until = e.banned ? 'Banned'
+        : e.skipUntil ? new Date(e.skipUntil).toLocaleString() : 'Not yet';
+      const ban = e.banned ? '' : `<button type="button" class="btn btn-secondary btn-small" data-action="ban" data-id="${escapeHtml(e.videoId)}">Ban</button>`;
+      return `<tr><td>${escapeHtml(label)}</td><td>${e.failures}</td><td>${escapeHtml(e.lastError)}</td><td>${escapeHtml(until)}</td>` +
+        `<td><button type="button" class="btn btn-secondary btn-small" data-action="clear" data-id="${escapeHtml(e.videoId)}">Clear</button> ${ban}</td></tr>`;
+    }).join('');
+  } catch (err) {
+    tbody.innerHTML = '';
+    $('#blacklist-empty').style.display = '';
+    $('#blacklist-empty').textContent = `Failed to load blacklist: ${err.message}`;
+  }
+}
+
+function initBlacklist() {
+  if (blacklistInitialized) return;
+  blacklistInitialized = true;
+  $('#blacklist-body').addEventListener('click', async (e) => {
+    const btn = e.target.closest('button[data-action]');
+    if (!btn) return;
+    btn.disabled = true;
+    try {
+      await api(`/api/blacklist/${btn.dataset.action}`, {
+        method: 'POST',
+        body: JSON.stringify({ videoId: btn.dataset.id }),
+      });
+    } catch (err) {
+      alert(`Failed to update blacklist: ${err.message}`);
+    }
+    loadBlacklist();
+    loadVideoList(videoListPage);
+  });
+  loadBlacklist();
 }
 
 // --- mpv diagnostic logs ---
@@ -937,7 +1221,7 @@ async function loadSettings() {
     const cfg = await api('/api/config');
     const container = $('#set-playlists-list');
     container.innerHTML = '';
-    (cfg.playlists || []).forEach(p => addSetPlaylist(p.id, p.name || ''));
+    (cfg.playlists || []).forEach(p => addSetPlaylist(p.id, p.name || '', p.type));
     $('#set-source').value = cfg.obsBrowserSourceName;
     $('#set-obs-pass').value = cfg.obsWebsocketPassword;
     $('#obs-restart-toggle').checked = cfg.obsAutoRestart || false;
@@ -1073,12 +1357,17 @@ async function handleAutostartToggle() {
 
 let webhookDefaults = null;
 let webhookSettingsLoaded = false;
+let notificationChannels = [];
+let discordRoutes = [];
+let quietHoursDays = [];
 
 const EVENT_LABELS = {
   error: 'Playback Error',
   skip: 'Video Skip',
   recovery: 'Recovery Action',
   critical: 'Critical Alert',
+  escalation: 'Critical Reminder',
+  incident: 'Incident Summary',
   resume: 'Playback Resumed',
   obsDisconnect: 'OBS Disconnected',
   obsReconnect: 'OBS Reconnected',
@@ -1086,35 +1375,13 @@ const EVENT_LABELS = {
   streamRestart: 'Stream Restarted',
   twitchMismatch: 'Twitch Mismatch',
   twitchRestart: 'Twitch Restarted',
+  scheduleSwitch: 'Scheduled Switch',
+  fallbackActivate: 'Fallback Activated',
+  fallbackRestore: 'Fallback Ended',
+  dailySummary: 'Daily Summary',
 };
 
-const EVENT_LEVELS = {
-  error: 'warn',
-  skip: 'warn',
-  recovery: 'warn',
-  critical: 'error',
-  resume: 'info',
-  obsDisconnect: 'warn',
-  obsReconnect: 'info',
-  streamDrop: 'warn',
-  streamRestart: 'info',
-  twitchMismatch: 'warn',
-  twitchRestart: 'info',
-};
 
-const PREVIEW_SAMPLE_VARS = {
-  error: { videoIndex: 3, videoId: 'dQw4w9WgXcQ', errorCode: 'HTTP error 403', attempt: 2 },
-  skip: { videoIndex: 3, videoId: 'dQw4w9WgXcQ', reason: 'Error 150 (unavailable/not embeddable)' },
-  recovery: { step: 'refreshSource' },
-  critical: { message: 'All recovery steps exhausted. Player may be unresponsive.' },
-  resume: { videoIndex: 4, videoId: 'abc123def' },
-  obsDisconnect: {},
-  obsReconnect: {},
-  streamDrop: { attempt: 1, maxAttempts: 5 },
-  streamRestart: { attempts: 2 },
-  twitchMismatch: { channel: 'mychannel' },
-  twitchRestart: { channel: 'mychannel' },
-};
 
 async function loadWebhookSettings() {
   if (webhookSettingsLoaded) return;
@@ -1133,7 +1400,19 @@ async function loadWebhookSettings() {
     }
     $('#wh-bot-name').value = discord.botName || '';
     $('#wh-avatar-url').value = discord.avatarUrl || '';
-    $('#wh-role-ping').value = discord.rolePing || '';
+
+    // Routing & quiet hours
+    const quiet = discord.quietHours || {};
+    quietHoursDays = quiet.days || [];
+    $('#wh-quiet-enabled').checked = !!quiet.enabled;
+    $('#wh-quiet-start').value = quiet.start || '23:00';
+    $('#wh-quiet-end').value = quiet.end || '07:00';
+    // savedIndex lets the server restore masked webhook URLs from the right route
+    discordRoutes = (discord.routes || []).map((route, i) => ({ ...route, savedIndex: i }));
+    renderDiscordRoutes();
+    const statusMessage = discord.statusMessage || {};
+    $('#wh-status-enabled').checked = !!statusMessage.enabled;
+    $('#wh-status-interval').value = String(statusMessage.updateIntervalMs || 60000);
 
     // Events
     const events = discord.events || {};
@@ -1144,7 +1423,14 @@ async function loadWebhookSettings() {
 
     // Templates
     const templates = discord.templates || {};
-    buildTemplateEditors(defaults.templates, defaults.variables, templates);
+    $('#wh-common-vars').textContent = defaults.commonVariables.map((v) => `{${v}}`).join(', ');
+    buildTemplateEditors(defaults.templates, defaults.variables, templates, discord.mentions || {},
+      { ...defaults.embeds, ...discord.embeds });
+
+    // Additional channels
+    // savedIndex lets the server restore masked secrets from the right channel
+    notificationChannels = (cfg.notifications || []).map((ch, i) => ({ ...ch, savedIndex: i }));
+    renderNotificationChannels();
 
     // Preview
     updatePreview();
@@ -1154,7 +1440,7 @@ async function loadWebhookSettings() {
   }
 }
 
-function buildTemplateEditors(defaults, variables, current) {
+function buildTemplateEditors(defaults, variables, current, mentions, embeds) {
   const container = $('#wh-templates-container');
   container.innerHTML = '';
   for (const [key, label] of Object.entries(EVENT_LABELS)) {
@@ -1196,6 +1482,34 @@ function buildTemplateEditors(defaults, variables, current) {
     textarea.addEventListener('input', () => updatePreview());
     group.appendChild(textarea);
 
+    // Mentions
+    const mentionInput = document.createElement('input');
+    mentionInput.type = 'text';
+    mentionInput.className = 'wh-mention-input';
+    mentionInput.id = `wh-mention-${key}`;
+    mentionInput.placeholder = 'Mentions: role IDs, user:<id>, here, everyone (comma-separated)';
+    mentionInput.value = (mentions[key] || []).join(', ');
+    group.appendChild(mentionInput);
+
+    // Embed extras: video thumbnail / link and templated fields
+    const embed = embeds[key] || { fields: [], thumbnail: false, link: false };
+    const embedRow = document.createElement('div');
+    embedRow.className = 'wh-embed-row';
+    embedRow.innerHTML = `
+      <label class="nc-event"><input type="checkbox" id="wh-thumb-${key}"${embed.thumbnail ? ' checked' : ''}> Video thumbnail</label>
+      <label class="nc-event"><input type="checkbox" id="wh-link-${key}"${embed.link ? ' checked' : ''}> Link to video</label>`;
+    group.appendChild(embedRow);
+    const fieldsInput = document.createElement('textarea');
+    fieldsInput.className = 'wh-template-input wh-embed-fields';
+    fieldsInput.id = `wh-fields-${key}`;
+    fieldsInput.rows = 1;
+    fieldsInput.placeholder = 'Extra fields, e.g. Now playing: {videoTitle|truncate:60}';
+    fieldsInput.value = embed.fields.map((f) => `${f.name}: ${f.value}`).join('\n');
+    group.appendChild(fieldsInput);
+    for (const el of [fieldsInput, ...embedRow.querySelectorAll('input')]) {
+      el.addEventListener('input', () => updatePreview());
+    }
+
     container.appendChild(group);
   }
 }
@@ -1222,56 +1536,79 @@ function resetTemplate(eventType) {
   }
 }
 
+/** Embed extras for one event as currently edited (`Name: value` per line). */
+function readEmbed(key) {
+  const fieldsInput = $(`#wh-fields-${key}`);
+  if (!fieldsInput) return undefined;
+  const fields = fieldsInput.value.split('\n').map((line) => {
+    const sep = line.indexOf(': ');
+    return sep > 0 ? { name: line.slice(0, sep).trim(), value: line.slice(sep + 2).trim(), inline: true } : null;
+  }).filter((f) => f && f.name && f.value);
+  return { fields, thumbnail: $(`#wh-thumb-${key}`).checked, link: $(`#wh-link-${key}`).checked };
+}
+
+let previewTimer = null;
+let previewSeq = 0;
+
+// Rendered server-side (same template engine and fields as real alerts), debounced while typing
 function updatePreview() {
+  clearTimeout(previewTimer);
+  previewTimer = setTimeout(renderPreview, 250);
+}
+
+async function renderPreview() {
   const selectEl = $('#wh-preview-select');
   if (!selectEl) return;
   const eventType = selectEl.value;
-  const level = EVENT_LEVELS[eventType] || 'info';
-  const emoji = { info: '\u2139\uFE0F', warn: '\u26A0\uFE0F', error: '\uD83D\uDEA8' };
-  const colors = { info: '#3498db', warn: '#f1c40f', error: '#e74c3c' };
-
-  // Get template
   const textarea = $(`#wh-tpl-${eventType}`);
-  const template = textarea ? textarea.value : '';
-  const vars = PREVIEW_SAMPLE_VARS[eventType] || {};
-
-  // Render template
-  const rendered = template.replace(/\{(\w+)\}/g, (match, key) => {
-    return key in vars ? String(vars[key]) : match;
-  });
-
-  // Bot name
-  const botName = $('#wh-bot-name') ? $('#wh-bot-name').value.trim() : '';
-  const titleName = botName || 'StreamLoop';
-
-  // Update preview elements
-  $('#wh-preview-bar').style.background = colors[level];
-  $('#wh-preview-title').textContent = `${emoji[level]} ${titleName}`;
-  $('#wh-preview-desc').textContent = rendered;
+  const seq = ++previewSeq;
+  let preview;
+  let error = null;
+  try {
+    preview = await api('/api/discord/preview', {
+      method: 'POST',
+      body: JSON.stringify({ event: eventType, template: textarea ? textarea.value : undefined, embed: readEmbed(eventType) }),
+    });
+  } catch (err) {
+    error = err.message;
+  }
+  if (seq !== previewSeq) return;
 
-  // Fields for error/critical
+  const colors = { info: '#3498db', warn: '#f1c40f', error: '#e74c3c' };
+  const desc = $('#wh-preview-desc');
   const fieldsContainer = $('#wh-preview-fields');
+  const thumb = $('#wh-preview-thumb');
   fieldsContainer.innerHTML = '';
-  if (eventType === 'error') {
-    const fieldData = [
-      { name: 'Reason', value: String(vars.errorCode || '') },
-      { name: 'Video', value: `#${vars.videoIndex} (${vars.videoId})` },
-      { name: 'Attempt', value: String(vars.attempt || '') },
-    ];
-    for (const f of fieldData) {
-      const fieldEl = document.createElement('div');
-      fieldEl.innerHTML = `<div class="wh-preview-field-name">${escapeHtml(f.name)}</div><div class="wh-preview-field-value">${escapeHtml(f.value)}</div>`;
-      fieldsContainer.appendChild(fieldEl);
-    }
-  } else if (eventType === 'critical') {
+  if (error) {
+    desc.textContent = error;
+    desc.classList.add('invalid');
+    thumb.classList.add('hidden');
+    return;
+  }
+  desc.classList.remove('invalid');
+
+  // Bot name replaces "StreamLoop" after the level emoji
+  const botName = $('#wh-bot-name') ? $('#wh-bot-name').value.trim() : '';
+  const title = $('#wh-preview-title');
+  title.textContent = botName ? preview.title.replace(/StreamLoop$/, botName) : preview.title;
+  title.classList.toggle('linked', !!preview.url);
+  title.title = preview.url || '';
+
+  $('#wh-preview-bar').style.background = colors[preview.level];
+  desc.textContent = preview.description;
+  for (const f of preview.fields || []) {
     const fieldEl = document.createElement('div');
-    fieldEl.style.gridColumn = '1 / -1';
-    fieldEl.innerHTML = `<div class="wh-preview-field-name">Status</div><div class="wh-preview-field-value">${escapeHtml(String(vars.message || ''))}</div>`;
+    if (!f.inline) fieldEl.style.gridColumn = '1 / -1';
+    fieldEl.innerHTML = `<div class="wh-preview-field-name">${escapeHtml(f.name)}</div><div class="wh-preview-field-value">${escapeHtml(f.value)}</div>`;
     fieldsContainer.appendChild(fieldEl);
   }
-
-  // Footer
-  $('#wh-preview-footer').textContent = `Dashboard: http://localhost:7654/admin | Uptime: 2h 15m | v1.0.0`;
+  if (preview.thumbnailUrl) {
+    thumb.src = preview.thumbnailUrl;
+    thumb.classList.remove('hidden');
+  } else {
+    thumb.classList.add('hidden');
+  }
+  $('#wh-preview-footer').textContent = preview.footer;
 }
 
 async function handleWebhookSave() {
@@ -1280,9 +1617,21 @@ async function handleWebhookSave() {
     webhookUrl: $('#wh-url').value.trim() || '********',
     botName: $('#wh-bot-name').value.trim(),
     avatarUrl: $('#wh-avatar-url').value.trim(),
-    rolePing: $('#wh-role-ping').value.trim(),
     events: {},
     templates: {},
+    mentions: {},
+    embeds: {},
+    routes: readDiscordRoutes(),
+    quietHours: {
+      enabled: $('#wh-quiet-enabled').checked,
+      start: $('#wh-quiet-start').value || '23:00',
+      end: $('#wh-quiet-end').value || '07:00',
+      days: quietHoursDays,
+    },
+    statusMessage: {
+      enabled: $('#wh-status-enabled').checked,
+      updateIntervalMs: Number($('#wh-status-interval').value),
+    },
   };
 
   for (const key of Object.keys(EVENT_LABELS)) {
@@ -1290,6 +1639,11 @@ async function handleWebhookSave() {
     if (el) discord.events[key] = el.checked;
     const tpl = $(`#wh-tpl-${key}`);
     if (tpl) discord.templates[key] = tpl.value;
+    const mention = $(`#wh-mention-${key}`);
+    const list = mention ? mention.value.split(',').map((m) => m.trim()).filter(Boolean) : [];
+    if (list.length) discord.mentions[key] = list;
+    const embed = readEmbed(key);
+    if (embed) discord.embeds[key] = embed;
   }
 
   try {
@@ -1298,7 +1652,7 @@ async function handleWebhookSave() {
     await api('/api/config', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ discord }),
+      body: JSON.stringify({ discord, notifications: readNotificationChannels() }),
     });
     btn.textContent = 'Saved!';
     webhookSettingsLoaded = false;
@@ -1325,10 +1679,203 @@ async function testDiscordWebhook() {
   }
 }
 
+// --- Discord routes ---
+
+const ROUTE_LEVELS = { error: 'Critical', warn: 'Warning', info: 'Info' };
+
+function renderDiscordRoutes() {
+  const list = $('#wh-routes-list');
+  list.innerHTML = '';
+  discordRoutes.forEach((route, i) => {
+    const levels = route.levels || [];
+    const group = document.createElement('div');
+    group.className = 'wh-template-group wh-route';
+    group.dataset.index = String(i);
+    group.innerHTML = `
+      <div class="form-group"><input type="text" class="wh-route-name" placeholder="Name, e.g. on-call" value="${escapeHtml(route.name || '')}"></div>
+      <div class="form-group"><input type="url" class="wh-route-url" placeholder="https://discord.com/api/webhooks/..." value="${escapeHtml(route.webhookUrl || '')}"></div>
+      <div class="wh-chips">
+        ${Object.entries(ROUTE_LEVELS).map(([level, label]) =>
+          `<label class="nc-event"><input type="checkbox" data-level="${level}"${levels.includes(level) ? ' checked' : ''}> ${label}</label>`).join('')}
+      </div>
+      <button type="button" class="btn-reset" data-action="remove">Remove</button>`;
+    group.querySelector('[data-action="remove"]').addEventListener('click', () => {
+      discordRoutes = readDiscordRoutes();
+      discordRoutes.splice(i, 1);
+      renderDiscordRoutes();
+    });
+    list.appendChild(group);
+  });
+}
+
+function addDiscordRoute() {
+  discordRoutes = readDiscordRoutes();
+  discordRoutes.push({ name: '', webhookUrl: '', levels: ['error'], events: [] });
+  renderDiscordRoutes();
+}
+
+/** Event filters aren't edited here, so they round-trip as loaded. */
+function readDiscordRoutes() {
+  return [...document.querySelectorAll('#wh-routes-list .wh-route')].map((group) => {
+    const prev = discordRoutes[Number(group.dataset.index)] || {};
+    const route = {
+      name: group.querySelector('.wh-route-name').value.trim(),
+      webhookUrl: group.querySelector('.wh-route-url').value.trim(),
+      levels: [...group.querySelectorAll('[data-level]')].filter((el) => el.checked).map((el) => el.dataset.level),
+      events: prev.events || [],
+    };
+    if (prev.savedIndex !== undefined) route.savedIndex = prev.savedIndex;
+    return route;
+  });
+}
+
+// --- Additional notification channels ---
+
+const CHANNEL_TYPES = {
+  discord: { label: 'Discord', url: 'Webhook URL', token: null, chatId: false },
+  slack: { label: 'Slack', url: 'Incoming webhook URL', token: null, chatId: false },
+  telegram: { label: 'Telegram', url: 'API base URL (optional)', token: 'Bot token', chatId: true },
+  ntfy: { label: 'ntfy', url: 'Topic URL, e.g. https://ntfy.sh/my-stream', token: 'Access token (optional)', chatId: false },
+  gotify: { label: 'Gotify', url: 'Server URL', token: 'App token', chatId: false },
+  webhook: { label: 'JSON Webhook', url: 'Endpoint URL', token: 'Bearer token (optional)', chatId: false },
+};
+
+function renderNotificationChannels() {
+  const list = $('#nc-list');
+  list.innerHTML = '';
+  $('#nc-empty').style.display = notificationChannels.length ? 'none' : '';
+  notificationChannels.forEach((ch, i) => {
+    const spec = CHANNEL_TYPES[ch.type] || CHANNEL_TYPES.webhook;
+    const events = ch.events || {};
+    const group = document.createElement('div');
+    group.className = 'wh-template-group nc-channel';
+    group.dataset.index = String(i);
+    group.innerHTML = `
+      <div class="wh-template-header">
+        <select class="wh-preview-select nc-type">
+          ${Object.entries(CHANNEL_TYPES).map(([type, t]) =>
+            `<option value="${type}"${type === ch.type ? ' selected' : ''}>${t.label}</option>`).join('')}
+        </select>
+        <label class="toggle"><input type="checkbox" class="nc-enabled"${ch.enabled !== false ? ' checked' : ''}><span class="toggle-slider"></span></label>
+      </div>
+      <div class="form-group"><input type="text" class="nc-name" placeholder="Name (optional)" value="${escapeHtml(ch.name || '')}"></div>
+      <div class="form-group"><input type="text" class="nc-url" placeholder="${escapeHtml(spec.url)}" value="${escapeHtml(ch.url || '')}"></div>
+      ${spec.token ? `<div class="form-group"><input type="password" class="nc-token" placeholder="${escapeHtml(spec.token)}" value="${escapeHtml(ch.token || '')}"></div>` : ''}
+      ${spec.chatId ? `<div class="form-group"><input type="text" class="nc-chat-id" placeholder="Chat ID" value="${escapeHtml(ch.chatId || '')}"></div>` : ''}
+      <div class="wh-chips">
+        ${Object.entries(EVENT_LABELS).map(([key, label]) =>
+          `<label class="nc-event"><input type="checkbox" data-event="${key}"${events[key] !== false ? ' checked' : ''}> ${escapeHtml(label)}</label>`).join('')}
+      </div>
+      <div class="obs-path-row">
+        <button type="button" class="btn btn-secondary btn-small" data-action="test">Test</button>
+        <button type="button" class="btn-reset" data-action="remove">Remove</button>
+      </div>
+      <div class="obs-path-result nc-test-result" style="display:none;"></div>`;
+    group.querySelector('.nc-type').addEventListener('change', (e) => {
+      notificationChannels = readNotificationChannels();
+      notificationChannels[i].type = e.target.value;
+      renderNotificationChannels();
+    });
+    group.querySelector('[data-action="remove"]').addEventListener('click', () => {
+      notificationChannels = readNotificationChannels();
+      notificationChannels.splice(i, 1);
+      renderNotificationChannels();
+    });
+    group.querySelector('[data-action="test"]').addEventListener('click', () => testNotificationChannel(ch.savedIndex, group));
+    list.appendChild(group);
+  });
+}
+
+function addNotificationChannel() {
+  notificationChannels = readNotificationChannels();
+  notificationChannels.push({ type: 'slack', name: '', enabled: true, url: '', token: '', chatId: '' });
+  renderNotificationChannels();
+}
+
+/** Current editor state; templates aren't edited here so they round-trip as loaded. */
+function readNotificationChannels() {
+  return [...document.querySelectorAll('#nc-list .nc-channel')].map((group) => {
+    const prev = notificationChannels[Number(group.dataset.index)] || {};
+    const events = {};
+    group.querySelectorAll('[data-event]').forEach((el) => { events[el.dataset.event] = el.checked; });
+    const channel = {
+      type: group.querySelector('.nc-type').value,
+      name: group.querySelector('.nc-name').value.trim(),
+      enabled: group.querySelector('.nc-enabled').checked,
+      url: group.querySelector('.nc-url').value.trim(),
+      token: group.querySelector('.nc-token')?.value.trim() ?? '',
+      chatId: group.querySelector('.nc-chat-id')?.value.trim() ?? '',
+      events,
+    };
+    if (prev.templates) channel.templates = prev.templates;
+    if (prev.savedIndex !== undefined) channel.savedIndex = prev.savedIndex;
+    return channel;
+  });
+}
+
+/** `index` is the channel's position in the saved config; unsaved channels can't be tested yet. */
+async function testNotificationChannel(index, group) {
+  const resultEl = group.querySelector('.nc-test-result');
+  resultEl.style.display = 'block';
+  if (index === undefined) {
+    resultEl.textContent = 'Save this channel before testing it.';
+    resultEl.className = 'obs-path-result nc-test-result invalid';
+    return;
+  }
+  resultEl.textContent = 'Sending test message...';
+  resultEl.className = 'obs-path-result nc-test-result';
+  try {
+    await api('/api/notifications/test', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ index }),
+    });
+    resultEl.textContent = 'Test message delivered.';
+    resultEl.className = 'obs-path-result nc-test-result valid';
+  } catch (err) {
+    resultEl.textContent = err.message || 'Failed to send test message.';
+    resultEl.className = 'obs-path-result nc-test-result invalid';
+  }
+}
+
 // --- Playback tab ---
 
 let playbackSettingsLoaded = false;
 
+/** Numeric settings of each detector besides its mode; inputs are #pb-det-<key>-<field>. */
+const DETECTOR_FIELDS = {
+  stall: ['heartbeats'],
+  videoFreeze: ['heartbeats', 'frozenBitrate', 'maxRetries'],
+  outputFreeze: ['hashDistance'],
+  blackScreen: ['maxLuma', 'maxStdDev'],
+  audioSilence: ['thresholdDb', 'graceMs'],
+  playbackQuality: ['maxDropPercent', 'maxAvsyncMs', 'heartbeats'],
+  nonPlaying: ['heartbeats'],
+  heartbeat: [],
+  prematureEof: ['maxRetries'],
+};
+
+const IGNORE_REGION_FIELDS = ['x', 'y', 'width', 'height'];
+
+/** The output checks' ignore region, or null while its width or height is empty/0. */
+function readIgnoreRegion() {
+  const region = {};
+  for (const field of IGNORE_REGION_FIELDS) region[field] = Number($(`#pb-ignore-${field}`).value) || 0;
+  return region.width > 0 && region.height > 0 ? region : null;
+}
+
+function readDetectorSettings() {
+  const detectors = {};
+  for (const [key, fields] of Object.entries(DETECTOR_FIELDS)) {
+    detectors[key] = { mode: $(`#pb-det-${key}-mode`).value };
+    for (const field of fields) {
+      detectors[key][field] = Number($(`#pb-det-${key}-${field}`).value);
+    }
+  }
+  detectors.audioSilence.inputName = $('#pb-det-audioSilence-inputName').value.trim();
+  return detectors;
+}
+
 async function loadPlaybackSettings() {
   if (playbackSettingsLoaded) return;
   try {
@@ -1337,11 +1884,23 @@ async function loadPlaybackSettings() {
     $('#pb-max-errors').value = String(cfg.maxConsecutiveErrors || 3);
     $('#pb-output-toggle').checked = cfg.outputCheckEnabled !== false;
     $('#pb-output-window').value = String(cfg.outputFreezeWindowMs || 30000);
+    for (const field of IGNORE_REGION_FIELDS) {
+      $(`#pb-ignore-${field}`).value = cfg.outputIgnoreRegion ? String(cfg.outputIgnoreRegion[field]) : '';
+    }
     // ?? not ||: 0 (disabled) is a valid value that must not fall back to the default.
     $('#pb-url-refresh').value = String(cfg.proactiveUrlRefreshMs ?? 19800000);
     $('#pb-refresh-interval').value = String(cfg.sourceRefreshIntervalMs || 0);
+    $('#pb-event-retention').value = String(cfg.eventRetentionDays || 7);
     $('#pb-ytdl-cookies').value = cfg.ytdlCookiesFromBrowser || '';
     $('#pb-ytdl-player-client').value = cfg.ytdlPlayerClient ?? '';
+    for (const [key, fields] of Object.entries(DETECTOR_FIELDS)) {
+      const detector = cfg.detectors?.[key] || {};
+      $(`#pb-det-${key}-mode`).value = detector.mode || 'recover';
+      for (const field of fields) {
+        $(`#pb-det-${key}-${field}`).value = String(detector[field] ?? '');
+      }
+    }
+    $('#pb-det-audioSilence-inputName').value = cfg.detectors?.audioSilence?.inputName || '';
     playbackSettingsLoaded = true;
   } catch (err) {
     console.error('Failed to load playback settings:', err);
@@ -1355,10 +1914,13 @@ async function handlePlaybackSave() {
     maxConsecutiveErrors: Number($('#pb-max-errors').value),
     outputCheckEnabled: $('#pb-output-toggle').checked,
     outputFreezeWindowMs: Number($('#pb-output-window').value),
+    outputIgnoreRegion: readIgnoreRegion(),
     proactiveUrlRefreshMs: Number($('#pb-url-refresh').value),
     sourceRefreshIntervalMs: Number($('#pb-refresh-interval').value),
+    eventRetentionDays: Number($('#pb-event-retention').value),
     ytdlCookiesFromBrowser: $('#pb-ytdl-cookies').value.trim(),
     ytdlPlayerClient: $('#pb-ytdl-player-client').value.trim(),
+    detectors: readDetectorSettings(),
   };
   try {
     btn.disabled = true;
@@ -1425,6 +1987,72 @@ function showToast(message, type = 'error') {
   }, 4000);
 }
 
+// --- Critical alert banner ---
+
+let activeAlertId = null;
+
+function renderAlertBanner(alert) {
+  const banner = $('#alert-banner');
+  activeAlertId = alert ? alert.id : null;
+  if (!alert) {
+    banner.classList.add('hidden');
+    return;
+  }
+  banner.classList.remove('hidden');
+  const openFor = formatDuration(Date.now() - Date.parse(alert.openedAt));
+  const btn = $('#alert-ack-btn');
+  if (alert.acknowledgedAt) {
+    $('#alert-banner-text').textContent =
+      `Critical alert open for ${openFor} — acknowledged by ${alert.acknowledgedBy}: ${alert.message}`;
+    btn.classList.add('hidden');
+  } else {
+    const reminders = alert.escalations > 0 ? ` (${alert.escalations} reminder${alert.escalations === 1 ? '' : 's'} sent)` : '';
+    $('#alert-banner-text').textContent = `Critical alert open for ${openFor}${reminders}: ${alert.message}`;
+    btn.classList.remove('hidden');
+  }
+}
+
+async function acknowledgeAlert() {
+  if (!activeAlertId) return;
+  const by = prompt('Acknowledge as (your name):', '');
+  if (by === null) return;
+  try {
+    const data = await api(`/api/alerts/${encodeURIComponent(activeAlertId)}/ack`, {
+      method: 'POST',
+      body: JSON.stringify({ by }),
+    });
+    renderAlertBanner(data.alert);
+    showToast('Alert acknowledged — reminders stopped', 'success');
+  } catch (err) {
+    showToast('Acknowledge failed: ' + err.message);
+  }
+}
+
+// --- Restart storm banner ---
+
+function renderBreakerBanner(breaker) {
+  const banner = $('#breaker-banner');
+  if (!breaker || breaker.state === 'closed') {
+    banner.classList.add('hidden');
+    return;
+  }
+  banner.classList.remove('hidden');
+  const since = formatDuration(Date.now() - Date.parse(breaker.trippedAt));
+  $('#breaker-banner-text').textContent = breaker.state === 'open'
+    ? `Restart storm for ${since} — automatic mpv restarts paused, next try in ${formatDuration(Math.max(0, Date.parse(breaker.retryAt) - Date.now()))}`
+    : `Restart storm for ${since} — trying one mpv restart`;
+}
+
+async function resetRestartBreaker() {
+  try {
+    const data = await api('/api/restart-breaker/reset', { method: 'POST' });
+    renderBreakerBanner(data.restartBreaker);
+    showToast('Restart breaker reset — automatic restarts resumed', 'success');
+  } catch (err) {
+    showToast('Reset failed: ' + err.message);
+  }
+}
+
 // --- Update banner ---
 
 function renderUpdateBanner(status) {
@@ -1469,37 +2097,17 @@ async function handleUpdate() {
   btn.textContent = 'Starting...';
 
   try {
+    // Progress arrives over the live stream; flag it so `ready` triggers the reload
+    awaitingUpdateRestart = true;
     await api('/api/update/apply', { method: 'POST' });
-    // Server responds immediately; poll status for progress
-    pollUpdateProgress();
   } catch (err) {
+    awaitingUpdateRestart = false;
     showToast('Update failed: ' + err.message);
     btn.disabled = false;
     btn.textContent = 'Retry';
   }
 }
 
-async function pollUpdateProgress() {
-  try {
-    const status = await api('/api/update/status');
-    renderUpdateBanner(status);
-    if (status.status === 'ready') {
-      // Server is about to restart — wait for it to come back
-      setTimeout(waitForRestart, 3000);
-      return;
-    }
-    if (status.status === 'error') {
-      // renderUpdateBanner already shows the error and Retry button
-      return;
-    }
-    // Still downloading/extracting — keep polling
-    setTimeout(pollUpdateProgress, 1500);
-  } catch {
-    // Server went down (restarting) — switch to restart polling
-    setTimeout(waitForRestart, 2000);
-  }
-}
-
 let restartAttempts = 0;
 async function waitForRestart() {
   restartAttempts++;
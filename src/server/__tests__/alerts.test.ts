@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AlertManager } from '../alerts.js';
+import type { Notifier } from '../notifier.js';
+
+vi.mock('../logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+const config = { enabled: true, intervalMs: 60_000, levels: [['111'], ['here', '111']] };
+
+function makeNotifier() {
+  return { notifyEscalation: vi.fn(async () => {}) } as unknown as Notifier & {
+    notifyEscalation: ReturnType<typeof vi.fn>;
+  };
+}
+
+describe('AlertManager', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.parse('2026-06-01T12:00:00Z'));
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reminds every interval with widening mentions until resolved', async () => {
+    const notifier = makeNotifier();
+    const alerts = new AlertManager(config, () => notifier);
+    const events: string[] = [];
+    alerts.onEvent((type) => events.push(type));
+
+    const alert = alerts.open('All recovery steps exhausted');
+    expect(alerts.open('again').id).toBe(alert.id);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(notifier.notifyEscalation).toHaveBeenLastCalledWith('All recovery steps exhausted', 60_000, 1, ['111']);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(notifier.notifyEscalation).toHaveBeenLastCalledWith('All recovery steps exhausted', 120_000, 2, ['111', 'here']);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(notifier.notifyEscalation).toHaveBeenLastCalledWith('All recovery steps exhausted', 180_000, 3, ['111', 'here']);
+    expect(events).toEqual(['alertEscalate', 'alertEscalate', 'alertEscalate']);
+
+    alerts.resolve();
+    expect(alerts.getActive()).toBeNull();
+    expect(alerts.list()[0]).toMatchObject({ id: alert.id, escalations: 3, resolvedAt: '2026-06-01T12:03:00.000Z' });
+    await vi.advanceTimersByTimeAsync(300_000);
+    expect(notifier.notifyEscalation).toHaveBeenCalledTimes(3);
+  });
+
+  it('stops reminding once acknowledged and logs who acknowledged', async () => {
+    const notifier = makeNotifier();
+    const alerts = new AlertManager(config, () => notifier);
+    const onEvent = vi.fn();
+    alerts.onEvent(onEvent);
+    const alert = alerts.open('Stream is down');
+
+    await vi.advanceTimersByTimeAsync(90_000);
+    expect(alerts.acknowledge('not-the-alert', 'alice')).toBeNull();
+    const acked = alerts.acknowledge(alert.id, 'alice');
+    expect(acked).toMatchObject({ acknowledgedBy: 'alice', acknowledgedAt: '2026-06-01T12:01:30.000Z' });
+    expect(onEvent).toHaveBeenLastCalledWith('alertAck', 'Critical alert acknowledged by alice', {
+      detail: { alertId: alert.id, acknowledgedBy: 'alice', acknowledgedAt: '2026-06-01T12:01:30.000Z', openForMs: 90_000 },
+    });
+
+    await vi.advanceTimersByTimeAsync(600_000);
+    expect(notifier.notifyEscalation).toHaveBeenCalledTimes(1);
+    // Acknowledged but still open until recovery resolves it
+    expect(alerts.getActive()?.id).toBe(alert.id);
+  });
+
+  it('does not remind when escalation is disabled', async () => {
+    const notifier = makeNotifier();
+    const alerts = new AlertManager({ ...config, enabled: false }, () => notifier);
+    alerts.open('Stream is down');
+    await vi.advanceTimersByTimeAsync(600_000);
+    expect(notifier.notifyEscalation).not.toHaveBeenCalled();
+  });
+});
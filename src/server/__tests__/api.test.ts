@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createApiRouter, type ApiDependencies } from '../api.js';
+import { saveConfig } from '../config.js';
+import type { NotifierHub } from '../notifier.js';
+import type { AppConfig, NotificationChannelConfig } from '../types.js';
+
+vi.mock('../logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../config.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../config.js')>(),
+  saveConfig: vi.fn(),
+}));
+
+const TOKEN = 'test-token';
+
+function channel(overrides: Partial<NotificationChannelConfig>): NotificationChannelConfig {
+  return { type: 'slack', name: '', enabled: true, url: '', token: '', chatId: '', events: {}, ...overrides } as NotificationChannelConfig;
+}
+
+/** Just the parts of the config the routes under test read. */
+function makeConfig(overrides: Partial<AppConfig> = {}): AppConfig {
+  return {
+    obsWebsocketPassword: '',
+    twitchClientSecret: '',
+    discord: { webhookUrl: '', routes: [] },
+    notifications: [],
+    ...overrides,
+  } as unknown as AppConfig;
+}
+
+describe('API router', () => {
+  let server: Server;
+  let config: AppConfig;
+  let deps: ApiDependencies;
+
+  beforeEach(async () => {
+    config = makeConfig();
+    vi.mocked(saveConfig).mockImplementation((body) => ({ ...config, ...body }) as AppConfig);
+    const app = express();
+    app.use(express.json());
+    deps = {
+      getConfig: () => config,
+      reloadConfig: vi.fn(async () => {}),
+      apiToken: TOKEN,
+    } as unknown as ApiDependencies;
+    app.use('/api', createApiRouter(deps));
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    vi.mocked(saveConfig).mockReset();
+  });
+
+  async function post(path: string, body: unknown) {
+    const { port } = server.address() as AddressInfo;
+    const res = await fetch(`http://127.0.0.1:${port}/api${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-api-token': TOKEN },
+      body: JSON.stringify(body),
+    });
+    return { status: res.status, body: await res.json() };
+  }
+
+  describe('POST /config', () => {
+    it('keeps the second route\'s webhook when the first of two unnamed routes is deleted', async () => {
+      const route = { name: '', levels: ['error'], events: [] };
+      config = makeConfig({
+        discord: {
+          webhookUrl: '',
+          routes: [
+            { ...route, webhookUrl: 'https://discord.com/api/webhooks/first' },
+            { ...route, webhookUrl: 'https://discord.com/api/webhooks/second' },
+          ],
+        } as unknown as AppConfig['discord'],
+      });
+
+      const res = await post('/config', {
+        discord: { routes: [{ ...route, webhookUrl: '********', savedIndex: 1 }, { ...route, webhookUrl: '********' }] },
+      });
+
+      expect(res.status).toBe(200);
+      expect(vi.mocked(saveConfig).mock.calls[0][0].discord!.routes).toEqual([
+        { ...route, webhookUrl: 'https://discord.com/api/webhooks/second' },
+        // A new route can't inherit a saved secret
+        { ...route, webhookUrl: '' },
+      ]);
+    });
+
+    it('restores masked channel secrets from the channel they were loaded with', async () => {
+      config = makeConfig({
+        notifications: [
+          channel({ url: 'https://hooks.slack.com/first' }),
+          channel({ type: 'gotify', url: 'https://gotify.example', token: 'second-token' }),
+          channel({ url: 'https://hooks.slack.com/third' }),
+        ],
+      });
+
+      // The first channel was deleted, the third changed type and one was added
+      const res = await post('/config', {
+        notifications: [
+          { ...channel({ type: 'gotify', url: 'https://gotify.example', token: '********' }), savedIndex: 1 },
+          { ...channel({ type: 'webhook', url: '********' }), savedIndex: 2 },
+          channel({ url: '********' }),
+        ],
+      });
+
+      expect(res.status).toBe(200);
+      const saved = vi.mocked(saveConfig).mock.calls[0][0].notifications!;
+      expect(saved).toEqual([
+        channel({ type: 'gotify', url: 'https://gotify.example', token: 'second-token' }),
+        channel({ type: 'webhook', url: '' }),
+        channel({ url: '' }),
+      ]);
+      expect(res.body.config.notifications[0]).toMatchObject({ url: '********', token: '********' });
+    });
+  });
+
+  describe('POST /notifications/test', () => {
+    it('reports whether the channel actually delivered the test message', async () => {
+      const sendTest = vi.fn()
+        .mockResolvedValueOnce({ ok: true })
+        .mockResolvedValueOnce({ ok: false, error: 'HTTP 404' })
+        .mockResolvedValueOnce({ ok: false, error: 'Gotify is disabled or incomplete', disabled: true });
+      deps.getNotifier = () => ({ channels: [{ sendTest }] }) as unknown as NotifierHub;
+
+      expect(await post('/notifications/test', { index: 0 })).toEqual({ status: 200, body: { ok: true } });
+      expect(await post('/notifications/test', { index: 0 })).toEqual({ status: 502, body: { error: 'HTTP 404' } });
+      expect(await post('/notifications/test', { index: 0 }))
+        .toEqual({ status: 400, body: { error: 'Gotify is disabled or incomplete' } });
+      expect((await post('/notifications/test', { index: 1 })).status).toBe(400);
+    });
+  });
+});
@@ -62,6 +62,8 @@ describe('loadConfig', () => {
     expect(cfg.discord.webhookUrl).toBe('');
     expect(cfg.obsWebsocketPassword).toBe('');
     expect(cfg.ytdlPlayerClient).toBe('web_safari');
+    expect(cfg.eventRetentionDays).toBe(7);
+    expect(cfg.blacklist).toEqual({ enabled: true, failureThreshold: 2, ttlMs: 86400000 });
   });
 
   it('throws on missing required fields', () => {
@@ -91,6 +93,56 @@ describe('loadConfig', () => {
     expect(cfg.outputFreezeWindowMs).toBe(30000);
   });
 
+  it('defaults every detector to recover and fills unset thresholds', () => {
+    writeFileSync(tmpConfig, JSON.stringify({
+      playlists: [{ id: 'PL1' }],
+      obsBrowserSourceName: 'Source',
+      detectors: { stall: { mode: 'detect' }, nonPlaying: { heartbeats: 10 } },
+    }));
+    const cfg = loadConfig(tmpConfig);
+    expect(cfg.detectors.stall).toEqual({ mode: 'detect', heartbeats: 3 });
+    expect(cfg.detectors.nonPlaying).toEqual({ mode: 'recover', heartbeats: 10 });
+    expect(cfg.detectors.videoFreeze).toEqual({ mode: 'recover', heartbeats: 4, frozenBitrate: 1000, maxRetries: 3 });
+    expect(cfg.detectors.prematureEof).toEqual({ mode: 'recover', maxRetries: 2 });
+    expect(cfg.detectors.outputFreeze).toEqual({ mode: 'recover', hashDistance: 4 });
+    expect(cfg.detectors.blackScreen).toEqual({ mode: 'recover', maxLuma: 16, maxStdDev: 2 });
+    expect(cfg.detectors.audioSilence).toEqual({ mode: 'recover', thresholdDb: -60, graceMs: 60000, inputName: '' });
+    expect(cfg.detectors.playbackQuality).toEqual({ mode: 'recover', maxDropPercent: 25, maxAvsyncMs: 500, heartbeats: 12 });
+    expect(cfg.outputIgnoreRegion).toBeNull();
+    expect(cfg.qualityLadder).toMatchObject({ enabled: false, stepDownAfter: 3, windowMs: 900000, stepUpAfterMs: 1800000 });
+    expect(cfg.qualityLadder.rungs.map((r) => r.label)).toEqual(['720p', '480p']);
+  });
+
+  it('defaults the recovery ladder and rejects an empty one', () => {
+    writeFileSync(tmpConfig, JSON.stringify({
+      playlists: [{ id: 'PL1' }],
+      obsBrowserSourceName: 'Source',
+      recoveryLadder: { stall: [{ action: 'toggleSource', delayMs: 3000 }, { action: 'restartMpv' }] },
+    }));
+    const cfg = loadConfig(tmpConfig);
+    expect(cfg.recoveryLadder.default.map((s) => s.action)).toEqual(['retryCurrent', 'restartMpv', 'criticalAlert']);
+    expect(cfg.recoveryLadder.stall).toEqual([
+      { action: 'toggleSource', delayMs: 3000, attempts: 1 },
+      { action: 'restartMpv', attempts: 1 },
+    ]);
+
+    writeFileSync(tmpConfig, JSON.stringify({
+      playlists: [{ id: 'PL1' }],
+      obsBrowserSourceName: 'Source',
+      recoveryLadder: { heartbeat: [] },
+    }));
+    expect(() => loadConfig(tmpConfig)).toThrow();
+  });
+
+  it('rejects an unknown detector mode', () => {
+    writeFileSync(tmpConfig, JSON.stringify({
+      playlists: [{ id: 'PL1' }],
+      obsBrowserSourceName: 'Source',
+      detectors: { heartbeat: { mode: 'log' } },
+    }));
+    expect(() => loadConfig(tmpConfig)).toThrow();
+  });
+
   it('accepts ytdlCookiesFromBrowser string and defaults to empty', () => {
     writeFileSync(tmpConfig, JSON.stringify({
       playlists: [{ id: 'PL1' }],
@@ -109,6 +161,87 @@ describe('loadConfig', () => {
     const cfg = loadConfig(tmpConfig);
     expect(cfg.ytdlCookiesFromBrowser).toBe('brave:Profile 1');
   });
+
+  it('defaults the schedule off with no blocks', () => {
+    writeFileSync(tmpConfig, JSON.stringify({ playlists: [{ id: 'PL1' }], obsBrowserSourceName: 'Source' }));
+    const cfg = loadConfig(tmpConfig);
+    expect(cfg.schedule).toEqual({ enabled: false, blocks: [] });
+  });
+
+  it('rejects schedule blocks that reference an unknown playlist', () => {
+    writeFileSync(tmpConfig, JSON.stringify({
+      playlists: [{ id: 'PL1' }],
+      obsBrowserSourceName: 'Source',
+      schedule: { enabled: true, blocks: [{ start: '22:00', end: '06:00', playlistId: 'PL2' }] },
+    }));
+    expect(() => loadConfig(tmpConfig)).toThrow(/unknown playlist/);
+  });
+
+  it('requires a fallback source when the fallback is enabled', () => {
+    writeFileSync(tmpConfig, JSON.stringify({
+      playlists: [{ id: 'PL1' }],
+      obsBrowserSourceName: 'Source',
+      fallback: { enabled: true },
+    }));
+    expect(() => loadConfig(tmpConfig)).toThrow(/fallback.source is required/);
+  });
+
+  it('accepts a local folder as the fallback source', () => {
+    writeFileSync(tmpConfig, JSON.stringify({
+      playlists: [{ id: 'PL1' }],
+      obsBrowserSourceName: 'Source',
+      fallback: { enabled: true, source: { type: 'local', id: 'D:/Loop' } },
+    }));
+    const cfg = loadConfig(tmpConfig);
+    expect(cfg.fallback.source).toEqual({ type: 'local', id: 'D:/Loop' });
+    expect(cfg.fallback.maxSkips).toBe(5);
+  });
+
+  it('rejects malformed schedule times', () => {
+    writeFileSync(tmpConfig, JSON.stringify({
+      playlists: [{ id: 'PL1' }],
+      obsBrowserSourceName: 'Source',
+      schedule: { enabled: true, blocks: [{ start: '25:00', end: '06:00', playlistId: 'PL1' }] },
+    }));
+    expect(() => loadConfig(tmpConfig)).toThrow(/HH:MM/);
+  });
+
+  it('requires the per-type fields of notification channels', () => {
+    writeFileSync(tmpConfig, JSON.stringify({
+      playlists: [{ id: 'PL1' }],
+      obsBrowserSourceName: 'Source',
+      notifications: [{ type: 'telegram', token: 'abc:123' }],
+    }));
+    expect(() => loadConfig(tmpConfig)).toThrow(/chatId is required/);
+  });
+
+  it('applies default toggles and templates to notification channels', () => {
+    writeFileSync(tmpConfig, JSON.stringify({
+      playlists: [{ id: 'PL1' }],
+      obsBrowserSourceName: 'Source',
+      notifications: [{ type: 'ntfy', url: 'https://ntfy.sh/stream' }],
+    }));
+    const [channel] = loadConfig(tmpConfig).notifications;
+    expect(channel.enabled).toBe(true);
+    expect(channel.events.critical).toBe(true);
+    expect(channel.templates.critical).toBe('**CRITICAL:** {message}');
+  });
+
+  it('rejects templates with unbalanced blocks or unknown formatters', () => {
+    writeFileSync(tmpConfig, JSON.stringify({
+      playlists: [{ id: 'PL1' }],
+      obsBrowserSourceName: 'Source',
+      discord: { templates: { resume: '{#if videoTitle}Back to {videoTitle}' } },
+    }));
+    expect(() => loadConfig(tmpConfig)).toThrow(/never closed/);
+
+    writeFileSync(tmpConfig, JSON.stringify({
+      playlists: [{ id: 'PL1' }],
+      obsBrowserSourceName: 'Source',
+      discord: { embeds: { resume: { fields: [{ name: 'Title', value: '{videoTitle|shout}' }] } } },
+    }));
+    expect(() => loadConfig(tmpConfig)).toThrow(/Unknown formatter/);
+  });
 });
 
 describe('isFirstRun', () => {
@@ -152,6 +285,17 @@ describe('discord config migration', () => {
     expect((cfg as any).discordWebhookUrl).toBeUndefined();
   });
 
+  it('migrates the global rolePing to critical mentions', () => {
+    writeFileSync(tmpConfig, JSON.stringify({
+      playlists: [{ id: 'PL1' }],
+      obsBrowserSourceName: 'Source',
+      discord: { webhookUrl: 'https://discord.com/api/webhooks/test', rolePing: '123456789' },
+    }));
+    const cfg = loadConfig(tmpConfig);
+    expect(cfg.discord.mentions).toEqual({ critical: ['123456789'] });
+    expect(cfg.discord).not.toHaveProperty('rolePing');
+  });
+
   it('does not overwrite existing discord object during migration', () => {
     writeFileSync(tmpConfig, JSON.stringify({
       playlists: [{ id: 'PLtest123' }],
@@ -202,7 +346,7 @@ describe('discord config defaults', () => {
     const cfg = loadConfig(tmpConfig);
     expect(cfg.discord.botName).toBe('');
     expect(cfg.discord.avatarUrl).toBe('');
-    expect(cfg.discord.rolePing).toBe('');
+    expect(cfg.discord.mentions).toEqual({});
   });
 
   it('preserves partial event overrides without clobbering others', () => {
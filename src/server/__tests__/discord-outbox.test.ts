@@ -0,0 +1,49 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import { DiscordOutbox } from '../discord-outbox.js';
+import type { NotifyPayload } from '../notifier.js';
+
+vi.mock('../logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+const tmpDir = join(import.meta.dirname, '..', '..', '..', '.test-tmp', 'outbox');
+const filePath = join(tmpDir, 'discord-outbox.json');
+
+function payload(description: string): NotifyPayload {
+  return {
+    title: '🚨 StreamLoop', description, level: 'error', footer: 'v1.0.0',
+    timestamp: '2026-06-01T12:00:00.000Z', messages: [{ content: description, level: 'error' }],
+  };
+}
+
+describe('DiscordOutbox', () => {
+  beforeEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+    mkdirSync(tmpDir, { recursive: true });
+  });
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('persists undelivered messages and failed attempts across restarts', () => {
+    const outbox = new DiscordOutbox(filePath);
+    outbox.enqueue(payload('first'));
+    outbox.enqueue(payload('second'));
+    outbox.recordFailure(outbox.peek()!, 'HTTP 503', 2000);
+    outbox.shift();
+
+    const reloaded = new DiscordOutbox(filePath);
+    expect(reloaded.size).toBe(1);
+    expect(reloaded.peek()!.payload.description).toBe('second');
+    expect(reloaded.peek()!.payload.timestamp).toBe('2026-06-01T12:00:00.000Z');
+  });
+
+  it('drops the oldest messages beyond its capacity', () => {
+    const outbox = new DiscordOutbox();
+    for (let i = 0; i < 105; i++) outbox.enqueue(payload(`msg ${i}`));
+    expect(outbox.size).toBe(100);
+    expect(outbox.peek()!.payload.description).toBe('msg 5');
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import { DiscordStatusMessage } from '../discord-status.js';
+
+vi.mock('../logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+const tmpDir = join(import.meta.dirname, '..', '..', '..', '.test-tmp', 'discord-status');
+const filePath = join(tmpDir, 'discord-status.json');
+const webhookUrl = 'https://discord.com/api/webhooks/1/abc';
+
+describe('DiscordStatusMessage', () => {
+  beforeEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+    mkdirSync(tmpDir, { recursive: true });
+  });
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('keeps the message id and folded alerts across restarts', () => {
+    const status = new DiscordStatusMessage(filePath);
+    status.record({ content: 'OBS disconnected\nretrying', level: 'warn', event: 'obsDisconnect' });
+    status.setMessage(webhookUrl, '555');
+    status.record({ content: 'OBS reconnected', level: 'info', event: 'obsReconnect' });
+
+    const reloaded = new DiscordStatusMessage(filePath);
+    expect(reloaded.messageIdFor(webhookUrl)).toBe('555');
+    const fields = reloaded.buildEmbed({ obsState: 'connected', position: 65, duration: 3725 }).fields as { name: string; value: string }[];
+    expect(fields[0].value).toBe('Nothing playing\n1:05 / 1:02:05');
+    expect(fields[4].value).toMatch(/^⚠️ <t:\d+:R> — OBS disconnected$/);
+    expect(fields[5].value).toBe('1× obsDisconnect');
+  });
+
+  it('starts counting afresh when a new message replaces the old one', () => {
+    const status = new DiscordStatusMessage();
+    status.setMessage(webhookUrl, '555');
+    status.record({ content: 'Stream dropped', level: 'warn', event: 'streamDrop' });
+    status.setMessage(webhookUrl, '777');
+    const fields = status.buildEmbed({}).fields as { name: string; value: string }[];
+    expect(fields[4].value).toContain('Stream dropped');
+    expect(fields[5].value).toBe('None');
+  });
+});
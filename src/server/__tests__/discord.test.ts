@@ -1,28 +1,37 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { DiscordNotifier } from '../discord.js';
+import { DiscordOutbox } from '../discord-outbox.js';
+import { DiscordStatusMessage } from '../discord-status.js';
+import type { NotifierContext } from '../notifier.js';
 import type { AppConfig, DiscordConfig } from '../types.js';
 
 const defaultDiscord: DiscordConfig = {
   webhookUrl: '',
   botName: '',
   avatarUrl: '',
-  rolePing: '',
+  mentions: {},
+  routes: [],
+  quietHours: { enabled: false, start: '23:00', end: '07:00', days: [] },
+  embeds: {},
+  statusMessage: { enabled: false, updateIntervalMs: 60_000 },
   events: {
     error: true,
     skip: true,
     recovery: true,
-    critical: true,
+    critical: true, escalation: true, incident: true,
     resume: true,
     obsDisconnect: true,
     obsReconnect: true,
     streamDrop: true,
-    streamRestart: true, twitchMismatch: true, twitchRestart: true,
+    streamRestart: true, twitchMismatch: true, twitchRestart: true, scheduleSwitch: true, fallbackActivate: true, fallbackRestore: true, dailySummary: true,
   },
   templates: {
     error: 'Playback error **{errorCode}** on video #{videoIndex} (`{videoId}`)\nRetry attempt: {attempt}',
     skip: 'Skipping video #{videoIndex} (`{videoId}`)\nReason: {reason}',
     recovery: 'Recovery action: **{step}**',
     critical: '**CRITICAL:** {message}',
+    escalation: 'Still unresolved after {openFor} (reminder {count}): {message}',
+    incident: 'Incident resolved after {lasted}: {root}, fixed by {resolvedBy}',
     resume: 'Playback resumed at video #{videoIndex} (`{videoId}`)',
     obsDisconnect: 'OBS disconnected — attempting to reconnect',
     obsReconnect: 'OBS reconnected',
@@ -30,6 +39,10 @@ const defaultDiscord: DiscordConfig = {
     streamRestart: 'Stream restarted after {attempts} attempt(s)',
     twitchMismatch: 'Twitch mismatch on {channel}',
     twitchRestart: 'Stream restarted after Twitch mismatch on {channel}',
+    scheduleSwitch: 'Scheduled switch to {playlist} (was {previous})',
+    fallbackActivate: '**{playlist}** keeps failing ({reason}) — switched to fallback **{fallback}**',
+    fallbackRestore: '**{playlist}** is resolving again — switched back from fallback **{fallback}**',
+    dailySummary: 'Daily {date}: {uptime}',
   },
 };
 
@@ -72,17 +85,26 @@ function makeConfig(overrides: Partial<AppConfig> = {}, discordOverrides: Partia
     mpvExtraArgs: [],
     ytdlCookiesFromBrowser: '',
     ytdlPlayerClient: '',
+    schedule: { enabled: false, blocks: [] },
+    fallback: { enabled: false, source: null, maxSkips: 5, maxCriticals: 2, windowMs: 1800000, probeIntervalMs: 300000 },
+    eventRetentionDays: 7,
+    blacklist: { enabled: true, failureThreshold: 2, ttlMs: 86400000 },
+    notifications: [],
+    escalation: { enabled: true, intervalMs: 900000, levels: [] },
+    detectors: { stall: { mode: 'recover', heartbeats: 3 }, videoFreeze: { mode: 'recover', heartbeats: 4, frozenBitrate: 1000, maxRetries: 3 }, outputFreeze: { mode: 'recover', hashDistance: 4 }, blackScreen: { mode: 'recover', maxLuma: 16, maxStdDev: 2 }, audioSilence: { mode: 'recover', thresholdDb: -60, graceMs: 60000, inputName: '' }, playbackQuality: { mode: 'recover', maxDropPercent: 25, maxAvsyncMs: 500, heartbeats: 12 }, nonPlaying: { mode: 'recover', heartbeats: 6 }, heartbeat: { mode: 'recover' }, prematureEof: { mode: 'recover', maxRetries: 2 } },
+    recoveryLadder: { default: [] },
+    restartBreaker: { enabled: false, maxRestarts: 5, windowMs: 600000, backoffMs: 60000, maxBackoffMs: 1800000 },
+    outputIgnoreRegion: null,
+    obsHealth: { enabled: false, pollIntervalMs: 10000, windowMs: 300000, maxSkippedPercent: 5, maxCpuPercent: 90, stalledPolls: 3 },
+    qualityLadder: { enabled: false, rungs: [{ label: '720p', format: 'best[height<=?720]' }], stepDownAfter: 3, windowMs: 900000, stepUpAfterMs: 1800000 },
     ...overrides,
   };
 }
 
-function makeNotifier(discordOverrides: Partial<DiscordConfig> = {}) {
-  return new DiscordNotifier(
-    makeConfig({}, discordOverrides),
-    '1.0.0',
-    () => 3600000,
-    'http://localhost:7654/admin',
-  );
+const context = { appVersion: '1.0.0', getUptime: () => 3600000, adminUrl: 'http://localhost:7654/admin' };
+
+function makeNotifier(discordOverrides: Partial<DiscordConfig> = {}, getTemplateVars?: NotifierContext['getTemplateVars']) {
+  return new DiscordNotifier(makeConfig({}, discordOverrides), { ...context, getTemplateVars });
 }
 
 describe('DiscordNotifier', () => {
@@ -290,26 +312,36 @@ describe('DiscordNotifier', () => {
     expect(body.embeds[0].fields[0].name).toBe('Status');
   });
 
-  it('adds role ping on critical (error-level) messages', async () => {
+  it('adds the quality rung as a field while playback is stepped down', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response(null, { status: 200 }),
+    );
+    const notifier = makeNotifier({ webhookUrl: 'https://discord.com/api/webhooks/test' }, async () => ({ quality: '720p' }));
+    await notifier.notifyCritical('All recovery steps exhausted');
+    const body = JSON.parse((fetchSpy.mock.calls[0][1] as any).body);
+    expect(body.embeds[0].fields).toContainEqual({ name: 'Quality', value: '720p', inline: true });
+  });
+
+  it('adds the mentions configured for the event', async () => {
     const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
       new Response(null, { status: 200 }),
     );
     const notifier = makeNotifier({
       webhookUrl: 'https://discord.com/api/webhooks/test',
-      rolePing: '123456789',
+      mentions: { critical: ['123456789'] },
     });
     await notifier.notifyCritical('All steps exhausted');
     const body = JSON.parse((fetchSpy.mock.calls[0][1] as any).body);
     expect(body.content).toBe('<@&123456789>');
   });
 
-  it('does not add role ping on non-critical messages', async () => {
+  it('does not add mentions for events without any', async () => {
     const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
       new Response(null, { status: 200 }),
     );
     const notifier = makeNotifier({
       webhookUrl: 'https://discord.com/api/webhooks/test',
-      rolePing: '123456789',
+      mentions: { critical: ['123456789'] },
     });
     await notifier.send('info message', 'info');
     await vi.advanceTimersByTimeAsync(30000);
@@ -333,4 +365,305 @@ describe('DiscordNotifier', () => {
     const body = JSON.parse((fetchSpy.mock.calls[0][1] as any).body);
     expect(body.embeds[0].description).toBe('Custom recovery: refreshSource happened!');
   });
+
+  it('renders the daily summary with stats fields', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response(null, { status: 200 }),
+    );
+    const notifier = makeNotifier({ webhookUrl: 'https://discord.com/api/webhooks/test' });
+    await notifier.notifyDailySummary({
+      date: '2026-06-01', observedMs: 86_400_000, playingMs: 85_800_000,
+      recoveryMs: { retryCurrent: 60_000, restartMpv: 30_000, criticalAlert: 0 },
+      mpvRestarts: 1, skips: 2, streamDrops: 0, obsStreamDownMs: 0, twitchOfflineMs: 0,
+    }, 99.31);
+    await vi.advanceTimersByTimeAsync(30000);
+    const embed = JSON.parse((fetchSpy.mock.calls[0][1] as any).body).embeds[0];
+    expect(embed.description).toBe('Daily 2026-06-01: 99.31%');
+    expect(embed.fields).toEqual(expect.arrayContaining([
+      { name: 'Playing', value: '23h 50m', inline: true },
+      { name: 'In recovery', value: '1m 30s', inline: true },
+      { name: 'Skipped videos', value: '2', inline: true },
+    ]));
+  });
+
+  it('renders common variables, formatters, conditionals and configured embed extras', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response(null, { status: 200 }),
+    );
+    const notifier = makeNotifier({
+      webhookUrl: 'https://discord.com/api/webhooks/test',
+      templates: {
+        ...defaultDiscord.templates,
+        resume: '{#if videoTitle}Back to **{videoTitle|truncate:12}** at {position|hms}/{duration|hms}{else}Back{/if} ({obsState})',
+      },
+      embeds: {
+        resume: { fields: [{ name: 'Playlist', value: '{playlist|upper}', inline: true }], thumbnail: true, link: true },
+      },
+    }, async () => ({ videoTitle: 'A very long video title', videoId: 'dQw4w9WgXcQ', playlist: 'Main', position: 65, duration: 3725, obsState: 'streaming' }));
+    await notifier.notifyResume(4, 'dQw4w9WgXcQ');
+    await vi.advanceTimersByTimeAsync(30000);
+    const embed = JSON.parse((fetchSpy.mock.calls[0][1] as any).body).embeds[0];
+    expect(embed.description).toBe('Back to **A very long…** at 1:05/1:02:05 (streaming)');
+    expect(embed.fields).toEqual([{ name: 'Playlist', value: 'MAIN', inline: true }]);
+    expect(embed.url).toBe('https://www.youtube.com/watch?v=dQw4w9WgXcQ');
+    expect(embed.thumbnail).toEqual({ url: 'https://i.ytimg.com/vi/dQw4w9WgXcQ/hqdefault.jpg' });
+  });
+
+  it('shows the video thumbnail by default only on video events', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response(null, { status: 200 }),
+    );
+    const notifier = makeNotifier({ webhookUrl: 'https://discord.com/api/webhooks/test' }, async () => ({ videoId: 'dQw4w9WgXcQ' }));
+    await notifier.notifySkip(3, 'dQw4w9WgXcQ', 'Private video');
+    await vi.advanceTimersByTimeAsync(30000);
+    await notifier.notifyCritical('All steps exhausted');
+    const [skip, critical] = fetchSpy.mock.calls.map((c) => JSON.parse((c[1] as any).body).embeds[0]);
+    expect(skip.thumbnail).toBeDefined();
+    expect(critical.thumbnail).toBeUndefined();
+    expect(critical.url).toBeUndefined();
+  });
+});
+
+describe('DiscordNotifier delivery', () => {
+  const webhookUrl = 'https://discord.com/api/webhooks/test';
+
+  function makeDelivering(outbox: DiscordOutbox) {
+    return new DiscordNotifier(
+      makeConfig({}, { webhookUrl }), context, undefined, outbox,
+    );
+  }
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('waits out Retry-After on 429 and redelivers with a delayed marker and the original timestamp', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(new Response(null, { status: 429, headers: { 'retry-after': '2' } }))
+      .mockResolvedValue(new Response(null, { status: 200 }));
+    const outbox = new DiscordOutbox();
+    await makeDelivering(outbox).notifyCritical('Stream down');
+    expect(fetchSpy).toHaveBeenCalledOnce();
+    expect(outbox.getStatus()).toMatchObject({ queueDepth: 1, lastError: 'Rate limited (HTTP 429)' });
+
+    await vi.advanceTimersByTimeAsync(1500);
+    expect(fetchSpy).toHaveBeenCalledOnce();
+    await vi.advanceTimersByTimeAsync(600);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+
+    const first = JSON.parse((fetchSpy.mock.calls[0][1] as any).body).embeds[0];
+    const retried = JSON.parse((fetchSpy.mock.calls[1][1] as any).body).embeds[0];
+    expect(retried.footer.text).toMatch(/^Delayed delivery \| /);
+    expect(retried.timestamp).toBe(first.timestamp);
+    expect(outbox.size).toBe(0);
+  });
+
+  it('keeps messages queued in order while the network is down', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockRejectedValue(new Error('getaddrinfo ENOTFOUND'));
+    const outbox = new DiscordOutbox();
+    const notifier = makeDelivering(outbox);
+    await notifier.notifyCritical('first');
+    await notifier.notifyCritical('second');
+    // The second message queues behind the first instead of jumping the backoff
+    expect(fetchSpy).toHaveBeenCalledOnce();
+    expect(outbox.getStatus()).toMatchObject({ queueDepth: 2, lastError: 'getaddrinfo ENOTFOUND' });
+
+    fetchSpy.mockResolvedValue(new Response(null, { status: 200 }));
+    await vi.advanceTimersByTimeAsync(2000);
+    const descriptions = fetchSpy.mock.calls.slice(1).map((c) => JSON.parse((c[1] as any).body).embeds[0].description);
+    expect(descriptions).toEqual(['**CRITICAL:** first', '**CRITICAL:** second']);
+    expect(outbox.size).toBe(0);
+    expect(outbox.getStatus().lastDeliveredAt).not.toBeNull();
+  });
+
+  it('drops a message the webhook rejects without retrying', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 404 }));
+    const outbox = new DiscordOutbox();
+    await makeDelivering(outbox).notifyCritical('x');
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(fetchSpy).toHaveBeenCalledOnce();
+    expect(outbox.getStatus()).toMatchObject({ queueDepth: 0, lastError: 'HTTP 404' });
+  });
+});
+
+describe('DiscordNotifier routing', () => {
+  const webhooks = (fetchSpy: { mock: { calls: unknown[][] } }) => fetchSpy.mock.calls.map((c) => c[0]);
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends each level to its route and the rest to the default webhook', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+    const notifier = makeNotifier({
+      webhookUrl: 'https://discord.com/api/webhooks/default',
+      routes: [
+        { name: 'on-call', webhookUrl: 'https://discord.com/api/webhooks/oncall', levels: ['error'], events: [] },
+        { name: 'low-noise', webhookUrl: 'https://discord.com/api/webhooks/info', levels: ['info'], events: [] },
+      ],
+    });
+    await notifier.notifyObsDisconnect();
+    await notifier.notifyObsReconnect();
+    await vi.advanceTimersByTimeAsync(30000);
+    await notifier.notifyCritical('All steps exhausted');
+
+    expect(webhooks(fetchSpy)).toEqual([
+      'https://discord.com/api/webhooks/default',
+      'https://discord.com/api/webhooks/info',
+      'https://discord.com/api/webhooks/oncall',
+    ]);
+    // The split batch is rebuilt per destination
+    const info = JSON.parse((fetchSpy.mock.calls[1][1] as any).body).embeds[0];
+    expect(info.description).toBe('OBS reconnected');
+  });
+
+  it('matches routes on event as well as level', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+    const notifier = makeNotifier({
+      webhookUrl: 'https://discord.com/api/webhooks/default',
+      routes: [{ name: 'reports', webhookUrl: 'https://discord.com/api/webhooks/reports', levels: [], events: ['scheduleSwitch'] }],
+    });
+    await notifier.notifyScheduleSwitch('Night', 'Day');
+    await vi.advanceTimersByTimeAsync(30000);
+    await notifier.send('ad-hoc', 'info');
+    await vi.advanceTimersByTimeAsync(30000);
+    expect(webhooks(fetchSpy)).toEqual(['https://discord.com/api/webhooks/reports', 'https://discord.com/api/webhooks/default']);
+  });
+
+  it('sends only critical alerts during quiet hours', async () => {
+    vi.setSystemTime(new Date(2026, 5, 1, 23, 30));
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+    const notifier = makeNotifier({
+      webhookUrl: 'https://discord.com/api/webhooks/test',
+      quietHours: { enabled: true, start: '23:00', end: '07:00', days: [] },
+    });
+    await notifier.notifyObsDisconnect();
+    await vi.advanceTimersByTimeAsync(30000);
+    expect(fetchSpy).not.toHaveBeenCalled();
+
+    await notifier.notifyCritical('Stream down');
+    expect(fetchSpy).toHaveBeenCalledOnce();
+
+    vi.setSystemTime(new Date(2026, 5, 2, 7, 0));
+    await notifier.notifyObsDisconnect();
+    await vi.advanceTimersByTimeAsync(30000);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('sends test messages straight to the default webhook whatever quiet hours and routes say', async () => {
+    vi.setSystemTime(new Date(2026, 5, 1, 23, 30));
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+    const notifier = makeNotifier({
+      webhookUrl: 'https://discord.com/api/webhooks/default',
+      routes: [{ name: 'all', webhookUrl: 'https://discord.com/api/webhooks/all', levels: [], events: [] }],
+      quietHours: { enabled: true, start: '23:00', end: '07:00', days: [] },
+    });
+    expect(await notifier.sendTest('hello')).toEqual({ ok: true });
+    expect(webhooks(fetchSpy)).toEqual(['https://discord.com/api/webhooks/default']);
+
+    // Failures are reported, not queued for a later retry
+    fetchSpy.mockResolvedValue(new Response(null, { status: 404 }));
+    expect(await notifier.sendTest('hello')).toEqual({ ok: false, error: 'Discord delivery failed: HTTP 404' });
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+
+    // Routes alone don't make a default webhook to test
+    const routesOnly = makeNotifier({
+      routes: [{ name: 'all', webhookUrl: 'https://discord.com/api/webhooks/all', levels: [], events: [] }],
+    });
+    expect(await routesOnly.sendTest('hello')).toMatchObject({ ok: false, disabled: true });
+  });
+
+  it('formats user, here and role mentions', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+    const notifier = makeNotifier({
+      webhookUrl: 'https://discord.com/api/webhooks/test',
+      mentions: { streamDrop: ['user:42', 'here'], critical: ['7'] },
+    });
+    await notifier.notifyStreamDrop(1, 3);
+    await notifier.notifyCritical('Stream down');
+    const body = JSON.parse((fetchSpy.mock.calls[0][1] as any).body);
+    expect(body.content).toBe('<@42> @here <@&7>');
+  });
+});
+
+describe('DiscordNotifier status message', () => {
+  const webhookUrl = 'https://discord.com/api/webhooks/1/abc?thread_id=9';
+  const getTemplateVars = async () => ({ videoTitle: 'Lofi', videoId: 'jfKfPfyJRdk', playlist: 'Main', obsState: 'streaming' });
+
+  function makeStatusNotifier(status: DiscordStatusMessage) {
+    return new DiscordNotifier(
+      makeConfig({}, { webhookUrl, statusMessage: { enabled: true, updateIntervalMs: 60_000 } }),
+      { ...context, getTemplateVars }, undefined, new DiscordOutbox(), status,
+    );
+  }
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('posts one status embed, edits it in place and only posts critical alerts', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => Response.json({ id: '555' }));
+    const notifier = makeStatusNotifier(new DiscordStatusMessage());
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(fetchSpy).toHaveBeenCalledOnce();
+    expect(fetchSpy.mock.calls[0][0]).toBe('https://discord.com/api/webhooks/1/abc?thread_id=9&wait=true');
+    const created = JSON.parse((fetchSpy.mock.calls[0][1] as any).body).embeds[0];
+    expect(created.fields[0].value).toBe('[Lofi](https://www.youtube.com/watch?v=jfKfPfyJRdk)');
+
+    await notifier.notifyObsDisconnect();
+    await notifier.notifyStreamDrop(1, 3);
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(fetchSpy).toHaveBeenCalledOnce();
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    const [editUrl, edit] = fetchSpy.mock.calls[1] as [string, RequestInit];
+    expect(editUrl).toBe('https://discord.com/api/webhooks/1/abc/messages/555?thread_id=9');
+    expect(edit.method).toBe('PATCH');
+    const fields = JSON.parse(edit.body as string).embeds[0].fields;
+    expect(fields.find((f: any) => f.name === 'Last incident').value).toContain('Stream dropped (attempt 1/3)');
+    expect(fields.at(-1).value).toBe('1× obsDisconnect, 1× streamDrop');
+
+    await notifier.notifyCritical('Stream down');
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+    expect(fetchSpy.mock.calls[2][0]).toBe(webhookUrl);
+
+    // A test message is posted rather than folded into the status embed
+    expect(await notifier.sendTest('hello')).toEqual({ ok: true });
+    expect(fetchSpy).toHaveBeenCalledTimes(4);
+    expect(JSON.parse((fetchSpy.mock.calls[3][1] as any).body).embeds[0].description).toBe('hello');
+    await notifier.close();
+  });
+
+  it('posts a new status message when the old one was deleted', async () => {
+    const status = new DiscordStatusMessage();
+    status.setMessage(webhookUrl, '555');
+    const fetchSpy = vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(new Response(null, { status: 404 }))
+      .mockImplementation(async () => Response.json({ id: '777' }));
+    const notifier = makeStatusNotifier(status);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect((fetchSpy.mock.calls[1][1] as RequestInit).method).toBe('POST');
+    expect(status.messageIdFor(webhookUrl)).toBe('777');
+    expect(status.messageIdFor('https://discord.com/api/webhooks/2/other')).toBeNull();
+    await notifier.close();
+  });
 });
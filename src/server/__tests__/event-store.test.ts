@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { mkdirSync, writeFileSync, rmSync, existsSync, utimesSync } from 'fs';
 import { join } from 'path';
-import { EventStore } from '../event-store.js';
+import { EventStore, eventsToCsv } from '../event-store.js';
 
 const tmpDir = join(import.meta.dirname, '..', '..', '..', '.test-tmp', 'events');
 
@@ -57,4 +57,77 @@ describe('EventStore', () => {
     const store = new EventStore({ dir: tmpDir });
     expect(store.loadRecent(10)).toEqual([]);
   });
+
+  describe('query', () => {
+    function seed(date: string, entries: { timestamp: string; message: string; severity?: string; type?: string }[]) {
+      writeFileSync(join(tmpDir, `events-${date}.jsonl`), entries.map((e) => JSON.stringify(e) + '\n').join(''));
+    }
+
+    beforeEach(() => {
+      seed('2026-06-01', [
+        { timestamp: '2026-06-01T10:00:00Z', message: 'Loading playlist Main' },
+        { timestamp: '2026-06-01T11:00:00Z', message: 'Player stalled at 40s', severity: 'warn' },
+      ]);
+      seed('2026-06-03', [
+        { timestamp: '2026-06-03T09:00:00Z', message: 'Playback error on video #2', severity: 'error', type: 'playbackError' },
+        { timestamp: '2026-06-03T09:05:00Z', message: 'Recovery resolved — playback resumed', severity: 'info' },
+      ]);
+    });
+
+    it('reads across every retained file, newest first', async () => {
+      const store = new EventStore({ dir: tmpDir });
+      const page = await store.query({ limit: 10 });
+      expect(page.events.map((e) => e.timestamp)).toEqual([
+        '2026-06-03T09:05:00Z', '2026-06-03T09:00:00Z', '2026-06-01T11:00:00Z', '2026-06-01T10:00:00Z',
+      ]);
+      expect(page.nextCursor).toBeNull();
+    });
+
+    it('pages with a cursor without repeating or skipping entries', async () => {
+      const store = new EventStore({ dir: tmpDir });
+      const first = await store.query({ limit: 3 });
+      expect(first.events).toHaveLength(3);
+      expect(first.nextCursor).not.toBeNull();
+      const second = await store.query({ limit: 3, cursor: first.nextCursor! });
+      expect(second.events.map((e) => e.message)).toEqual(['Loading playlist Main']);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it('filters by time range, text, minimum severity and type (legacy entries count as untyped info)', async () => {
+      const store = new EventStore({ dir: tmpDir });
+      const ranged = await store.query({
+        from: Date.parse('2026-06-01T10:30:00Z'), to: Date.parse('2026-06-03T09:00:00Z'), limit: 10,
+      });
+      expect(ranged.events.map((e) => e.timestamp)).toEqual(['2026-06-03T09:00:00Z', '2026-06-01T11:00:00Z']);
+
+      const text = await store.query({ q: 'PLAYBACK', limit: 10 });
+      expect(text.events).toHaveLength(2);
+
+      const warnings = await store.query({ level: 'warn', limit: 10 });
+      expect(warnings.events.map((e) => e.severity)).toEqual(['error', 'warn']);
+
+      const typed = await store.query({ types: ['playbackError', 'skip'], limit: 10 });
+      expect(typed.events.map((e) => e.message)).toEqual(['Playback error on video #2']);
+    });
+
+    it('rejects a malformed cursor', async () => {
+      const store = new EventStore({ dir: tmpDir });
+      await expect(store.query({ limit: 10, cursor: 'nope' })).rejects.toThrow(/Invalid cursor/);
+    });
+  });
+
+  it('eventsToCsv writes every field and quotes the ones that need it', () => {
+    const csv = eventsToCsv([
+      { timestamp: 't', message: 'Skipping "x", again' },
+      {
+        timestamp: 'u', message: 'Frozen', severity: 'warn', type: 'videoFreeze',
+        videoIndex: 0, videoId: 'abc', playlistId: 'PL1', detail: { position: 12.5, retries: 2 },
+      },
+    ]);
+    expect(csv).toBe(
+      'timestamp,severity,type,videoIndex,videoId,playlistId,message,detail\r\n'
+      + 't,info,,,,,"Skipping ""x"", again",\r\n'
+      + 'u,warn,videoFreeze,0,abc,PL1,Frozen,"{""position"":12.5,""retries"":2}"\r\n',
+    );
+  });
 });
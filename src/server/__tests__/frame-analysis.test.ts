@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeFrame, hashDistance } from '../frame-analysis.js';
+import { greyPng } from './png-fixtures.js';
+
+/** Diagonal gradient with a bright square in the top left. */
+const scene = (x: number, y: number) => (x < 16 && y < 16 ? 240 : (x + y) * 2);
+/** Deterministic ±3 "encoder noise". */
+const noise = (x: number, y: number) => ((x * 7 + y * 13) % 7) - 3;
+
+describe('analyzeFrame', () => {
+  it('decodes luma and tells near-identical pictures from different ones', () => {
+    const a = analyzeFrame(`data:image/png;base64,${greyPng(scene)}`)!;
+    const noisy = analyzeFrame(greyPng((x, y) => scene(x, y) + noise(x, y)))!;
+    const mirrored = analyzeFrame(greyPng((x, y) => scene(63 - x, y)))!;
+
+    expect(a.meanLuma).toBeGreaterThan(100);
+    expect(hashDistance(a.hash, noisy.hash)).toBeLessThanOrEqual(4);
+    expect(hashDistance(a.hash, mirrored.hash)).toBeGreaterThan(16);
+  });
+
+  it('measures black and flat frames, leaving out the ignored region', () => {
+    const black = analyzeFrame(greyPng(() => 3))!;
+    expect(black.meanLuma).toBe(3);
+    expect(black.lumaStdDev).toBe(0);
+
+    // A white clock in the bottom-right corner of a black screen
+    const clock = (x: number, y: number) => (x >= 48 && y >= 56 ? 255 : 0);
+    expect(analyzeFrame(greyPng(clock))!.lumaStdDev).toBeGreaterThan(20);
+    const ignored = analyzeFrame(greyPng(clock), { x: 75, y: 87.5, width: 25, height: 12.5 })!;
+    expect(ignored).toMatchObject({ meanLuma: 0, lumaStdDev: 0 });
+  });
+
+  it('returns null for data that is not a PNG', () => {
+    expect(analyzeFrame('AAAA')).toBeNull();
+  });
+});
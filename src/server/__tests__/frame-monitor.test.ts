@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { FrameMonitor } from '../frame-monitor.js';
+import { FrameMonitor, type FrameAnalysisOptions } from '../frame-monitor.js';
+import { greyPng } from './png-fixtures.js';
 
 const INTERVAL = 10_000;
 const CONFIRM = 2_000;
@@ -8,8 +9,10 @@ function setup(opts: {
   frames: () => string | null;       // what captureFrame returns each call
   shouldCapture?: () => boolean;
   windowMs?: number;
+  analysis?: FrameAnalysisOptions;
 }) {
   const onFreeze = vi.fn();
+  const onBlack = vi.fn();
   const onSuspect = vi.fn();
   const onFalseAlarm = vi.fn();
   const captureFrame = vi.fn(async () => opts.frames());
@@ -17,11 +20,13 @@ function setup(opts: {
     captureFrame,
     shouldCapture: opts.shouldCapture ?? (() => true),
     onFreeze,
+    onBlack,
     onSuspect,
     onFalseAlarm,
     getWindowMs: () => opts.windowMs ?? 30_000,
+    getAnalysis: opts.analysis && (() => opts.analysis!),
   });
-  return { monitor, onFreeze, onSuspect, onFalseAlarm, captureFrame };
+  return { monitor, onFreeze, onBlack, onSuspect, onFalseAlarm, captureFrame };
 }
 
 describe('FrameMonitor', () => {
@@ -116,4 +121,35 @@ describe('FrameMonitor', () => {
     expect(onFreeze).toHaveBeenCalledTimes(2);
     monitor.stop();
   });
+
+  const analysis: FrameAnalysisOptions = { hashDistance: 4, detectBlack: true, maxLuma: 16, maxStdDev: 2, ignoreRegion: null };
+
+  it('treats a picture with encoder noise as frozen', async () => {
+    let tick = 0;
+    const { monitor, onFreeze, onBlack } = setup({
+      frames: () => greyPng((x, y) => (x + y) * 2 + ((x * 7 + y * 13 + tick++) % 3)),
+      analysis,
+    });
+    monitor.start();
+    await vi.advanceTimersByTimeAsync(INTERVAL * 4 + CONFIRM);
+    expect(onFreeze).toHaveBeenCalledTimes(1);
+    expect(onBlack).not.toHaveBeenCalled();
+    monitor.stop();
+  });
+
+  it('reports a black screen with a ticking clock as black, not frozen', async () => {
+    let seconds = 0;
+    const { monitor, onFreeze, onBlack } = setup({
+      frames: () => {
+        seconds += 10;
+        return greyPng((x, y) => (y >= 56 && x >= 48 && (x + seconds) % 4 === 0 ? 255 : 0));
+      },
+      analysis,
+    });
+    monitor.start();
+    await vi.advanceTimersByTimeAsync(INTERVAL * 4 + CONFIRM);
+    expect(onBlack).toHaveBeenCalledTimes(1);
+    expect(onFreeze).not.toHaveBeenCalled();
+    monitor.stop();
+  });
 });
@@ -0,0 +1,48 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import { IncidentLog } from '../incidents.js';
+import { RecoveryStep } from '../types.js';
+
+vi.mock('../logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+const tmpDir = join(import.meta.dirname, '..', '..', '..', '.test-tmp', 'incidents');
+const filePath = join(tmpDir, 'incidents.json');
+
+describe('IncidentLog', () => {
+  beforeEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+    mkdirSync(tmpDir, { recursive: true });
+  });
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('joins detectors tripping while open and resolves by the last non-alert action', () => {
+    const log = new IncidentLog();
+    const first = log.open('videoFreeze', 'Video freeze', 1_000);
+    expect(log.open('stall', 'Player stalled', 2_000).id).toBe(first.id);
+    log.recordAction('urlRetry');
+    log.recordAction(RecoveryStep.RestartMpv);
+    log.recordAction(RecoveryStep.CriticalAlert);
+    log.attach({ timestamp: '', type: 'stall', message: 'Player stalled' });
+
+    const closed = log.close(61_000)!;
+    expect(closed).toMatchObject({ root: 'videoFreeze', durationMs: 60_000, resolvedBy: RecoveryStep.RestartMpv, eventCount: 1 });
+    expect(log.activeId).toBeNull();
+    expect(log.close()).toBeNull();
+  });
+
+  it('keeps the open incident and history across restarts', () => {
+    const log = new IncidentLog(filePath);
+    log.open('heartbeat', 'Heartbeat timeout', 0);
+    log.close(5_000);
+    const open = log.open('nonPlaying', 'Not playing', 10_000);
+
+    const reloaded = new IncidentLog(filePath);
+    expect(reloaded.activeId).toBe(open.id);
+    expect(reloaded.list().map((i) => i.root)).toEqual(['nonPlaying', 'heartbeat']);
+  });
+});
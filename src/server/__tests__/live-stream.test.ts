@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import type { Request, Response } from 'express';
+import { LiveStream } from '../live-stream.js';
+
+vi.mock('../logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+function createClient(query: Record<string, string> = {}) {
+  const req = Object.assign(new EventEmitter(), { query });
+  const res = { writeHead: vi.fn(), write: vi.fn(), end: vi.fn() };
+  return { req: req as unknown as Request, res: res as unknown as Response, raw: { req, res } };
+}
+
+/** Parsed `event:`/`data:` frames written to a fake response, in order. */
+function frames(res: { write: ReturnType<typeof vi.fn> }): { event: string; data: unknown }[] {
+  return res.write.mock.calls
+    .map(([chunk]) => String(chunk))
+    .filter((chunk) => chunk.startsWith('event: '))
+    .map((chunk) => {
+      const [eventLine, dataLine] = chunk.split('\n');
+      return { event: eventLine.slice('event: '.length), data: JSON.parse(dataLine.slice('data: '.length)) };
+    });
+}
+
+describe('LiveStream', () => {
+  let status: { recoveryStep: string };
+  let statusProvider: ReturnType<typeof vi.fn>;
+  let stream: LiveStream;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    status = { recoveryStep: 'none' };
+    statusProvider = vi.fn(async () => ({ ...status }));
+    stream = new LiveStream({
+      status: statusProvider,
+      state: () => ({ videoIndex: 3 }),
+      events: () => [{ timestamp: 't0', message: 'boot' }],
+      update: () => ({ status: 'idle' }),
+    });
+  });
+
+  afterEach(() => {
+    stream.close();
+    vi.useRealTimers();
+  });
+
+  it('sends SSE headers and every snapshot on connect', async () => {
+    const { req, res, raw } = createClient();
+    await stream.attach(req, res);
+
+    expect(raw.res.writeHead).toHaveBeenCalledWith(200, expect.objectContaining({
+      'Content-Type': 'text/event-stream',
+    }));
+    expect(raw.res.write.mock.calls[0][0]).toBe('retry: 3000\n\n');
+    expect(frames(raw.res)).toEqual([
+      { event: 'status', data: { recoveryStep: 'none' } },
+      { event: 'state', data: { videoIndex: 3 } },
+      { event: 'events', data: [{ timestamp: 't0', message: 'boot' }] },
+      { event: 'update', data: { status: 'idle' } },
+    ]);
+  });
+
+  it('rebuilds snapshots on push and broadcasts one-off messages', async () => {
+    const { req, res, raw } = createClient();
+    await stream.attach(req, res);
+    raw.res.write.mockClear();
+
+    status.recoveryStep = 'retryCurrent';
+    await stream.push('status');
+    stream.publish('event', { timestamp: 't1', message: 'Retrying' });
+
+    expect(frames(raw.res)).toEqual([
+      { event: 'status', data: { recoveryStep: 'retryCurrent' } },
+      { event: 'event', data: { timestamp: 't1', message: 'Retrying' } },
+    ]);
+  });
+
+  it('only sends the types a client asked for', async () => {
+    const overlay = createClient({ types: 'state' });
+    await stream.attach(overlay.req, overlay.res);
+    expect(frames(overlay.raw.res).map((f) => f.event)).toEqual(['state']);
+    overlay.raw.res.write.mockClear();
+    statusProvider.mockClear();
+
+    await stream.push('status', 'state');
+    stream.publish('event', { message: 'ignored' });
+
+    expect(frames(overlay.raw.res).map((f) => f.event)).toEqual(['state']);
+    // Nobody wants status, so it isn't even built
+    expect(statusProvider).not.toHaveBeenCalled();
+  });
+
+  it('drops clients when their request closes', async () => {
+    const { req, res, raw } = createClient();
+    await stream.attach(req, res);
+    expect(stream.clientCount).toBe(1);
+
+    raw.req.emit('close');
+    expect(stream.clientCount).toBe(0);
+
+    raw.res.write.mockClear();
+    stream.publish('event', { message: 'late' });
+    vi.advanceTimersByTime(60_000);
+    expect(raw.res.write).not.toHaveBeenCalled();
+  });
+
+  it('keeps idle connections alive with comment lines', async () => {
+    const { req, res, raw } = createClient();
+    await stream.attach(req, res);
+    raw.res.write.mockClear();
+
+    vi.advanceTimersByTime(15_000);
+    expect(raw.res.write).toHaveBeenCalledWith(': keepalive\n\n');
+  });
+
+  it('ends every client on close', async () => {
+    const a = createClient();
+    const b = createClient();
+    await stream.attach(a.req, a.res);
+    await stream.attach(b.req, b.res);
+
+    stream.close();
+    expect(a.raw.res.end).toHaveBeenCalled();
+    expect(b.raw.res.end).toHaveBeenCalled();
+    expect(stream.clientCount).toBe(0);
+  });
+});
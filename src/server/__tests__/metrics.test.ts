@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Metrics, type MetricsSources } from '../metrics.js';
+import { RecoveryStep } from '../types.js';
+import type { RecoveryEngine } from '../recovery.js';
+import type { OBSClient } from '../obs-client.js';
+import type { TwitchLivenessChecker } from '../twitch.js';
+
+function makeSources(overrides: {
+  status?: Record<string, unknown>;
+  obsConnected?: boolean;
+  obsStreaming?: boolean;
+  twitch?: Record<string, unknown>;
+} = {}): MetricsSources {
+  const status = {
+    recoveryStep: RecoveryStep.RestartMpv,
+    recoveryLadderStep: 2,
+    consecutiveErrors: 2,
+    lastHeartbeatAt: Date.now() - 4000,
+    uptimeMs: 60_000,
+    mpvConnected: true,
+    playbackStats: { vfps: 29.97, videoBitrate: 4_500_000, audioBitrate: -1, dropPercent: 12.5, avsyncMs: null },
+    ...overrides.status,
+  };
+  const obsConnected = overrides.obsConnected ?? true;
+  return {
+    getRecovery: () => ({ getStatus: () => status }) as unknown as RecoveryEngine,
+    getObs: () => ({
+      isConnected: () => obsConnected,
+      isStreaming: vi.fn(async () => overrides.obsStreaming ?? true),
+    }) as unknown as OBSClient,
+    getTwitch: () => ({
+      getStatus: () => ({ enabled: true, channelLive: true, ...overrides.twitch }),
+    }) as unknown as TwitchLivenessChecker,
+  };
+}
+
+/** `name{labels} value` sample lines as a map, ignoring HELP/TYPE comments. */
+function samples(text: string): Map<string, string> {
+  return new Map(text.trim().split('\n')
+    .filter((l) => !l.startsWith('#'))
+    .map((l) => {
+      const at = l.lastIndexOf(' ');
+      return [l.slice(0, at), l.slice(at + 1)];
+    }));
+}
+
+describe('Metrics', () => {
+  it('exports a counter per recovery reason, zero until recorded', async () => {
+    const metrics = new Metrics();
+    metrics.recordRecovery('stall');
+    metrics.recordRecovery('stall');
+    metrics.recordRecovery('urlRetry');
+
+    const text = await metrics.render(makeSources());
+    expect(text).toContain('# TYPE streamloop_recoveries_total counter');
+    const s = samples(text);
+    expect(s.get('streamloop_recoveries_total{reason="stall"}')).toBe('2');
+    expect(s.get('streamloop_recoveries_total{reason="urlRetry"}')).toBe('1');
+    expect(s.get('streamloop_recoveries_total{reason="outputFreeze"}')).toBe('0');
+  });
+
+  it('buckets the time between recoveries, ignoring proactive refreshes', async () => {
+    const metrics = new Metrics();
+    const t0 = 1_000_000;
+    metrics.recordRecovery('heartbeat', t0);
+    metrics.recordRecovery('proactiveRefresh', t0 + 30_000);
+    metrics.recordRecovery('stall', t0 + 120_000);
+    metrics.recordRecovery('skip', t0 + 120_000 + 2 * 3600_000);
+
+    const s = samples(await metrics.render(makeSources()));
+    expect(s.get('streamloop_time_between_recoveries_seconds_bucket{le="60"}')).toBe('0');
+    expect(s.get('streamloop_time_between_recoveries_seconds_bucket{le="300"}')).toBe('1');
+    expect(s.get('streamloop_time_between_recoveries_seconds_bucket{le="3600"}')).toBe('1');
+    expect(s.get('streamloop_time_between_recoveries_seconds_bucket{le="7200"}')).toBe('2');
+    expect(s.get('streamloop_time_between_recoveries_seconds_bucket{le="+Inf"}')).toBe('2');
+    expect(s.get('streamloop_time_between_recoveries_seconds_sum')).toBe(String(120 + 7200));
+    expect(s.get('streamloop_time_between_recoveries_seconds_count')).toBe('2');
+  });
+
+  it('reads gauges from the live components', async () => {
+    const s = samples(await new Metrics().render(makeSources()));
+    expect(s.get('streamloop_recovery_step')).toBe('2');
+    expect(s.get('streamloop_consecutive_errors')).toBe('2');
+    expect(Number(s.get('streamloop_heartbeat_age_seconds'))).toBeGreaterThanOrEqual(4);
+    expect(s.get('streamloop_video_fps')).toBe('29.97');
+    expect(s.get('streamloop_video_bitrate_bits_per_second')).toBe('4500000');
+    expect(s.get('streamloop_frame_drop_percent')).toBe('12.5');
+    expect(s.has('streamloop_avsync_milliseconds')).toBe(false);
+    expect(s.get('streamloop_obs_connected')).toBe('1');
+    expect(s.get('streamloop_obs_streaming')).toBe('1');
+    expect(s.get('streamloop_twitch_live')).toBe('1');
+    expect(Number(s.get('streamloop_system_memory_total_bytes'))).toBeGreaterThan(0);
+  });
+
+  it('omits series that are unknown rather than reporting zero', async () => {
+    const text = await new Metrics().render(makeSources({
+      status: { playbackStats: null },
+      obsConnected: false,
+      twitch: { enabled: false, channelLive: null },
+    }));
+    const s = samples(text);
+    expect(s.has('streamloop_audio_bitrate_bits_per_second')).toBe(false);
+    expect(s.has('streamloop_video_fps')).toBe(false);
+    expect(s.has('streamloop_twitch_live')).toBe(false);
+    expect(s.get('streamloop_obs_streaming')).toBe('0');
+  });
+});
@@ -3,7 +3,7 @@ import net from 'net';
 import { mkdtempSync, rmSync, writeFileSync, readdirSync, utimesSync } from 'fs';
 import { tmpdir } from 'os';
 import { join } from 'path';
-import { MpvClient, pruneMpvLogs, treeKillCommand } from '../mpv-client.js';
+import { MpvClient, pruneMpvLogs, treeKillCommand, defaultIpcPath } from '../mpv-client.js';
 
 vi.mock('../logger.js', () => ({
   logger: {
@@ -20,7 +20,11 @@ vi.mock('../logger.js', () => ({
   },
 }));
 
-const TEST_PIPE = `\\\\.\\pipe\\mpv-test-${process.pid}-${Date.now()}`;
+// Same transport the client uses in production: a named pipe on Windows, a
+// Unix domain socket (fake mpv IPC server) everywhere else.
+const TEST_PIPE = process.platform === 'win32'
+  ? `\\\\.\\pipe\\mpv-test-${process.pid}-${Date.now()}`
+  : join(tmpdir(), `mpv-test-${process.pid}-${Date.now()}`);
 
 function createMockPipeServer(): net.Server {
   return net.createServer();
@@ -90,19 +94,32 @@ describe('MpvClient', () => {
     socket.write(JSON.stringify(data) + '\n');
   }
 
+  /** Bytes received per socket but not yet consumed by readLine. Unix sockets
+   *  readily coalesce back-to-back writes into one chunk, so a second readLine
+   *  must pick up whatever the first one left behind. */
+  const pendingData = new WeakMap<net.Socket, string>();
+
   /** Read a full line from the client (newline-delimited JSON) */
   function readLine(socket: net.Socket, timeout = 3000): Promise<object> {
     return new Promise((resolve, reject) => {
-      const timer = setTimeout(() => reject(new Error('Timed out waiting for data')), timeout);
-      let buffer = '';
+      let buffer = pendingData.get(socket) ?? '';
+      const take = (): boolean => {
+        const newlineIdx = buffer.indexOf('\n');
+        if (newlineIdx === -1) return false;
+        pendingData.set(socket, buffer.slice(newlineIdx + 1));
+        resolve(JSON.parse(buffer.slice(0, newlineIdx)));
+        return true;
+      };
+      if (take()) return;
+      const timer = setTimeout(() => {
+        socket.off('data', onData);
+        reject(new Error('Timed out waiting for data'));
+      }, timeout);
       const onData = (chunk: Buffer) => {
         buffer += chunk.toString();
-        const newlineIdx = buffer.indexOf('\n');
-        if (newlineIdx !== -1) {
+        if (take()) {
           clearTimeout(timer);
           socket.off('data', onData);
-          const line = buffer.slice(0, newlineIdx);
-          resolve(JSON.parse(line));
         }
       };
       socket.on('data', onData);
@@ -137,7 +154,7 @@ describe('MpvClient', () => {
     });
 
     it('should fail after max retries', async () => {
-      const noSuchPipe = `\\\\.\\pipe\\mpv-test-nonexistent-${Date.now()}`;
+      const noSuchPipe = `${TEST_PIPE}-nonexistent`;
       const c = createClient({ pipePath: noSuchPipe });
 
       await expect(c.connect(3)).rejects.toThrow(/Failed to connect.*after 3 attempts/);
@@ -555,8 +572,23 @@ describe('MpvClient', () => {
       expect(treeKillCommand(1234, 'win32')).toEqual({ cmd: 'taskkill', args: ['/pid', '1234', '/T', '/F'] });
     });
 
-    it('returns null on non-Windows platforms (signal kill suffices)', () => {
+    it('returns null on non-Windows platforms (process-group signal is used instead)', () => {
       expect(treeKillCommand(1234, 'linux')).toBeNull();
     });
   });
+
+  describe('defaultIpcPath', () => {
+    it('uses the named pipe on Windows', () => {
+      expect(defaultIpcPath('win32', {})).toBe('\\\\.\\pipe\\mpv-streamloop');
+    });
+
+    it('uses a Unix socket in XDG_RUNTIME_DIR when set', () => {
+      expect(defaultIpcPath('linux', { XDG_RUNTIME_DIR: '/run/user/1000' }))
+        .toBe(join('/run/user/1000', 'mpv-streamloop.sock'));
+    });
+
+    it('falls back to the temp dir when there is no runtime dir (macOS)', () => {
+      expect(defaultIpcPath('darwin', {})).toBe(join(tmpdir(), 'mpv-streamloop.sock'));
+    });
+  });
 });
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  SlackNotifier, TelegramNotifier, NtfyNotifier, GotifyNotifier, JsonWebhookNotifier, createChannelNotifier,
+} from '../notification-channels.js';
+import { NotifierHub } from '../notifier.js';
+import { DiscordNotifier } from '../discord.js';
+import { DEFAULT_DISCORD_TEMPLATES } from '../config.js';
+import type { AppConfig, DiscordConfig, DiscordEventToggles, NotificationChannelConfig } from '../types.js';
+
+const context = { appVersion: '1.0.0', getUptime: () => 3600000, adminUrl: 'http://localhost:7654/admin' };
+
+const allEvents = Object.fromEntries(
+  Object.keys(DEFAULT_DISCORD_TEMPLATES).map((key) => [key, true]),
+) as unknown as DiscordEventToggles;
+
+function makeChannel(overrides: Partial<NotificationChannelConfig> = {}): NotificationChannelConfig {
+  return {
+    type: 'webhook',
+    name: '',
+    enabled: true,
+    url: 'https://hooks.example.com/streamloop',
+    token: '',
+    chatId: '',
+    ...overrides,
+    events: { ...allEvents, ...overrides.events },
+    templates: { ...DEFAULT_DISCORD_TEMPLATES, ...overrides.templates },
+  };
+}
+
+function mockFetch() {
+  return vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+}
+
+function request(fetchSpy: ReturnType<typeof mockFetch>, call = 0) {
+  const [url, init] = fetchSpy.mock.calls[call] as [string, RequestInit];
+  return { url, headers: init.headers as Record<string, string>, body: init.body as string };
+}
+
+describe('notification channels', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('posts a Slack attachment with Slack-style bold', async () => {
+    const fetchSpy = mockFetch();
+    await new SlackNotifier(makeChannel({ type: 'slack' }), context).notifyCritical('Stream is down');
+    const { url, body } = request(fetchSpy);
+    expect(url).toBe('https://hooks.example.com/streamloop');
+    const payload = JSON.parse(body);
+    expect(payload.attachments[0].text).toBe('*CRITICAL:* Stream is down');
+    expect(payload.attachments[0].color).toBe('#e74c3c');
+  });
+
+  it('sends Telegram messages as HTML to the bot API', async () => {
+    const fetchSpy = mockFetch();
+    const notifier = new TelegramNotifier(makeChannel({ type: 'telegram', url: '', token: 'abc:123', chatId: '-100' }), context);
+    await notifier.notifyCritical('a < b');
+    const { url, body } = request(fetchSpy);
+    expect(url).toBe('https://api.telegram.org/botabc:123/sendMessage');
+    const payload = JSON.parse(body);
+    expect(payload.chat_id).toBe('-100');
+    expect(payload.parse_mode).toBe('HTML');
+    expect(payload.text).toContain('<b>CRITICAL:</b> a &lt; b');
+  });
+
+  it('does not send to Telegram without a chat id', async () => {
+    const fetchSpy = mockFetch();
+    await new TelegramNotifier(makeChannel({ type: 'telegram', token: 'abc:123' }), context).notifyCritical('x');
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('publishes to ntfy with priority and auth headers', async () => {
+    const fetchSpy = mockFetch();
+    await new NtfyNotifier(makeChannel({ type: 'ntfy', url: 'https://ntfy.sh/stream', token: 'tk' }), context)
+      .notifyCritical('Stream is down');
+    const { url, headers, body } = request(fetchSpy);
+    expect(url).toBe('https://ntfy.sh/stream');
+    expect(headers.Priority).toBe('5');
+    expect(headers.Authorization).toBe('Bearer tk');
+    expect(body).toContain('**CRITICAL:** Stream is down');
+  });
+
+  it('posts Gotify messages with the app token', async () => {
+    const fetchSpy = mockFetch();
+    await new GotifyNotifier(makeChannel({ type: 'gotify', url: 'https://gotify.local/', token: 'app' }), context)
+      .notifyCritical('Stream is down');
+    const { url, headers, body } = request(fetchSpy);
+    expect(url).toBe('https://gotify.local/message');
+    expect(headers['X-Gotify-Key']).toBe('app');
+    expect(JSON.parse(body).priority).toBe(8);
+  });
+
+  it('posts the merged batch to a JSON webhook after the debounce window', async () => {
+    const fetchSpy = mockFetch();
+    const notifier = new JsonWebhookNotifier(makeChannel(), context);
+    await notifier.notifyObsDisconnect();
+    await notifier.notifyObsReconnect();
+    expect(fetchSpy).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(30000);
+    expect(fetchSpy).toHaveBeenCalledOnce();
+    const payload = JSON.parse(request(fetchSpy).body);
+    expect(payload.source).toBe('streamloop');
+    expect(payload.messages).toHaveLength(2);
+    expect(payload.level).toBe('warn');
+  });
+
+  it('skips disabled channels and events toggled off per channel', async () => {
+    const fetchSpy = mockFetch();
+    await new JsonWebhookNotifier(makeChannel({ enabled: false }), context).notifyCritical('x');
+    await new JsonWebhookNotifier(makeChannel({ events: { critical: false } as DiscordEventToggles }), context)
+      .notifyCritical('x');
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('delivers test messages immediately and reports why one did not go out', async () => {
+    const fetchSpy = mockFetch();
+    const slack = new SlackNotifier(makeChannel({ type: 'slack' }), context);
+    expect(await slack.sendTest('hello')).toEqual({ ok: true });
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+    fetchSpy.mockResolvedValue(new Response(null, { status: 404 }));
+    expect(await slack.sendTest('hello')).toEqual({ ok: false, error: 'HTTP 404' });
+    // Alerts still swallow the failure after logging it
+    await expect(slack.notifyCritical('x')).resolves.toBeUndefined();
+
+    expect(await new GotifyNotifier(makeChannel({ type: 'gotify' }), context).sendTest('hello'))
+      .toMatchObject({ ok: false, disabled: true });
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+  });
+
+  it('hub fans out to the primary webhook and every channel', async () => {
+    const fetchSpy = mockFetch();
+    const discord: DiscordConfig = {
+      webhookUrl: 'https://discord.com/api/webhooks/test', botName: '', avatarUrl: '', events: allEvents, templates: DEFAULT_DISCORD_TEMPLATES,
+      mentions: {}, routes: [], quietHours: { enabled: false, start: '23:00', end: '07:00', days: [] }, embeds: {}, statusMessage: { enabled: false, updateIntervalMs: 60_000 },
+    };
+    const config = { discord } as AppConfig;
+    const hub = new NotifierHub(
+      new DiscordNotifier(config, context),
+      [
+        createChannelNotifier(makeChannel({ type: 'slack', url: 'https://hooks.slack.com/x' }), config, context),
+        createChannelNotifier(makeChannel({ type: 'ntfy', url: 'https://ntfy.sh/stream', events: { critical: false } as DiscordEventToggles }), config, context),
+      ],
+    );
+    await hub.notifyCritical('All steps exhausted');
+    const urls = fetchSpy.mock.calls.map((c) => c[0]);
+    expect(urls).toEqual(['https://discord.com/api/webhooks/test', 'https://hooks.slack.com/x']);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest';
-import { OBSClient } from '../obs-client.js';
+import { OBSClient, obsKillCommand } from '../obs-client.js';
 import type { AppConfig } from '../types.js';
 
 function makeConfig(): AppConfig {
@@ -7,9 +7,9 @@ function makeConfig(): AppConfig {
     port: 7654, obsWebsocketUrl: '', obsWebsocketPassword: '',
     obsBrowserSourceName: 'Video Capture', playlists: [{ id: 'PL1' }],
     discord: {
-      webhookUrl: '', botName: '', avatarUrl: '', rolePing: '',
-      events: { error: true, skip: true, recovery: true, critical: true, resume: true, obsDisconnect: true, obsReconnect: true, streamDrop: true, streamRestart: true, twitchMismatch: true, twitchRestart: true },
-      templates: { error: '', skip: '', recovery: '', critical: '', resume: '', obsDisconnect: '', obsReconnect: '', streamDrop: '', streamRestart: '', twitchMismatch: '', twitchRestart: '' },
+      webhookUrl: '', botName: '', avatarUrl: '', mentions: {}, routes: [], quietHours: { enabled: false, start: '23:00', end: '07:00', days: [] }, embeds: {}, statusMessage: { enabled: false, updateIntervalMs: 60_000 },
+      events: { error: true, skip: true, recovery: true, critical: true, escalation: true, incident: true, resume: true, obsDisconnect: true, obsReconnect: true, streamDrop: true, streamRestart: true, twitchMismatch: true, twitchRestart: true, scheduleSwitch: true, fallbackActivate: true, fallbackRestore: true, dailySummary: true },
+      templates: { error: '', skip: '', recovery: '', critical: '', escalation: '', incident: '', resume: '', obsDisconnect: '', obsReconnect: '', streamDrop: '', streamRestart: '', twitchMismatch: '', twitchRestart: '', scheduleSwitch: '', fallbackActivate: '', fallbackRestore: '', dailySummary: '' },
     },
     heartbeatIntervalMs: 5000, heartbeatTimeoutMs: 15000, maxConsecutiveErrors: 3,
     stateFilePath: './state.json', recoveryDelayMs: 5000, initialLoadGraceMs: 90000, obsAutoRestart: false,
@@ -18,6 +18,18 @@ function makeConfig(): AppConfig {
     sourceRefreshIntervalMs: 0, twitchClientId: '', twitchClientSecret: '', twitchChannel: '',
     twitchLivenessEnabled: false, twitchPollIntervalMs: 60000, mpvGeometry: '1920x1080+0+0',
     mpvYtdlFormat: 'best', mpvExtraArgs: [], ytdlCookiesFromBrowser: '', ytdlPlayerClient: '',
+    schedule: { enabled: false, blocks: [] },
+    fallback: { enabled: false, source: null, maxSkips: 5, maxCriticals: 2, windowMs: 1800000, probeIntervalMs: 300000 },
+    eventRetentionDays: 7,
+    blacklist: { enabled: true, failureThreshold: 2, ttlMs: 86400000 },
+    notifications: [],
+    escalation: { enabled: true, intervalMs: 900000, levels: [] },
+    detectors: { stall: { mode: 'recover', heartbeats: 3 }, videoFreeze: { mode: 'recover', heartbeats: 4, frozenBitrate: 1000, maxRetries: 3 }, outputFreeze: { mode: 'recover', hashDistance: 4 }, blackScreen: { mode: 'recover', maxLuma: 16, maxStdDev: 2 }, audioSilence: { mode: 'recover', thresholdDb: -60, graceMs: 60000, inputName: '' }, playbackQuality: { mode: 'recover', maxDropPercent: 25, maxAvsyncMs: 500, heartbeats: 12 }, nonPlaying: { mode: 'recover', heartbeats: 6 }, heartbeat: { mode: 'recover' }, prematureEof: { mode: 'recover', maxRetries: 2 } },
+    recoveryLadder: { default: [] },
+    restartBreaker: { enabled: false, maxRestarts: 5, windowMs: 600000, backoffMs: 60000, maxBackoffMs: 1800000 },
+    outputIgnoreRegion: null,
+    obsHealth: { enabled: false, pollIntervalMs: 10000, windowMs: 300000, maxSkippedPercent: 5, maxCpuPercent: 90, stalledPolls: 3 },
+    qualityLadder: { enabled: false, rungs: [{ label: '720p', format: 'best[height<=?720]' }], stepDownAfter: 3, windowMs: 900000, stepUpAfterMs: 1800000 },
   };
 }
 
@@ -41,3 +53,69 @@ describe('OBSClient.getSourceScreenshot', () => {
     expect(await client.getSourceScreenshot()).toBeNull();
   });
 });
+
+describe('OBSClient audio levels', () => {
+  it('meters the capture source and takes the loudest unmuted input as the program mix', () => {
+    const client = new OBSClient(makeConfig());
+    (client as any).obs = { call: vi.fn(async () => ({ inputMuted: false })) };
+    (client as any).inputMuted.set('Mic', true);
+    (client as any).inputMuted.set('Video Capture', false);
+    (client as any).handleVolumeMeters([
+      { inputName: 'Video Capture', inputLevelsMul: [[0, 0.0001, 0], [0, 0.00005, 0]] },
+      { inputName: 'Mic', inputLevelsMul: [[0, 0.5, 0]] },
+    ]);
+    expect(client.getAudioLevels()).toMatchObject({
+      inputName: 'Video Capture', inputDb: -80, programDb: -80, inputMuted: false, lastAudibleAt: null,
+    });
+
+    (client as any).handleVolumeMeters([{ inputName: 'Video Capture', inputLevelsMul: [[0, 0.1, 0]] }]);
+    expect(client.getAudioLevels()).toMatchObject({ inputDb: -20, programDb: -20 });
+    expect(client.getAudioLevels().lastAudibleAt).not.toBeNull();
+  });
+
+  it('falls back to the program mix when the capture source has no audio', () => {
+    const client = new OBSClient(makeConfig());
+    (client as any).obs = { call: vi.fn(async () => ({ inputMuted: false })) };
+    (client as any).handleVolumeMeters([{ inputName: 'Desktop Audio', inputLevelsMul: [[0, 0.01, 0]] }]);
+    expect(client.getAudioLevels()).toMatchObject({ inputDb: null, programDb: -40 });
+    expect(client.getAudioLevels().lastAudibleAt).not.toBeNull();
+  });
+});
+
+describe('OBSClient health poll', () => {
+  it('treats an active stream that sends nothing as a drop when auto-streaming', async () => {
+    vi.useFakeTimers();
+    const client = new OBSClient({ ...makeConfig(), obsAutoStream: true });
+    const stats = {
+      cpuUsage: 10, memoryUsage: 300, activeFps: 30,
+      renderSkippedFrames: 0, renderTotalFrames: 900, outputSkippedFrames: 0, outputTotalFrames: 900,
+    };
+    const stream = { outputActive: true, outputReconnecting: false, outputCongestion: 0, outputBytes: 1_000_000, outputSkippedFrames: 0, outputTotalFrames: 900 };
+    const call = vi.fn(async (request: string) => (request === 'GetStats' ? stats : request === 'GetStreamStatus' ? stream : {}));
+    (client as any).connected = true;
+    (client as any).obs = { call, disconnect: vi.fn(async () => {}) };
+    const drops: number[] = [];
+    const alerts: unknown[] = [];
+    client.onStreamDrop((attempt) => drops.push(attempt));
+    client.onHealthAlert((alert) => alerts.push(alert));
+
+    for (let i = 0; i < 4; i++) await (client as any).pollHealth();
+    expect(drops).toEqual([1]);
+    expect(call).toHaveBeenCalledWith('StopStream');
+    expect(alerts).toEqual([]);
+    expect(client.getHealth()).toMatchObject({ cpuUsage: 10, activeFps: 30, alerts: ['output'] });
+    await client.disconnect();
+    vi.useRealTimers();
+  });
+});
+
+describe('obsKillCommand', () => {
+  it('uses taskkill on Windows', () => {
+    expect(obsKillCommand('obs64.exe', 'win32')).toEqual({ cmd: 'taskkill', args: ['/F', '/IM', 'obs64.exe'] });
+  });
+
+  it('signals the process by exact name elsewhere', () => {
+    expect(obsKillCommand('obs', 'linux')).toEqual({ cmd: 'pkill', args: ['-KILL', '-x', 'obs'] });
+    expect(obsKillCommand('OBS', 'darwin')).toEqual({ cmd: 'pkill', args: ['-KILL', '-x', 'OBS'] });
+  });
+});
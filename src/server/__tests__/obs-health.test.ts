@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { ObsHealthMonitor, type ObsHealthSample } from '../obs-health.js';
+import type { ObsHealthAlert } from '../types.js';
+
+const config = { enabled: true, pollIntervalMs: 10_000, windowMs: 60_000, maxSkippedPercent: 5, maxCpuPercent: 90, stalledPolls: 3 };
+
+/** Poll `i` of a 30 fps stream at 10s intervals, 2.5 Mbit/s. */
+function sample(i: number, overrides: Partial<ObsHealthSample> = {}, stream: Partial<NonNullable<ObsHealthSample['stream']>> = {}): ObsHealthSample {
+  return {
+    at: i * 10_000, cpuUsage: 20, memoryUsage: 400, activeFps: 30,
+    renderSkippedFrames: 0, renderTotalFrames: i * 300,
+    encoderSkippedFrames: 0, encoderTotalFrames: i * 300,
+    stream: { reconnecting: false, congestion: 0, bytes: i * 3_125_000, skippedFrames: 0, totalFrames: i * 300, ...stream },
+    ...overrides,
+  };
+}
+
+describe('ObsHealthMonitor', () => {
+  it('alerts once when skipped frames pass the threshold over the window, and when it clears', () => {
+    const monitor = new ObsHealthMonitor(config);
+    expect(monitor.add(sample(0))).toEqual([]);
+    expect(monitor.add(sample(1, { encoderSkippedFrames: 60 }))).toEqual([]); // under half the window yet
+    expect(monitor.add(sample(3, { encoderSkippedFrames: 108 }))).toEqual([
+      { condition: 'encoder', active: true, message: 'Encoder overloaded: 12% frames skipped in last 30s' },
+    ]);
+    expect(monitor.add(sample(4, { encoderSkippedFrames: 120 }))).toEqual([]);
+    expect(monitor.getStatus()).toMatchObject({ encoderSkippedPercent: 10, streamKbps: 2500, alerts: ['encoder'] });
+
+    // Window slides past the bad stretch
+    expect(monitor.add(sample(10, { encoderSkippedFrames: 120 }))).toEqual([
+      { condition: 'encoder', active: false, message: 'Encoder back to normal: 0% frames skipped in last 1m 0s' },
+    ]);
+  });
+
+  it('flags an active stream whose byte counter stops, and starts over when counters reset', () => {
+    const monitor = new ObsHealthMonitor(config);
+    monitor.add(sample(1));
+    monitor.add(sample(2, {}, { bytes: 3_125_000 }));
+    monitor.add(sample(3, {}, { bytes: 3_125_000 }));
+    expect(monitor.add(sample(4, {}, { bytes: 3_125_000 }))).toEqual([
+      { condition: 'output', active: true, message: 'Stream output stalled: active but no data sent for 30s' },
+    ]);
+    // Stream restarted: its counters start from zero again
+    expect(monitor.add(sample(5, {}, { bytes: 50_000, totalFrames: 10 }))).toEqual([
+      { condition: 'output', active: false, message: 'Stream output sending data again' },
+    ]);
+    expect(monitor.getStatus()).toMatchObject({ networkDroppedPercent: null, streamKbps: null });
+  });
+
+  it('re-arms a cleared condition, and alerts afresh after a reset', () => {
+    const monitor = new ObsHealthMonitor(config);
+    const cpu = (i: number, cpuUsage: number) => monitor.add(sample(i, { cpuUsage }));
+    cpu(0, 95);
+    expect(cpu(3, 95)).toEqual([{ condition: 'cpu', active: true, message: 'OBS CPU high: 95% average in last 30s' }]);
+    expect(cpu(4, 95)).toEqual([]);
+    // A minute at 20% clears it once; back at full load it alerts again
+    const later: ObsHealthAlert[] = [];
+    for (let i = 5; i <= 11; i++) later.push(...cpu(i, 20));
+    for (let i = 12; i <= 18; i++) later.push(...cpu(i, 100));
+    expect(later.map((a) => [a.condition, a.active])).toEqual([['cpu', false], ['cpu', true]]);
+
+    monitor.reset();
+    expect(monitor.getStatus()).toBeNull();
+    cpu(20, 95);
+    expect(cpu(23, 95)).toEqual([{ condition: 'cpu', active: true, message: 'OBS CPU high: 95% average in last 30s' }]);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { writeFileSync, mkdirSync, rmSync, readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  listLocalFolder, parseM3u, listM3u, playlistLoadTarget, sourceUrlsExpire, ytdlpSourceUrl,
+} from '../playlist-source.js';
+import { PlaylistMetadataCache } from '../playlist-metadata.js';
+
+const tmpDir = join(import.meta.dirname, '..', '..', '..', '.test-tmp');
+const mediaDir = join(tmpDir, 'media');
+
+beforeEach(() => {
+  rmSync(mediaDir, { recursive: true, force: true });
+  mkdirSync(join(mediaDir, 'extras'), { recursive: true });
+  for (const name of ['ep10.mkv', 'ep2.mp4', 'EP1.webm', 'cover.jpg', 'notes.txt']) {
+    writeFileSync(join(mediaDir, name), '');
+  }
+  writeFileSync(join(mediaDir, 'extras', 'bonus.mp4'), '');
+});
+
+afterEach(() => {
+  rmSync(mediaDir, { recursive: true, force: true });
+});
+
+describe('listLocalFolder', () => {
+  it('lists media files only, non-recursively, in natural order', async () => {
+    const videos = await listLocalFolder(mediaDir);
+    expect(videos.map((v) => v.title)).toEqual(['EP1', 'ep2', 'ep10']);
+    expect(videos.map((v) => v.index)).toEqual([0, 1, 2]);
+    expect(videos[0].id).toBe(join(mediaDir, 'EP1.webm'));
+  });
+});
+
+describe('parseM3u', () => {
+  it('reads EXTINF titles and durations and resolves relative paths', () => {
+    const text = [
+      '#EXTM3U',
+      '#EXTINF:123,Opening',
+      'intro.mp4',
+      '',
+      'https://cdn.example.com/clip.mp4',
+      '#EXTINF:-1,Live',
+      'https://cdn.example.com/live.m3u8',
+    ].join('\r\n');
+
+    expect(parseM3u(text, '/srv/loop')).toEqual([
+      { index: 0, id: join('/srv/loop', 'intro.mp4'), title: 'Opening', duration: 123 },
+      { index: 1, id: 'https://cdn.example.com/clip.mp4', title: 'clip', duration: 0 },
+      { index: 2, id: 'https://cdn.example.com/live.m3u8', title: 'Live', duration: 0 },
+    ]);
+  });
+
+  it('lists a local playlist file relative to its own folder', async () => {
+    const listPath = join(mediaDir, 'list.m3u8');
+    writeFileSync(listPath, '#EXTM3U\nep2.mp4\n');
+    const videos = await listM3u(listPath);
+    expect(videos).toEqual([{ index: 0, id: join(mediaDir, 'ep2.mp4'), title: 'ep2', duration: 0 }]);
+  });
+});
+
+describe('playlistLoadTarget', () => {
+  it('builds the YouTube playlist URL for plain entries', async () => {
+    expect(await playlistLoadTarget({ id: 'PLabc' })).toBe('https://www.youtube.com/playlist?list=PLabc');
+  });
+
+  it('passes direct and yt-dlp URLs through unchanged', async () => {
+    expect(await playlistLoadTarget({ type: 'url', id: 'https://x.test/a.mp4' })).toBe('https://x.test/a.mp4');
+    expect(await playlistLoadTarget({ type: 'ytdlp', id: 'https://vimeo.com/123' })).toBe('https://vimeo.com/123');
+  });
+
+  it('writes local folders out as an M3U in listing order', async () => {
+    const target = await playlistLoadTarget({ type: 'local', id: mediaDir });
+    const lines = readFileSync(target, 'utf8').trim().split('\n');
+    expect(lines).toEqual([
+      '#EXTM3U',
+      join(mediaDir, 'EP1.webm'),
+      join(mediaDir, 'ep2.mp4'),
+      join(mediaDir, 'ep10.mkv'),
+    ]);
+    rmSync(target, { force: true });
+  });
+
+  it('rejects a local folder with no media', async () => {
+    await expect(playlistLoadTarget({ type: 'local', id: join(mediaDir, 'extras', 'none') })).rejects.toThrow();
+    const empty = join(mediaDir, 'empty');
+    mkdirSync(empty);
+    await expect(playlistLoadTarget({ type: 'local', id: empty })).rejects.toThrow(/No media files/);
+  });
+});
+
+describe('source helpers', () => {
+  it('only sends YouTube and yt-dlp sources to yt-dlp', () => {
+    expect(ytdlpSourceUrl({ id: 'PLabc' })).toBe('https://www.youtube.com/playlist?list=PLabc');
+    expect(ytdlpSourceUrl({ type: 'ytdlp', id: 'https://vimeo.com/123' })).toBe('https://vimeo.com/123');
+    expect(ytdlpSourceUrl({ type: 'local', id: mediaDir })).toBeNull();
+    expect(ytdlpSourceUrl({ type: 'm3u', id: 'list.m3u' })).toBeNull();
+  });
+
+  it('treats only local folders as non-expiring', () => {
+    expect(sourceUrlsExpire({ type: 'local', id: mediaDir })).toBe(false);
+    expect(sourceUrlsExpire({ id: 'PLabc' })).toBe(true);
+  });
+});
+
+describe('PlaylistMetadataCache with non-YouTube sources', () => {
+  it('lists a local folder without invoking yt-dlp', async () => {
+    const cache = new PlaylistMetadataCache('/nonexistent/yt-dlp');
+    const metadata = await cache.fetch({ type: 'local', id: mediaDir });
+    expect(metadata.playlistId).toBe(mediaDir);
+    expect(metadata.videos).toHaveLength(3);
+  });
+
+  it('lists a direct URL as a single entry', async () => {
+    const cache = new PlaylistMetadataCache('/nonexistent/yt-dlp');
+    const metadata = await cache.fetch({ type: 'url', id: 'https://x.test/a.mp4', name: 'Loop' });
+    expect(metadata.videos).toEqual([{ index: 0, id: 'https://x.test/a.mp4', title: 'Loop', duration: 0 }]);
+  });
+});
@@ -0,0 +1,46 @@
+import { deflateSync } from 'zlib';
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  // The decoder doesn't check CRCs
+  return Buffer.concat([length, Buffer.from(type, 'latin1'), data, Buffer.alloc(4)]);
+}
+
+/**
+ * Base64 RGB PNG of `size`×`size` pixels with grey level `pixel(x, y)`,
+ * cycling through all five row filters so decoding covers each.
+ */
+export function greyPng(pixel: (x: number, y: number) => number, size = 64): string {
+  const stride = size * 3;
+  const rows: number[][] = [];
+  for (let y = 0; y < size; y++) {
+    rows.push(Array.from({ length: stride }, (_, i) => Math.max(0, Math.min(255, Math.round(pixel(Math.floor(i / 3), y))))));
+  }
+  const raw: number[] = [];
+  rows.forEach((row, y) => {
+    const filter = y % 5;
+    raw.push(filter);
+    row.forEach((value, x) => {
+      const left = x >= 3 ? row[x - 3] : 0;
+      const up = y > 0 ? rows[y - 1][x] : 0;
+      const upLeft = y > 0 && x >= 3 ? rows[y - 1][x - 3] : 0;
+      const p = left + up - upLeft;
+      const paeth = Math.abs(p - left) <= Math.abs(p - up) && Math.abs(p - left) <= Math.abs(p - upLeft)
+        ? left : Math.abs(p - up) <= Math.abs(p - upLeft) ? up : upLeft;
+      const predictor = [0, left, up, (left + up) >> 1, paeth][filter];
+      raw.push((value - predictor) & 0xff);
+    });
+  });
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(size, 0);
+  ihdr.writeUInt32BE(size, 4);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = 2; // RGB
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', ihdr),
+    chunk('IDAT', deflateSync(Buffer.from(raw))),
+    chunk('IEND', Buffer.alloc(0)),
+  ]).toString('base64');
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from 'vitest';
+import { QualityLadder } from '../quality-ladder.js';
+import type { Notifier } from '../notifier.js';
+
+vi.mock('../logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+const config = {
+  enabled: true,
+  rungs: [{ label: '720p', format: 'best[height<=?720]' }, { label: '480p', format: 'best[height<=?480]' }],
+  stepDownAfter: 3,
+  windowMs: 900_000,
+  stepUpAfterMs: 1_800_000,
+};
+
+function makeNotifier() {
+  return { notifyRecovery: vi.fn(async () => {}) } as unknown as Notifier & {
+    notifyRecovery: ReturnType<typeof vi.fn>;
+  };
+}
+
+describe('QualityLadder', () => {
+  it('steps down per burst of problems within the window, stopping at the bottom rung', () => {
+    const notifier = makeNotifier();
+    const ladder = new QualityLadder(config, 'best', () => notifier);
+    const events: string[] = [];
+    ladder.onEvent((_type, message) => events.push(message));
+
+    expect(ladder.recordTrouble('video freeze', 0)).toBe(false);
+    expect(ladder.recordTrouble('video freeze', 100_000)).toBe(false);
+    // The first one has left the window
+    expect(ladder.recordTrouble('video freeze', 950_000)).toBe(false);
+    expect(ladder.recordTrouble('HTTP 403', 960_000)).toBe(true);
+    expect(ladder.format).toBe('best[height<=?720]');
+    expect(events).toEqual(['Quality stepped down to 720p after 3 playback problems in 15m 0s (latest: HTTP 403)']);
+
+    for (const t of [970_000, 980_000]) ladder.recordTrouble('video freeze', t);
+    expect(ladder.recordTrouble('video freeze', 990_000)).toBe(true);
+    for (const t of [1_000_000, 1_010_000]) ladder.recordTrouble('video freeze', t);
+    expect(ladder.recordTrouble('video freeze', 1_020_000)).toBe(false);
+    expect(ladder.getStatus(1_020_000)).toMatchObject({ rung: 2, rungCount: 3, label: '480p', troublesInWindow: 3 });
+  });
+
+  it('steps up one rung per healthy stretch since the last change or problem, and resets when disabled', () => {
+    const notifier = makeNotifier();
+    const ladder = new QualityLadder({ ...config, stepDownAfter: 1 }, 'best', () => notifier);
+    ladder.recordTrouble('video freeze', 0);
+    ladder.recordTrouble('video freeze', 600_000);
+    expect(ladder.label).toBe('480p');
+
+    ladder.recordTrouble('video freeze', 600_000 + 1_000_000); // already at the bottom, but restarts the clock
+    expect(ladder.recordHealthy(2_400_000)).toBe(false);
+    expect(ladder.recordHealthy(3_400_000)).toBe(true);
+    expect(ladder.getStatus(3_400_000)).toMatchObject({
+      rung: 1, label: '720p', stepUpAt: new Date(3_400_000 + 1_800_000).toISOString(),
+    });
+    expect(notifier.notifyRecovery).toHaveBeenLastCalledWith('Quality stepped back up to 720p after 30m 0s of healthy playback');
+
+    ladder.setConfig({ ...config, enabled: false }, 'best');
+    expect(ladder.getStatus()).toMatchObject({ enabled: false, rung: 0, label: 'Full', format: 'best', changedAt: null });
+    expect(ladder.recordTrouble('video freeze')).toBe(false);
+  });
+
+  it('never steps above the top rung, and new trouble restarts the healthy streak', () => {
+    const ladder = new QualityLadder({ ...config, stepDownAfter: 1 }, 'best', () => makeNotifier());
+    expect(ladder.recordHealthy(10_000_000)).toBe(false);
+    expect(ladder.getStatus(10_000_000)).toMatchObject({ rung: 0, label: 'Full', format: 'best', stepUpAt: null });
+
+    ladder.recordTrouble('video freeze', 0);
+    expect(ladder.recordHealthy(1_700_000)).toBe(false);
+    // Trouble just short of a full healthy streak steps down again and restarts the streak
+    expect(ladder.recordTrouble('dropped frames / A/V desync', 1_700_000)).toBe(true);
+    expect(ladder.getStatus(1_700_000).stepUpAt).toBe(new Date(1_700_000 + 1_800_000).toISOString());
+    expect(ladder.recordHealthy(3_000_000)).toBe(false);
+    expect(ladder.recordHealthy(3_500_000)).toBe(true);
+    expect(ladder.recordHealthy(3_600_000)).toBe(false); // the new rung starts its own streak
+    expect(ladder.recordHealthy(5_300_000)).toBe(true);
+    expect(ladder.steppedDown).toBe(false);
+    expect(ladder.recordHealthy(9_000_000)).toBe(false);
+
+    // A shorter ladder pulls a lower rung up to its new bottom
+    ladder.recordTrouble('video freeze', 9_000_000);
+    ladder.recordTrouble('video freeze', 9_100_000);
+    ladder.setConfig({ ...config, stepDownAfter: 1, rungs: config.rungs.slice(0, 1) }, 'best');
+    expect(ladder.getStatus(9_100_000)).toMatchObject({ rung: 1, rungCount: 2, label: '720p' });
+  });
+});
@@ -1,6 +1,14 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { EventEmitter } from 'events';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { RecoveryEngine } from '../recovery.js';
+import { IncidentLog } from '../incidents.js';
+import { RestartBreaker } from '../restart-breaker.js';
+import { QualityLadder } from '../quality-ladder.js';
+import { VideoBlacklist } from '../video-blacklist.js';
+import { DEFAULT_RECOVERY_LADDER } from '../config.js';
 import { RecoveryStep, type AppConfig } from '../types.js';
 import type { MpvClient } from '../mpv-client.js';
 import type { StateManager } from '../state.js';
@@ -18,12 +26,16 @@ function makeConfig(overrides: Partial<AppConfig> = {}): AppConfig {
       webhookUrl: '',
       botName: '',
       avatarUrl: '',
-      rolePing: '',
-      events: { error: true, skip: true, recovery: true, critical: true, resume: true, obsDisconnect: true, obsReconnect: true, streamDrop: true, streamRestart: true, twitchMismatch: true, twitchRestart: true },
+      mentions: {},
+      routes: [],
+      quietHours: { enabled: false, start: '23:00', end: '07:00', days: [] },
+      embeds: {},
+      statusMessage: { enabled: false, updateIntervalMs: 60_000 },
+      events: { error: true, skip: true, recovery: true, critical: true, escalation: true, incident: true, resume: true, obsDisconnect: true, obsReconnect: true, streamDrop: true, streamRestart: true, twitchMismatch: true, twitchRestart: true, scheduleSwitch: true, fallbackActivate: true, fallbackRestore: true, dailySummary: true },
       templates: {
-        error: '', skip: '', recovery: '', critical: '', resume: '',
+        error: '', skip: '', recovery: '', critical: '', escalation: '', incident: '', resume: '',
         obsDisconnect: '', obsReconnect: '', streamDrop: '', streamRestart: '',
-        twitchMismatch: '', twitchRestart: '',
+        twitchMismatch: '', twitchRestart: '', scheduleSwitch: '', fallbackActivate: '', fallbackRestore: '', dailySummary: '',
       },
     },
     heartbeatIntervalMs: 5000,
@@ -52,6 +64,18 @@ function makeConfig(overrides: Partial<AppConfig> = {}): AppConfig {
     mpvExtraArgs: [],
     ytdlCookiesFromBrowser: '',
     ytdlPlayerClient: '',
+    schedule: { enabled: false, blocks: [] },
+    fallback: { enabled: false, source: null, maxSkips: 5, maxCriticals: 2, windowMs: 1800000, probeIntervalMs: 300000 },
+    eventRetentionDays: 7,
+    blacklist: { enabled: true, failureThreshold: 2, ttlMs: 86400000 },
+    notifications: [],
+    escalation: { enabled: true, intervalMs: 900000, levels: [] },
+    detectors: { stall: { mode: 'recover', heartbeats: 3 }, videoFreeze: { mode: 'recover', heartbeats: 4, frozenBitrate: 1000, maxRetries: 3 }, outputFreeze: { mode: 'recover', hashDistance: 4 }, blackScreen: { mode: 'recover', maxLuma: 16, maxStdDev: 2 }, audioSilence: { mode: 'recover', thresholdDb: -60, graceMs: 60000, inputName: '' }, playbackQuality: { mode: 'recover', maxDropPercent: 25, maxAvsyncMs: 500, heartbeats: 12 }, nonPlaying: { mode: 'recover', heartbeats: 6 }, heartbeat: { mode: 'recover' }, prematureEof: { mode: 'recover', maxRetries: 2 } },
+    recoveryLadder: { default: DEFAULT_RECOVERY_LADDER },
+    restartBreaker: { enabled: false, maxRestarts: 5, windowMs: 600000, backoffMs: 60000, maxBackoffMs: 1800000 },
+    outputIgnoreRegion: null,
+    obsHealth: { enabled: false, pollIntervalMs: 10000, windowMs: 300000, maxSkippedPercent: 5, maxCpuPercent: 90, stalledPolls: 3 },
+    qualityLadder: { enabled: false, rungs: [{ label: '720p', format: 'best[height<=?720]' }], stepDownAfter: 3, windowMs: 900000, stepUpAfterMs: 1800000 },
     ...overrides,
   };
 }
@@ -120,7 +144,14 @@ function mockObs() {
   return {
     refreshBrowserSource: vi.fn(async () => true),
     toggleBrowserSource: vi.fn(async () => true),
+    restartStream: vi.fn(async () => true),
+    relaunch: vi.fn(async () => true),
     getSourceScreenshot: vi.fn(async () => null),
+    isConnected: vi.fn(() => true),
+    // No audio metered yet: the silence detector stays idle
+    getAudioLevels: vi.fn(() => ({
+      inputName: 'Player', inputDb: null, programDb: null, inputMuted: null, inputVolumeMul: null, thresholdDb: -60, lastAudibleAt: null,
+    })),
   } as unknown as OBSClient;
 }
 
@@ -131,7 +162,11 @@ function mockDiscord() {
     notifySkip: vi.fn(async () => {}),
     notifyRecovery: vi.fn(async () => {}),
     notifyCritical: vi.fn(async () => {}),
+    notifyIncident: vi.fn(async () => {}),
     notifyResume: vi.fn(async () => {}),
+    notifyScheduleSwitch: vi.fn(async () => {}),
+    notifyFallbackActivate: vi.fn(async () => {}),
+    notifyFallbackRestore: vi.fn(async () => {}),
   } as unknown as DiscordNotifier;
 }
 
@@ -173,6 +208,33 @@ describe('RecoveryEngine', () => {
     );
   });
 
+  it('loads non-YouTube sources as-is', async () => {
+    const mpv = mockMpv();
+    const state = mockState({ playlistIndex: 1 });
+    const config = makeConfig({ playlists: [{ id: 'PLA' }, { type: 'url', id: 'https://cdn.example.com/loop.mp4' }] });
+    const engine = new RecoveryEngine(config, mpv as unknown as MpvClient, state, mockObs(), mockDiscord());
+    engine.start();
+
+    mpv._emit('connected');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(mpv.loadPlaylist).toHaveBeenCalledWith('https://cdn.example.com/loop.mp4');
+  });
+
+  it('does not load anything when a playlist source cannot be resolved', async () => {
+    const mpv = mockMpv();
+    const config = makeConfig({ playlists: [{ type: 'local', id: '/nonexistent/streamloop-media' }] });
+    const engine = new RecoveryEngine(config, mpv as unknown as MpvClient, mockState(), mockObs(), mockDiscord());
+    engine.start();
+
+    mpv._emit('connected');
+    // The folder listing is real async fs I/O, which fake timers don't drive.
+    await vi.waitFor(() => {
+      expect(engine.getEvents().some((e) => e.message.startsWith('Cannot load playlist'))).toBe(true);
+    });
+    expect(mpv.loadPlaylist).not.toHaveBeenCalled();
+  });
+
   it('clamps out-of-range playlistIndex to 0', async () => {
     const mpv = mockMpv();
     const state = mockState({ playlistIndex: 5, videoIndex: 0 });
@@ -270,6 +332,14 @@ describe('RecoveryEngine', () => {
     const events = engine.getEvents();
     const errorEvent = events.find((e) => e.message.includes('Playback error'));
     expect(errorEvent?.message).toContain('Unrecognized file format');
+    expect(errorEvent).toMatchObject({
+      type: 'playbackError',
+      severity: 'error',
+      videoIndex: 7,
+      videoId: 'abc123',
+      playlistId: 'PL123',
+      detail: { fileError: 'Unrecognized file format', consecutiveErrors: 1 },
+    });
   });
 
   it('discards resume position when currentTime exceeds known videoDuration', async () => {
@@ -441,6 +511,8 @@ describe('RecoveryEngine', () => {
     const state = mockState({ videoIndex: 1, videoId: 'v1' });
     const config = makeConfig({ maxConsecutiveErrors: 2 });
     const engine = new RecoveryEngine(config, mpv as unknown as MpvClient, state, mockObs(), discord);
+    const onRecovery = vi.fn();
+    engine.on('recovery', onRecovery);
     engine.start();
 
     // First error — no skip yet
@@ -452,6 +524,7 @@ describe('RecoveryEngine', () => {
     mpv._emit('fileEnded', 'error');
     await vi.advanceTimersByTimeAsync(0);
     expect(discord.notifySkip).toHaveBeenCalledWith(1, 'v1', expect.any(String));
+    expect(onRecovery.mock.calls).toEqual([['skip']]);
   });
 
   it('resets non-playing counter on fileEnded error so skip mechanism can work', async () => {
@@ -553,6 +626,8 @@ describe('RecoveryEngine', () => {
 
     it('triggers recovery after 3 stalled heartbeats', async () => {
       const { mpv, discord, engine, setTimePos } = setupStallTest();
+      const reasons: string[] = [];
+      engine.on('recovery', (reason) => reasons.push(reason));
       engine.start();
 
       // First heartbeat — establishes baseline
@@ -565,6 +640,7 @@ describe('RecoveryEngine', () => {
       }
 
       expect(discord.notifyRecovery).toHaveBeenCalledWith('Stall detected');
+      expect(reasons).toEqual(['stall']);
     });
 
     it('does not trigger recovery when time advances', async () => {
@@ -609,6 +685,88 @@ describe('RecoveryEngine', () => {
 
       expect(discord.notifyRecovery).not.toHaveBeenCalledWith('Stall detected');
     });
+
+    it('trips at the configured threshold', async () => {
+      const detectors = { ...makeConfig().detectors, stall: { mode: 'recover' as const, heartbeats: 2 } };
+      const { discord, engine, setTimePos } = setupStallTest({ detectors });
+      engine.start();
+
+      setTimePos(50);
+      await vi.advanceTimersByTimeAsync(5000 * 3);
+
+      expect(discord.notifyRecovery).toHaveBeenCalledWith('Stall detected');
+    });
+
+    it('only logs the stall in detect mode', async () => {
+      const detectors = { ...makeConfig().detectors, stall: { mode: 'detect' as const, heartbeats: 3 } };
+      const { mpv, discord, engine, setTimePos } = setupStallTest({ detectors });
+      const reasons: string[] = [];
+      engine.on('recovery', (reason) => reasons.push(reason));
+      engine.start();
+
+      setTimePos(50);
+      await vi.advanceTimersByTimeAsync(5000 * 8);
+
+      const stalls = engine.getEvents().filter((e) => e.type === 'stall');
+      expect(stalls).toHaveLength(1);
+      expect(stalls[0].message).toContain('detect only');
+      expect(stalls[0].detail).toMatchObject({ detectOnly: true });
+      expect(discord.notifyRecovery).not.toHaveBeenCalled();
+      expect(mpv.reloadIndex).not.toHaveBeenCalled();
+      expect(reasons).toEqual([]);
+      engine.stop();
+    });
+  });
+
+  describe('incidents', () => {
+    it('groups a stall and its recovery into one incident that closes once playback settles', async () => {
+      const mpv = mockMpv();
+      const discord = mockDiscord();
+      const incidents = new IncidentLog();
+      const engine = new RecoveryEngine(makeConfig({ heartbeatIntervalMs: 5000 }), mpv as unknown as MpvClient, mockState(), mockObs(), discord, { incidents });
+      let timePos = 50;
+      mpv.getProperty.mockImplementation(async (name: string) => {
+        switch (name) {
+          case 'time-pos': return timePos;
+          case 'duration': return 300;
+          case 'pause': return false;
+          case 'idle-active': return false;
+          case 'playlist-count': return 10;
+          case 'video-params': return { w: 1920, h: 1080 };
+          case 'estimated-vf-fps': return 30;
+          default: return null;
+        }
+      });
+      const closed = vi.fn();
+      engine.on('incidentClose', closed);
+      engine.start();
+
+      // Baseline then 3 stalled heartbeats: recovery starts with RetryCurrent
+      await vi.advanceTimersByTimeAsync(5000 * 4);
+      const id = incidents.activeId;
+      expect(id).not.toBeNull();
+      expect(mpv.reloadIndex).toHaveBeenCalled();
+      expect(engine.getEvents().filter((e) => e.type === 'stall')[0].incidentId).toBe(id);
+
+      // Healthy again: the incident stays open until the settle window passes
+      for (let i = 0; i < 4; i++) {
+        timePos += 5;
+        await vi.advanceTimersByTimeAsync(5000);
+      }
+      expect(incidents.activeId).toBe(id);
+      for (let i = 0; i < 4; i++) {
+        timePos += 5;
+        await vi.advanceTimersByTimeAsync(5000);
+      }
+
+      expect(incidents.activeId).toBeNull();
+      expect(closed).toHaveBeenCalledOnce();
+      const [incident] = incidents.list();
+      expect(incident).toMatchObject({ id, root: 'stall', resolvedBy: RecoveryStep.RetryCurrent, actions: [RecoveryStep.RetryCurrent] });
+      expect(incident.eventCount).toBeGreaterThanOrEqual(3);
+      expect(discord.notifyIncident).toHaveBeenCalledWith(expect.objectContaining({ id }));
+      engine.stop();
+    });
   });
 
   it('getStatus includes playlist info and mpv state', () => {
@@ -661,6 +819,131 @@ describe('RecoveryEngine', () => {
       await vi.advanceTimersByTimeAsync(15000);
       expect(discord.notifyCritical).toHaveBeenCalled();
     });
+
+    it('raises a critical alert once per incident and leaves reminders to escalation', async () => {
+      const mpv = mockMpv();
+      mpv.isConnected.mockReturnValue(false);
+      const discord = mockDiscord();
+      const config = makeConfig({ recoveryDelayMs: 5000, heartbeatTimeoutMs: 15000 });
+      const engine = new RecoveryEngine(config, mpv as unknown as MpvClient, mockState(), mockObs(), discord);
+      const opened = vi.fn();
+      engine.on('criticalAlert', opened);
+      engine.start();
+
+      await vi.advanceTimersByTimeAsync(40000);
+      expect(opened).toHaveBeenCalledOnce();
+      expect(discord.notifyCritical).toHaveBeenCalledOnce();
+
+      // The sequence restarts after 60s and reaches CriticalAlert again
+      await vi.advanceTimersByTimeAsync(90000);
+      expect(mpv.restart.mock.calls.length).toBeGreaterThan(1);
+      expect(opened).toHaveBeenCalledOnce();
+      expect(discord.notifyCritical).toHaveBeenCalledOnce();
+      engine.stop();
+    });
+  });
+
+  describe('recovery ladder', () => {
+    it('runs the ladder configured for the reason, repeating a step per its attempts', async () => {
+      const mpv = mockMpv();
+      mpv.isConnected.mockReturnValue(false);
+      const obs = mockObs();
+      const config = makeConfig({
+        heartbeatTimeoutMs: 15000,
+        recoveryLadder: {
+          default: DEFAULT_RECOVERY_LADDER,
+          heartbeat: [
+            { action: RecoveryStep.ToggleSource, delayMs: 2000, attempts: 2 },
+            { action: RecoveryStep.RestartStream, delayMs: 2000, attempts: 1 },
+            { action: RecoveryStep.ReloadPlaylist, delayMs: 2000, attempts: 1 },
+          ],
+        },
+      });
+      const engine = new RecoveryEngine(config, mpv as unknown as MpvClient, mockState(), obs, mockDiscord());
+      engine.start();
+
+      await vi.advanceTimersByTimeAsync(20000);
+      expect(obs.toggleBrowserSource).toHaveBeenCalledOnce();
+      expect(engine.getStatus().recoveryLadderStep).toBe(1);
+
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(obs.toggleBrowserSource).toHaveBeenCalledTimes(2);
+      expect(obs.restartStream).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(obs.restartStream).toHaveBeenCalledOnce();
+      expect(engine.getStatus().recoveryLadderStep).toBe(2);
+
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(mpv.loadPlaylist).toHaveBeenCalledOnce();
+
+      // Past the last step the ladder starts over
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(obs.toggleBrowserSource).toHaveBeenCalledTimes(3);
+      expect(mpv.reloadIndex).not.toHaveBeenCalled();
+      expect(mpv.restart).not.toHaveBeenCalled();
+      expect(engine.getEvents().filter((e) => e.type === 'recoveryStep').map((e) => e.message)).toEqual([
+        'Recovery step: toggleSource (attempt 1/2)',
+        'Recovery step: toggleSource (attempt 2/2)',
+        'Recovery step: restartStream',
+        'Recovery step: reloadPlaylist',
+        'Recovery step: toggleSource (attempt 1/2)',
+      ]);
+      engine.stop();
+    });
+
+    it('uses the default ladder for reasons without their own', async () => {
+      const mpv = mockMpv();
+      mpv.isConnected.mockReturnValue(false);
+      const config = makeConfig({
+        recoveryLadder: {
+          default: [{ action: RecoveryStep.SkipVideo, attempts: 1 }],
+          stall: [{ action: RecoveryStep.RestartMpv, attempts: 1 }],
+        },
+      });
+      const engine = new RecoveryEngine(config, mpv as unknown as MpvClient, mockState(), mockObs(), mockDiscord());
+      engine.start();
+
+      await vi.advanceTimersByTimeAsync(20000);
+      expect(mpv.next).toHaveBeenCalledOnce();
+      expect(mpv.restart).not.toHaveBeenCalled();
+      engine.stop();
+    });
+
+    it('holds mpv restarts while the restart breaker is open', async () => {
+      const mpv = mockMpv();
+      mpv.isConnected.mockReturnValue(false);
+      const discord = mockDiscord();
+      const config = makeConfig({
+        recoveryLadder: { default: [{ action: RecoveryStep.RestartMpv, delayMs: 2000, attempts: 1 }] },
+        restartBreaker: { enabled: true, maxRestarts: 2, windowMs: 600000, backoffMs: 60000, maxBackoffMs: 1800000 },
+      });
+      const breaker = new RestartBreaker(config.restartBreaker, () => discord);
+      const engine = new RecoveryEngine(
+        config, mpv as unknown as MpvClient, mockState(), mockObs(), discord,
+        { breaker },
+      );
+      engine.start();
+
+      await vi.advanceTimersByTimeAsync(20000);
+      expect(mpv.restart).toHaveBeenCalledOnce();
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(mpv.restart).toHaveBeenCalledTimes(2);
+      expect(breaker.getStatus().state).toBe('open');
+      expect(discord.notifyCritical).toHaveBeenCalledWith(expect.stringContaining('Restart storm: 2 mpv restarts'));
+
+      await vi.advanceTimersByTimeAsync(50000);
+      expect(mpv.restart).toHaveBeenCalledTimes(2);
+
+      // One trial restart once the backoff is over, then a doubled pause
+      await vi.advanceTimersByTimeAsync(15000);
+      expect(mpv.restart).toHaveBeenCalledTimes(3);
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(breaker.getStatus()).toMatchObject({ state: 'open', backoffMs: 120000 });
+      expect(mpv.restart).toHaveBeenCalledTimes(3);
+      expect(discord.notifyCritical).toHaveBeenCalledOnce();
+      engine.stop();
+    });
   });
 
   describe('playlist advancement on eof', () => {
@@ -748,6 +1031,176 @@ describe('RecoveryEngine', () => {
     });
   });
 
+  describe('fallback source', () => {
+    const backup = { type: 'url' as const, id: 'https://cdn.example.com/backup.mp4', name: 'Backup' };
+    const fallback = { enabled: true, source: backup, maxSkips: 2, maxCriticals: 1, windowMs: 600000, probeIntervalMs: 60000 };
+
+    it('switches to the fallback after maxSkips skips within the window', async () => {
+      const mpv = mockMpv();
+      const discord = mockDiscord();
+      const state = mockState({ videoIndex: 4, videoId: 'v4', currentTime: 30 });
+      const config = makeConfig({ maxConsecutiveErrors: 1, fallback });
+      const engine = new RecoveryEngine(config, mpv as unknown as MpvClient, state, mockObs(), discord);
+      engine.start();
+
+      mpv._emit('fileEnded', 'error');
+      await vi.advanceTimersByTimeAsync(0);
+      expect(mpv.next).toHaveBeenCalledTimes(1);
+      expect(engine.getStatus().fallbackActive).toBe(false);
+
+      mpv._emit('fileEnded', 'error');
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(mpv.next).toHaveBeenCalledTimes(1);
+      expect(mpv.loadPlaylist).toHaveBeenCalledWith('https://cdn.example.com/backup.mp4');
+      expect(discord.notifyFallbackActivate).toHaveBeenCalledWith('PL123', 'Backup', '2 skipped videos in 10 min');
+      expect(state.update).toHaveBeenCalledWith(expect.objectContaining({ videoIndex: 0, currentTime: 0 }));
+      expect(engine.getStatus().fallbackActive).toBe(true);
+    });
+
+    it('ignores skips when the fallback is disabled', async () => {
+      const mpv = mockMpv();
+      const config = makeConfig({ maxConsecutiveErrors: 1, fallback: { ...fallback, enabled: false } });
+      const engine = new RecoveryEngine(config, mpv as unknown as MpvClient, mockState(), mockObs(), mockDiscord());
+      engine.start();
+
+      for (let i = 0; i < 3; i++) {
+        mpv._emit('fileEnded', 'error');
+        await vi.advanceTimersByTimeAsync(0);
+      }
+
+      expect(mpv.next).toHaveBeenCalledTimes(3);
+      expect(mpv.loadPlaylist).not.toHaveBeenCalledWith('https://cdn.example.com/backup.mp4');
+      expect(engine.getStatus().fallbackActive).toBe(false);
+    });
+
+    it('switches to the fallback on a critical alert', async () => {
+      const mpv = mockMpv();
+      mpv.isConnected.mockReturnValue(false);
+      const discord = mockDiscord();
+      const config = makeConfig({ recoveryDelayMs: 5000, heartbeatTimeoutMs: 15000, fallback });
+      const engine = new RecoveryEngine(config, mpv as unknown as MpvClient, mockState(), mockObs(), discord);
+      engine.start();
+
+      // Heartbeat timeout -> RetryCurrent -> RestartMpv -> CriticalAlert
+      await vi.advanceTimersByTimeAsync(20000 + 5000 + 15000);
+
+      expect(discord.notifyCritical).toHaveBeenCalled();
+      expect(discord.notifyFallbackActivate).toHaveBeenCalledWith('PL123', 'Backup', '1 critical alerts in 10 min');
+      expect(mpv.loadPlaylist).toHaveBeenCalledWith('https://cdn.example.com/backup.mp4');
+      expect(engine.getStatus().fallbackActive).toBe(true);
+    });
+
+    it('probes the primary and switches back to its resume position once it resolves', async () => {
+      const mpv = mockMpv();
+      const discord = mockDiscord();
+      const state = mockState({ videoIndex: 4, videoId: 'v4', currentTime: 30, videoDuration: 600 });
+      const probe = vi.fn(async () => false);
+      const config = makeConfig({ maxConsecutiveErrors: 1, fallback: { ...fallback, maxSkips: 1 } });
+      const engine = new RecoveryEngine(config, mpv as unknown as MpvClient, state, mockObs(), discord, { probe });
+      engine.start();
+
+      mpv._emit('fileEnded', 'error');
+      await vi.advanceTimersByTimeAsync(0);
+      expect(engine.getStatus().fallbackActive).toBe(true);
+
+      await vi.advanceTimersByTimeAsync(60000);
+      expect(probe).toHaveBeenCalledWith(config.playlists[0], 4);
+      expect(engine.getStatus().fallbackActive).toBe(true);
+
+      probe.mockResolvedValue(true);
+      mpv.loadPlaylist.mockClear();
+      await vi.advanceTimersByTimeAsync(60000);
+
+      expect(engine.getStatus().fallbackActive).toBe(false);
+      expect(discord.notifyFallbackRestore).toHaveBeenCalledWith('PL123', 'Backup');
+      expect(state.get()).toEqual(expect.objectContaining({ videoIndex: 4, videoId: 'v4', currentTime: 30 }));
+      expect(mpv.loadPlaylist).toHaveBeenCalledWith('https://www.youtube.com/playlist?list=PL123');
+    });
+
+    it('stays on the fallback and keeps probing when the primary fails to load', async () => {
+      const mpv = mockMpv();
+      const discord = mockDiscord();
+      const state = mockState({ videoIndex: 4, videoId: 'v4', currentTime: 30, videoDuration: 600 });
+      const probe = vi.fn(async () => true);
+      const config = makeConfig({ maxConsecutiveErrors: 1, fallback: { ...fallback, maxSkips: 1 } });
+      const engine = new RecoveryEngine(config, mpv as unknown as MpvClient, state, mockObs(), discord, { probe });
+      engine.start();
+
+      mpv._emit('fileEnded', 'error');
+      await vi.advanceTimersByTimeAsync(0);
+      mpv.loadPlaylist.mockRejectedValueOnce(new Error('mpv disconnected'));
+      await vi.advanceTimersByTimeAsync(60000);
+
+      expect(engine.getStatus().fallbackActive).toBe(true);
+      expect(discord.notifyFallbackRestore).not.toHaveBeenCalled();
+      // Still at the fallback's position, not the primary's resume point
+      expect(state.get()).toEqual(expect.objectContaining({ videoIndex: 0, videoId: '' }));
+
+      await vi.advanceTimersByTimeAsync(60000);
+      expect(probe).toHaveBeenCalledTimes(2);
+      expect(engine.getStatus().fallbackActive).toBe(false);
+      expect(state.get()).toEqual(expect.objectContaining({ videoIndex: 4, videoId: 'v4', currentTime: 30 }));
+      engine.stop();
+    });
+  });
+
+  describe('scheduled programming', () => {
+    const schedule = {
+      enabled: true,
+      blocks: [{ days: [], start: '22:00', end: '06:00', playlistId: 'PLchill' }],
+    };
+
+    it('loads the scheduled playlist from the top on connect', async () => {
+      vi.setSystemTime(new Date(2026, 5, 1, 23, 0));
+      const mpv = mockMpv();
+      const state = mockState({ playlistIndex: 0, videoIndex: 7, currentTime: 120 });
+      const discord = mockDiscord();
+      const config = makeConfig({ playlists: [{ id: 'PLmain' }, { id: 'PLchill', name: 'Chill' }], schedule });
+      const engine = new RecoveryEngine(config, mpv as unknown as MpvClient, state, mockObs(), discord);
+      engine.start();
+
+      mpv._emit('connected');
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(state.update).toHaveBeenCalledWith(expect.objectContaining({ playlistIndex: 1, videoIndex: 0, currentTime: 0 }));
+      expect(mpv.loadPlaylist).toHaveBeenCalledWith('https://www.youtube.com/playlist?list=PLchill');
+      expect(discord.notifyScheduleSwitch).toHaveBeenCalledWith('Chill', 'PLmain');
+      expect(engine.getEvents().some((e) => e.message.includes('Scheduled switch'))).toBe(true);
+    });
+
+    it('switches at the next natural video end once a block starts', async () => {
+      vi.setSystemTime(new Date(2026, 5, 1, 21, 59));
+      const mpv = mockMpv();
+      const state = mockState({ playlistIndex: 0 });
+      const config = makeConfig({ playlists: [{ id: 'PLmain' }, { id: 'PLchill' }], schedule });
+      const engine = new RecoveryEngine(config, mpv as unknown as MpvClient, state, mockObs(), mockDiscord());
+      engine.start();
+      mpv._emit('connected');
+      await vi.advanceTimersByTimeAsync(0);
+      expect(mpv.loadPlaylist).toHaveBeenLastCalledWith('https://www.youtube.com/playlist?list=PLmain');
+
+      vi.setSystemTime(new Date(2026, 5, 1, 22, 5));
+      mpv.loadPlaylist.mockClear();
+      mpv._emit('fileEnded', 'eof');
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(mpv.loadPlaylist).toHaveBeenCalledWith('https://www.youtube.com/playlist?list=PLchill');
+      expect(engine.getStatus().nextScheduleChange).toBeNull();
+    });
+
+    it('reports the next scheduled change in status', () => {
+      vi.setSystemTime(new Date(2026, 5, 1, 12, 0));
+      const config = makeConfig({ playlists: [{ id: 'PLmain' }, { id: 'PLchill', name: 'Chill' }], schedule });
+      const engine = new RecoveryEngine(config, mockMpv() as unknown as MpvClient, mockState(), mockObs(), mockDiscord());
+      expect(engine.getStatus().nextScheduleChange).toEqual({
+        at: new Date(2026, 5, 1, 22, 0).toISOString(),
+        playlistIndex: 1,
+        playlistName: 'Chill',
+      });
+    });
+  });
+
   it('extracts video ID from YouTube URLs in filename', async () => {
     const mpv = mockMpv();
     const state = mockState();
@@ -779,6 +1232,148 @@ describe('RecoveryEngine', () => {
       })
     );
   });
+
+  describe('video blacklist', () => {
+    const DEAD = 'https://www.youtube.com/watch?v=deadVideo01';
+
+    function mockBlacklist(skipped: boolean) {
+      return {
+        isSkipped: vi.fn(() => skipped),
+        recordFailure: vi.fn(() => null as unknown),
+        recordSuccess: vi.fn(),
+      };
+    }
+
+    function onEntry(mpv: MockMpv, index: number, count: number) {
+      mpv.getProperty.mockImplementation(async (name: string) => {
+        switch (name) {
+          case 'playlist-pos': return index;
+          case 'playlist-count': return count;
+          case `playlist/${index}/filename`: return DEAD;
+          case `playlist/${index}/title`: return 'Deleted video';
+          default: return null;
+        }
+      });
+    }
+
+    it('skips a blacklisted entry as soon as mpv starts it', async () => {
+      const mpv = mockMpv();
+      const blacklist = mockBlacklist(true);
+      const engine = new RecoveryEngine(makeConfig(), mpv as unknown as MpvClient, mockState(), mockObs(), mockDiscord(),
+        { blacklist: blacklist as any });
+      engine.start();
+      onEntry(mpv, 3, 10);
+
+      mpv._emit('fileStarted');
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(blacklist.isSkipped).toHaveBeenCalledWith('deadVideo01');
+      expect(mpv.next).toHaveBeenCalledTimes(1);
+      expect(engine.getEvents().at(-1)).toMatchObject({ type: 'blacklistSkip', videoIndex: 3, videoId: 'deadVideo01' });
+    });
+
+    it('stops skipping once the streak covers the whole playlist', async () => {
+      const mpv = mockMpv();
+      const engine = new RecoveryEngine(makeConfig(), mpv as unknown as MpvClient, mockState(), mockObs(), mockDiscord(),
+        { blacklist: mockBlacklist(true) as any });
+      engine.start();
+      onEntry(mpv, 0, 2);
+
+      for (let i = 0; i < 4; i++) {
+        mpv._emit('fileStarted');
+        await vi.advanceTimersByTimeAsync(0);
+      }
+
+      expect(mpv.next).toHaveBeenCalledTimes(2);
+      const exhausted = engine.getEvents().filter((e) => e.detail?.exhausted);
+      expect(exhausted).toHaveLength(1);
+      expect(exhausted[0].severity).toBe('warn');
+    });
+
+    it('records a failure against the entry that ended with an error', async () => {
+      const mpv = mockMpv();
+      const blacklist = mockBlacklist(false);
+      blacklist.recordFailure.mockReturnValue({
+        videoId: 'deadVideo01', failures: 2, lastError: 'unrecognized file format', skipUntil: '2026-01-02T00:00:00.000Z',
+      });
+      const engine = new RecoveryEngine(makeConfig(), mpv as unknown as MpvClient, mockState({ videoIndex: 3 }), mockObs(), mockDiscord(),
+        { blacklist: blacklist as any });
+      engine.start();
+      onEntry(mpv, 3, 10);
+
+      mpv._emit('fileStarted');
+      mpv._emit('fileEnded', 'error', 'unrecognized file format');
+      await vi.advanceTimersByTimeAsync(0);
+
+      // Counted on the first error, well short of maxConsecutiveErrors
+      expect(blacklist.recordFailure).toHaveBeenCalledWith('deadVideo01', 'unrecognized file format', 'Deleted video');
+      expect(engine.getEvents().at(-1)).toMatchObject({
+        type: 'blacklistAdd', severity: 'warn', videoId: 'deadVideo01', detail: { failures: 2 },
+      });
+      expect(mpv.next).not.toHaveBeenCalled();
+    });
+
+    it('blacklists one dead entry among good ones after failureThreshold loops', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'streamloop-blacklist-'));
+      try {
+        const mpv = mockMpv();
+        const config = makeConfig();
+        const blacklist = new VideoBlacklist(join(dir, 'video-blacklist.json'), config.blacklist);
+        const engine = new RecoveryEngine(config, mpv as unknown as MpvClient, mockState(), mockObs(), mockDiscord(),
+          { blacklist });
+        engine.start();
+        const ids = ['goodVideo01', 'deadVideo01', 'goodVideo02'];
+        let pos = 0;
+        mpv.getProperty.mockImplementation(async (name: string) => {
+          if (name === 'playlist-pos') return pos;
+          if (name === 'playlist-count') return ids.length;
+          if (name === `playlist/${pos}/filename`) return `https://www.youtube.com/watch?v=${ids[pos]}`;
+          return null;
+        });
+
+        for (let loop = 0; loop < config.blacklist.failureThreshold; loop++) {
+          for (pos = 0; pos < ids.length; pos++) {
+            mpv._emit('fileStarted');
+            await vi.advanceTimersByTimeAsync(0);
+            mpv._emit('fileEnded', pos === 1 ? 'error' : 'eof', pos === 1 ? 'Video unavailable' : undefined);
+            await vi.advanceTimersByTimeAsync(0);
+          }
+        }
+
+        expect(mpv.next).not.toHaveBeenCalled();
+        expect(blacklist.isSkipped('deadVideo01')).toBe(true);
+        expect(blacklist.isSkipped('goodVideo01')).toBe(false);
+        expect(engine.getEvents().filter((e) => e.type === 'blacklistAdd')).toHaveLength(1);
+
+        pos = 1;
+        mpv._emit('fileStarted');
+        await vi.advanceTimersByTimeAsync(0);
+        expect(mpv.next).toHaveBeenCalledTimes(1);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('counts exhausted URL retries on a premature end against the entry', async () => {
+      const mpv = mockMpv();
+      const blacklist = mockBlacklist(false);
+      const detectors = { ...makeConfig().detectors, prematureEof: { mode: 'recover' as const, maxRetries: 1 } };
+      const engine = new RecoveryEngine(makeConfig({ detectors }), mpv as unknown as MpvClient,
+        mockState({ videoIndex: 3, videoDuration: 600, currentTime: 120 }), mockObs(), mockDiscord(),
+        { blacklist: blacklist as any });
+      engine.start();
+      onEntry(mpv, 3, 10);
+
+      mpv._emit('fileStarted');
+      for (let i = 0; i < 2; i++) {
+        mpv._emit('fileEnded', 'eof');
+        await vi.advanceTimersByTimeAsync(0);
+      }
+
+      expect(blacklist.recordFailure).toHaveBeenCalledTimes(1);
+      expect(blacklist.recordFailure).toHaveBeenCalledWith('deadVideo01', 'premature eof', 'Deleted video');
+    });
+  });
 });
 
 describe('shouldRetryUrl', () => {
@@ -851,11 +1446,11 @@ describe('shouldRetryUrl', () => {
 });
 
 describe('onFileEnded with premature-EOF retry', () => {
-  function buildEngine(stateOverrides = {}) {
+  function buildEngine(stateOverrides = {}, configOverrides: Partial<AppConfig> = {}) {
     const mpv = mockMpv();
     const state = mockState({ videoIndex: 3, videoDuration: 600, currentTime: 120, ...stateOverrides });
     const engine = new RecoveryEngine(
-      makeConfig(),
+      makeConfig(configOverrides),
       mpv as unknown as MpvClient,
       state as StateManager,
       mockObs(),
@@ -911,6 +1506,28 @@ describe('onFileEnded with premature-EOF retry', () => {
     expect((engine as any).urlRetryCount).toBe(0);
     engine.stop();
   });
+  it('uses the configured retry limit', async () => {
+    const detectors = { ...makeConfig().detectors, prematureEof: { mode: 'recover' as const, maxRetries: 1 } };
+    const { engine, mpv } = buildEngine({}, { detectors });
+    mpv._emit('fileEnded', 'eof', undefined);
+    await new Promise((r) => setImmediate(r));
+    mpv.reloadIndex.mockClear();
+    mpv._emit('fileEnded', 'eof', undefined);
+    await new Promise((r) => setImmediate(r));
+    expect(mpv.reloadIndex).not.toHaveBeenCalled();
+    expect((engine as any).urlRetryCount).toBe(1);
+    engine.stop();
+  });
+
+  it('logs without retrying in detect mode', async () => {
+    const detectors = { ...makeConfig().detectors, prematureEof: { mode: 'detect' as const, maxRetries: 2 } };
+    const { engine, mpv } = buildEngine({}, { detectors });
+    mpv._emit('fileEnded', 'eof', undefined);
+    await new Promise((r) => setImmediate(r));
+    expect(mpv.reloadIndex).not.toHaveBeenCalled();
+    expect(engine.getEvents().find((e) => e.type === 'urlRetry')?.detail).toMatchObject({ detectOnly: true });
+    engine.stop();
+  });
 });
 
 describe('retryCurrentAtPosition', () => {
@@ -1226,6 +1843,207 @@ describe('output freeze (screenshot) recovery', () => {
     expect(mpv.reloadIndex).not.toHaveBeenCalled();
     engine.stop();
   });
+
+  it('reports a black screen as its own reason and ignores a frozen still-picture video', async () => {
+    const { engine, mpv } = build();
+    (engine as any).lastPlaying = true;
+    (engine as any).videoConfirmed = true;
+    (engine as any).lastKnownPaused = false;
+    (engine as any).lastTimePos = 142;
+    // Frames decoding at ~0 bitrate: the video itself is a still picture
+    (engine as any).playbackStats = { vfps: 30, videoBitrate: 200, audioBitrate: 128000 };
+    (engine as any).onOutputFreeze();
+    expect((engine as any).videoFreezeRetryCount).toBe(0);
+
+    const reasons: string[] = [];
+    engine.on('recovery', (reason) => reasons.push(reason));
+    (engine as any).onBlackScreen();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(reasons).toEqual(['blackScreen']);
+    expect(mpv.reloadIndex).toHaveBeenCalledWith(0);
+    expect(engine.getEvents().at(-1)).toMatchObject({
+      type: 'blackScreen',
+      message: 'Black screen at 142s — streamed picture black or blank — URL retry in place (attempt 1/3)',
+    });
+    engine.stop();
+  });
+});
+
+describe('audio silence recovery', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  function build(levels: Record<string, unknown>, mode: 'detect' | 'recover' = 'recover') {
+    const obs = mockObs();
+    (obs.getAudioLevels as any).mockReturnValue({
+      inputName: 'Player', inputDb: -120, programDb: -120, inputMuted: false, inputVolumeMul: 1, lastAudibleAt: null,
+      ...levels,
+    });
+    const config = makeConfig();
+    config.detectors.audioSilence = { mode, thresholdDb: -60, graceMs: 60000, inputName: '' };
+    const engine = new RecoveryEngine(config, mockMpv() as unknown as MpvClient, mockState(), obs, mockDiscord());
+    (engine as any).videoConfirmed = true;
+    const reasons: string[] = [];
+    engine.on('recovery', (reason) => reasons.push(reason));
+    return { engine, obs, reasons };
+  }
+
+  it('trips only after the grace window of silence, and once per episode', () => {
+    const { engine, reasons } = build({});
+    (engine as any).detectAudioSilence(true);
+    vi.advanceTimersByTime(59_000);
+    (engine as any).detectAudioSilence(true);
+    expect(reasons).toEqual([]);
+
+    vi.advanceTimersByTime(1_000);
+    (engine as any).detectAudioSilence(true);
+    (engine as any).detectAudioSilence(true);
+    expect(reasons).toEqual(['audioSilence']);
+    expect((engine as any).recoveryStep).not.toBe(RecoveryStep.None);
+    expect(engine.getEvents().find((e) => e.type === 'audioSilence')).toMatchObject({
+      message: 'Audio silent for 1m 0s — OBS input "Player" below -60 dB',
+    });
+    engine.stop();
+  });
+
+  it('trips at once on a muted input, and only logs in detect mode', () => {
+    const { engine, reasons } = build({ inputMuted: true, lastAudibleAt: new Date().toISOString() }, 'detect');
+    (engine as any).detectAudioSilence(true);
+    expect(reasons).toEqual([]);
+    expect(engine.getEvents().at(-1)).toMatchObject({
+      type: 'audioSilence', message: 'Audio lost — OBS input "Player" is muted — detect only, not recovering',
+    });
+    engine.stop();
+  });
+});
+
+describe('dropped frames and A/V desync', () => {
+  function build(mode: 'detect' | 'recover' = 'recover') {
+    const config = makeConfig();
+    config.detectors.playbackQuality = { mode, maxDropPercent: 25, maxAvsyncMs: 500, heartbeats: 3 };
+    const engine = new RecoveryEngine(config, mockMpv() as unknown as MpvClient, mockState(), mockObs(), mockDiscord());
+    const reasons: string[] = [];
+    engine.on('recovery', (reason) => reasons.push(reason));
+    return { engine, reasons };
+  }
+
+  // Healthy 30 fps video, 5s per heartbeat
+  function hb(overrides: Record<string, unknown> = {}) {
+    return {
+      timePos: 100, duration: 600, paused: false, idle: false,
+      playlistPos: 0, playlistCount: 10, mediaTitle: 't',
+      hasVideo: true, vfps: 30, videoBitrate: 3000000, audioBitrate: 128000,
+      filename: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+      containerFps: 30, frameDrops: 0, decoderFrameDrops: 0, avsync: 0.01,
+      ...overrides,
+    };
+  }
+
+  it('measures the drop rate per heartbeat and trips after consecutive degraded heartbeats', () => {
+    const { engine, reasons } = build();
+    (engine as any).processHeartbeat(hb());
+    // 50 of 150 frames due dropped each heartbeat
+    for (let i = 1; i <= 2; i++) (engine as any).processHeartbeat(hb({ timePos: 100 + i * 5, frameDrops: i * 40, decoderFrameDrops: i * 10 }));
+    expect(engine.getStatus().playbackStats).toMatchObject({ dropPercent: 33.3, avsyncMs: 10 });
+    expect(reasons).toEqual([]);
+
+    (engine as any).processHeartbeat(hb({ timePos: 115, frameDrops: 120, decoderFrameDrops: 30 }));
+    (engine as any).processHeartbeat(hb({ timePos: 120, frameDrops: 160, decoderFrameDrops: 40 }));
+    expect(reasons).toEqual(['playbackQuality']);
+    expect(engine.getEvents().find((e) => e.type === 'playbackQuality')!.message)
+      .toBe('Playback degraded on video #0 (dQw4w9WgXcQ) — 33.3% of frames dropped for 3 heartbeats');
+    engine.stop();
+  });
+
+  it('counts A/V drift either way and treats a file change as a fresh start', () => {
+    const { engine } = build('detect');
+    (engine as any).processHeartbeat(hb({ frameDrops: 500 }));
+    // Counters reset with the next file: no bogus drop rate
+    (engine as any).processHeartbeat(hb({ timePos: 3, playlistPos: 1, frameDrops: 0 }));
+    expect(engine.getStatus().playbackStats!.dropPercent).toBeNull();
+
+    for (const t of [8, 13, 18]) (engine as any).processHeartbeat(hb({ timePos: t, playlistPos: 1, avsync: -0.75 }));
+    expect(engine.getEvents().at(-1)).toMatchObject({
+      type: 'playbackQuality',
+      message: 'Playback degraded on video #1 (dQw4w9WgXcQ) — A/V out of sync by -750 ms for 3 heartbeats — detect only, not recovering',
+    });
+    engine.stop();
+  });
+});
+
+describe('adaptive quality ladder', () => {
+  const flush = () => new Promise((r) => setImmediate(r));
+  const playing = (timePos: number) => ({
+    timePos, duration: 600, paused: false, idle: false,
+    playlistPos: 3, playlistCount: 10, mediaTitle: 't', filename: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+    hasVideo: true, vfps: 30, videoBitrate: 3000000, audioBitrate: 128000,
+  });
+
+  function build(stepDownAfter: number) {
+    const config = makeConfig({
+      qualityLadder: { enabled: true, rungs: [{ label: '720p', format: 'best[height<=?720]' }], stepDownAfter, windowMs: 900000, stepUpAfterMs: 1800000 },
+    });
+    const mpv = mockMpv();
+    // ytdl-format takes a moment to apply; the log shows what completed in which order
+    const log: string[] = [];
+    mpv.setProperty.mockImplementation((async (name: string, value: unknown) => {
+      if (name !== 'ytdl-format') return;
+      await flush();
+      log.push(`format ${value}`);
+    }) as any);
+    mpv.reloadIndex.mockImplementation((async () => { log.push('reload'); }) as any);
+    const discord = mockDiscord();
+    const ladder = new QualityLadder(config.qualityLadder, config.mpvYtdlFormat, () => discord);
+    const engine = new RecoveryEngine(
+      config, mpv as unknown as MpvClient, mockState({ videoIndex: 3, videoDuration: 600, currentTime: 120 }), mockObs(), discord,
+      { quality: ladder },
+    );
+    return { config, mpv, discord, ladder, engine, log };
+  }
+
+  it('steps down after repeated 403s and back up after healthy playback, setting the format before each reload', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { config, mpv, discord, ladder, engine, log } = build(2);
+    engine.start();
+    await flush();
+    await flush();
+    expect(log).toEqual([`format ${config.mpvYtdlFormat}`]);
+
+    for (let i = 0; i < 2; i++) {
+      (engine as any).lastHeartbeatAt = Date.now();
+      mpv._emit('fileEnded', 'error', 'HTTP error 403 Forbidden');
+      await flush();
+      await flush();
+    }
+    expect(ladder.getStatus()).toMatchObject({ rung: 1, label: '720p', troublesInWindow: 0 });
+    expect(discord.notifyRecovery).toHaveBeenCalledWith('Quality stepped down to 720p after 2 playback problems in 15m 0s (latest: HTTP 403)');
+    expect(log.slice(1)).toEqual(['reload', 'format best[height<=?720]', 'reload']);
+
+    log.length = 0;
+    (engine as any).processHeartbeat(playing(130));
+    (engine as any).processHeartbeat(playing(135));
+    vi.setSystemTime(Date.now() + 1_800_000);
+    (engine as any).processHeartbeat(playing(140));
+    await flush();
+    await flush();
+    expect(ladder.getStatus()).toMatchObject({ rung: 0, label: 'Full', stepUpAt: null });
+    expect(discord.notifyRecovery).toHaveBeenLastCalledWith('Quality stepped back up to Full after 30m 0s of healthy playback');
+    expect(log).toEqual([`format ${config.mpvYtdlFormat}`, 'reload']);
+    expect(mpv.setProperty).toHaveBeenLastCalledWith('start', '+140');
+    expect(mpv.reloadIndex).toHaveBeenLastCalledWith(3);
+    engine.stop();
+    vi.useRealTimers();
+  });
+
+  it('applies a step down from a video freeze before the in-place retry reloads', async () => {
+    const { ladder, engine, log } = build(1);
+    (engine as any).handleVideoFreeze(100, 'Video freeze', {});
+    await flush();
+    await flush();
+    expect(ladder.getStatus().rung).toBe(1);
+    expect(log).toEqual(['format best[height<=?720]', 'reload']);
+    engine.stop();
+  });
 });
 
 describe('startup grace (non-playing watchdog)', () => {
@@ -1327,7 +2145,7 @@ describe('event persistence', () => {
     const store = fakeStore();
     const engine = new RecoveryEngine(
       makeConfig(), mockMpv() as unknown as MpvClient, mockState(), mockObs(), mockDiscord(),
-      store as any,
+      { eventStore: store as any },
     );
     expect(store.loadRecent).toHaveBeenCalled();
     expect(engine.getEvents().some((e) => e.message === 'seeded event')).toBe(true);
@@ -1337,18 +2155,25 @@ describe('event persistence', () => {
     const store = fakeStore();
     const engine = new RecoveryEngine(
       makeConfig(), mockMpv() as unknown as MpvClient, mockState(), mockObs(), mockDiscord(),
-      store as any,
-    );
-    (engine as any).addEvent('hello');
-    expect(store.append).toHaveBeenCalledWith(
-      expect.objectContaining({ message: 'hello' }),
+      { eventStore: store as any },
     );
+    engine.addEvent('obsDisconnect', 'hello', { severity: 'warn', detail: { attempt: 1 } });
+    expect(store.append).toHaveBeenCalledWith({
+      timestamp: expect.any(String),
+      type: 'obsDisconnect',
+      severity: 'warn',
+      message: 'hello',
+      videoIndex: 0,
+      videoId: '',
+      playlistId: 'PL123',
+      detail: { attempt: 1 },
+    });
   });
 
   it('works without a store (store is optional)', () => {
     const engine = new RecoveryEngine(
       makeConfig(), mockMpv() as unknown as MpvClient, mockState(), mockObs(), mockDiscord(),
     );
-    expect(() => (engine as any).addEvent('hi')).not.toThrow();
+    expect(() => engine.addEvent('obsConnect', 'hi')).not.toThrow();
   });
 });
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RestartBreaker } from '../restart-breaker.js';
+import type { Notifier } from '../notifier.js';
+
+vi.mock('../logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+const config = { enabled: true, maxRestarts: 3, windowMs: 600_000, backoffMs: 60_000, maxBackoffMs: 150_000 };
+
+function makeNotifier() {
+  return { notifyCritical: vi.fn(async () => {}) } as unknown as Notifier & {
+    notifyCritical: ReturnType<typeof vi.fn>;
+  };
+}
+
+describe('RestartBreaker', () => {
+  it('opens after maxRestarts in the window and backs off exponentially up to the cap', () => {
+    const notifier = makeNotifier();
+    const breaker = new RestartBreaker(config, () => notifier);
+
+    expect(breaker.tryRestart(0)).toBe(true);
+    expect(breaker.tryRestart(700_000)).toBe(true);
+    expect(breaker.tryRestart(710_000)).toBe(true);
+    expect(breaker.tripped).toBe(false);
+    expect(breaker.tryRestart(720_000)).toBe(true);
+    expect(breaker.getStatus(720_000)).toMatchObject({ state: 'open', restartsInWindow: 3, backoffMs: 60_000, trips: 1 });
+    expect(notifier.notifyCritical).toHaveBeenCalledOnce();
+
+    expect(breaker.tryRestart(779_999)).toBe(false);
+    expect(breaker.tryRestart(780_000)).toBe(true);
+    expect(breaker.getStatus(780_000).state).toBe('halfOpen');
+    expect(breaker.tryRestart(790_000)).toBe(false);
+    expect(breaker.getStatus(790_000)).toMatchObject({ state: 'open', backoffMs: 120_000 });
+    expect(breaker.tryRestart(910_000)).toBe(true);
+    expect(breaker.tryRestart(920_000)).toBe(false);
+    expect(breaker.getStatus(920_000)).toMatchObject({ state: 'open', backoffMs: 150_000 });
+    expect(notifier.notifyCritical).toHaveBeenCalledOnce();
+  });
+
+  it('treats a relapse soon after closing as the same storm and starts afresh after a reset', () => {
+    const notifier = makeNotifier();
+    const breaker = new RestartBreaker(config, () => notifier);
+    const events: string[] = [];
+    breaker.onEvent((_type, message) => events.push(message));
+
+    for (const t of [0, 1_000, 2_000]) breaker.tryRestart(t);
+    breaker.recordHealthy(30_000);
+    expect(breaker.tripped).toBe(false);
+    breaker.tryRestart(40_000);
+    expect(breaker.getStatus(40_000)).toMatchObject({ state: 'open', backoffMs: 120_000 });
+    expect(notifier.notifyCritical).toHaveBeenCalledOnce();
+
+    breaker.reset();
+    expect(breaker.getStatus(40_000)).toMatchObject({ state: 'closed', restartsInWindow: 0, backoffMs: 60_000 });
+    for (const t of [50_000, 51_000, 52_000]) breaker.tryRestart(t);
+    expect(notifier.notifyCritical).toHaveBeenCalledTimes(2);
+    expect(events.at(-2)).toBe('Restart breaker reset from the dashboard');
+  });
+
+  it('counts down to the trial restart and lets everything through once disabled', () => {
+    const notifier = makeNotifier();
+    const breaker = new RestartBreaker(config, () => notifier);
+    for (const t of [0, 1_000, 2_000]) breaker.tryRestart(t);
+    expect(breaker.msUntilRetry(32_000)).toBe(30_000);
+    expect(breaker.msUntilRetry(70_000)).toBe(0);
+
+    // Relapses double the pause; a reset starts again from backoffMs
+    breaker.tryRestart(62_000);
+    breaker.tryRestart(63_000);
+    expect(breaker.getStatus(63_000)).toMatchObject({ state: 'open', backoffMs: 120_000 });
+    breaker.reset();
+    expect(breaker.msUntilRetry(63_000)).toBe(0);
+    for (const t of [64_000, 65_000, 66_000]) breaker.tryRestart(t);
+    expect(breaker.getStatus(66_000)).toMatchObject({ state: 'open', backoffMs: 60_000, trips: 2 });
+
+    breaker.setConfig({ ...config, enabled: false });
+    expect(breaker.tripped).toBe(false);
+    expect(breaker.tryRestart(67_000)).toBe(true);
+    expect(breaker.tryRestart(68_000)).toBe(true);
+    expect(breaker.getStatus(68_000).state).toBe('closed');
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { blockCovers, scheduledPlaylistIndex, nextScheduleChange } from '../schedule.js';
+import type { AppConfig, ScheduleBlock } from '../types.js';
+
+function cfg(blocks: ScheduleBlock[], enabled = true): AppConfig {
+  return {
+    playlists: [{ id: 'PLmain', name: 'Main' }, { id: 'PLchill', name: 'Chill' }],
+    schedule: { enabled, blocks },
+  } as AppConfig;
+}
+
+/** Local time on a known week: 2026-06-01 is a Monday. */
+function at(day: number, hh: number, mm = 0): Date {
+  return new Date(2026, 5, day, hh, mm, 0, 0);
+}
+
+const night: ScheduleBlock = { days: [], start: '22:00', end: '06:00', playlistId: 'PLchill' };
+const day: ScheduleBlock = { days: [], start: '06:00', end: '22:00', playlistId: 'PLmain' };
+
+describe('blockCovers', () => {
+  it('covers a same-day window with an exclusive end', () => {
+    expect(blockCovers(day, at(1, 6))).toBe(true);
+    expect(blockCovers(day, at(1, 21, 59))).toBe(true);
+    expect(blockCovers(day, at(1, 22))).toBe(false);
+  });
+
+  it('wraps past midnight', () => {
+    expect(blockCovers(night, at(1, 23))).toBe(true);
+    expect(blockCovers(night, at(2, 5, 59))).toBe(true);
+    expect(blockCovers(night, at(2, 6))).toBe(false);
+  });
+
+  it('attributes the after-midnight part of a wrapped block to its start day', () => {
+    const fridayNight: ScheduleBlock = { days: [5], start: '22:00', end: '06:00', playlistId: 'PLchill' };
+    // 2026-06-05 is a Friday, 06-06 a Saturday, 06-07 a Sunday.
+    expect(blockCovers(fridayNight, at(5, 23))).toBe(true);
+    expect(blockCovers(fridayNight, at(6, 3))).toBe(true);
+    expect(blockCovers(fridayNight, at(6, 23))).toBe(false);
+    expect(blockCovers(fridayNight, at(7, 3))).toBe(false);
+  });
+});
+
+describe('scheduledPlaylistIndex', () => {
+  it('maps the active block to its playlist index', () => {
+    expect(scheduledPlaylistIndex(cfg([night, day]), at(1, 12))).toBe(0);
+    expect(scheduledPlaylistIndex(cfg([night, day]), at(1, 2))).toBe(1);
+  });
+
+  it('returns null when disabled, uncovered, or the playlist id is unknown', () => {
+    expect(scheduledPlaylistIndex(cfg([night, day], false), at(1, 12))).toBeNull();
+    expect(scheduledPlaylistIndex(cfg([night]), at(1, 12))).toBeNull();
+    expect(scheduledPlaylistIndex(cfg([{ ...day, playlistId: 'PLgone' }]), at(1, 12))).toBeNull();
+  });
+
+  it('lets the first matching block win on overlap', () => {
+    const allDayChill: ScheduleBlock = { days: [], start: '00:00', end: '00:00', playlistId: 'PLchill' };
+    expect(scheduledPlaylistIndex(cfg([allDayChill, day]), at(1, 12))).toBe(1);
+  });
+});
+
+describe('nextScheduleChange', () => {
+  it('finds the next boundary that changes the playlist', () => {
+    const change = nextScheduleChange(cfg([night, day]), at(1, 12), 0);
+    expect(change).toEqual({ at: at(1, 22).getTime(), playlistIndex: 1 });
+  });
+
+  it('skips boundaries that keep the current playlist', () => {
+    // Chill was switched to manually at noon: 22:00 wants chill (already
+    // playing), so the first real change is back to main at 06:00.
+    const change = nextScheduleChange(cfg([night, day]), at(1, 12), 1);
+    expect(change).toEqual({ at: at(2, 6).getTime(), playlistIndex: 0 });
+  });
+
+  it('returns null when the schedule is off or empty', () => {
+    expect(nextScheduleChange(cfg([night, day], false), at(1, 12), 0)).toBeNull();
+    expect(nextScheduleChange(cfg([]), at(1, 12), 0)).toBeNull();
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect, vi } from 'vitest';
+import { probeSource } from '../source-probe.js';
+
+describe('probeSource', () => {
+  it('resolves the given playlist item through yt-dlp with the playback options', async () => {
+    const execFn = vi.fn().mockResolvedValue({ stdout: 'https://rr1.googlevideo.com/videoplayback?x\n', stderr: '' });
+
+    const ok = await probeSource('/bin/yt-dlp', { id: 'PLabc' }, {
+      itemIndex: 4, cookiesFromBrowser: 'firefox', playerClient: 'web_safari', execFn,
+    });
+
+    expect(ok).toBe(true);
+    expect(execFn).toHaveBeenCalledWith('/bin/yt-dlp', [
+      '--cookies-from-browser', 'firefox',
+      '--extractor-args', 'youtube:player_client=web_safari',
+      '-g', '--no-warnings', '--playlist-items', '5',
+      'https://www.youtube.com/playlist?list=PLabc',
+    ], expect.anything());
+  });
+
+  it('reports failure when yt-dlp exits non-zero or prints nothing', async () => {
+    const failing = vi.fn().mockRejectedValue(new Error('HTTP Error 403: Forbidden'));
+    expect(await probeSource('/bin/yt-dlp', { id: 'PLabc' }, { execFn: failing })).toBe(false);
+
+    const empty = vi.fn().mockResolvedValue({ stdout: '\n', stderr: '' });
+    expect(await probeSource('/bin/yt-dlp', { id: 'PLabc' }, { execFn: empty })).toBe(false);
+  });
+
+  it('checks local folders on disk without invoking yt-dlp', async () => {
+    const execFn = vi.fn();
+    expect(await probeSource('/bin/yt-dlp', { type: 'local', id: '/nonexistent/streamloop' }, { execFn })).toBe(false);
+    expect(execFn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import { StatsTracker, uptimePercent, type StatsSample } from '../stats.js';
+import { RecoveryStep } from '../types.js';
+
+vi.mock('../logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+const tmpDir = join(import.meta.dirname, '..', '..', '..', '.test-tmp', 'stats');
+const filePath = join(tmpDir, 'stats.json');
+
+const healthy: StatsSample = { playing: true, recoveryStep: RecoveryStep.None, obsStreaming: true, twitchLive: true };
+
+/** Local-time epoch ms, so day boundaries don't depend on the test machine's zone. */
+function at(day: number, hh: number, mm = 0, ss = 0): number {
+  return new Date(2026, 5, day, hh, mm, ss).getTime();
+}
+
+describe('StatsTracker', () => {
+  beforeEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+    mkdirSync(tmpDir, { recursive: true });
+  });
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('attributes each interval to the state seen at its start', () => {
+    const stats = new StatsTracker(filePath);
+    stats.record(healthy, at(1, 12));
+    stats.record({ ...healthy, playing: false, recoveryStep: RecoveryStep.RetryCurrent }, at(1, 12, 0, 5));
+    stats.record({ ...healthy, obsStreaming: false, twitchLive: false }, at(1, 12, 0, 15));
+    stats.record(healthy, at(1, 12, 0, 20));
+
+    const [day] = stats.getDays(1);
+    expect(day).toMatchObject({
+      date: '2026-06-01',
+      observedMs: 20_000,
+      playingMs: 10_000,
+      recoveryMs: { retryCurrent: 10_000, restartMpv: 0, criticalAlert: 0 },
+      obsStreamDownMs: 5_000,
+      twitchOfflineMs: 5_000,
+    });
+  });
+
+  it('ignores gaps too long to attribute', () => {
+    const stats = new StatsTracker(filePath);
+    stats.record(healthy, at(1, 12));
+    stats.record(healthy, at(1, 13));
+    stats.record(healthy, at(1, 13, 0, 5));
+    expect(stats.getDays(1)[0].playingMs).toBe(5_000);
+  });
+
+  it('splits an interval at local midnight and reports the finished day once', () => {
+    const stats = new StatsTracker(filePath);
+    const onDayComplete = vi.fn();
+    stats.onDayComplete(onDayComplete);
+    stats.countSkip(at(1, 23, 59, 0));
+    stats.record(healthy, at(1, 23, 59, 57));
+    stats.record(healthy, at(2, 0, 0, 3));
+    stats.record(healthy, at(2, 0, 0, 8));
+
+    const [today, yesterday] = stats.getDays(2);
+    expect(yesterday).toMatchObject({ date: '2026-06-01', playingMs: 3_000, skips: 1 });
+    expect(today).toMatchObject({ date: '2026-06-02', playingMs: 8_000 });
+    expect(onDayComplete).toHaveBeenCalledTimes(1);
+    expect(onDayComplete).toHaveBeenCalledWith(expect.objectContaining({ date: '2026-06-01', playingMs: 3_000, skips: 1 }));
+  });
+
+  it('persists days and the last reported date across instances', () => {
+    const stats = new StatsTracker(filePath);
+    stats.countMpvRestart(at(1, 10));
+    stats.countStreamDrop(at(1, 11));
+    stats.record(healthy, at(2, 9));
+    stats.flush();
+
+    const reloaded = new StatsTracker(filePath);
+    const onDayComplete = vi.fn();
+    reloaded.onDayComplete(onDayComplete);
+    reloaded.record(healthy, at(2, 10));
+    expect(onDayComplete).not.toHaveBeenCalled();
+    expect(reloaded.getDays(2)[1]).toMatchObject({ date: '2026-06-01', mpvRestarts: 1, streamDrops: 1 });
+  });
+
+  it('computes uptime against the wall-clock day', () => {
+    const stats = new StatsTracker(filePath);
+    stats.record(healthy, at(1, 0));
+    for (let s = 5; s <= 3600; s += 5) stats.record(healthy, at(1, 0, 0, s));
+    const [day] = stats.getDays(1);
+    // One hour of playing: 1/24 of a finished day, all of the elapsed hour today
+    expect(uptimePercent(day, at(3, 0))).toBe(4.17);
+    expect(uptimePercent(day, at(1, 1))).toBe(100);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { renderTemplate, templateError, classifyError, youtubeLinks } from '../templates.js';
+
+describe('renderTemplate', () => {
+  it('applies formatter chains', () => {
+    const vars = { duration: 3725, position: 65, title: 'A fairly long title', empty: '' };
+    expect(renderTemplate('{duration|hms} / {position|hms} / {position|human}', vars)).toBe('1:02:05 / 1:05 / 1m 5s');
+    expect(renderTemplate('{title|truncate:10|upper}', vars)).toBe('A FAIRLY…');
+    expect(renderTemplate('{empty|default:n/a} {missing|default:none}', vars)).toBe('n/a none');
+  });
+
+  it('renders nested and negated conditionals', () => {
+    const template = '{#if title}{title}{#if !playlist} (no playlist){/if}{else}Untitled{/if}';
+    expect(renderTemplate(template, { title: 'Song', playlist: '' })).toBe('Song (no playlist)');
+    expect(renderTemplate(template, { title: 'Song', playlist: 'Main' })).toBe('Song');
+    expect(renderTemplate(template, { title: '' })).toBe('Untitled');
+    expect(renderTemplate('{#if attempt}retry {attempt}{/if}', { attempt: 0 })).toBe('');
+  });
+
+  it('leaves unknown plain placeholders and stray braces as written', () => {
+    expect(renderTemplate('{unknown} {not a var} {}', {})).toBe('{unknown} {not a var} {}');
+  });
+});
+
+describe('templateError', () => {
+  it('reports unbalanced blocks and unknown formatters', () => {
+    expect(templateError('{#if a}x{else}y{/if}')).toBeNull();
+    expect(templateError('{#if a}x')).toMatch(/never closed/);
+    expect(templateError('x{/if}')).toMatch(/without a matching/);
+    expect(templateError('{#if a}x{else}y{else}z{/if}')).toMatch(/outside/);
+    expect(templateError('{a|bogus}')).toMatch(/Unknown formatter "bogus"/);
+  });
+});
+
+describe('classifyError', () => {
+  it('buckets common mpv and yt-dlp errors', () => {
+    expect(classifyError('Video unavailable')).toBe('unavailable');
+    expect(classifyError('HTTP error 403 Forbidden')).toBe('auth');
+    expect(classifyError('loading failed')).toBe('network');
+    expect(classifyError('unrecognized file format')).toBe('format');
+    expect(classifyError('something odd')).toBe('other');
+  });
+});
+
+describe('youtubeLinks', () => {
+  it('only links YouTube video ids', () => {
+    expect(youtubeLinks('dQw4w9WgXcQ')?.url).toBe('https://www.youtube.com/watch?v=dQw4w9WgXcQ');
+    expect(youtubeLinks('D:\\Videos\\clip.mp4')).toBeNull();
+    expect(youtubeLinks('')).toBeNull();
+  });
+});
@@ -15,12 +15,16 @@ function makeConfig(overrides: Partial<AppConfig> = {}): AppConfig {
       webhookUrl: '',
       botName: '',
       avatarUrl: '',
-      rolePing: '',
-      events: { error: true, skip: true, recovery: true, critical: true, resume: true, obsDisconnect: true, obsReconnect: true, streamDrop: true, streamRestart: true, twitchMismatch: true, twitchRestart: true },
+      mentions: {},
+      routes: [],
+      quietHours: { enabled: false, start: '23:00', end: '07:00', days: [] },
+      embeds: {},
+      statusMessage: { enabled: false, updateIntervalMs: 60_000 },
+      events: { error: true, skip: true, recovery: true, critical: true, escalation: true, incident: true, resume: true, obsDisconnect: true, obsReconnect: true, streamDrop: true, streamRestart: true, twitchMismatch: true, twitchRestart: true, scheduleSwitch: true, fallbackActivate: true, fallbackRestore: true, dailySummary: true },
       templates: {
-        error: '', skip: '', recovery: '', critical: '', resume: '',
+        error: '', skip: '', recovery: '', critical: '', escalation: '', incident: '', resume: '',
         obsDisconnect: '', obsReconnect: '', streamDrop: '', streamRestart: '',
-        twitchMismatch: '', twitchRestart: '',
+        twitchMismatch: '', twitchRestart: '', scheduleSwitch: '', fallbackActivate: '', fallbackRestore: '', dailySummary: '',
       },
     },
     heartbeatIntervalMs: 5000,
@@ -49,6 +53,18 @@ function makeConfig(overrides: Partial<AppConfig> = {}): AppConfig {
     mpvExtraArgs: [],
     ytdlCookiesFromBrowser: '',
     ytdlPlayerClient: '',
+    schedule: { enabled: false, blocks: [] },
+    fallback: { enabled: false, source: null, maxSkips: 5, maxCriticals: 2, windowMs: 1800000, probeIntervalMs: 300000 },
+    eventRetentionDays: 7,
+    blacklist: { enabled: true, failureThreshold: 2, ttlMs: 86400000 },
+    notifications: [],
+    escalation: { enabled: true, intervalMs: 900000, levels: [] },
+    detectors: { stall: { mode: 'recover', heartbeats: 3 }, videoFreeze: { mode: 'recover', heartbeats: 4, frozenBitrate: 1000, maxRetries: 3 }, outputFreeze: { mode: 'recover', hashDistance: 4 }, blackScreen: { mode: 'recover', maxLuma: 16, maxStdDev: 2 }, audioSilence: { mode: 'recover', thresholdDb: -60, graceMs: 60000, inputName: '' }, playbackQuality: { mode: 'recover', maxDropPercent: 25, maxAvsyncMs: 500, heartbeats: 12 }, nonPlaying: { mode: 'recover', heartbeats: 6 }, heartbeat: { mode: 'recover' }, prematureEof: { mode: 'recover', maxRetries: 2 } },
+    recoveryLadder: { default: [] },
+    restartBreaker: { enabled: false, maxRestarts: 5, windowMs: 600000, backoffMs: 60000, maxBackoffMs: 1800000 },
+    outputIgnoreRegion: null,
+    obsHealth: { enabled: false, pollIntervalMs: 10000, windowMs: 300000, maxSkippedPercent: 5, maxCpuPercent: 90, stalledPolls: 3 },
+    qualityLadder: { enabled: false, rungs: [{ label: '720p', format: 'best[height<=?720]' }], stepDownAfter: 3, windowMs: 900000, stepUpAfterMs: 1800000 },
     ...overrides,
   };
 }
@@ -274,6 +290,8 @@ describe('TwitchLivenessChecker', () => {
       vi.stubGlobal('fetch', fetchMock);
 
       const checker = new TwitchLivenessChecker(makeConfig(), obs, discord);
+      const onEvent = vi.fn();
+      checker.onEvent(onEvent);
 
       await checker.check();
       expect(checker.getStatus().consecutiveMismatches).toBe(1);
@@ -296,6 +314,10 @@ describe('TwitchLivenessChecker', () => {
       expect(discord.notifyTwitchMismatch).toHaveBeenCalled();
       expect(discord.notifyTwitchRestart).toHaveBeenCalled();
       expect(checker.getStatus().restartCount).toBe(1);
+      expect(onEvent.mock.calls.map(([type]) => type)).toEqual(['twitchMismatch', 'twitchRestart']);
+      expect(onEvent).toHaveBeenLastCalledWith('twitchRestart', expect.any(String), {
+        detail: expect.objectContaining({ ok: true }),
+      });
     });
   });
 
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { VideoBlacklist } from '../video-blacklist.js';
+
+vi.mock('../logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+const tmpDir = join(import.meta.dirname, '..', '..', '..', '.test-tmp', 'blacklist');
+const filePath = join(tmpDir, 'video-blacklist.json');
+const config = { enabled: true, failureThreshold: 2, ttlMs: 3600_000 };
+
+describe('VideoBlacklist', () => {
+  beforeEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+    mkdirSync(tmpDir, { recursive: true });
+  });
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('blacklists a video for ttlMs once it reaches the failure threshold', () => {
+    const list = new VideoBlacklist(filePath, config);
+    const t0 = Date.parse('2026-06-01T12:00:00Z');
+
+    expect(list.recordFailure('abc', 'Video unavailable', 'Some title', t0)).toBeNull();
+    expect(list.isSkipped('abc', t0)).toBe(false);
+
+    const added = list.recordFailure('abc', 'Private video', undefined, t0 + 1000);
+    expect(added).toMatchObject({
+      videoId: 'abc', title: 'Some title', failures: 2, lastError: 'Private video',
+      firstSeen: '2026-06-01T12:00:00.000Z', skipUntil: '2026-06-01T13:00:01.000Z',
+    });
+    expect(list.isSkipped('abc', t0 + 2000)).toBe(true);
+    expect(list.isSkipped('abc', t0 + 3600_000 + 2000)).toBe(false);
+  });
+
+  it('forgets failures when the video plays, except for bans', () => {
+    const list = new VideoBlacklist(filePath, config);
+    list.recordFailure('abc', 'err');
+    list.recordSuccess('abc');
+    expect(list.list()).toEqual([]);
+
+    list.ban('xyz');
+    list.recordSuccess('xyz');
+    expect(list.isSkipped('xyz')).toBe(true);
+    expect(list.clear('xyz')).toBe(true);
+    expect(list.isSkipped('xyz')).toBe(false);
+    expect(list.clear('xyz')).toBe(false);
+  });
+
+  it('persists entries across instances', () => {
+    const list = new VideoBlacklist(filePath, config);
+    list.recordFailure('abc', 'err');
+    list.ban('xyz');
+
+    expect(JSON.parse(readFileSync(filePath, 'utf-8'))).toHaveLength(2);
+    const reloaded = new VideoBlacklist(filePath, config);
+    expect(reloaded.list().map((e) => e.videoId).sort()).toEqual(['abc', 'xyz']);
+    expect(reloaded.isSkipped('xyz')).toBe(true);
+  });
+
+  it('skips nothing and records nothing while disabled', () => {
+    const list = new VideoBlacklist(filePath, { ...config, enabled: false });
+    list.ban('xyz');
+    expect(list.isSkipped('xyz')).toBe(false);
+    expect(list.recordFailure('abc', 'err')).toBeNull();
+    expect(list.list().map((e) => e.videoId)).toEqual(['xyz']);
+  });
+});
@@ -0,0 +1,143 @@
+import { randomUUID } from 'crypto';
+import type { CriticalAlert, EscalationConfig, EventOptions, EventType } from './types.js';
+import type { Notifier } from './notifier.js';
+import { logger } from './logger.js';
+
+/** Closed alerts kept for GET /api/alerts. */
+const MAX_HISTORY = 20;
+
+/**
+ * Tracks the open critical alert and keeps reminding until someone
+ * acknowledges it or recovery resolves it. RecoveryEngine reports the first
+ * CriticalAlert of an incident and its resolution (wired in index.ts); each
+ * reminder adds the next `escalation.levels` mentions. Outlives recovery
+ * engines recreated on config reload, like Metrics and StatsTracker.
+ */
+export class AlertManager {
+  private config: EscalationConfig;
+  private getNotifier: () => Notifier;
+  private active: CriticalAlert | null = null;
+  private history: CriticalAlert[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private onEventCallback: ((type: EventType, message: string, opts?: EventOptions) => void) | null = null;
+  private onChangeCallback: (() => void) | null = null;
+
+  constructor(config: EscalationConfig, getNotifier: () => Notifier) {
+    this.config = config;
+    this.getNotifier = getNotifier;
+  }
+
+  onEvent(cb: (type: EventType, message: string, opts?: EventOptions) => void) { this.onEventCallback = cb; }
+  onChange(cb: () => void) { this.onChangeCallback = cb; }
+
+  setConfig(config: EscalationConfig) {
+    this.config = config;
+    this.schedule();
+  }
+
+  getActive(): CriticalAlert | null {
+    return this.active ? { ...this.active } : null;
+  }
+
+  /** The open alert (if any) followed by recently closed ones, newest first. */
+  list(): CriticalAlert[] {
+    return [...(this.active ? [this.active] : []), ...this.history].map((a) => ({ ...a }));
+  }
+
+  /** Start an incident. A CriticalAlert while one is already open joins it. */
+  open(message: string, now = Date.now()): CriticalAlert {
+    if (this.active) return { ...this.active };
+    this.active = {
+      id: randomUUID(),
+      message,
+      openedAt: new Date(now).toISOString(),
+      escalations: 0,
+      acknowledgedAt: null,
+      acknowledgedBy: null,
+      resolvedAt: null,
+    };
+    logger.warn({ alertId: this.active.id }, 'Critical alert opened');
+    this.schedule();
+    this.onChangeCallback?.();
+    return { ...this.active };
+  }
+
+  /** Recovery succeeded (or the fallback took over): close the open alert. */
+  resolve(now = Date.now()) {
+    if (!this.active) return;
+    this.active.resolvedAt = new Date(now).toISOString();
+    logger.info({ alertId: this.active.id }, 'Critical alert resolved');
+    this.close();
+  }
+
+  /** Stop reminders for `id`. Returns null if it isn't the open alert. */
+  acknowledge(id: string, by: string, now = Date.now()): CriticalAlert | null {
+    if (!this.active || this.active.id !== id) return null;
+    if (this.active.acknowledgedAt) return { ...this.active };
+    this.active.acknowledgedAt = new Date(now).toISOString();
+    this.active.acknowledgedBy = by;
+    this.clearTimer();
+    const openForMs = now - Date.parse(this.active.openedAt);
+    this.onEventCallback?.('alertAck', `Critical alert acknowledged by ${by}`, {
+      detail: { alertId: id, acknowledgedBy: by, acknowledgedAt: this.active.acknowledgedAt, openForMs },
+    });
+    this.onChangeCallback?.();
+    return { ...this.active };
+  }
+
+  stop() {
+    this.clearTimer();
+  }
+
+  /** Mentions for reminder `count` (1-based): every level up to it, de-duplicated. */
+  mentionsFor(count: number): string[] {
+    return [...new Set(this.config.levels.slice(0, count).flat())];
+  }
+
+  private close() {
+    this.clearTimer();
+    if (this.active) {
+      this.history.unshift(this.active);
+      this.history.length = Math.min(this.history.length, MAX_HISTORY);
+      this.active = null;
+    }
+    this.onChangeCallback?.();
+  }
+
+  private schedule() {
+    this.clearTimer();
+    const alert = this.active;
+    if (!alert || alert.acknowledgedAt || !this.config.enabled) return;
+    const lastAt = Date.parse(alert.openedAt) + alert.escalations * this.config.intervalMs;
+    const delay = Math.max(0, lastAt + this.config.intervalMs - Date.now());
+    this.timer = setTimeout(() => void this.escalate(), delay);
+  }
+
+  private async escalate() {
+    this.timer = null;
+    const alert = this.active;
+    if (!alert || alert.acknowledgedAt) return;
+    alert.escalations++;
+    const openForMs = Date.now() - Date.parse(alert.openedAt);
+    const mentions = this.mentionsFor(alert.escalations);
+    logger.warn({ alertId: alert.id, count: alert.escalations }, 'Escalating unacknowledged critical alert');
+    this.onEventCallback?.('alertEscalate', `Critical alert still unacknowledged — reminder ${alert.escalations}`, {
+      severity: 'error',
+      detail: { alertId: alert.id, count: alert.escalations, openForMs, mentions },
+    });
+    this.schedule();
+    this.onChangeCallback?.();
+    try {
+      await this.getNotifier().notifyEscalation(alert.message, openForMs, alert.escalations, mentions);
+    } catch (err) {
+      logger.error({ err }, 'Failed to send escalation');
+    }
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -2,18 +2,34 @@ import { Router } from 'express';
 import { existsSync, writeFileSync, unlinkSync, readdirSync, statSync, readFileSync, openSync, readSync, closeSync } from 'fs';
 import { join, basename } from 'path';
 import { ZodError } from 'zod';
-import { saveConfig, isFirstRun, getConfigPath, DEFAULT_DISCORD_TEMPLATES, DISCORD_TEMPLATE_VARIABLES } from './config.js';
+import {
+  saveConfig, isFirstRun, getConfigPath, DEFAULT_DISCORD_TEMPLATES, DISCORD_TEMPLATE_VARIABLES, COMMON_TEMPLATE_VARIABLES,
+  DEFAULT_DISCORD_EMBEDS,
+} from './config.js';
 import { logger } from './logger.js';
-import type { AppConfig } from './types.js';
+import type { AppConfig, DiscordEmbedConfig, DiscordEventKey, DiscordRoute, NotificationChannelConfig } from './types.js';
 import type { RecoveryEngine } from './recovery.js';
 import type { MpvClient } from './mpv-client.js';
 import type { PlaylistMetadataCache } from './playlist-metadata.js';
+import { playlistLoadTarget } from './playlist-source.js';
 import type { OBSClient } from './obs-client.js';
 import type { StateManager } from './state.js';
 import type { Updater } from './updater.js';
-import type { DiscordNotifier } from './discord.js';
+import type { NotifierContext, NotifierHub } from './notifier.js';
+import { previewEvent } from './notify-preview.js';
+import { TEMPLATE_FORMATTERS, templateError } from './templates.js';
 import type { TwitchLivenessChecker } from './twitch.js';
 import { updateYtdlp } from './ytdlp-updater.js';
+import type { LiveStream } from './live-stream.js';
+import { eventsToCsv, type EventStore } from './event-store.js';
+import type { VideoBlacklist } from './video-blacklist.js';
+import type { DiscordOutbox } from './discord-outbox.js';
+import type { AlertManager } from './alerts.js';
+import type { IncidentLog } from './incidents.js';
+import type { RestartBreaker } from './restart-breaker.js';
+import type { QualityLadder } from './quality-ladder.js';
+import { uptimePercent, type StatsTracker } from './stats.js';
+import type { EventSeverity, EventType } from './types.js';
 
 export interface ApiDependencies {
   getConfig: () => AppConfig;
@@ -27,8 +43,18 @@ export interface ApiDependencies {
   updater: Updater;
   triggerRestart: () => void;
   triggerShutdown: () => void;
-  getDiscord: () => DiscordNotifier;
+  getNotifier: () => NotifierHub;
+  notifierContext: NotifierContext;
   getTwitch: () => TwitchLivenessChecker;
+  liveStream: LiveStream;
+  eventStore: EventStore;
+  blacklist: VideoBlacklist;
+  stats: StatsTracker;
+  discordOutbox: DiscordOutbox;
+  alerts: AlertManager;
+  incidents: IncidentLog;
+  restartBreaker: RestartBreaker;
+  qualityLadder: QualityLadder;
   apiToken: string;
 }
 
@@ -38,6 +64,60 @@ const STARTUP_FOLDER = join(
 );
 const AUTOSTART_VBS = join(STARTUP_FOLDER, 'StreamLoop.vbs');
 
+const HISTORY_PAGE_MAX = 1000;
+const STATS_DAYS_MAX = 90;
+const HISTORY_EXPORT_MAX = 100_000;
+const EVENT_SEVERITIES: EventSeverity[] = ['info', 'warn', 'error'];
+const ACK_NAME_MAX = 64;
+const INCIDENTS_MAX = 100;
+
+/** Accepts epoch ms or anything Date.parse understands (ISO 8601). */
+function parseTimeParam(value: unknown): number | undefined {
+  if (typeof value !== 'string' || value === '') return undefined;
+  const ms = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (Number.isNaN(ms)) throw new Error(`Invalid time: ${value}`);
+  return ms;
+}
+
+/** Payload of `GET /api/status`, shared with the live stream's `status` snapshots. */
+export async function buildStatus(
+  deps: Pick<ApiDependencies, 'getConfig' | 'getRecovery' | 'getObs' | 'mpv' | 'getTwitch' | 'discordOutbox' | 'alerts' | 'restartBreaker' | 'qualityLadder'>,
+): Promise<Record<string, unknown>> {
+  const config = deps.getConfig();
+  const status = deps.getRecovery().getStatus();
+  const obs = deps.getObs();
+  const obsConnected = obs.isConnected();
+  const obsStreaming = obsConnected ? await obs.isStreaming() : false;
+  return {
+    mpvConnected: deps.mpv.isConnected(),
+    mpvRunning: deps.mpv.isRunning(),
+    obsConnected,
+    obsStreaming,
+    obsHealth: obs.getHealth(),
+    audio: obs.getAudioLevels(),
+    recoveryStep: status.recoveryStep,
+    lastHeartbeatAt: status.lastHeartbeatAt,
+    heartbeatIntervalMs: config.heartbeatIntervalMs,
+    consecutiveErrors: status.consecutiveErrors,
+    playback: status.playbackStats,
+    totalVideos: status.totalVideos,
+    uptimeMs: status.uptimeMs,
+    playlistIndex: status.playlistIndex,
+    totalPlaylists: status.totalPlaylists,
+    systemMemory: status.systemMemory,
+    paused: status.paused,
+    intentionallyStopped: status.intentionallyStopped,
+    fallbackActive: status.fallbackActive,
+    nextScheduleChange: status.nextScheduleChange,
+    firstRun: isFirstRun(config),
+    twitch: deps.getTwitch().getStatus(),
+    discordDelivery: deps.discordOutbox.getStatus(),
+    alert: deps.alerts.getActive(),
+    restartBreaker: deps.restartBreaker.getStatus(),
+    quality: deps.qualityLadder.getStatus(),
+  };
+}
+
 function maskConfig(config: AppConfig): Record<string, unknown> {
   return {
     ...config,
@@ -46,10 +126,31 @@ function maskConfig(config: AppConfig): Record<string, unknown> {
     discord: {
       ...config.discord,
       webhookUrl: config.discord.webhookUrl ? '********' : '',
+      routes: config.discord.routes.map((r) => ({ ...r, webhookUrl: r.webhookUrl ? '********' : '' })),
     },
+    // Webhook URLs embed their secret, so mask them along with tokens
+    notifications: config.notifications.map((ch) => ({
+      ...ch,
+      url: ch.url && ch.type !== 'telegram' ? '********' : ch.url,
+      token: ch.token ? '********' : '',
+    })),
   };
 }
 
+/**
+ * The dashboard tags each list item it loaded (routes, notification channels)
+ * with its position in the saved list, so a masked secret is restored from
+ * the item it came from even after others were removed or reordered.
+ */
+interface SavedIndex {
+  savedIndex?: unknown;
+}
+
+/** The saved item a posted one was loaded from; none for items added since. */
+function savedItem<T>(saved: T[], savedIndex: unknown): T | undefined {
+  return Number.isInteger(savedIndex) ? saved[savedIndex as number] : undefined;
+}
+
 export function createApiRouter(deps: ApiDependencies): Router {
   const router = Router();
 
@@ -70,30 +171,12 @@ export function createApiRouter(deps: ApiDependencies): Router {
   });
 
   router.get('/status', async (_req, res) => {
-    const config = deps.getConfig();
-    const status = deps.getRecovery().getStatus();
-    const obs = deps.getObs();
-    const obsConnected = obs.isConnected();
-    const obsStreaming = obsConnected ? await obs.isStreaming() : false;
-    res.json({
-      mpvConnected: deps.mpv.isConnected(),
-      mpvRunning: deps.mpv.isRunning(),
-      obsConnected,
-      obsStreaming,
-      recoveryStep: status.recoveryStep,
-      lastHeartbeatAt: status.lastHeartbeatAt,
-      heartbeatIntervalMs: config.heartbeatIntervalMs,
-      consecutiveErrors: status.consecutiveErrors,
-      totalVideos: status.totalVideos,
-      uptimeMs: status.uptimeMs,
-      playlistIndex: status.playlistIndex,
-      totalPlaylists: status.totalPlaylists,
-      systemMemory: status.systemMemory,
-      paused: status.paused,
-      intentionallyStopped: status.intentionallyStopped,
-      firstRun: isFirstRun(config),
-      twitch: deps.getTwitch().getStatus(),
-    });
+    res.json(await buildStatus(deps));
+  });
+
+  // Live push channel for the dashboard and overlay (Server-Sent Events).
+  router.get('/stream', (req, res) => {
+    void deps.liveStream.attach(req, res);
   });
 
   router.get('/state', (_req, res) => {
@@ -120,6 +203,27 @@ export function createApiRouter(deps: ApiDependencies): Router {
         // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
         delete (body.discord as any).webhookUrl;
       }
+      if (body.discord && Array.isArray(body.discord.routes)) {
+        const current = deps.getConfig().discord.routes;
+        body.discord.routes = body.discord.routes.map(({ savedIndex, ...r }: DiscordRoute & SavedIndex) => {
+          if (r.webhookUrl !== '********') return r;
+          return { ...r, webhookUrl: savedItem(current, savedIndex)?.webhookUrl ?? '' };
+        });
+      }
+      // Masked channel secrets keep the value saved for the channel they were
+      // loaded with, as long as it's still the same type of service.
+      if (Array.isArray(body.notifications)) {
+        const current = deps.getConfig().notifications;
+        body.notifications = body.notifications.map(({ savedIndex, ...ch }: NotificationChannelConfig & SavedIndex) => {
+          const loaded = savedItem(current, savedIndex);
+          const saved = loaded?.type === ch.type ? loaded : undefined;
+          return {
+            ...ch,
+            url: ch.url === '********' ? saved?.url ?? '' : ch.url,
+            token: ch.token === '********' ? saved?.token ?? '' : ch.token,
+          };
+        });
+      }
       const updated = saveConfig(body);
       logger.info('Config updated via API');
       // Trigger reload asynchronously
@@ -142,6 +246,85 @@ export function createApiRouter(deps: ApiDependencies): Router {
     res.json(deps.getRecovery().getEvents());
   });
 
+  // Full retained history, newest first. format=csv|jsonl downloads every
+  // match (up to HISTORY_EXPORT_MAX) instead of a page.
+  router.get('/events/history', async (req, res) => {
+    const format = typeof req.query.format === 'string' ? req.query.format : 'json';
+    const level = req.query.level;
+    try {
+      if (!['json', 'csv', 'jsonl'].includes(format)) throw new Error(`Invalid format: ${format}`);
+      if (level !== undefined && !EVENT_SEVERITIES.includes(level as EventSeverity)) {
+        throw new Error(`Invalid level: ${String(level)}`);
+      }
+      const exporting = format !== 'json';
+      const max = exporting ? HISTORY_EXPORT_MAX : HISTORY_PAGE_MAX;
+      const page = await deps.eventStore.query({
+        from: parseTimeParam(req.query.from),
+        to: parseTimeParam(req.query.to),
+        q: typeof req.query.q === 'string' && req.query.q ? req.query.q : undefined,
+        level: level as EventSeverity | undefined,
+        types: typeof req.query.type === 'string' && req.query.type
+          ? req.query.type.split(',').map((t) => t.trim()) as EventType[]
+          : undefined,
+        limit: Math.min(max, Math.max(1, Number(req.query.limit) || (exporting ? max : 100))),
+        cursor: typeof req.query.cursor === 'string' && req.query.cursor ? req.query.cursor : undefined,
+      });
+      if (!exporting) {
+        res.json(page);
+        return;
+      }
+      const stamp = new Date().toISOString().slice(0, 10);
+      res.attachment(`streamloop-events-${stamp}.${format}`);
+      if (format === 'csv') {
+        res.type('text/csv').send(eventsToCsv(page.events));
+      } else {
+        res.type('application/x-ndjson').send(page.events.map((e) => JSON.stringify(e) + '\n').join(''));
+      }
+    } catch (err) {
+      res.status(400).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  // Per-day playback statistics, newest first. `days` defaults to a week.
+  router.get('/stats', (req, res) => {
+    const count = Math.min(STATS_DAYS_MAX, Math.max(1, Number(req.query.days) || 7));
+    const now = Date.now();
+    res.json({
+      days: deps.stats.getDays(count).map((day) => ({ ...day, uptimePercent: uptimePercent(day, now) })),
+    });
+  });
+
+  // --- Critical alert endpoints ---
+
+  router.get('/alerts', (_req, res) => {
+    res.json({ alerts: deps.alerts.list() });
+  });
+
+  router.post('/alerts/:id/ack', (req, res) => {
+    const { by } = (req.body ?? {}) as { by?: unknown };
+    const name = (typeof by === 'string' ? by.trim().slice(0, ACK_NAME_MAX) : '') || 'dashboard';
+    const alert = deps.alerts.acknowledge(req.params.id, name);
+    if (!alert) {
+      return res.status(404).json({ error: 'Alert is not open' });
+    }
+    logger.info({ alertId: alert.id, acknowledgedBy: name }, 'Critical alert acknowledged');
+    res.json({ ok: true, alert });
+  });
+
+  // Close the restart-storm breaker so automatic mpv restarts resume immediately
+  router.post('/restart-breaker/reset', (_req, res) => {
+    deps.restartBreaker.reset();
+    res.json({ ok: true, restartBreaker: deps.restartBreaker.getStatus() });
+  });
+
+  // --- Incidents ---
+
+  // The open incident (if any) and recently closed ones, newest first. `limit` defaults to 20.
+  router.get('/incidents', (req, res) => {
+    const limit = Math.min(INCIDENTS_MAX, Math.max(1, Number(req.query.limit) || 20));
+    res.json({ incidents: deps.incidents.list(limit) });
+  });
+
   router.get('/autostart', (_req, res) => {
     res.json({ enabled: existsSync(AUTOSTART_VBS) });
   });
@@ -212,21 +395,69 @@ export function createApiRouter(deps: ApiDependencies): Router {
     if (!config.discord.webhookUrl) {
       return res.status(400).json({ error: 'No Discord webhook URL configured' });
     }
-    try {
-      await deps.getDiscord().send('Test notification from StreamLoop. If you see this, your webhook is working!', 'info');
-      res.json({ ok: true });
-    } catch (err) {
-      res.status(500).json({ error: String(err) });
+    // Sent to the default webhook whatever the quiet hours, status message or routes say
+    const result = await deps.getNotifier().primary
+      .sendTest('Test notification from StreamLoop. If you see this, your webhook is working!');
+    if (!result.ok) {
+      return res.status(result.disabled ? 400 : 502).json({ error: result.error });
+    }
+    res.json({ ok: true });
+  });
+
+  router.post('/notifications/test', async (req, res) => {
+    const { index } = req.body as { index: number };
+    const channel = deps.getNotifier().channels[index];
+    if (!channel) {
+      return res.status(400).json({ error: 'Unknown notification channel — save it before testing' });
+    }
+    const result = await channel.sendTest('Test notification from StreamLoop. If you see this, this channel is working!');
+    if (!result.ok) {
+      return res.status(result.disabled ? 400 : 502).json({ error: result.error });
     }
+    res.json({ ok: true });
   });
 
   router.get('/discord/defaults', (_req, res) => {
     res.json({
       templates: DEFAULT_DISCORD_TEMPLATES,
       variables: DISCORD_TEMPLATE_VARIABLES,
+      commonVariables: COMMON_TEMPLATE_VARIABLES,
+      formatters: TEMPLATE_FORMATTERS,
+      embeds: DEFAULT_DISCORD_EMBEDS,
     });
   });
 
+  // Render one event with the editor's unsaved template / embed and sample data
+  router.post('/discord/preview', async (req, res) => {
+    const { event, template, embed } = req.body as { event: string; template?: unknown; embed?: Partial<DiscordEmbedConfig> };
+    if (!Object.hasOwn(DEFAULT_DISCORD_TEMPLATES, event)) {
+      return res.status(400).json({ error: 'Unknown event' });
+    }
+    if (template !== undefined && typeof template !== 'string') {
+      return res.status(400).json({ error: 'template must be a string' });
+    }
+    const fields = Array.isArray(embed?.fields) ? embed.fields : [];
+    const problem = [template, ...fields.flatMap((f) => [f?.name, f?.value])]
+      .map((t) => typeof t === 'string' ? templateError(t) : null)
+      .find(Boolean);
+    if (problem) {
+      return res.status(400).json({ error: problem });
+    }
+    const payload = await previewEvent(deps.getConfig().discord, deps.notifierContext, event as DiscordEventKey, {
+      template,
+      embed: embed && {
+        fields: fields.map((f) => ({ name: String(f?.name ?? ''), value: String(f?.value ?? ''), inline: f?.inline !== false })),
+        thumbnail: embed.thumbnail === true,
+        link: embed.link === true,
+      },
+    });
+    if (!payload) {
+      return res.status(500).json({ error: 'Preview failed' });
+    }
+    const { messages: _messages, ...preview } = payload;
+    res.json(preview);
+  });
+
   // --- Update endpoints ---
 
   router.get('/update/status', (_req, res) => {
@@ -243,7 +474,7 @@ export function createApiRouter(deps: ApiDependencies): Router {
   });
 
   router.post('/update/apply', (_req, res) => {
-    // Respond immediately — the dashboard polls /update/status for progress
+    // Respond immediately — progress reaches the dashboard over /stream
     try {
       deps.updater.downloadAndApply()
         .then(() => {
@@ -269,9 +500,11 @@ export function createApiRouter(deps: ApiDependencies): Router {
     const playlistIndex = state.playlistIndex < config.playlists.length ? state.playlistIndex : 0;
     const playlist = config.playlists[playlistIndex];
     try {
-      const metadata = await deps.playlistCache.fetch(playlist.id);
+      const metadata = await deps.playlistCache.fetch(playlist);
       const start = (page - 1) * perPage;
-      const videos = metadata.videos.slice(start, start + perPage);
+      const now = Date.now();
+      const videos = metadata.videos.slice(start, start + perPage)
+        .map((v) => ({ ...v, blacklisted: deps.blacklist.isSkipped(v.id, now) }));
       res.json({ videos, total: metadata.videos.length, page, perPage, currentIndex: state.videoIndex });
     } catch (err) {
       logger.error({ err }, 'Failed to fetch playlist metadata');
@@ -279,6 +512,34 @@ export function createApiRouter(deps: ApiDependencies): Router {
     }
   });
 
+  // --- Video blacklist endpoints ---
+
+  router.get('/blacklist', (_req, res) => {
+    res.json({ enabled: deps.getConfig().blacklist.enabled, entries: deps.blacklist.list() });
+  });
+
+  router.post('/blacklist/clear', (req, res) => {
+    const { videoId } = req.body as { videoId: string };
+    if (typeof videoId !== 'string' || !videoId) {
+      return res.status(400).json({ error: 'videoId is required' });
+    }
+    if (!deps.blacklist.clear(videoId)) {
+      return res.status(404).json({ error: 'Video is not blacklisted' });
+    }
+    logger.info({ videoId }, 'Video cleared from blacklist');
+    res.json({ ok: true });
+  });
+
+  router.post('/blacklist/ban', (req, res) => {
+    const { videoId } = req.body as { videoId: string };
+    if (typeof videoId !== 'string' || !videoId) {
+      return res.status(400).json({ error: 'videoId is required' });
+    }
+    const entry = deps.blacklist.ban(videoId);
+    logger.info({ videoId }, 'Video banned');
+    res.json({ ok: true, entry });
+  });
+
   router.post('/playlist/switch', async (req, res) => {
     const { playlistIndex } = req.body as { playlistIndex: number };
     const config = deps.getConfig();
@@ -286,10 +547,9 @@ export function createApiRouter(deps: ApiDependencies): Router {
       return res.status(400).json({ error: 'Invalid playlist index' });
     }
     const playlist = config.playlists[playlistIndex];
-    const url = `https://www.youtube.com/playlist?list=${playlist.id}`;
     deps.state.update({ playlistIndex, videoIndex: 0, currentTime: 0, videoId: '', videoTitle: '' });
     try {
-      await deps.mpv.loadPlaylist(url);
+      await deps.mpv.loadPlaylist(await playlistLoadTarget(playlist));
       res.json({ ok: true });
     } catch (err) {
       logger.error({ err }, 'Failed to switch playlist');
@@ -1,14 +1,17 @@
 import { readFileSync, writeFileSync, renameSync } from 'fs';
 import { resolve } from 'path';
 import { z } from 'zod';
-import type { AppConfig, DiscordTemplates } from './types.js';
+import { RecoveryStep, type AppConfig, type DiscordEmbedConfig, type DiscordEventKey, type DiscordTemplates, type RecoveryLadderStep } from './types.js';
 import { logger } from './logger.js';
+import { templateError } from './templates.js';
 
 export const DEFAULT_DISCORD_TEMPLATES: DiscordTemplates = {
   error: 'Playback error **{errorCode}** on video #{videoIndex} (`{videoId}`)\nRetry attempt: {attempt}',
   skip: 'Skipping video #{videoIndex} (`{videoId}`)\nReason: {reason}',
   recovery: 'Recovery action: **{step}**',
   critical: '**CRITICAL:** {message}',
+  escalation: '**Still unresolved after {openFor}** (reminder {count}): {message}\nAcknowledge it on the dashboard to stop reminders.',
+  incident: 'Incident resolved after **{lasted}**: {root}, fixed by **{resolvedBy}** ({events} events)',
   resume: 'Playback resumed at video #{videoIndex} (`{videoId}`)',
   obsDisconnect: 'OBS disconnected — attempting to reconnect',
   obsReconnect: 'OBS reconnected',
@@ -16,6 +19,10 @@ export const DEFAULT_DISCORD_TEMPLATES: DiscordTemplates = {
   streamRestart: 'OBS stream restarted successfully after {attempts} attempt(s)',
   twitchMismatch: 'Twitch liveness mismatch — OBS reports streaming but **{channel}** is offline on Twitch. Restarting stream.',
   twitchRestart: 'Stream restarted after Twitch liveness mismatch on **{channel}**',
+  scheduleSwitch: 'Scheduled programming change: now playing **{playlist}** (was {previous})',
+  fallbackActivate: '**{playlist}** keeps failing ({reason}) — switched to fallback **{fallback}**',
+  fallbackRestore: '**{playlist}** is resolving again — switched back from fallback **{fallback}**',
+  dailySummary: 'Daily report for **{date}**: {uptime} uptime ({playing} playing), {skips} skipped videos, {restarts} mpv restarts',
 };
 
 export const DISCORD_TEMPLATE_VARIABLES: Record<keyof DiscordTemplates, string[]> = {
@@ -23,6 +30,8 @@ export const DISCORD_TEMPLATE_VARIABLES: Record<keyof DiscordTemplates, string[]
   skip: ['videoIndex', 'videoId', 'reason'],
   recovery: ['step'],
   critical: ['message'],
+  escalation: ['message', 'openFor', 'count'],
+  incident: ['root', 'lasted', 'resolvedBy', 'actions', 'events', 'message'],
   resume: ['videoIndex', 'videoId'],
   obsDisconnect: [],
   obsReconnect: [],
@@ -30,54 +39,325 @@ export const DISCORD_TEMPLATE_VARIABLES: Record<keyof DiscordTemplates, string[]
   streamRestart: ['attempts'],
   twitchMismatch: ['channel'],
   twitchRestart: ['channel'],
+  scheduleSwitch: ['playlist', 'previous'],
+  fallbackActivate: ['playlist', 'fallback', 'reason'],
+  fallbackRestore: ['playlist', 'fallback'],
+  dailySummary: ['date', 'uptime', 'playing', 'recovery', 'skips', 'restarts', 'streamDown', 'twitchOffline'],
 };
 
+/** Set on every event from the live playback and OBS state; an event's own variable wins on a name clash. */
+export const COMMON_TEMPLATE_VARIABLES = [
+  'videoTitle', 'videoId', 'videoIndex', 'videoUrl', 'playlist', 'duration', 'position', 'uptime', 'obsState', 'errorClass', 'quality',
+];
+
+/** Embeds for events with no `discord.embeds` entry: the video events show the video. */
+export const DEFAULT_DISCORD_EMBEDS: Partial<Record<DiscordEventKey, DiscordEmbedConfig>> = {
+  error: { fields: [], thumbnail: true, link: true },
+  skip: { fields: [], thumbnail: true, link: true },
+  resume: { fields: [], thumbnail: true, link: true },
+};
+
+/**
+ * Retry in place (after `recoveryDelayMs`), restart mpv, then raise a critical
+ * alert and start over a minute later if playback still hasn't recovered.
+ */
+export const DEFAULT_RECOVERY_LADDER: RecoveryLadderStep[] = [
+  { action: RecoveryStep.RetryCurrent, attempts: 1 },
+  { action: RecoveryStep.RestartMpv, delayMs: 15000, attempts: 1 },
+  { action: RecoveryStep.CriticalAlert, delayMs: 60000, attempts: 1 },
+];
+
+const templateString = z.string().superRefine((template, ctx) => {
+  const error = templateError(template);
+  if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+});
+
+const discordEventsSchema = z.object({
+  error: z.boolean().default(true),
+  skip: z.boolean().default(true),
+  recovery: z.boolean().default(true),
+  critical: z.boolean().default(true),
+  escalation: z.boolean().default(true),
+  incident: z.boolean().default(true),
+  resume: z.boolean().default(true),
+  obsDisconnect: z.boolean().default(true),
+  obsReconnect: z.boolean().default(true),
+  streamDrop: z.boolean().default(true),
+  streamRestart: z.boolean().default(true),
+  twitchMismatch: z.boolean().default(true),
+  twitchRestart: z.boolean().default(true),
+  scheduleSwitch: z.boolean().default(true),
+  fallbackActivate: z.boolean().default(true),
+  fallbackRestore: z.boolean().default(true),
+  // Opt-in: a once-a-day report rather than an alert.
+  dailySummary: z.boolean().default(false),
+}).default({});
+
+const discordTemplatesSchema = z.object({
+  error: templateString.default(DEFAULT_DISCORD_TEMPLATES.error),
+  skip: templateString.default(DEFAULT_DISCORD_TEMPLATES.skip),
+  recovery: templateString.default(DEFAULT_DISCORD_TEMPLATES.recovery),
+  critical: templateString.default(DEFAULT_DISCORD_TEMPLATES.critical),
+  escalation: templateString.default(DEFAULT_DISCORD_TEMPLATES.escalation),
+  incident: templateString.default(DEFAULT_DISCORD_TEMPLATES.incident),
+  resume: templateString.default(DEFAULT_DISCORD_TEMPLATES.resume),
+  obsDisconnect: templateString.default(DEFAULT_DISCORD_TEMPLATES.obsDisconnect),
+  obsReconnect: templateString.default(DEFAULT_DISCORD_TEMPLATES.obsReconnect),
+  streamDrop: templateString.default(DEFAULT_DISCORD_TEMPLATES.streamDrop),
+  streamRestart: templateString.default(DEFAULT_DISCORD_TEMPLATES.streamRestart),
+  twitchMismatch: templateString.default(DEFAULT_DISCORD_TEMPLATES.twitchMismatch),
+  twitchRestart: templateString.default(DEFAULT_DISCORD_TEMPLATES.twitchRestart),
+  scheduleSwitch: templateString.default(DEFAULT_DISCORD_TEMPLATES.scheduleSwitch),
+  fallbackActivate: templateString.default(DEFAULT_DISCORD_TEMPLATES.fallbackActivate),
+  fallbackRestore: templateString.default(DEFAULT_DISCORD_TEMPLATES.fallbackRestore),
+  dailySummary: templateString.default(DEFAULT_DISCORD_TEMPLATES.dailySummary),
+}).default({});
+
+const HHMM = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const discordEventKeySchema = z.enum(Object.keys(DEFAULT_DISCORD_TEMPLATES) as [DiscordEventKey, ...DiscordEventKey[]]);
+const mentionSchema = z.string().regex(/^(\d+|user:\d+|here|everyone)$/, 'mentions must be role IDs, user:<id>, here or everyone');
+
 const discordSchema = z.object({
   webhookUrl: z.string().default(''),
   botName: z.string().default(''),
   avatarUrl: z.string().default(''),
-  rolePing: z.string().default(''),
-  events: z.object({
-    error: z.boolean().default(true),
-    skip: z.boolean().default(true),
-    recovery: z.boolean().default(true),
-    critical: z.boolean().default(true),
-    resume: z.boolean().default(true),
-    obsDisconnect: z.boolean().default(true),
-    obsReconnect: z.boolean().default(true),
-    streamDrop: z.boolean().default(true),
-    streamRestart: z.boolean().default(true),
-    twitchMismatch: z.boolean().default(true),
-    twitchRestart: z.boolean().default(true),
+  events: discordEventsSchema,
+  templates: discordTemplatesSchema,
+  mentions: z.record(
+    discordEventKeySchema,
+    z.array(mentionSchema),
+  ).default({}),
+  routes: z.array(z.object({
+    name: z.string().default(''),
+    webhookUrl: z.string().min(1),
+    levels: z.array(z.enum(['info', 'warn', 'error'])).default([]),
+    events: z.array(discordEventKeySchema).default([]),
+  })).default([]),
+  quietHours: z.object({
+    enabled: z.boolean().default(false),
+    start: z.string().regex(HHMM, 'start must be HH:MM').default('23:00'),
+    end: z.string().regex(HHMM, 'end must be HH:MM').default('07:00'),
+    days: z.array(z.number().int().min(0).max(6)).default([]),
   }).default({}),
-  templates: z.object({
-    error: z.string().default(DEFAULT_DISCORD_TEMPLATES.error),
-    skip: z.string().default(DEFAULT_DISCORD_TEMPLATES.skip),
-    recovery: z.string().default(DEFAULT_DISCORD_TEMPLATES.recovery),
-    critical: z.string().default(DEFAULT_DISCORD_TEMPLATES.critical),
-    resume: z.string().default(DEFAULT_DISCORD_TEMPLATES.resume),
-    obsDisconnect: z.string().default(DEFAULT_DISCORD_TEMPLATES.obsDisconnect),
-    obsReconnect: z.string().default(DEFAULT_DISCORD_TEMPLATES.obsReconnect),
-    streamDrop: z.string().default(DEFAULT_DISCORD_TEMPLATES.streamDrop),
-    streamRestart: z.string().default(DEFAULT_DISCORD_TEMPLATES.streamRestart),
-    twitchMismatch: z.string().default(DEFAULT_DISCORD_TEMPLATES.twitchMismatch),
-    twitchRestart: z.string().default(DEFAULT_DISCORD_TEMPLATES.twitchRestart),
+  embeds: z.record(
+    discordEventKeySchema,
+    z.object({
+      fields: z.array(z.object({
+        name: templateString.pipe(z.string().min(1, 'field name is required')),
+        value: templateString,
+        inline: z.boolean().default(true),
+      })).max(10).default([]),
+      thumbnail: z.boolean().default(false),
+      link: z.boolean().default(false),
+    }),
+  ).default({}),
+  statusMessage: z.object({
+    enabled: z.boolean().default(false),
+    updateIntervalMs: z.number().int().min(15_000).default(60_000),
   }).default({}),
 }).default({});
 
+const notificationChannelSchema = z.object({
+  type: z.enum(['discord', 'slack', 'telegram', 'ntfy', 'gotify', 'webhook']),
+  name: z.string().default(''),
+  enabled: z.boolean().default(true),
+  url: z.string().default(''),
+  token: z.string().default(''),
+  chatId: z.string().default(''),
+  events: discordEventsSchema,
+  templates: discordTemplatesSchema,
+}).superRefine((ch, ctx) => {
+  // Telegram has a default API base; every other backend needs somewhere to send to.
+  if (ch.type !== 'telegram' && !ch.url) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['url'], message: `url is required for ${ch.type} channels` });
+  }
+  if ((ch.type === 'telegram' || ch.type === 'gotify') && !ch.token) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['token'], message: `token is required for ${ch.type} channels` });
+  }
+  if (ch.type === 'telegram' && !ch.chatId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['chatId'], message: 'chatId is required for telegram channels' });
+  }
+});
+
+const scheduleSchema = z.object({
+  enabled: z.boolean().default(false),
+  blocks: z.array(z.object({
+    days: z.array(z.number().int().min(0).max(6)).default([]),
+    start: z.string().regex(HHMM, 'start must be HH:MM'),
+    end: z.string().regex(HHMM, 'end must be HH:MM'),
+    playlistId: z.string().min(1),
+  })).default([]),
+}).default({});
+
+const playlistEntrySchema = z.object({
+  type: z.enum(['youtube', 'local', 'm3u', 'url', 'ytdlp']).optional(),
+  id: z.string().min(1),
+  name: z.string().optional(),
+});
+
+const fallbackSchema = z.object({
+  enabled: z.boolean().default(false),
+  source: playlistEntrySchema.nullable().default(null),
+  maxSkips: z.number().int().min(0).default(5),
+  maxCriticals: z.number().int().min(0).default(2),
+  windowMs: z.number().int().positive().default(1800000),
+  probeIntervalMs: z.number().int().min(30000).default(300000),
+}).default({});
+
+const blacklistSchema = z.object({
+  enabled: z.boolean().default(true),
+  failureThreshold: z.number().int().min(1).default(2),
+  ttlMs: z.number().int().min(60000).default(86400000),
+}).default({});
+
+const escalationSchema = z.object({
+  enabled: z.boolean().default(true),
+  intervalMs: z.number().int().min(60000).default(900000),
+  levels: z.array(z.array(mentionSchema)).default([]),
+}).default({});
+
+const restartBreakerSchema = z.object({
+  enabled: z.boolean().default(true),
+  maxRestarts: z.number().int().min(2).max(50).default(5),
+  windowMs: z.number().int().min(60000).default(600000),
+  backoffMs: z.number().int().min(10000).default(60000),
+  maxBackoffMs: z.number().int().min(10000).default(1800000),
+}).default({});
+
+const qualityRungSchema = z.object({
+  label: z.string().min(1),
+  format: z.string().min(1),
+});
+
+const qualityLadderSchema = z.object({
+  enabled: z.boolean().default(false),
+  rungs: z.array(qualityRungSchema).min(1).default([
+    { label: '720p', format: 'bestvideo[height<=?720]+bestaudio/best[height<=?720]/best' },
+    { label: '480p', format: 'bestvideo[height<=?480]+bestaudio/best[height<=?480]/best' },
+  ]),
+  stepDownAfter: z.number().int().min(1).max(20).default(3),
+  windowMs: z.number().int().min(60000).default(900000),
+  stepUpAfterMs: z.number().int().min(60000).default(1800000),
+}).default({});
+
+const obsHealthSchema = z.object({
+  enabled: z.boolean().default(true),
+  pollIntervalMs: z.number().int().min(2000).default(10000),
+  windowMs: z.number().int().min(30000).default(300000),
+  maxSkippedPercent: z.number().min(0.1).max(100).default(5),
+  maxCpuPercent: z.number().min(1).max(100).default(90),
+  stalledPolls: z.number().int().min(2).max(60).default(3),
+}).default({});
+
+const detectorMode = z.enum(['off', 'detect', 'recover']).default('recover');
+
+const detectorsSchema = z.object({
+  stall: z.object({
+    mode: detectorMode,
+    heartbeats: z.number().int().min(2).max(60).default(3),
+  }).default({}),
+  videoFreeze: z.object({
+    mode: detectorMode,
+    heartbeats: z.number().int().min(2).max(60).default(4),
+    frozenBitrate: z.number().int().min(0).default(1000),
+    maxRetries: z.number().int().min(0).max(10).default(3),
+  }).default({}),
+  outputFreeze: z.object({
+    mode: detectorMode,
+    hashDistance: z.number().int().min(0).max(32).default(4),
+  }).default({}),
+  blackScreen: z.object({
+    mode: detectorMode,
+    maxLuma: z.number().min(0).max(255).default(16),
+    maxStdDev: z.number().min(0).max(64).default(2),
+  }).default({}),
+  audioSilence: z.object({
+    mode: detectorMode,
+    thresholdDb: z.number().min(-100).max(0).default(-60),
+    graceMs: z.number().int().min(5000).max(3600000).default(60000),
+    inputName: z.string().default(''),
+  }).default({}),
+  playbackQuality: z.object({
+    mode: detectorMode,
+    maxDropPercent: z.number().min(1).max(100).default(25),
+    maxAvsyncMs: z.number().int().min(50).max(10000).default(500),
+    heartbeats: z.number().int().min(2).max(360).default(12),
+  }).default({}),
+  nonPlaying: z.object({
+    mode: detectorMode,
+    heartbeats: z.number().int().min(2).max(60).default(6),
+  }).default({}),
+  heartbeat: z.object({ mode: detectorMode }).default({}),
+  prematureEof: z.object({
+    mode: detectorMode,
+    maxRetries: z.number().int().min(0).max(10).default(2),
+  }).default({}),
+}).default({});
+
+const recoveryLadderSchema = z.array(z.object({
+  action: z.enum([
+    RecoveryStep.RetryCurrent, RecoveryStep.ReloadPlaylist, RecoveryStep.SkipVideo, RecoveryStep.RestartMpv,
+    RecoveryStep.ToggleSource, RecoveryStep.RestartStream, RecoveryStep.RelaunchObs, RecoveryStep.CriticalAlert,
+  ]),
+  delayMs: z.number().int().min(1000).max(3600000).optional(),
+  attempts: z.number().int().min(1).max(10).default(1),
+})).min(1, 'a recovery ladder needs at least one step');
+
+const recoveryLaddersSchema = z.object({
+  default: recoveryLadderSchema.default(() => DEFAULT_RECOVERY_LADDER.map((step) => ({ ...step }))),
+  stall: recoveryLadderSchema.optional(),
+  videoFreeze: recoveryLadderSchema.optional(),
+  outputFreeze: recoveryLadderSchema.optional(),
+  blackScreen: recoveryLadderSchema.optional(),
+  audioSilence: recoveryLadderSchema.optional(),
+  playbackQuality: recoveryLadderSchema.optional(),
+  nonPlaying: recoveryLadderSchema.optional(),
+  heartbeat: recoveryLadderSchema.optional(),
+}).default({});
+
 const configSchema = z.object({
   port: z.number().int().positive().default(7654),
   obsWebsocketUrl: z.string().default('ws://127.0.0.1:4455'),
   obsWebsocketPassword: z.string().default(''),
   obsBrowserSourceName: z.string().min(1),
-  playlists: z.array(z.object({ id: z.string().min(1), name: z.string().optional() })).min(1),
+  playlists: z.array(playlistEntrySchema).min(1),
+  // Time-of-day programming grid. Applied at video boundaries (and on every
+  // playlist load) by RecoveryEngine; blocks reference playlists by id.
+  schedule: scheduleSchema,
+  // Backup source RecoveryEngine switches to when the primary keeps failing,
+  // probing the primary in the background until it resolves again.
+  fallback: fallbackSchema,
+  // Videos that keep getting skipped are skipped pre-emptively for ttlMs.
+  blacklist: blacklistSchema,
+  // Reminders for critical alerts nobody has acknowledged, widening mentions each time.
+  escalation: escalationSchema,
+  // Pauses automatic mpv restarts when they pile up (mpv dying right after
+  // every restart), backing off exponentially between trial restarts.
+  restartBreaker: restartBreakerSchema,
+  // Polls OBS's GetStats / GetStreamStatus: alerts on skipped frames and CPU,
+  // and treats an active stream that sends nothing as a drop.
+  obsHealth: obsHealthSchema,
+  // Steps mpv's ytdl-format down through lower rungs after repeated freezes,
+  // stutter or 403s, and back up after a stretch of healthy playback.
+  qualityLadder: qualityLadderSchema,
+  // Per-detector off / detect-only / recover modes and trip thresholds.
+  detectors: detectorsSchema,
+  // Recovery actions to escalate through, per failure reason.
+  recoveryLadder: recoveryLaddersSchema,
   discord: discordSchema,
+  // Extra alert channels (Slack, Telegram, ntfy, Gotify, generic JSON, more
+  // Discord webhooks), each with its own toggles and templates.
+  notifications: z.array(notificationChannelSchema).default([]),
   heartbeatIntervalMs: z.number().int().positive().default(5000),
   heartbeatTimeoutMs: z.number().int().positive().default(15000),
   stateFilePath: z.string().default('./state.json').refine(
     (p) => !p.includes('..') && /^\.?[/\\]?[\w.\-]+\.json$/i.test(p),
     { message: 'stateFilePath must be a simple filename like ./state.json' },
   ),
+  // Days of daily event-log files (logs/events-*.jsonl) kept for
+  // /api/events/history. Older files are pruned at startup and at each day rollover.
+  eventRetentionDays: z.number().int().min(1).max(365).default(7),
   maxConsecutiveErrors: z.number().int().positive().default(3),
   recoveryDelayMs: z.number().int().positive().default(5000),
   // Grace window after each mpv connect during which the non-playing watchdog
@@ -86,6 +366,14 @@ const configSchema = z.object({
   initialLoadGraceMs: z.number().int().min(0).default(90000),
   outputCheckEnabled: z.boolean().default(true),
   outputFreezeWindowMs: z.number().int().min(10000).default(30000),
+  // Part of the OBS screenshot (percent from the top left) the output checks
+  // ignore, e.g. a clock overlay that keeps a black screen ticking.
+  outputIgnoreRegion: z.object({
+    x: z.number().min(0).max(100),
+    y: z.number().min(0).max(100),
+    width: z.number().min(1).max(100),
+    height: z.number().min(1).max(100),
+  }).nullable().default(null),
   // Proactively reload the current video this long after its URL was resolved,
   // pre-empting YouTube's ~6h signed-URL expiry on videos longer than the TTL.
   // 5.5h leaves a ~30min margin before the observed ~6.1h failure window. 0 disables.
@@ -120,6 +408,24 @@ const configSchema = z.object({
   // still served (verified: tv→403, web_safari→206). Set to '' to fall back to
   // yt-dlp's default client selection.
   ytdlPlayerClient: z.string().default('web_safari'),
+}).superRefine((cfg, ctx) => {
+  const ids = new Set(cfg.playlists.map((p) => p.id));
+  cfg.schedule.blocks.forEach((block, i) => {
+    if (!ids.has(block.playlistId)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['schedule', 'blocks', i, 'playlistId'],
+        message: `schedule block references unknown playlist "${block.playlistId}"`,
+      });
+    }
+  });
+  if (cfg.fallback.enabled && !cfg.fallback.source) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['fallback', 'source'],
+      message: 'fallback.source is required when the fallback is enabled',
+    });
+  }
 });
 
 let resolvedConfigPath = '';
@@ -135,6 +441,14 @@ function migrateJson(json: Record<string, unknown>): void {
     json.discord = { webhookUrl: json.discordWebhookUrl };
     delete json.discordWebhookUrl;
   }
+  // Migrate the global rolePing (only ever used on critical alerts) to per-event mentions
+  const discord = json.discord as Record<string, unknown> | undefined;
+  if (discord && typeof discord === 'object' && 'rolePing' in discord) {
+    if (typeof discord.rolePing === 'string' && discord.rolePing && !discord.mentions) {
+      discord.mentions = { critical: [discord.rolePing] };
+    }
+    delete discord.rolePing;
+  }
 }
 
 export function loadConfig(path?: string): AppConfig {
@@ -0,0 +1,133 @@
+import { readFileSync, writeFileSync, renameSync } from 'fs';
+import { resolve } from 'path';
+import type { NotifyPayload } from './notifier.js';
+import { logger } from './logger.js';
+
+/** Oldest messages are dropped past this, so a long outage can't grow the file unbounded. */
+const MAX_ENTRIES = 100;
+
+export interface OutboxEntry {
+  payload: NotifyPayload;
+  /** Destination picked by routing; unset means the default webhook. */
+  webhookUrl?: string;
+  queuedAt: string;
+  /** Failed delivery attempts so far; > 0 means the message goes out late. */
+  attempts: number;
+}
+
+export interface OutboxStatus {
+  queueDepth: number;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  lastDeliveredAt: number | null;
+}
+
+/**
+ * FIFO of Discord payloads awaiting delivery. Every message passes through it,
+ * so anything that fails (rate limit, Discord or network down) stays queued in
+ * order and is retried by the notifier. With a `filePath` the queue survives
+ * restarts; without one (extra Discord channels) it's memory-only.
+ */
+export class DiscordOutbox {
+  private filePath: string | null;
+  private entries: OutboxEntry[];
+  private draining = false;
+  /** Earliest time the next attempt may be made (Retry-After / backoff). */
+  retryAt = 0;
+  /** Consecutive failed attempts, for the backoff. */
+  failureStreak = 0;
+  private lastError: string | null = null;
+  private lastErrorAt: number | null = null;
+  private lastDeliveredAt: number | null = null;
+
+  constructor(filePath?: string) {
+    this.filePath = filePath ? resolve(filePath) : null;
+    this.entries = this.load();
+  }
+
+  private load(): OutboxEntry[] {
+    if (!this.filePath) return [];
+    try {
+      const raw = JSON.parse(readFileSync(this.filePath, 'utf-8')) as OutboxEntry[];
+      const entries = raw.filter((e) => e && e.payload && typeof e.payload.description === 'string');
+      if (entries.length > 0) logger.info({ count: entries.length }, 'Loaded undelivered Discord messages');
+      return entries;
+    } catch {
+      return [];
+    }
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  enqueue(payload: NotifyPayload, webhookUrl?: string, now = Date.now()) {
+    this.entries.push({ payload, webhookUrl, queuedAt: new Date(now).toISOString(), attempts: 0 });
+    if (this.entries.length > MAX_ENTRIES) {
+      const dropped = this.entries.splice(0, this.entries.length - MAX_ENTRIES);
+      logger.warn({ dropped: dropped.length }, 'Discord outbox full, dropping oldest messages');
+    }
+    this.writeToDisk();
+  }
+
+  peek(): OutboxEntry | undefined {
+    return this.entries[0];
+  }
+
+  /** Remove the head after it was delivered (or rejected for good). */
+  shift() {
+    this.entries.shift();
+    this.writeToDisk();
+  }
+
+  /** Single-drainer guard, shared by notifiers recreated on config reload. */
+  beginDrain(): boolean {
+    if (this.draining) return false;
+    this.draining = true;
+    return true;
+  }
+
+  endDrain() {
+    this.draining = false;
+  }
+
+  recordFailure(entry: OutboxEntry, error: string, retryInMs: number, now = Date.now()) {
+    entry.attempts++;
+    this.failureStreak++;
+    this.retryAt = now + retryInMs;
+    this.lastError = error;
+    this.lastErrorAt = now;
+    this.writeToDisk();
+  }
+
+  recordRejected(error: string, now = Date.now()) {
+    this.lastError = error;
+    this.lastErrorAt = now;
+  }
+
+  recordDelivery(now = Date.now()) {
+    this.failureStreak = 0;
+    this.retryAt = 0;
+    this.lastDeliveredAt = now;
+  }
+
+  getStatus(): OutboxStatus {
+    return {
+      queueDepth: this.entries.length,
+      lastError: this.lastError,
+      lastErrorAt: this.lastErrorAt,
+      lastDeliveredAt: this.lastDeliveredAt,
+    };
+  }
+
+  private writeToDisk() {
+    if (!this.filePath) return;
+    const tmpPath = this.filePath + '.tmp';
+    try {
+      writeFileSync(tmpPath, JSON.stringify(this.entries, null, 2), 'utf-8');
+      renameSync(tmpPath, this.filePath);
+    } catch (err) {
+      logger.error({ err }, 'Failed to write Discord outbox');
+    }
+  }
+}
@@ -0,0 +1,157 @@
+import { readFileSync, writeFileSync, renameSync } from 'fs';
+import { resolve } from 'path';
+import type { NotifyLevel, NotifyMessage } from './notifier.js';
+import { LEVEL_EMOJI } from './notifier.js';
+import { formatHms, youtubeLinks, type TemplateVars } from './templates.js';
+import { logger } from './logger.js';
+
+/** Discord embed field values are capped at 1024 characters. */
+const FIELD_MAX = 1024;
+const INCIDENT_PREVIEW_MAX = 300;
+
+const STREAM_COLORS: Record<string, number> = { streaming: 3066993, connected: 16776960, disconnected: 15158332 };
+const STREAM_LABELS: Record<string, string> = { streaming: '🟢 Live', connected: '🟡 Not streaming', disconnected: '🔴 OBS disconnected' };
+
+interface LastIncident {
+  content: string;
+  level: NotifyLevel;
+  at: string;
+}
+
+interface PersistedStatus {
+  messageId: string | null;
+  /** Webhook the message was posted with; a different one starts a new message. */
+  webhookUrl: string;
+  createdAt: string;
+  lastIncident: LastIncident | null;
+  /** Warn/error events folded into the message since it was created, by event. */
+  counts: Record<string, number>;
+}
+
+/**
+ * State behind the live Discord status message: which message to edit, the
+ * last incident and per-event counts. DiscordNotifier folds non-critical
+ * alerts in here instead of posting them and edits the message on a timer.
+ * Persisted so the same message keeps updating across restarts; shared by
+ * notifiers recreated on config reload, like DiscordOutbox.
+ */
+export class DiscordStatusMessage {
+  private filePath: string | null;
+  private state: PersistedStatus;
+
+  constructor(filePath?: string) {
+    this.filePath = filePath ? resolve(filePath) : null;
+    this.state = this.load() ?? DiscordStatusMessage.fresh('');
+  }
+
+  private static fresh(webhookUrl: string, now = Date.now()): PersistedStatus {
+    return { messageId: null, webhookUrl, createdAt: new Date(now).toISOString(), lastIncident: null, counts: {} };
+  }
+
+  private load(): PersistedStatus | null {
+    if (!this.filePath) return null;
+    try {
+      const raw = JSON.parse(readFileSync(this.filePath, 'utf-8')) as PersistedStatus;
+      return typeof raw.webhookUrl === 'string' && raw.counts ? raw : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Id of the message to edit on `webhookUrl`, or null when a new one must be posted. */
+  messageIdFor(webhookUrl: string): string | null {
+    return this.state.webhookUrl === webhookUrl ? this.state.messageId : null;
+  }
+
+  /**
+   * A new message was posted. Replacing an existing one starts its counts
+   * afresh; alerts folded while there was none carry over to it.
+   */
+  setMessage(webhookUrl: string, messageId: string, now = Date.now()) {
+    this.state = this.state.messageId === null
+      ? { ...this.state, webhookUrl, messageId }
+      : { ...DiscordStatusMessage.fresh(webhookUrl, now), messageId, lastIncident: this.state.lastIncident };
+    this.writeToDisk();
+  }
+
+  /** The message was deleted on Discord; the next update posts a new one. */
+  forgetMessage() {
+    this.state.messageId = null;
+    this.writeToDisk();
+  }
+
+  /** Fold one alert into the message. Info-level events only refresh it. */
+  record(message: NotifyMessage, now = Date.now()) {
+    if (message.level === 'info') return;
+    if (message.event) {
+      this.state.counts[message.event] = (this.state.counts[message.event] ?? 0) + 1;
+    }
+    const firstLine = message.content.split('\n')[0];
+    this.state.lastIncident = {
+      content: firstLine.length > INCIDENT_PREVIEW_MAX ? firstLine.slice(0, INCIDENT_PREVIEW_MAX - 1) + '…' : firstLine,
+      level: message.level,
+      at: new Date(now).toISOString(),
+    };
+    this.writeToDisk();
+  }
+
+  /** Embed for the current playback state (`COMMON_TEMPLATE_VARIABLES`) plus the folded alerts. */
+  buildEmbed(vars: TemplateVars): Record<string, unknown> {
+    const obsState = String(vars.obsState ?? 'disconnected');
+    const title = String(vars.videoTitle || vars.videoId || 'Nothing playing');
+    const links = youtubeLinks(String(vars.videoId ?? ''));
+    const nowPlaying = links ? `[${escapeLinkText(title)}](${links.url})` : title;
+    const position = typeof vars.position === 'number' && typeof vars.duration === 'number' && vars.duration > 0
+      ? `\n${formatHms(vars.position)} / ${formatHms(vars.duration)}`
+      : '';
+    const incident = this.state.lastIncident;
+    const counts = Object.entries(this.state.counts)
+      .sort(([, a], [, b]) => b - a)
+      .map(([event, count]) => `${count}× ${event}`)
+      .join(', ');
+    const since = discordTime(this.state.createdAt);
+
+    return {
+      title: 'StreamLoop status',
+      color: STREAM_COLORS[obsState] ?? STREAM_COLORS.disconnected,
+      fields: [
+        { name: 'Now playing', value: clip(`${nowPlaying}${position}`), inline: false },
+        { name: 'Playlist', value: clip(String(vars.playlist || '—')), inline: true },
+        { name: 'Stream', value: STREAM_LABELS[obsState] ?? obsState, inline: true },
+        { name: 'Uptime', value: String(vars.uptime ?? '—'), inline: true },
+        {
+          name: 'Last incident',
+          value: incident ? clip(`${LEVEL_EMOJI[incident.level]} ${discordTime(incident.at)} — ${incident.content}`) : 'None',
+          inline: false,
+        },
+        { name: `Alerts since ${since}`, value: clip(counts || 'None'), inline: false },
+      ],
+      ...(links && { thumbnail: { url: links.thumbnailUrl } }),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private writeToDisk() {
+    if (!this.filePath) return;
+    const tmpPath = this.filePath + '.tmp';
+    try {
+      writeFileSync(tmpPath, JSON.stringify(this.state, null, 2), 'utf-8');
+      renameSync(tmpPath, this.filePath);
+    } catch (err) {
+      logger.error({ err }, 'Failed to write Discord status message state');
+    }
+  }
+}
+
+/** Discord renders `<t:unix:R>` as a live relative time ("5 minutes ago"). */
+function discordTime(iso: string): string {
+  return `<t:${Math.floor(Date.parse(iso) / 1000)}:R>`;
+}
+
+function escapeLinkText(text: string): string {
+  return text.replace(/[[\]]/g, '\\$&');
+}
+
+function clip(text: string): string {
+  return text.length > FIELD_MAX ? text.slice(0, FIELD_MAX - 1) + '…' : text;
+}
@@ -1,245 +1,319 @@
-import { freemem, totalmem } from 'os';
 import type { AppConfig, DiscordConfig } from './types.js';
 import { logger } from './logger.js';
-
-type Level = 'info' | 'warn' | 'error';
-const LEVEL_PRIORITY: Record<Level, number> = { info: 0, warn: 1, error: 2 };
-const DEBOUNCE_MS = 5_000;
-
-interface EmbedField {
-  name: string;
-  value: string;
-  inline?: boolean;
-}
-
-interface QueuedMessage {
-  content: string;
-  level: Level;
-  fields?: EmbedField[];
-}
-
-export class DiscordNotifier {
+import {
+  ChannelNotifier, type NotifierContext, type NotifyLevel, type NotifyMessage, type NotifyPayload, type TestDelivery,
+} from './notifier.js';
+import { DiscordOutbox, type OutboxEntry } from './discord-outbox.js';
+import type { DiscordStatusMessage } from './discord-status.js';
+import { blockCovers } from './schedule.js';
+import type { TemplateVars } from './templates.js';
+
+const COLORS: Record<NotifyLevel, number> = { info: 3447003, warn: 16776960, error: 15158332 };
+const REQUEST_TIMEOUT_MS = 10_000;
+const RATE_LIMIT_DEFAULT_WAIT_MS = 10_000;
+const RETRY_BASE_MS = 2_000;
+const RETRY_MAX_MS = 5 * 60_000;
+/** First status message refresh after startup / reload; then every `updateIntervalMs`. */
+const STATUS_FIRST_UPDATE_MS = 5_000;
+
+/** Result of one POST: delivered, rejected for good (dropped), or retry later. */
+type PostResult = { ok: true } | { ok: false; error: string; retryInMs?: number };
+
+export class DiscordNotifier extends ChannelNotifier {
   private discord: DiscordConfig;
-  private appVersion: string;
-  private getUptime: () => number;
-  private adminUrl: string;
-  private queue: QueuedMessage[] = [];
-  private flushTimer: ReturnType<typeof setTimeout> | null = null;
-
-  constructor(config: AppConfig, appVersion: string, getUptime: () => number, adminUrl: string) {
-    this.discord = config.discord;
-    this.appVersion = appVersion;
-    this.getUptime = getUptime;
-    this.adminUrl = adminUrl;
+  private outbox: DiscordOutbox;
+  private status: DiscordStatusMessage | null;
+  private drainTimer: ReturnType<typeof setTimeout> | null = null;
+  private statusTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+
+  /**
+   * `discord` defaults to the config's primary webhook block; extra Discord
+   * channels pass their own. Only the primary is given a persisted outbox
+   * and the live status message.
+   */
+  constructor(
+    config: AppConfig,
+    context: NotifierContext,
+    discord: DiscordConfig = config.discord,
+    outbox: DiscordOutbox = new DiscordOutbox(),
+    status: DiscordStatusMessage | null = null,
+  ) {
+    super(discord, context);
+    this.discord = discord;
+    this.outbox = outbox;
+    this.status = status;
+    // Messages left over from an outage before the last restart
+    if (this.enabled && outbox.size > 0) this.scheduleDrain();
+    if (this.statusActive) this.scheduleStatusUpdate(STATUS_FIRST_UPDATE_MS);
   }
 
-  private get enabled(): boolean {
-    return this.discord.webhookUrl.length > 0;
+  protected get enabled(): boolean {
+    return this.discord.webhookUrl.length > 0 || this.discord.routes.length > 0;
   }
 
-  renderTemplate(template: string, vars: Record<string, string | number>): string {
-    return template.replace(/\{(\w+)\}/g, (match, key) => {
-      return key in vars ? String(vars[key]) : match;
-    });
+  private get statusActive(): boolean {
+    return this.status !== null && this.discord.statusMessage.enabled && this.discord.webhookUrl.length > 0;
   }
 
-  private formatUptime(ms: number): string {
-    const s = Math.floor(ms / 1000);
-    const h = Math.floor(s / 3600);
-    const m = Math.floor((s % 3600) / 60);
-    if (h > 0) return `${h}h ${m}m`;
-    if (m > 0) return `${m}m ${s % 60}s`;
-    return `${s}s`;
+  /**
+   * With the status message on, events are folded into it and only critical
+   * alerts and the daily summary are still posted. During quiet hours only
+   * error-level (critical) alerts get through.
+   */
+  protected accepts(message: NotifyMessage): boolean {
+    if (this.statusActive && message.event) {
+      this.status!.record(message);
+      if (message.level !== 'error' && message.event !== 'dailySummary') return false;
+    }
+    const quiet = this.discord.quietHours;
+    if (message.level === 'error' || !quiet.enabled || !blockCovers(quiet, new Date())) return true;
+    logger.debug({ event: message.event }, 'Discord alert suppressed by quiet hours');
+    return false;
   }
 
-  private getMemoryField(): EmbedField {
-    const totalBytes = totalmem();
-    const freeBytes = freemem();
-    const usedGB = ((totalBytes - freeBytes) / 1073741824).toFixed(1);
-    const totalGB = (totalBytes / 1073741824).toFixed(1);
-    const usedPercent = Math.round(((totalBytes - freeBytes) / totalBytes) * 100);
-    return { name: 'RAM', value: `${usedGB}/${totalGB} GB (${usedPercent}%)`, inline: true };
+  /**
+   * Post straight to the default webhook, bypassing the outbox, routes,
+   * quiet hours and the status message, so the result is this webhook's.
+   */
+  async sendTest(content: string): Promise<TestDelivery> {
+    if (!this.discord.webhookUrl) return { ok: false, error: 'Discord webhook is disabled or not configured', disabled: true };
+    const payload = this.buildPayload([{ content, level: 'info' }]);
+    const result = await this.post({ payload, queuedAt: payload.timestamp, attempts: 0 });
+    return result.ok ? { ok: true } : { ok: false, error: `Discord delivery failed: ${result.error}` };
   }
 
-  private makeFooterText(extraText?: string): string {
-    const parts: string[] = [];
-    if (this.adminUrl) parts.push(`Dashboard: ${this.adminUrl}`);
-    parts.push(`Uptime: ${this.formatUptime(this.getUptime())}`);
-    parts.push(`v${this.appVersion}`);
-    const footer = parts.join(' | ');
-    return extraText ? `${extraText} | ${footer}` : footer;
+  /** Webhook for one message: the first matching route, else the default webhook. */
+  private webhookFor(message: NotifyMessage): string {
+    const route = this.discord.routes.find((r) =>
+      (r.levels.length === 0 || r.levels.includes(message.level)) &&
+      (r.events.length === 0 || (message.event !== undefined && r.events.includes(message.event))));
+    return route ? route.webhookUrl : this.discord.webhookUrl;
   }
 
-  async send(content: string, level: Level = 'info', fields?: EmbedField[]): Promise<void> {
-    if (!this.enabled) return;
-
-    this.queue.push({ content, level, fields });
+  protected get label(): string {
+    return 'Discord';
+  }
 
-    // Critical messages flush immediately
-    if (level === 'error') {
-      await this.flush();
-      return;
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.drainTimer) {
+      clearTimeout(this.drainTimer);
+      this.drainTimer = null;
     }
-
-    // Start debounce timer if not already running
-    if (!this.flushTimer) {
-      this.flushTimer = setTimeout(() => this.flush(), DEBOUNCE_MS);
+    if (this.statusTimer) {
+      clearTimeout(this.statusTimer);
+      this.statusTimer = null;
     }
+    await super.close();
   }
 
-  async flush(): Promise<void> {
-    if (this.flushTimer) {
-      clearTimeout(this.flushTimer);
-      this.flushTimer = null;
-    }
-
-    if (this.queue.length === 0) return;
-
-    const messages = this.queue.splice(0);
-    const highestLevel = messages.reduce<Level>(
-      (max, m) => LEVEL_PRIORITY[m.level] > LEVEL_PRIORITY[max] ? m.level : max,
-      'info',
-    );
-
-    const colorMap: Record<Level, number> = { info: 3447003, warn: 16776960, error: 15158332 };
-    const emoji: Record<Level, string> = { info: '\u2139\uFE0F', warn: '\u26A0\uFE0F', error: '\uD83D\uDEA8' };
-
-    const isBatched = messages.length > 1;
-    const description = messages.map(m => {
-      const prefix = isBatched ? `${emoji[m.level]} ` : '';
-      return prefix + m.content;
-    }).join('\n\n');
-
-    // Use structured fields only for single messages that have them
-    const embedFields = !isBatched && messages[0].fields ? messages[0].fields : undefined;
+  private scheduleStatusUpdate(delayMs: number) {
+    if (this.closed) return;
+    this.statusTimer = setTimeout(() => {
+      this.statusTimer = null;
+      void this.updateStatus().finally(() => this.scheduleStatusUpdate(this.discord.statusMessage.updateIntervalMs));
+    }, delayMs);
+  }
 
-    const footerExtra = isBatched ? `${messages.length} events` : undefined;
+  /**
+   * Edit the status message, or post it (`?wait=true` returns its id) when
+   * there is none yet for this webhook or it was deleted on Discord. Skipped
+   * while alerts are backing off, so it doesn't eat into the rate limit.
+   */
+  private async updateStatus(): Promise<void> {
+    if (this.closed || !this.status || Date.now() < this.outbox.retryAt) return;
+    let vars: TemplateVars = {};
+    try {
+      vars = (await this.context.getTemplateVars?.()) ?? {};
+    } catch (err) {
+      logger.debug({ err }, 'Template variables unavailable');
+    }
+    const webhookUrl = this.discord.webhookUrl;
+    const embeds = [{
+      ...this.status.buildEmbed({ uptime: this.formatUptime(this.context.getUptime()), ...vars }),
+      footer: { text: this.makeFooterText() },
+    }];
 
-    const embed: Record<string, unknown> = {
-      title: `${emoji[highestLevel]} StreamLoop`,
-      description,
-      color: colorMap[highestLevel],
-      timestamp: new Date().toISOString(),
-      footer: { text: this.makeFooterText(footerExtra) },
-    };
+    try {
+      const messageId = this.status.messageIdFor(webhookUrl);
+      if (messageId) {
+        // Edits can't change the webhook identity, so only the embed is sent
+        const res = await this.request(messageUrl(webhookUrl, messageId), 'PATCH', JSON.stringify({ embeds }));
+        if (res.ok) return;
+        if (res.status !== 404) {
+          logger.warn({ status: res.status }, 'Discord status message update failed');
+          return;
+        }
+        logger.info('Discord status message was deleted, posting a new one');
+        this.status.forgetMessage();
+      }
 
-    if (embedFields) {
-      embed.fields = embedFields;
+      const url = new URL(webhookUrl);
+      url.searchParams.set('wait', 'true');
+      const res = await this.request(url.toString(), 'POST', JSON.stringify({ ...this.identity(), embeds }));
+      if (!res.ok) {
+        logger.warn({ status: res.status }, 'Discord status message post failed');
+        return;
+      }
+      const { id } = await res.json() as { id?: string };
+      if (id) this.status.setMessage(webhookUrl, id);
+    } catch (err) {
+      logger.warn({ err }, 'Discord status message update failed');
     }
+  }
 
-    // Build webhook body with optional bot identity
-    const body: Record<string, unknown> = { embeds: [embed] };
+  private request(url: string, method: 'POST' | 'PATCH', body: string): Promise<Response> {
+    return fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  }
 
-    if (this.discord.botName) {
-      body.username = this.discord.botName;
+  /**
+   * Split the batch by destination webhook, queue each part behind anything
+   * undelivered, then send what the backoff allows.
+   */
+  protected async deliver(payload: NotifyPayload): Promise<void> {
+    const byWebhook = new Map<string, NotifyMessage[]>();
+    for (const message of payload.messages) {
+      const url = this.webhookFor(message);
+      if (!url) continue;
+      byWebhook.set(url, [...(byWebhook.get(url) ?? []), message]);
     }
-    if (this.discord.avatarUrl) {
-      body.avatar_url = this.discord.avatarUrl;
+    for (const [url, messages] of byWebhook) {
+      this.outbox.enqueue(messages.length === payload.messages.length ? payload : this.buildPayload(messages), url);
     }
+    await this.drain();
+  }
 
-    // Role ping on critical (error-level) messages
-    if (highestLevel === 'error' && this.discord.rolePing) {
-      body.content = `<@&${this.discord.rolePing}>`;
+  /** Send queued messages oldest first, stopping at the first retryable failure. */
+  private async drain(): Promise<void> {
+    if (this.closed || !this.enabled) return;
+    if (Date.now() < this.outbox.retryAt) {
+      this.scheduleDrain();
+      return;
     }
-
+    if (!this.outbox.beginDrain()) return;
     try {
-      const res = await fetch(this.discord.webhookUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(body),
-      });
-      if (res.status === 429) {
-        const retryAfter = res.headers.get('retry-after');
-        const waitMs = retryAfter ? parseFloat(retryAfter) * 1000 : 10_000;
-        logger.warn({ retryAfterMs: waitMs }, 'Discord rate limited, waiting');
-        await new Promise((r) => setTimeout(r, waitMs));
-      } else if (!res.ok) {
-        logger.error({ status: res.status }, 'Discord webhook failed');
+      for (let entry = this.outbox.peek(); entry; entry = this.outbox.peek()) {
+        const result = await this.post(entry);
+        if (result.ok) {
+          this.outbox.recordDelivery();
+        } else if (result.retryInMs !== undefined) {
+          this.outbox.recordFailure(entry, result.error, result.retryInMs);
+          logger.warn({ error: result.error, retryInMs: result.retryInMs, queued: this.outbox.size }, 'Discord delivery failed, will retry');
+          this.scheduleDrain();
+          return;
+        } else {
+          this.outbox.recordRejected(result.error);
+          logger.error({ error: result.error }, 'Discord webhook rejected message, dropping it');
+        }
+        this.outbox.shift();
       }
-    } catch (err) {
-      logger.error({ err }, 'Discord webhook error');
+    } finally {
+      this.outbox.endDrain();
     }
   }
 
-  async notifyError(videoIndex: number, videoId: string, reason: string, attempt: number): Promise<void> {
-    if (!this.discord.events.error) return;
-    const content = this.renderTemplate(this.discord.templates.error, {
-      // `errorCode` kept as a template var name for backwards compatibility
-      // with existing user templates; it now carries mpv's error string.
-      videoIndex, videoId, errorCode: reason, attempt,
-    });
-    const fields: EmbedField[] = [
-      { name: 'Reason', value: reason, inline: true },
-      { name: 'Video', value: `#${videoIndex} (\`${videoId}\`)`, inline: true },
-      { name: 'Attempt', value: String(attempt), inline: true },
-    ];
-    await this.send(content, 'warn', fields);
-  }
-
-  async notifySkip(videoIndex: number, videoId: string, reason: string): Promise<void> {
-    if (!this.discord.events.skip) return;
-    const content = this.renderTemplate(this.discord.templates.skip, {
-      videoIndex, videoId, reason,
-    });
-    await this.send(content, 'warn');
+  private scheduleDrain() {
+    if (this.drainTimer || this.closed) return;
+    this.drainTimer = setTimeout(() => {
+      this.drainTimer = null;
+      void this.drain();
+    }, Math.max(0, this.outbox.retryAt - Date.now()));
   }
 
-  async notifyRecovery(step: string): Promise<void> {
-    if (!this.discord.events.recovery) return;
-    const content = this.renderTemplate(this.discord.templates.recovery, { step });
-    const mem = this.getMemoryField();
-    await this.send(content, 'warn', [mem]);
+  private async post(entry: OutboxEntry): Promise<PostResult> {
+    let res: Response;
+    try {
+      res = await this.request(
+        entry.webhookUrl ?? this.discord.webhookUrl,
+        'POST',
+        JSON.stringify(this.buildBody(entry.payload, entry.attempts > 0)),
+      );
+    } catch (err) {
+      return { ok: false, error: err instanceof Error ? err.message : String(err), retryInMs: this.backoffMs() };
+    }
+    if (res.ok) return { ok: true };
+    if (res.status === 429) {
+      const retryAfter = parseFloat(res.headers.get('retry-after') ?? '');
+      return {
+        ok: false,
+        error: 'Rate limited (HTTP 429)',
+        retryInMs: Number.isFinite(retryAfter) ? retryAfter * 1000 : RATE_LIMIT_DEFAULT_WAIT_MS,
+      };
+    }
+    if (res.status >= 500) {
+      return { ok: false, error: `HTTP ${res.status}`, retryInMs: this.backoffMs() };
+    }
+    // Other 4xx (deleted webhook, malformed embed): retrying won't help
+    return { ok: false, error: `HTTP ${res.status}` };
   }
 
-  async notifyCritical(message: string): Promise<void> {
-    if (!this.discord.events.critical) return;
-    const content = this.renderTemplate(this.discord.templates.critical, { message });
-    const fields: EmbedField[] = [
-      { name: 'Status', value: message, inline: false },
-      this.getMemoryField(),
-    ];
-    await this.send(content, 'error', fields);
+  private backoffMs(): number {
+    return Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** this.outbox.failureStreak);
   }
 
-  async notifyResume(videoIndex: number, videoId: string): Promise<void> {
-    if (!this.discord.events.resume) return;
-    const content = this.renderTemplate(this.discord.templates.resume, {
-      videoIndex, videoId,
-    });
-    await this.send(content, 'info');
-  }
+  private buildBody(payload: NotifyPayload, delayed: boolean): Record<string, unknown> {
+    const embed: Record<string, unknown> = {
+      title: payload.title,
+      description: payload.description,
+      color: COLORS[payload.level],
+      // Original time of the event, even when delivered late
+      timestamp: payload.timestamp,
+      footer: { text: delayed ? `Delayed delivery | ${payload.footer}` : payload.footer },
+    };
 
-  async notifyObsDisconnect(): Promise<void> {
-    if (!this.discord.events.obsDisconnect) return;
-    await this.send(this.discord.templates.obsDisconnect, 'warn');
-  }
+    if (payload.fields) {
+      embed.fields = payload.fields;
+    }
+    if (payload.url) {
+      embed.url = payload.url;
+    }
+    if (payload.thumbnailUrl) {
+      embed.thumbnail = { url: payload.thumbnailUrl };
+    }
 
-  async notifyObsReconnect(): Promise<void> {
-    if (!this.discord.events.obsReconnect) return;
-    await this.send(this.discord.templates.obsReconnect, 'info');
-  }
+    const body: Record<string, unknown> = { ...this.identity(), embeds: [embed] };
 
-  async notifyStreamDrop(attempt: number, maxAttempts: number): Promise<void> {
-    if (!this.discord.events.streamDrop) return;
-    const content = this.renderTemplate(this.discord.templates.streamDrop, { attempt, maxAttempts });
-    await this.send(content, 'warn');
-  }
+    // Mentions configured for any event in the batch, plus escalation levels
+    const mentions = new Set(payload.messages.flatMap((m) => [
+      ...((m.event && this.discord.mentions[m.event]) || []),
+      ...(m.mentions ?? []),
+    ]));
+    if (mentions.size > 0) {
+      body.content = [...mentions].map(formatMention).join(' ');
+    }
 
-  async notifyStreamRestart(attempts: number): Promise<void> {
-    if (!this.discord.events.streamRestart) return;
-    const content = this.renderTemplate(this.discord.templates.streamRestart, { attempts });
-    await this.send(content, 'info');
+    return body;
   }
 
-  async notifyTwitchMismatch(channel: string): Promise<void> {
-    if (!this.discord.events.twitchMismatch) return;
-    const content = this.renderTemplate(this.discord.templates.twitchMismatch, { channel });
-    await this.send(content, 'warn');
+  /** Optional bot name and avatar for the webhook body. */
+  private identity(): Record<string, string> {
+    const identity: Record<string, string> = {};
+    if (this.discord.botName) {
+      identity.username = this.discord.botName;
+    }
+    if (this.discord.avatarUrl) {
+      identity.avatar_url = this.discord.avatarUrl;
+    }
+    return identity;
   }
+}
 
-  async notifyTwitchRestart(channel: string): Promise<void> {
-    if (!this.discord.events.twitchRestart) return;
-    const content = this.renderTemplate(this.discord.templates.twitchRestart, { channel });
-    await this.send(content, 'info');
-  }
+/** `<webhook>/messages/<id>`, keeping the query (e.g. `thread_id`). */
+function messageUrl(webhookUrl: string, messageId: string): string {
+  const url = new URL(webhookUrl);
+  url.pathname = `${url.pathname.replace(/\/$/, '')}/messages/${messageId}`;
+  return url.toString();
+}
+
+/** Config mention → Discord markup: a bare ID is a role, `user:<id>` a user. */
+function formatMention(mention: string): string {
+  if (mention === 'here' || mention === 'everyone') return `@${mention}`;
+  if (mention.startsWith('user:')) return `<@${mention.slice(5)}>`;
+  return `<@&${mention}>`;
 }
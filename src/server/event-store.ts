@@ -1,20 +1,51 @@
-import { appendFile } from 'fs/promises';
+import { appendFile, readdir, readFile } from 'fs/promises';
 import { mkdirSync, readFileSync, existsSync, readdirSync, statSync, unlinkSync } from 'fs';
 import { join } from 'path';
-import type { EventLogEntry } from './types.js';
+import type { EventLogEntry, EventSeverity, EventType } from './types.js';
 import { logger } from './logger.js';
 
+const SEVERITY_RANK: Record<EventSeverity, number> = { info: 0, warn: 1, error: 2 };
+
 export interface EventStoreOptions {
   dir: string;
   retentionDays?: number;
   filenamePrefix?: string;
 }
 
+export interface EventQuery {
+  /** Inclusive bounds, epoch ms. */
+  from?: number;
+  to?: number;
+  /** Case-insensitive substring match on the message. */
+  q?: string;
+  /** Minimum severity: `warn` returns warnings and errors. */
+  level?: EventSeverity;
+  /** Only these event types; untyped legacy entries never match. */
+  types?: EventType[];
+  limit: number;
+  /** `nextCursor` from the previous page. */
+  cursor?: string;
+}
+
+export interface EventPage {
+  /** Newest-first. */
+  events: EventLogEntry[];
+  /** Pass back as `cursor` for the next (older) page; null on the last page. */
+  nextCursor: string | null;
+}
+
+/** Cursor = `<file date>:<line number>` of the last entry returned. Line
+ *  numbers count from the top of the file, so appends between page requests
+ *  don't shift them. */
+const CURSOR_RE = /^(\d{4}-\d{2}-\d{2}):(\d+)$/;
+
 /** Persists the curated dashboard event log to daily-rotated JSONL files. */
 export class EventStore {
   private readonly dir: string;
-  private readonly retentionDays: number;
+  private retentionDays: number;
   private readonly prefix: string;
+  /** Local date of the last retention sweep; a new day triggers the next one. */
+  private lastCleanupDate: string;
   /** Serializes appends so rapid successive events keep their order on disk. */
   private writeChain: Promise<void> = Promise.resolve();
 
@@ -23,6 +54,13 @@ export class EventStore {
     this.retentionDays = opts.retentionDays ?? 7;
     this.prefix = opts.filenamePrefix ?? 'events-';
     mkdirSync(this.dir, { recursive: true });
+    this.lastCleanupDate = this.dateString(new Date());
+    this.cleanupOldFiles();
+  }
+
+  /** Apply a new retention period (config reload) and prune immediately. */
+  setRetentionDays(days: number): void {
+    this.retentionDays = days;
     this.cleanupOldFiles();
   }
 
@@ -39,7 +77,12 @@ export class EventStore {
    *  (independent appendFile calls can otherwise interleave/reorder). */
   append(entry: EventLogEntry): void {
     const line = JSON.stringify(entry) + '\n';
-    const path = this.fileFor(this.dateString(new Date()));
+    const today = this.dateString(new Date());
+    const path = this.fileFor(today);
+    if (today !== this.lastCleanupDate) {
+      this.lastCleanupDate = today;
+      this.cleanupOldFiles();
+    }
     this.writeChain = this.writeChain
       .then(() => appendFile(path, line, 'utf-8'))
       .catch((err) => logger.warn({ err }, 'Failed to persist event'));
@@ -65,6 +108,63 @@ export class EventStore {
     return entries.slice(-limit);
   }
 
+  /**
+   * Page through every retained file, newest entry first. Files outside the
+   * `from`/`to` date range are never read. Pending appends are flushed first
+   * so a query sees everything logged before it.
+   */
+  async query(query: EventQuery): Promise<EventPage> {
+    await this.writeChain;
+    let cursor: { date: string; line: number } | null = null;
+    if (query.cursor) {
+      const m = query.cursor.match(CURSOR_RE);
+      if (!m) throw new Error(`Invalid cursor: ${query.cursor}`);
+      cursor = { date: m[1], line: Number(m[2]) };
+    }
+    const fromDate = query.from !== undefined ? this.dateString(new Date(query.from)) : null;
+    const toDate = query.to !== undefined ? this.dateString(new Date(query.to)) : null;
+    const needle = query.q?.toLowerCase();
+    const minRank = query.level ? SEVERITY_RANK[query.level] : 0;
+    const types = query.types?.length ? new Set<string>(query.types) : null;
+
+    const dates = (await readdir(this.dir))
+      .filter((f) => f.startsWith(this.prefix) && f.endsWith('.jsonl'))
+      .map((f) => f.slice(this.prefix.length, -'.jsonl'.length))
+      .filter((d) => /^\d{4}-\d{2}-\d{2}$/.test(d))
+      .filter((d) => (!fromDate || d >= fromDate) && (!toDate || d <= toDate))
+      .filter((d) => !cursor || d <= cursor.date)
+      .sort()
+      .reverse();
+
+    const events: EventLogEntry[] = [];
+    let last: string | null = null;
+    for (const date of dates) {
+      let lines: string[];
+      try {
+        lines = (await readFile(this.fileFor(date), 'utf-8')).split('\n');
+      } catch (err) {
+        logger.warn({ err, date }, 'Failed to read event file');
+        continue;
+      }
+      const start = cursor && date === cursor.date ? Math.min(cursor.line, lines.length) - 1 : lines.length - 1;
+      for (let i = start; i >= 0; i--) {
+        if (!lines[i]) continue;
+        let entry: EventLogEntry;
+        try { entry = JSON.parse(lines[i]) as EventLogEntry; } catch { continue; /* skip corrupt line */ }
+        const at = Date.parse(entry.timestamp);
+        if (query.from !== undefined && !(at >= query.from)) continue;
+        if (query.to !== undefined && !(at <= query.to)) continue;
+        if (needle && !entry.message.toLowerCase().includes(needle)) continue;
+        if (SEVERITY_RANK[entry.severity ?? 'info'] < minRank) continue;
+        if (types && !(entry.type && types.has(entry.type))) continue;
+        if (events.length === query.limit) return { events, nextCursor: last };
+        events.push(entry);
+        last = `${date}:${i}`;
+      }
+    }
+    return { events, nextCursor: null };
+  }
+
   private cleanupOldFiles(): void {
     const cutoff = Date.now() - this.retentionDays * 24 * 60 * 60 * 1000;
     let files: string[];
@@ -82,3 +182,19 @@ export class EventStore {
     }
   }
 }
+
+/** RFC 4180 CSV for history downloads; `detail` is JSON-encoded. */
+export function eventsToCsv(events: EventLogEntry[]): string {
+  const cell = (v: string) => /[",\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+  const rows = events.map((e) => [
+    e.timestamp,
+    e.severity ?? 'info',
+    e.type ?? '',
+    e.videoIndex?.toString() ?? '',
+    e.videoId ?? '',
+    e.playlistId ?? '',
+    e.message,
+    e.detail ? JSON.stringify(e.detail) : '',
+  ].map(cell).join(','));
+  return ['timestamp,severity,type,videoIndex,videoId,playlistId,message,detail', ...rows].join('\r\n') + '\r\n';
+}
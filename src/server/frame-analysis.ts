@@ -0,0 +1,167 @@
+import { inflateSync } from 'zlib';
+import type { FrameRegion } from './types.js';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+/** Channels per PNG colour type: grey, RGB, palette, grey+alpha, RGBA. */
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+/** dHash grid: 9×8 cells give 8×8 left/right comparisons = 64 bits. */
+const HASH_COLS = 9;
+const HASH_ROWS = 8;
+
+export interface LumaImage {
+  width: number;
+  height: number;
+  /** Rec. 601 luma per pixel, row-major; transparency composited onto black like OBS does. */
+  luma: Uint8Array;
+}
+
+export interface FrameAnalysis {
+  /** 0 (black) – 255 (white), over the pixels outside the ignored region. */
+  meanLuma: number;
+  lumaStdDev: number;
+  /** 64-bit difference hash; near frames differ in few bits (see hashDistance). */
+  hash: bigint;
+}
+
+/**
+ * Decode a non-interlaced 8-bit PNG (what OBS's GetSourceScreenshot returns)
+ * to luma. Null for anything else, so callers can fall back to comparing the
+ * raw data.
+ */
+export function decodePngLuma(png: Buffer): LumaImage | null {
+  if (png.length < 8 || !png.subarray(0, 8).equals(PNG_SIGNATURE)) return null;
+  let width = 0, height = 0, channels = 0, palette: Buffer | null = null, colorType = -1;
+  const idat: Buffer[] = [];
+  for (let pos = 8; pos + 8 <= png.length;) {
+    const length = png.readUInt32BE(pos);
+    const type = png.toString('latin1', pos + 4, pos + 8);
+    const data = png.subarray(pos + 8, pos + 8 + length);
+    pos += 12 + length;
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      colorType = data[9];
+      channels = PNG_CHANNELS[colorType] ?? 0;
+      if (data[8] !== 8 || data[12] !== 0 || !channels) return null;
+    } else if (type === 'PLTE') {
+      palette = data;
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+  if (!width || !height || (colorType === 3 && !palette)) return null;
+
+  let raw: Buffer;
+  try {
+    raw = inflateSync(Buffer.concat(idat));
+  } catch {
+    return null;
+  }
+  const stride = width * channels;
+  if (raw.length < height * (stride + 1)) return null;
+
+  const pixels = Buffer.alloc(height * stride);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const row = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? pixels[row + x - channels] : 0;
+      const up = y > 0 ? pixels[row - stride + x] : 0;
+      const upLeft = y > 0 && x >= channels ? pixels[row - stride + x - channels] : 0;
+      let predictor: number;
+      switch (filter) {
+        case 0: predictor = 0; break;
+        case 1: predictor = left; break;
+        case 2: predictor = up; break;
+        case 3: predictor = (left + up) >> 1; break;
+        case 4: predictor = paeth(left, up, upLeft); break;
+        default: return null;
+      }
+      pixels[row + x] = (raw[src + x] + predictor) & 0xff;
+    }
+  }
+
+  const luma = new Uint8Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    const p = i * channels;
+    let value: number;
+    let alpha = 255;
+    if (colorType === 0 || colorType === 4) {
+      value = pixels[p];
+      if (colorType === 4) alpha = pixels[p + 1];
+    } else {
+      const rgb = colorType === 3 ? palette!.subarray(pixels[p] * 3, pixels[p] * 3 + 3) : pixels.subarray(p, p + 3);
+      value = (299 * rgb[0] + 587 * rgb[1] + 114 * rgb[2]) / 1000;
+      if (colorType === 6) alpha = pixels[p + 3];
+    }
+    luma[i] = Math.round((value * alpha) / 255);
+  }
+  return { width, height, luma };
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+/**
+ * Mean luma, its spread and a perceptual hash of `image`, leaving out
+ * `ignore` (percentages of the frame, e.g. a clock overlay) so it counts
+ * neither as movement nor as picture.
+ */
+export function analyzeLuma({ width, height, luma }: LumaImage, ignore: FrameRegion | null = null): FrameAnalysis {
+  const ignored = (x: number, y: number) => ignore != null
+    && x * 100 >= ignore.x * width && x * 100 < (ignore.x + ignore.width) * width
+    && y * 100 >= ignore.y * height && y * 100 < (ignore.y + ignore.height) * height;
+
+  const cellSum = new Float64Array(HASH_COLS * HASH_ROWS);
+  const cellCount = new Uint32Array(HASH_COLS * HASH_ROWS);
+  let sum = 0, sumSq = 0, count = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (ignored(x, y)) continue;
+      const v = luma[y * width + x];
+      sum += v;
+      sumSq += v * v;
+      count++;
+      const cell = Math.floor((y * HASH_ROWS) / height) * HASH_COLS + Math.floor((x * HASH_COLS) / width);
+      cellSum[cell] += v;
+      cellCount[cell]++;
+    }
+  }
+  const meanLuma = count ? sum / count : 0;
+  const lumaStdDev = count ? Math.sqrt(Math.max(0, sumSq / count - meanLuma * meanLuma)) : 0;
+
+  // Cells entirely inside the ignored region read as the frame average
+  const cell = (i: number) => (cellCount[i] ? cellSum[i] / cellCount[i] : meanLuma);
+  let hash = 0n;
+  for (let row = 0; row < HASH_ROWS; row++) {
+    for (let col = 0; col < HASH_COLS - 1; col++) {
+      const i = row * HASH_COLS + col;
+      hash = (hash << 1n) | (cell(i) < cell(i + 1) ? 1n : 0n);
+    }
+  }
+  return { meanLuma, lumaStdDev, hash };
+}
+
+/** Decode a base64 PNG (optionally a data: URL) and analyze it; null if it isn't one. */
+export function analyzeFrame(base64: string, ignore: FrameRegion | null = null): FrameAnalysis | null {
+  const image = decodePngLuma(Buffer.from(base64.slice(base64.indexOf(',') + 1), 'base64'));
+  return image && analyzeLuma(image, ignore);
+}
+
+/** Bits that differ between two perceptual hashes (0–64). */
+export function hashDistance(a: bigint, b: bigint): number {
+  let diff = a ^ b;
+  let bits = 0;
+  while (diff) {
+    bits += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return bits;
+}
@@ -1,6 +1,24 @@
+import type { FrameRegion } from './types.js';
+import { analyzeFrame, hashDistance } from './frame-analysis.js';
+
 const FRAME_CHECK_INTERVAL_MS = 10_000;
 const FRAME_CONFIRM_DELAY_MS = 2_000;
 
+/** How screenshots are compared and classified; see DetectorsConfig. */
+export interface FrameAnalysisOptions {
+  /** Perceptual-hash bits two screenshots may differ by and still be the same picture. */
+  hashDistance: number;
+  /** Report black or flat frames via onBlack; otherwise they're just static pictures. */
+  detectBlack: boolean;
+  maxLuma: number;
+  maxStdDev: number;
+  ignoreRegion: FrameRegion | null;
+}
+
+const DEFAULT_ANALYSIS: FrameAnalysisOptions = {
+  hashDistance: 4, detectBlack: false, maxLuma: 16, maxStdDev: 2, ignoreRegion: null,
+};
+
 export interface FrameMonitorOptions {
   /** Returns a base64 image string, or null if capture is unavailable. */
   captureFrame: () => Promise<string | null>;
@@ -8,12 +26,16 @@ export interface FrameMonitorOptions {
   shouldCapture: () => boolean;
   /** Fired once when a freeze is confirmed. */
   onFreeze: () => void;
+  /** Optional: fired once when a black or flat picture is confirmed (needs `detectBlack`). */
+  onBlack?: () => void;
   /** Optional: fired when the static window is reached and confirmation begins. */
   onSuspect?: () => void;
   /** Optional: fired when the confirmation frame differs (false alarm). */
   onFalseAlarm?: () => void;
   /** Live config read each tick: how long static = frozen. */
   getWindowMs: () => number;
+  /** Live config read each tick (defaults to DEFAULT_ANALYSIS). */
+  getAnalysis?: () => FrameAnalysisOptions;
   /** Override poll interval (defaults to FRAME_CHECK_INTERVAL_MS). */
   intervalMs?: number;
   /** Override confirmation delay (defaults to FRAME_CONFIRM_DELAY_MS). */
@@ -30,13 +52,21 @@ function fnv1a(str: string): number {
   return h >>> 0;
 }
 
+interface FrameSample {
+  /** Perceptual hash, or an FNV-1a hash of the raw data if it isn't a PNG we can decode. */
+  hash: bigint;
+  exact: boolean;
+  blank: boolean;
+}
+
 export class FrameMonitor {
   private readonly opts: FrameMonitorOptions;
   private readonly intervalMs: number;
   private readonly confirmDelayMs: number;
   private timer: ReturnType<typeof setInterval> | null = null;
   private confirmTimer: ReturnType<typeof setTimeout> | null = null;
-  private prevHash: number | null = null;
+  /** First frame of the current static (or blank) run. */
+  private baseline: FrameSample | null = null;
   private staticCount = 0;
   private fired = false;
   private confirming = false;
@@ -61,6 +91,24 @@ export class FrameMonitor {
     this.stopped = true;
   }
 
+  private sample(frame: string): FrameSample {
+    const opts = this.opts.getAnalysis?.() ?? DEFAULT_ANALYSIS;
+    const analysis = analyzeFrame(frame, opts.ignoreRegion);
+    if (!analysis) return { hash: BigInt(fnv1a(frame)), exact: true, blank: false };
+    const blank = opts.detectBlack && (analysis.meanLuma <= opts.maxLuma || analysis.lumaStdDev <= opts.maxStdDev);
+    return { hash: analysis.hash, exact: false, blank };
+  }
+
+  /** Whether `sample` keeps the current run going: still blank, or still the same (non-blank) picture. */
+  private continuesRun(sample: FrameSample): boolean {
+    const base = this.baseline;
+    if (!base) return false;
+    if (base.blank || sample.blank) return base.blank && sample.blank;
+    if (base.exact || sample.exact) return base.exact && sample.exact && base.hash === sample.hash;
+    const { hashDistance: maxDistance } = this.opts.getAnalysis?.() ?? DEFAULT_ANALYSIS;
+    return hashDistance(base.hash, sample.hash) <= maxDistance;
+  }
+
   private resetCount(): void {
     this.staticCount = 0;
   }
@@ -68,21 +116,21 @@ export class FrameMonitor {
   private async tick(): Promise<void> {
     if (this.confirming) return;
     if (!this.opts.shouldCapture()) {
-      this.prevHash = null;
+      this.baseline = null;
       this.staticCount = 0;
       this.fired = false;
       return;
     }
     const frame = await this.opts.captureFrame();
     if (frame == null) { this.resetCount(); return; }
-    const hash = fnv1a(frame);
-    if (hash !== this.prevHash) {
-      this.prevHash = hash;
+    const sample = this.sample(frame);
+    if (!this.continuesRun(sample)) {
+      this.baseline = sample;
       this.staticCount = 0; // baseline frame: zero elapsed static time yet
       this.fired = false; // picture moved -> re-arm
       return;
     }
-    // Each identical-to-previous frame == one interval of confirmed-static time.
+    // Each frame matching the baseline == one interval of confirmed-static time.
     this.staticCount++;
     if (!this.fired && this.staticCount * this.intervalMs >= this.opts.getWindowMs()) {
       this.startConfirm();
@@ -98,12 +146,13 @@ export class FrameMonitor {
         const frame = await this.opts.captureFrame();
         if (this.stopped) return; // monitor was stopped while the capture was in flight
         if (frame == null) return; // can't confirm; re-evaluate next tick
-        const hash = fnv1a(frame);
-        if (hash === this.prevHash) {
+        const sample = this.sample(frame);
+        if (this.continuesRun(sample)) {
           this.fired = true;
-          this.opts.onFreeze();
+          if (this.baseline!.blank) this.opts.onBlack?.();
+          else this.opts.onFreeze();
         } else {
-          this.prevHash = hash;
+          this.baseline = sample;
           this.staticCount = 0;
           this.opts.onFalseAlarm?.();
         }
@@ -0,0 +1,148 @@
+import { randomUUID } from 'crypto';
+import { readFileSync, writeFileSync, renameSync } from 'fs';
+import { resolve } from 'path';
+import type { EventLogEntry, Incident, IncidentAction, IncidentRoot } from './types.js';
+import { RecoveryStep } from './types.js';
+import { logger } from './logger.js';
+
+/** Closed incidents kept on disk for GET /api/incidents. */
+const MAX_HISTORY = 100;
+/** Events kept per incident; a long outage keeps its first ones. */
+const MAX_EVENTS = 50;
+/** Actions kept per incident; a long outage keeps its latest ones. */
+const MAX_ACTIONS = 20;
+
+export const INCIDENT_ROOT_LABELS: Record<IncidentRoot, string> = {
+  stall: 'Player stall',
+  videoFreeze: 'Video freeze',
+  outputFreeze: 'Output freeze',
+  blackScreen: 'Black screen',
+  audioSilence: 'Audio silence',
+  playbackQuality: 'Dropped frames / A/V desync',
+  nonPlaying: 'Not playing',
+  heartbeat: 'Heartbeat timeout',
+  urlRetry: 'Premature stream end',
+};
+
+export const INCIDENT_ACTION_LABELS: Record<IncidentAction, string> = {
+  urlRetry: 'URL retry',
+  [RecoveryStep.RetryCurrent]: 'Retry video',
+  [RecoveryStep.ReloadPlaylist]: 'Playlist reload',
+  [RecoveryStep.SkipVideo]: 'Skip video',
+  [RecoveryStep.RestartMpv]: 'mpv restart',
+  [RecoveryStep.ToggleSource]: 'OBS source toggle',
+  [RecoveryStep.RestartStream]: 'Stream restart',
+  [RecoveryStep.RelaunchObs]: 'OBS relaunch',
+  [RecoveryStep.CriticalAlert]: 'Critical alert',
+  fallback: 'Fallback source',
+};
+
+interface PersistedIncidents {
+  active: Incident | null;
+  history: Incident[];
+}
+
+/**
+ * Groups everything that happens between a detector tripping and recovery
+ * resolving into one Incident. RecoveryEngine opens it, attaches each event
+ * it logs and closes it in resetRecovery. Persisted, and shared by engines
+ * recreated on config reload so an incident survives the swap.
+ */
+export class IncidentLog {
+  private filePath: string | null;
+  private active: Incident | null = null;
+  private history: Incident[] = [];
+
+  constructor(filePath?: string) {
+    this.filePath = filePath ? resolve(filePath) : null;
+    this.load();
+  }
+
+  private load() {
+    if (!this.filePath) return;
+    try {
+      const raw = JSON.parse(readFileSync(this.filePath, 'utf-8')) as PersistedIncidents;
+      this.active = raw.active ?? null;
+      this.history = Array.isArray(raw.history) ? raw.history.slice(0, MAX_HISTORY) : [];
+    } catch {
+      // Missing or corrupt file: start empty
+    }
+  }
+
+  /** Id of the open incident, or null. */
+  get activeId(): string | null {
+    return this.active?.id ?? null;
+  }
+
+  getActive(): Incident | null {
+    return this.active ? structuredClone(this.active) : null;
+  }
+
+  /** The open incident (if any) followed by closed ones, newest first. */
+  list(limit = MAX_HISTORY): Incident[] {
+    return [...(this.active ? [this.active] : []), ...this.history].slice(0, limit).map((i) => structuredClone(i));
+  }
+
+  /** Start an incident. A detector tripping while one is open joins it. */
+  open(root: IncidentRoot, message: string, now = Date.now()): Incident {
+    if (!this.active) {
+      this.active = {
+        id: randomUUID(),
+        root,
+        message,
+        startedAt: new Date(now).toISOString(),
+        endedAt: null,
+        durationMs: null,
+        actions: [],
+        resolvedBy: null,
+        events: [],
+        eventCount: 0,
+      };
+      logger.info({ incidentId: this.active.id, root }, 'Incident opened');
+      this.writeToDisk();
+    }
+    return structuredClone(this.active);
+  }
+
+  /** Add an event logged while the incident is open. */
+  attach(entry: EventLogEntry) {
+    if (!this.active) return;
+    this.active.eventCount++;
+    if (this.active.events.length < MAX_EVENTS) this.active.events.push(entry);
+    this.writeToDisk();
+  }
+
+  recordAction(action: IncidentAction) {
+    if (!this.active) return;
+    this.active.actions.push(action);
+    if (this.active.actions.length > MAX_ACTIONS) this.active.actions.shift();
+    this.writeToDisk();
+  }
+
+  /** Playback resumed (or the fallback took over): close the open incident and return it. */
+  close(now = Date.now()): Incident | null {
+    const incident = this.active;
+    if (!incident) return null;
+    incident.endedAt = new Date(now).toISOString();
+    incident.durationMs = Math.max(0, now - Date.parse(incident.startedAt));
+    incident.resolvedBy = incident.actions.filter((a) => a !== RecoveryStep.CriticalAlert).at(-1) ?? null;
+    this.history.unshift(incident);
+    this.history.length = Math.min(this.history.length, MAX_HISTORY);
+    this.active = null;
+    logger.info({ incidentId: incident.id, durationMs: incident.durationMs, resolvedBy: incident.resolvedBy }, 'Incident closed');
+    this.writeToDisk();
+    return structuredClone(incident);
+  }
+
+  private writeToDisk() {
+    if (!this.filePath) return;
+    const tmpPath = this.filePath + '.tmp';
+    const data: PersistedIncidents = { active: this.active, history: this.history };
+    try {
+      writeFileSync(tmpPath, JSON.stringify(data), 'utf-8');
+      renameSync(tmpPath, this.filePath);
+    } catch (err) {
+      logger.error({ err }, 'Failed to write incidents');
+    }
+  }
+}
@@ -12,13 +12,27 @@ import { MpvClient } from './mpv-client.js';
 import { buildMpvArgs } from './mpv-args.js';
 import { PlaylistMetadataCache } from './playlist-metadata.js';
 import { OBSClient } from './obs-client.js';
-import { DiscordNotifier } from './discord.js';
-import { RecoveryEngine } from './recovery.js';
-import { createApiRouter } from './api.js';
+import { createNotifier } from './notification-channels.js';
+import type { NotifierContext } from './notifier.js';
+import { youtubeLinks } from './templates.js';
+import { RecoveryEngine, type RecoveryEngineOptions, type SourceProbe } from './recovery.js';
+import { probeSource } from './source-probe.js';
+import { createApiRouter, buildStatus } from './api.js';
+import { LiveStream } from './live-stream.js';
+import { Metrics } from './metrics.js';
+import { StatsTracker, uptimePercent } from './stats.js';
+import { AlertManager } from './alerts.js';
+import { IncidentLog } from './incidents.js';
+import { RestartBreaker } from './restart-breaker.js';
+import { QualityLadder } from './quality-ladder.js';
 import { Updater } from './updater.js';
 import { TwitchLivenessChecker } from './twitch.js';
 import { EventStore } from './event-store.js';
+import { VideoBlacklist } from './video-blacklist.js';
+import { DiscordOutbox } from './discord-outbox.js';
+import { DiscordStatusMessage } from './discord-status.js';
 import { updateYtdlp } from './ytdlp-updater.js';
+import type { EventOptions, EventType, ObsHealthAlert } from './types.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
@@ -37,6 +51,11 @@ async function main() {
 
   // State
   const state = new StateManager(config.stateFilePath);
+  const blacklist = new VideoBlacklist(resolve(dirname(config.stateFilePath), 'video-blacklist.json'), config.blacklist);
+  const stats = new StatsTracker(resolve(dirname(config.stateFilePath), 'stats.json'));
+  const discordOutbox = new DiscordOutbox(resolve(dirname(config.stateFilePath), 'discord-outbox.json'));
+  const discordStatus = new DiscordStatusMessage(resolve(dirname(config.stateFilePath), 'discord-status.json'));
+  const incidents = new IncidentLog(resolve(dirname(config.stateFilePath), 'incidents.json'));
 
   // Express + HTTP server
   const app = express();
@@ -52,24 +71,28 @@ async function main() {
 
   const server = createServer(app);
 
-  // Resolve binary paths: check project root first (dev), then portable release structure
+  // Resolve binary paths: check project root first (dev), then portable release
+  // structure. Off Windows there's no bundled .exe layout, so fall back to the
+  // bare name and let spawn/execFile find the system mpv/yt-dlp on PATH.
   const projectRoot = resolve(__dirname, '..', '..');
   const installRoot = resolve(projectRoot, '..');
-  const mpvPath = existsSync(resolve(projectRoot, 'mpv', 'mpv.exe'))
-    ? resolve(projectRoot, 'mpv', 'mpv.exe')
-    : resolve(installRoot, 'mpv', 'mpv.exe');
-  const ytdlpPath = existsSync(resolve(projectRoot, 'yt-dlp', 'yt-dlp.exe'))
-    ? resolve(projectRoot, 'yt-dlp', 'yt-dlp.exe')
-    : resolve(installRoot, 'yt-dlp', 'yt-dlp.exe');
+  const resolveBinary = (name: string): string => {
+    const exe = process.platform === 'win32' ? `${name}.exe` : name;
+    const candidates = [resolve(projectRoot, name, exe), resolve(installRoot, name, exe)];
+    const found = candidates.find((p) => existsSync(p));
+    if (found) return found;
+    return process.platform === 'win32' ? candidates[1] : name;
+  };
+  const mpvPath = resolveBinary('mpv');
+  const ytdlpPath = resolveBinary('yt-dlp');
 
   const logsDir = resolve(projectRoot, 'logs');
-  const eventStore = new EventStore({ dir: logsDir });
+  const eventStore = new EventStore({ dir: logsDir, retentionDays: config.eventRetentionDays });
 
   const mpvArgs = buildMpvArgs(config, ytdlpPath);
 
   const mpv = new MpvClient({
     mpvPath,
-    pipePath: '\\\\.\\pipe\\mpv-streamloop',
     logsDir,
     mpvArgs,
   });
@@ -81,24 +104,130 @@ async function main() {
 
   const adminUrl = `http://localhost:${config.port}/admin`;
 
-  // Discord
-  let discord = new DiscordNotifier(config, appVersion, getUptime, adminUrl);
-
-  // Recovery engine
-  let recovery = new RecoveryEngine(config, mpv, state, obs, discord, eventStore);
-  recovery.start();
+  // Alerts: the primary Discord webhook plus any extra notification channels.
+  // The outbox holds undelivered Discord messages across reloads and restarts.
+  // Template variables read whichever recovery engine and OBS client are current.
+  const notifierContext: NotifierContext = {
+    appVersion,
+    getUptime,
+    adminUrl,
+    getTemplateVars: async () => {
+      const current = state.get();
+      const obsState = !obs.isConnected() ? 'disconnected' : await obs.isStreaming() ? 'streaming' : 'connected';
+      return {
+        videoTitle: current.videoTitle,
+        videoId: current.videoId,
+        videoIndex: current.videoIndex,
+        videoUrl: youtubeLinks(current.videoId)?.url ?? '',
+        playlist: recovery.getStatus().playlistName,
+        duration: current.videoDuration,
+        position: current.currentTime,
+        obsState,
+        quality: qualityLadder.steppedDown ? qualityLadder.label : '',
+      };
+    },
+  };
+  let notifier = createNotifier(config, notifierContext, discordOutbox, discordStatus);
+
+  // Restart storms stay paused (and back off) across recovery engine reloads
+  const restartBreaker = new RestartBreaker(config.restartBreaker, () => notifier);
+  // ...and so does the quality rung playback stepped down to
+  const qualityLadder = new QualityLadder(config.qualityLadder, config.mpvYtdlFormat, () => notifier);
+
+  // Recovery engine. The probe re-resolves a failing primary while the
+  // fallback source plays; it reads `config` at call time so reloads apply.
+  const probe: SourceProbe = (entry, itemIndex) => probeSource(ytdlpPath, entry, {
+    itemIndex,
+    cookiesFromBrowser: config.ytdlCookiesFromBrowser,
+    playerClient: config.ytdlPlayerClient,
+  });
+  // Shared by every engine: the breaker and quality ladder keep their state across reloads
+  const engineOptions: RecoveryEngineOptions = { eventStore, probe, blacklist, incidents, breaker: restartBreaker, quality: qualityLadder };
+  let recovery = new RecoveryEngine(config, mpv, state, obs, notifier, engineOptions);
 
   // Twitch liveness checker
-  let twitch = new TwitchLivenessChecker(config, obs, discord);
+  let twitch = new TwitchLivenessChecker(config, obs, notifier);
 
   // Updater
   const updater = new Updater();
 
+  // Live push channel — snapshot providers use getters so reloaded components are always current
+  const liveStream = new LiveStream({
+    status: () => buildStatus({
+      getConfig: () => config,
+      getRecovery: () => recovery,
+      getObs: () => obs,
+      mpv,
+      getTwitch: () => twitch,
+      discordOutbox,
+      alerts,
+      restartBreaker,
+      qualityLadder,
+    }),
+    state: () => state.get(),
+    events: () => recovery.getEvents(),
+    update: () => updater.getStatus(),
+  });
+  const pushStatus = () => void liveStream.push('status');
+
+  // Prometheus counters outlive recovery engines recreated on config reload
+  const metrics = new Metrics();
+
+  // Critical alerts stay open (and escalate) across recovery engine reloads
+  const alerts = new AlertManager(config.escalation, () => notifier);
+
+  const wireRecovery = () => {
+    recovery.on('heartbeat', () => void liveStream.push('status', 'state'));
+    recovery.on('event', (entry) => liveStream.publish('event', entry));
+    recovery.on('recoveryStep', pushStatus);
+    recovery.on('recovery', (reason) => {
+      metrics.recordRecovery(reason);
+      if (reason === 'skip') stats.countSkip();
+    });
+    recovery.on('mpvRestart', () => stats.countMpvRestart());
+    recovery.on('criticalAlert', (message) => alerts.open(message));
+    recovery.on('recoveryResolved', () => alerts.resolve());
+  };
+  wireRecovery();
+  recovery.start();
+
+  // OBS and Twitch events share the recovery engine's log (whichever engine is current)
+  const logEvent = (type: EventType, message: string, opts?: EventOptions) => recovery.addEvent(type, message, opts);
+  twitch.onStatusChange(pushStatus);
+  twitch.onEvent(logEvent);
+  alerts.onEvent(logEvent);
+  alerts.onChange(pushStatus);
+  restartBreaker.onEvent(logEvent);
+  restartBreaker.onChange(pushStatus);
+  qualityLadder.onEvent(logEvent);
+  qualityLadder.onChange(pushStatus);
+  // OBS output health: alert when a condition starts, log when it clears. Only
+  // a dead stream (one OBSClient isn't restarting itself) is critical; skipped
+  // frames and CPU warn, so they neither escalate nor break quiet hours.
+  const onObsHealthAlert = (alert: ObsHealthAlert) => {
+    const dead = alert.active && alert.condition === 'output';
+    if (dead) void notifier.notifyCritical(alert.message);
+    else if (alert.active) void notifier.send(alert.message, 'warn');
+    logEvent('obsHealth', alert.message, {
+      severity: dead ? 'error' : alert.active ? 'warn' : 'info', detail: { condition: alert.condition, ...obs.getHealth() },
+    });
+    pushStatus();
+  };
+  updater.onStatusChange((info) => liveStream.publish('update', info));
+
+  // Daily uptime stats, sampled from whichever components are current
+  stats.onDayComplete((day) => void notifier.notifyDailySummary(day, uptimePercent(day)));
+  stats.start({ getRecovery: () => recovery, getObs: () => obs, getTwitch: () => twitch });
+
   const triggerRestart = async () => {
     logger.info('Restart requested for update');
     updater.stopAutoCheck();
     twitch.stop();
     recovery.stop();
+    alerts.stop();
+    liveStream.close();
+    stats.stop();
+    stats.flush();
     state.flush();
     await mpv.stop();
     obs.disconnect();
@@ -113,14 +242,22 @@ async function main() {
   const reloadConfig = async () => {
     const newConfig = loadConfig();
     config = newConfig;
+    eventStore.setRetentionDays(config.eventRetentionDays);
+    blacklist.setConfig(config.blacklist);
+    alerts.setConfig(config.escalation);
+    restartBreaker.setConfig(config.restartBreaker);
+    qualityLadder.setConfig(config.qualityLadder, config.mpvYtdlFormat);
     // Reconnect OBS if settings changed
     obs.disconnect();
     obs = new OBSClient(config);
-    // Recreate discord notifier before OBS connect so callbacks use the new config
-    discord = new DiscordNotifier(config, appVersion, getUptime, adminUrl);
+    // Recreate notifiers before OBS connect so callbacks use the new config
+    void notifier.close();
+    notifier = createNotifier(config, notifierContext, discordOutbox, discordStatus);
     obs.onConnect(async () => {
       logger.info('OBS reconnected after config change');
-      discord.notifyObsReconnect();
+      notifier.notifyObsReconnect();
+      logEvent('obsConnect', 'OBS reconnected after config change');
+      pushStatus();
       if (config.obsAutoStream) {
         const waitForVideo = setInterval(async () => {
           const status = recovery.getStatus();
@@ -135,27 +272,44 @@ async function main() {
     });
     obs.onDisconnect(() => {
       logger.warn('OBS disconnected');
-      discord.notifyObsDisconnect();
+      notifier.notifyObsDisconnect();
+      logEvent('obsDisconnect', 'OBS disconnected', { severity: 'warn' });
+      pushStatus();
     });
     obs.onStreamDrop((attempt, maxAttempts) => {
-      discord.notifyStreamDrop(attempt, maxAttempts);
+      notifier.notifyStreamDrop(attempt, maxAttempts);
+      if (attempt === 1) stats.countStreamDrop();
+      logEvent('streamDrop', `Stream dropped — restart attempt ${attempt}/${maxAttempts}`, {
+        severity: 'warn', detail: { attempt, maxAttempts },
+      });
+      pushStatus();
     });
     obs.onStreamRestart((attempts) => {
-      discord.notifyStreamRestart(attempts);
+      notifier.notifyStreamRestart(attempts);
+      logEvent('streamRestart', `Stream restarted after ${attempts} attempt(s)`, { detail: { attempts } });
+      pushStatus();
     });
     obs.onStreamRestartFailed(() => {
-      discord.notifyCritical('Stream restart failed after all attempts. Manual intervention required.');
+      notifier.notifyCritical('Stream restart failed after all attempts. Manual intervention required.');
+      logEvent('streamRestartFailed', 'Stream restart failed after all attempts', { severity: 'error' });
     });
+    obs.onHealthAlert(onObsHealthAlert);
+    obs.onAudioLevels((levels) => liveStream.publish('audio', levels));
     await obs.connect();
     // Restart recovery with new config
     recovery.stop();
-    recovery = new RecoveryEngine(config, mpv, state, obs, discord, eventStore);
+    recovery.removeAllListeners();
+    recovery = new RecoveryEngine(config, mpv, state, obs, notifier, engineOptions);
+    wireRecovery();
     recovery.start();
     startStreamMonitor();
     // Restart Twitch liveness checker with new config
     twitch.stop();
-    twitch = new TwitchLivenessChecker(config, obs, discord);
+    twitch = new TwitchLivenessChecker(config, obs, notifier);
+    twitch.onStatusChange(pushStatus);
+    twitch.onEvent(logEvent);
     twitch.start();
+    pushStatus();
     logger.info('Components reloaded with new config');
   };
 
@@ -171,16 +325,43 @@ async function main() {
     updater,
     triggerRestart,
     triggerShutdown: () => shutdown(),
-    getDiscord: () => discord,
+    getNotifier: () => notifier,
+    notifierContext,
     getTwitch: () => twitch,
+    liveStream,
+    eventStore,
+    blacklist,
+    stats,
+    discordOutbox,
+    alerts,
+    incidents,
+    restartBreaker,
+    qualityLadder,
     apiToken,
   });
   app.use('/api', apiRouter);
 
+  // Prometheus scrape endpoint (text exposition format)
+  app.get('/metrics', async (_req, res) => {
+    try {
+      const body = await metrics.render({
+        getRecovery: () => recovery,
+        getObs: () => obs,
+        getTwitch: () => twitch,
+      });
+      res.type('text/plain; version=0.0.4').send(body);
+    } catch (err) {
+      logger.error({ err }, 'Failed to render metrics');
+      res.status(500).send('Failed to render metrics\n');
+    }
+  });
+
   // Connect to OBS
   obs.onConnect(async () => {
     logger.info('OBS connected, checking player status');
-    discord.notifyObsReconnect();
+    notifier.notifyObsReconnect();
+    logEvent('obsConnect', 'OBS connected');
+    pushStatus();
     if (!mpv.isConnected()) {
       logger.warn('Player not connected after OBS reconnect');
     }
@@ -201,21 +382,36 @@ async function main() {
 
   obs.onDisconnect(() => {
     logger.warn('OBS disconnected');
-    discord.notifyObsDisconnect();
+    notifier.notifyObsDisconnect();
+    logEvent('obsDisconnect', 'OBS disconnected', { severity: 'warn' });
+    pushStatus();
   });
 
   obs.onStreamDrop((attempt, maxAttempts) => {
-    discord.notifyStreamDrop(attempt, maxAttempts);
+    notifier.notifyStreamDrop(attempt, maxAttempts);
+    if (attempt === 1) stats.countStreamDrop();
+    logEvent('streamDrop', `Stream dropped — restart attempt ${attempt}/${maxAttempts}`, {
+      severity: 'warn', detail: { attempt, maxAttempts },
+    });
+    pushStatus();
   });
 
   obs.onStreamRestart((attempts) => {
-    discord.notifyStreamRestart(attempts);
+    notifier.notifyStreamRestart(attempts);
+    logEvent('streamRestart', `Stream restarted after ${attempts} attempt(s)`, { detail: { attempts } });
+    pushStatus();
   });
 
   obs.onStreamRestartFailed(() => {
-    discord.notifyCritical('Stream restart failed after all attempts. Manual intervention required.');
+    notifier.notifyCritical('Stream restart failed after all attempts. Manual intervention required.');
+    logEvent('streamRestartFailed', 'Stream restart failed after all attempts', { severity: 'error' });
   });
 
+  obs.onHealthAlert(onObsHealthAlert);
+
+  // Dashboard audio meter, throttled by OBSClient
+  obs.onAudioLevels((levels) => liveStream.publish('audio', levels));
+
   // Stream health monitor — restarts stream if it drops while player is healthy
   const startStreamMonitor = () => {
     obs.startStreamMonitor(() => {
@@ -269,6 +465,10 @@ async function main() {
     updater.stopAutoCheck();
     twitch.stop();
     recovery.stop();
+    alerts.stop();
+    liveStream.close();
+    stats.stop();
+    stats.flush();
     state.flush();
     await mpv.stop();
     obs.disconnect();
@@ -0,0 +1,133 @@
+import type { Request, Response } from 'express';
+import { logger } from './logger.js';
+
+/** Comment line sent to idle clients so proxies and OBS browser sources don't drop the stream. */
+const KEEPALIVE_MS = 15_000;
+/** EventSource reconnect delay advertised to clients after a disconnect. */
+const CLIENT_RETRY_MS = 3_000;
+
+/** Payloads a client can ask for in full; pushed on connect and on change. */
+export interface LiveSnapshots {
+  status: () => Promise<unknown> | unknown;
+  state: () => unknown;
+  events: () => unknown;
+  update: () => unknown;
+}
+
+export type SnapshotType = keyof LiveSnapshots;
+
+/**
+ * Server-Sent Events fan-out for `GET /api/stream`. Snapshot types are
+ * rebuilt from their provider on every `push`, so callers only say *what*
+ * changed; one-off messages (a single new event-log entry) go via `publish`.
+ * Nothing is built while no connected client wants it.
+ */
+export class LiveStream {
+  private readonly snapshots: LiveSnapshots;
+  /** Connected clients and the message types each asked for (null = all). */
+  private readonly clients = new Map<Response, Set<string> | null>();
+  private keepAliveTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(snapshots: LiveSnapshots) {
+    this.snapshots = snapshots;
+  }
+
+  get clientCount(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Register an SSE client. `?types=state,event` limits the stream to those
+   * message types, so single-purpose clients like the overlay only receive
+   * what they render.
+   */
+  async attach(req: Request, res: Response): Promise<void> {
+    const types = typeof req.query.types === 'string'
+      ? new Set(req.query.types.split(',').map((t) => t.trim()).filter(Boolean))
+      : null;
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.write(`retry: ${CLIENT_RETRY_MS}\n\n`);
+
+    this.clients.set(res, types);
+    req.on('close', () => {
+      this.clients.delete(res);
+      if (this.clients.size === 0) this.stopKeepAlive();
+    });
+    this.startKeepAlive();
+
+    // Initial snapshots go to this client only, so a fresh dashboard renders
+    // immediately instead of waiting for the next heartbeat.
+    for (const type of Object.keys(this.snapshots) as SnapshotType[]) {
+      if (types && !types.has(type)) continue;
+      try {
+        this.write(res, type, await this.snapshots[type]());
+      } catch (err) {
+        logger.warn({ err, type }, 'Failed to build initial live snapshot');
+      }
+    }
+  }
+
+  /** Rebuild the given snapshots and broadcast them. */
+  async push(...types: SnapshotType[]): Promise<void> {
+    for (const type of types) {
+      if (!this.wants(type)) continue;
+      try {
+        this.publish(type, await this.snapshots[type]());
+      } catch (err) {
+        logger.warn({ err, type }, 'Failed to build live snapshot');
+      }
+    }
+  }
+
+  /** Broadcast a one-off message to every connected client. */
+  publish(type: string, data: unknown): void {
+    if (!this.wants(type)) return;
+    const frame = LiveStream.frame(type, data);
+    for (const [res, types] of this.clients) {
+      if (!types || types.has(type)) res.write(frame);
+    }
+  }
+
+  /** End every client stream (server shutdown). */
+  close(): void {
+    this.stopKeepAlive();
+    for (const res of this.clients.keys()) res.end();
+    this.clients.clear();
+  }
+
+  /** Whether any connected client would receive this message type. */
+  private wants(type: string): boolean {
+    for (const types of this.clients.values()) {
+      if (!types || types.has(type)) return true;
+    }
+    return false;
+  }
+
+  private write(res: Response, type: string, data: unknown): void {
+    res.write(LiveStream.frame(type, data));
+  }
+
+  private static frame(type: string, data: unknown): string {
+    return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+  }
+
+  private startKeepAlive() {
+    if (this.keepAliveTimer) return;
+    this.keepAliveTimer = setInterval(() => {
+      for (const res of this.clients.keys()) res.write(': keepalive\n\n');
+    }, KEEPALIVE_MS);
+  }
+
+  private stopKeepAlive() {
+    if (this.keepAliveTimer) {
+      clearInterval(this.keepAliveTimer);
+      this.keepAliveTimer = null;
+    }
+  }
+}
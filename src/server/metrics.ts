@@ -0,0 +1,120 @@
+import { freemem, totalmem } from 'os';
+import type { RecoveryReason } from './types.js';
+import type { RecoveryEngine } from './recovery.js';
+import type { OBSClient } from './obs-client.js';
+import type { TwitchLivenessChecker } from './twitch.js';
+
+export const RECOVERY_REASONS: readonly RecoveryReason[] = [
+  'stall', 'videoFreeze', 'outputFreeze', 'blackScreen', 'audioSilence', 'playbackQuality', 'nonPlaying', 'heartbeat', 'urlRetry', 'proactiveRefresh', 'skip',
+];
+
+/** Upper bounds (seconds) of the time-between-recoveries histogram: 1m … 1d. */
+const RECOVERY_INTERVAL_BUCKETS = [60, 300, 900, 1800, 3600, 7200, 21600, 43200, 86400];
+
+export interface MetricsSources {
+  getRecovery: () => RecoveryEngine;
+  getObs: () => OBSClient;
+  getTwitch: () => TwitchLivenessChecker;
+}
+
+/**
+ * Prometheus metrics for `GET /metrics`. Counters live here rather than in
+ * RecoveryEngine so they survive the engine being recreated on config reload
+ * (index.ts feeds `recordRecovery` from the engine's `recovery` event); gauges
+ * are read from the live components at scrape time.
+ */
+export class Metrics {
+  private readonly recoveries = new Map<RecoveryReason, number>(RECOVERY_REASONS.map((r) => [r, 0]));
+  private readonly intervalBuckets = RECOVERY_INTERVAL_BUCKETS.map(() => 0);
+  private intervalSum = 0;
+  private intervalCount = 0;
+  private lastRecoveryAt: number | null = null;
+
+  /**
+   * Count a recovery action. Proactive URL refreshes are planned maintenance,
+   * not failures, so they're counted but don't reset the time-between-recoveries
+   * clock.
+   */
+  recordRecovery(reason: RecoveryReason, at = Date.now()): void {
+    this.recoveries.set(reason, (this.recoveries.get(reason) ?? 0) + 1);
+    if (reason === 'proactiveRefresh') return;
+    if (this.lastRecoveryAt !== null) {
+      const seconds = Math.max(0, (at - this.lastRecoveryAt) / 1000);
+      RECOVERY_INTERVAL_BUCKETS.forEach((le, i) => {
+        if (seconds <= le) this.intervalBuckets[i]++;
+      });
+      this.intervalSum += seconds;
+      this.intervalCount++;
+    }
+    this.lastRecoveryAt = at;
+  }
+
+  /** Render every metric in the Prometheus text exposition format (0.0.4). */
+  async render(sources: MetricsSources): Promise<string> {
+    const status = sources.getRecovery().getStatus();
+    const obs = sources.getObs();
+    const obsConnected = obs.isConnected();
+    const obsStreaming = obsConnected ? await obs.isStreaming() : false;
+    const twitch = sources.getTwitch().getStatus();
+    const stats = status.playbackStats;
+    const lines: string[] = [];
+
+    const metric = (name: string, type: 'counter' | 'gauge' | 'histogram', help: string, samples: [string, number][]) => {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+      for (const [suffix, value] of samples) lines.push(`${name}${suffix} ${formatValue(value)}`);
+    };
+    const gauge = (name: string, help: string, value: number) => metric(name, 'gauge', help, [['', value]]);
+
+    metric('streamloop_recoveries_total', 'counter', 'Recovery actions taken, by what triggered them.',
+      RECOVERY_REASONS.map((r) => [`{reason="${r}"}`, this.recoveries.get(r) ?? 0]));
+
+    const histogram: [string, number][] = RECOVERY_INTERVAL_BUCKETS.map((le, i) => [`_bucket{le="${le}"}`, this.intervalBuckets[i]]);
+    histogram.push(['_bucket{le="+Inf"}', this.intervalCount], ['_sum', this.intervalSum], ['_count', this.intervalCount]);
+    metric('streamloop_time_between_recoveries_seconds', 'histogram',
+      'Healthy playback time between consecutive recoveries (proactive URL refreshes excluded).', histogram);
+
+    gauge('streamloop_recovery_step', 'Position in the recovery ladder being run (1 = first step), 0 when healthy.',
+      status.recoveryLadderStep);
+    gauge('streamloop_consecutive_errors', 'Consecutive mpv playback errors on the current video.', status.consecutiveErrors);
+    gauge('streamloop_heartbeat_age_seconds', 'Seconds since the last successful mpv heartbeat.',
+      Math.max(0, (Date.now() - status.lastHeartbeatAt) / 1000));
+    gauge('streamloop_uptime_seconds', 'Seconds since the recovery engine started.', status.uptimeMs / 1000);
+    gauge('streamloop_mpv_connected', 'Whether the mpv IPC connection is up.', Number(status.mpvConnected));
+
+    // mpv reports -1 for bitrates it can't measure; leave those series out
+    // rather than exporting a misleading zero.
+    if (stats) {
+      gauge('streamloop_video_fps', 'Estimated video output frame rate (mpv estimated-vf-fps).', stats.vfps);
+      if (stats.videoBitrate >= 0) {
+        gauge('streamloop_video_bitrate_bits_per_second', 'Video stream bitrate reported by mpv.', stats.videoBitrate);
+      }
+      if (stats.audioBitrate >= 0) {
+        gauge('streamloop_audio_bitrate_bits_per_second', 'Audio stream bitrate reported by mpv.', stats.audioBitrate);
+      }
+      if (stats.dropPercent !== null) {
+        gauge('streamloop_frame_drop_percent', 'Frames mpv dropped over the last heartbeat, as a percentage of the frames due.', stats.dropPercent);
+      }
+      if (stats.avsyncMs !== null) {
+        gauge('streamloop_avsync_milliseconds', 'Audio/video sync difference reported by mpv.', stats.avsyncMs);
+      }
+    }
+
+    gauge('streamloop_obs_connected', 'Whether the OBS WebSocket connection is up.', Number(obsConnected));
+    gauge('streamloop_obs_streaming', 'Whether OBS reports the stream output as active.', Number(obsStreaming));
+    if (twitch.enabled && twitch.channelLive !== null) {
+      gauge('streamloop_twitch_live', 'Whether the Twitch API reports the channel live.', Number(twitch.channelLive));
+    }
+
+    const total = totalmem();
+    gauge('streamloop_system_memory_total_bytes', 'Total system memory.', total);
+    gauge('streamloop_system_memory_used_bytes', 'System memory in use.', total - freemem());
+
+    return lines.join('\n') + '\n';
+  }
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (!Number.isFinite(value)) return value > 0 ? '+Inf' : '-Inf';
+  return String(value);
+}
@@ -2,6 +2,7 @@ import { EventEmitter } from 'events';
 import net from 'net';
 import { spawn, type ChildProcess } from 'child_process';
 import { mkdirSync, readdirSync, statSync, unlinkSync } from 'fs';
+import { tmpdir } from 'os';
 import { join } from 'path';
 import { logger } from './logger.js';
 
@@ -44,6 +45,23 @@ export function pruneMpvLogs(logsDir: string, retention: number): void {
   }
 }
 
+/**
+ * Default mpv IPC endpoint for a platform. Windows uses a named pipe; everywhere
+ * else mpv's --input-ipc-server takes a Unix domain socket path, which we put
+ * in the per-user runtime dir (XDG_RUNTIME_DIR, e.g. /run/user/1000) when there
+ * is one so the socket isn't world-reachable, falling back to the temp dir
+ * (macOS has no XDG runtime dir). Exported for testing.
+ */
+export function defaultIpcPath(
+  platform: NodeJS.Platform = process.platform,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  if (platform === 'win32') {
+    return '\\\\.\\pipe\\mpv-streamloop';
+  }
+  return join(env.XDG_RUNTIME_DIR || tmpdir(), 'mpv-streamloop.sock');
+}
+
 interface PendingCommand {
   resolve: (value: unknown) => void;
   reject: (reason: Error) => void;
@@ -56,7 +74,8 @@ interface PendingCommand {
  * orphaning those grandchildren — and because they inherit cwd=`app\`, they
  * keep the directory locked, which makes the updater's `rename app _update_old`
  * fail and the whole update swap silently abort. `taskkill /T` walks the tree.
- * Returns null off Windows, where a SIGKILL on the pid is sufficient.
+ * Returns null off Windows, where mpv is spawned as its own process-group
+ * leader and the whole group is signalled instead (see forceKillTree).
  * Exported for testing.
  */
 export function treeKillCommand(
@@ -70,8 +89,8 @@ export function treeKillCommand(
 }
 
 /**
- * MpvClient spawns mpv as a child process and communicates via
- * Windows named pipe IPC using mpv's JSON IPC protocol.
+ * MpvClient spawns mpv as a child process and communicates via mpv's JSON IPC
+ * protocol — over a named pipe on Windows, a Unix domain socket elsewhere.
  *
  * Events emitted:
  *  - connected
@@ -104,8 +123,8 @@ export class MpvClient extends EventEmitter {
 
   constructor(options: MpvClientOptions = {}) {
     super();
-    this.mpvPath = options.mpvPath ?? 'mpv.exe';
-    this.pipePath = options.pipePath ?? '\\\\.\\pipe\\mpv-streamloop';
+    this.mpvPath = options.mpvPath ?? (process.platform === 'win32' ? 'mpv.exe' : 'mpv');
+    this.pipePath = options.pipePath ?? defaultIpcPath();
     this.extraArgs = options.mpvArgs ?? [];
     this.shouldSpawn = options.spawn ?? true;
     this.logsDir = options.logsDir ?? null;
@@ -301,6 +320,10 @@ export class MpvClient extends EventEmitter {
     this.process = spawn(this.mpvPath, args, {
       stdio: ['ignore', 'pipe', 'pipe'],
       windowsHide: false,
+      // Off Windows, make mpv a process-group leader so shutdown can signal
+      // the whole group (mpv -> yt-dlp -> node) in one go. On Windows
+      // `detached` would open a new console instead; taskkill /T handles it.
+      detached: process.platform !== 'win32',
     });
 
     this.process.on('error', (err) => {
@@ -376,7 +399,9 @@ export class MpvClient extends EventEmitter {
   }
 
   /** Terminate mpv and all descendant processes. On Windows that means
-   *  `taskkill /T`; elsewhere a SIGKILL on the pid. Best-effort. */
+   *  `taskkill /T`; elsewhere a SIGKILL to mpv's process group (negative pid),
+   *  which it leads because it was spawned detached. Falls back to signalling
+   *  the pid alone. Best-effort. */
   private forceKillTree(proc: ChildProcess): void {
     const pid = proc.pid;
     const tk = pid != null ? treeKillCommand(pid) : null;
@@ -387,6 +412,13 @@ export class MpvClient extends EventEmitter {
       } catch (err) {
         logger.warn({ err, pid }, 'taskkill tree-kill failed, falling back to signal');
       }
+    } else if (pid != null && process.platform !== 'win32') {
+      try {
+        process.kill(-pid, 'SIGKILL');
+        return;
+      } catch (err) {
+        logger.warn({ err, pid }, 'Process-group kill failed, falling back to signal');
+      }
     }
     try { proc.kill('SIGKILL'); } catch { /* ignore */ }
   }
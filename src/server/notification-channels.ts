@@ -0,0 +1,187 @@
+import type { AppConfig, NotificationChannelConfig } from './types.js';
+import { ChannelNotifier, NotifierHub, type NotifierContext, type NotifyLevel, type NotifyPayload } from './notifier.js';
+import { DiscordNotifier } from './discord.js';
+import type { DiscordOutbox } from './discord-outbox.js';
+import type { DiscordStatusMessage } from './discord-status.js';
+
+const TELEGRAM_API = 'https://api.telegram.org';
+
+/** Base for the non-Discord backends: all POST once per batch and reject on non-2xx replies. */
+abstract class HttpChannelNotifier extends ChannelNotifier {
+  protected channel: NotificationChannelConfig;
+
+  constructor(channel: NotificationChannelConfig, context: NotifierContext) {
+    super(channel, context);
+    this.channel = channel;
+  }
+
+  protected get enabled(): boolean {
+    return this.channel.enabled && this.channel.url.length > 0;
+  }
+
+  protected get label(): string {
+    return this.channel.name ? `${this.channel.type} (${this.channel.name})` : this.channel.type;
+  }
+
+  protected async post(url: string, body: string, headers: Record<string, string>): Promise<void> {
+    const res = await fetch(url, { method: 'POST', headers, body });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  }
+
+  protected postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<void> {
+    return this.post(url, JSON.stringify(body), { 'Content-Type': 'application/json', ...headers });
+  }
+}
+
+/** Slack incoming webhook, as a legacy attachment so the level colour shows. */
+export class SlackNotifier extends HttpChannelNotifier {
+  private static readonly COLORS: Record<NotifyLevel, string> = { info: '#3498db', warn: '#ffff00', error: '#e74c3c' };
+
+  protected async deliver(payload: NotifyPayload): Promise<void> {
+    const text = toSlackMarkdown(payload.description);
+    await this.postJson(this.channel.url, {
+      text: `${payload.title}: ${text}`,
+      attachments: [{
+        color: SlackNotifier.COLORS[payload.level],
+        title: payload.title,
+        title_link: payload.url,
+        thumb_url: payload.thumbnailUrl,
+        text,
+        fields: payload.fields?.map((f) => ({ title: f.name, value: toSlackMarkdown(f.value), short: f.inline ?? false })),
+        footer: payload.footer,
+        ts: Math.floor(Date.parse(payload.timestamp) / 1000),
+      }],
+    });
+  }
+}
+
+/** Telegram Bot API `sendMessage`, rendered as HTML. */
+export class TelegramNotifier extends HttpChannelNotifier {
+  protected get enabled(): boolean {
+    return this.channel.enabled && this.channel.token.length > 0 && this.channel.chatId.length > 0;
+  }
+
+  protected async deliver(payload: NotifyPayload): Promise<void> {
+    const lines = [`<b>${escapeHtml(payload.title)}</b>`, toTelegramHtml(payload.description)];
+    if (payload.fields?.length) {
+      lines.push('', ...payload.fields.map((f) => `<b>${escapeHtml(f.name)}:</b> ${toTelegramHtml(f.value)}`));
+    }
+    lines.push('', `<i>${escapeHtml(payload.footer)}</i>`);
+    const base = (this.channel.url || TELEGRAM_API).replace(/\/+$/, '');
+    await this.postJson(`${base}/bot${this.channel.token}/sendMessage`, {
+      chat_id: this.channel.chatId,
+      text: lines.join('\n'),
+      parse_mode: 'HTML',
+      disable_web_page_preview: true,
+    });
+  }
+}
+
+/** ntfy topic publish: plain-body POST with metadata in headers. */
+export class NtfyNotifier extends HttpChannelNotifier {
+  private static readonly PRIORITY: Record<NotifyLevel, string> = { info: '3', warn: '4', error: '5' };
+  private static readonly TAGS: Record<NotifyLevel, string> = { info: 'information_source', warn: 'warning', error: 'rotating_light' };
+
+  protected async deliver(payload: NotifyPayload): Promise<void> {
+    const headers: Record<string, string> = {
+      // Header values must be ASCII; the level is carried by the tag emoji instead.
+      Title: 'StreamLoop',
+      Priority: NtfyNotifier.PRIORITY[payload.level],
+      Tags: NtfyNotifier.TAGS[payload.level],
+      Markdown: 'yes',
+    };
+    if (this.channel.token) headers.Authorization = `Bearer ${this.channel.token}`;
+    await this.post(this.channel.url, plainMarkdownBody(payload), headers);
+  }
+}
+
+/** Gotify `POST /message` with an application token. */
+export class GotifyNotifier extends HttpChannelNotifier {
+  private static readonly PRIORITY: Record<NotifyLevel, number> = { info: 2, warn: 5, error: 8 };
+
+  protected get enabled(): boolean {
+    return super.enabled && this.channel.token.length > 0;
+  }
+
+  protected async deliver(payload: NotifyPayload): Promise<void> {
+    await this.postJson(`${this.channel.url.replace(/\/+$/, '')}/message`, {
+      title: payload.title,
+      message: plainMarkdownBody(payload),
+      priority: GotifyNotifier.PRIORITY[payload.level],
+      extras: { 'client::display': { contentType: 'text/markdown' } },
+    }, { 'X-Gotify-Key': this.channel.token });
+  }
+}
+
+/** Generic JSON POST of the merged payload, for custom integrations. */
+export class JsonWebhookNotifier extends HttpChannelNotifier {
+  protected async deliver(payload: NotifyPayload): Promise<void> {
+    const headers: Record<string, string> = {};
+    if (this.channel.token) headers.Authorization = `Bearer ${this.channel.token}`;
+    await this.postJson(this.channel.url, { source: 'streamloop', ...payload }, headers);
+  }
+}
+
+/** Build the notifier for one `config.notifications` entry. */
+export function createChannelNotifier(channel: NotificationChannelConfig, config: AppConfig, context: NotifierContext): ChannelNotifier {
+  switch (channel.type) {
+    case 'discord':
+      return new DiscordNotifier(config, context, {
+        webhookUrl: channel.enabled ? channel.url : '',
+        botName: '',
+        avatarUrl: '',
+        events: channel.events,
+        templates: channel.templates,
+        mentions: {},
+        routes: [],
+        quietHours: { enabled: false, start: '00:00', end: '00:00', days: [] },
+        embeds: {},
+        statusMessage: { enabled: false, updateIntervalMs: 60_000 },
+      });
+    case 'slack': return new SlackNotifier(channel, context);
+    case 'telegram': return new TelegramNotifier(channel, context);
+    case 'ntfy': return new NtfyNotifier(channel, context);
+    case 'gotify': return new GotifyNotifier(channel, context);
+    case 'webhook': return new JsonWebhookNotifier(channel, context);
+  }
+}
+
+/** The primary Discord webhook plus every configured extra channel. */
+export function createNotifier(
+  config: AppConfig,
+  context: NotifierContext,
+  outbox?: DiscordOutbox,
+  status?: DiscordStatusMessage,
+): NotifierHub {
+  return new NotifierHub(
+    new DiscordNotifier(config, context, config.discord, outbox, status),
+    config.notifications.map((channel) => createChannelNotifier(channel, config, context)),
+  );
+}
+
+// --- Formatting: templates are written in Discord markdown ---
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/** Slack mrkdwn bolds with single asterisks. */
+function toSlackMarkdown(text: string): string {
+  return text.replace(/\*\*(.+?)\*\*/g, '*$1*');
+}
+
+function toTelegramHtml(text: string): string {
+  return escapeHtml(text)
+    .replace(/\*\*(.+?)\*\*/g, '<b>$1</b>')
+    .replace(/`([^`]+)`/g, '<code>$1</code>');
+}
+
+/** Description, fields and footer as one markdown body (ntfy, Gotify). */
+function plainMarkdownBody(payload: NotifyPayload): string {
+  const parts = [payload.description];
+  if (payload.fields?.length) {
+    parts.push(payload.fields.map((f) => `**${f.name}:** ${f.value}`).join('\n'));
+  }
+  parts.push(`_${payload.footer}_`);
+  return parts.join('\n\n');
+}
@@ -0,0 +1,470 @@
+import { freemem, totalmem } from 'os';
+import type { DailyStats, DiscordEmbedConfig, DiscordEventKey, DiscordEventToggles, DiscordTemplates, Incident } from './types.js';
+import { logger } from './logger.js';
+import { DEFAULT_DISCORD_EMBEDS } from './config.js';
+import { classifyError, formatDuration, renderTemplate, youtubeLinks, type TemplateVars } from './templates.js';
+import { INCIDENT_ACTION_LABELS, INCIDENT_ROOT_LABELS } from './incidents.js';
+
+export type NotifyLevel = 'info' | 'warn' | 'error';
+const LEVEL_PRIORITY: Record<NotifyLevel, number> = { info: 0, warn: 1, error: 2 };
+const DEBOUNCE_MS = 5_000;
+
+export const LEVEL_EMOJI: Record<NotifyLevel, string> = { info: 'ℹ️', warn: '⚠️', error: '🚨' };
+
+export const EVENT_LEVELS: Record<DiscordEventKey, NotifyLevel> = {
+  error: 'warn',
+  skip: 'warn',
+  recovery: 'warn',
+  critical: 'error',
+  escalation: 'error',
+  incident: 'info',
+  resume: 'info',
+  obsDisconnect: 'warn',
+  obsReconnect: 'info',
+  streamDrop: 'warn',
+  streamRestart: 'info',
+  twitchMismatch: 'warn',
+  twitchRestart: 'info',
+  scheduleSwitch: 'info',
+  fallbackActivate: 'warn',
+  fallbackRestore: 'info',
+  dailySummary: 'info',
+};
+
+export interface NotifyField {
+  name: string;
+  value: string;
+  inline?: boolean;
+}
+
+export interface NotifyMessage {
+  content: string;
+  level: NotifyLevel;
+  fields?: NotifyField[];
+  /** Which notify* produced it; unset for ad-hoc `send` calls (e.g. test messages). */
+  event?: DiscordEventKey;
+  /** Mentions on top of the event's configured ones (escalation levels). Discord only. */
+  mentions?: string[];
+  /** The event's video, when its embed config asks for a link / thumbnail. */
+  url?: string;
+  thumbnailUrl?: string;
+}
+
+/** One flushed batch, already merged, for a backend to format and deliver. */
+export interface NotifyPayload {
+  /** e.g. "⚠️ StreamLoop", by the highest level in the batch. */
+  title: string;
+  /** Message text, in the templates' Discord-flavoured markdown. */
+  description: string;
+  level: NotifyLevel;
+  /** Structured fields; only set when the batch is a single message that has them. */
+  fields?: NotifyField[];
+  /** Video link and thumbnail, likewise single-message only. */
+  url?: string;
+  thumbnailUrl?: string;
+  footer: string;
+  timestamp: string;
+  messages: NotifyMessage[];
+}
+
+/** Outcome of a test message; `disabled` when the channel is switched off or missing its destination. */
+export type TestDelivery = { ok: true } | { ok: false; error: string; disabled?: boolean };
+
+/** Per-channel event toggles and message templates. */
+export interface ChannelSettings {
+  events: DiscordEventToggles;
+  templates: DiscordTemplates;
+  /** Per-event embed extras; unset (non-Discord channels) means `DEFAULT_DISCORD_EMBEDS`. */
+  embeds?: Partial<Record<DiscordEventKey, DiscordEmbedConfig>>;
+}
+
+/** Identity shown in every channel's footer, plus the state every template can use. */
+export interface NotifierContext {
+  appVersion: string;
+  getUptime: () => number;
+  adminUrl: string;
+  /** Current video, playlist and OBS state (`COMMON_TEMPLATE_VARIABLES`). */
+  getTemplateVars?: () => Promise<TemplateVars>;
+}
+
+/** Alerting surface used by RecoveryEngine, TwitchLivenessChecker and the OBS callbacks in index.ts. */
+export interface Notifier {
+  send(content: string, level?: NotifyLevel, fields?: NotifyField[]): Promise<void>;
+  flush(): Promise<void>;
+  notifyError(videoIndex: number, videoId: string, reason: string, attempt: number): Promise<void>;
+  notifySkip(videoIndex: number, videoId: string, reason: string): Promise<void>;
+  notifyRecovery(step: string): Promise<void>;
+  notifyCritical(message: string): Promise<void>;
+  notifyEscalation(message: string, openForMs: number, count: number, mentions: string[]): Promise<void>;
+  notifyIncident(incident: Incident): Promise<void>;
+  notifyResume(videoIndex: number, videoId: string): Promise<void>;
+  notifyObsDisconnect(): Promise<void>;
+  notifyObsReconnect(): Promise<void>;
+  notifyStreamDrop(attempt: number, maxAttempts: number): Promise<void>;
+  notifyStreamRestart(attempts: number): Promise<void>;
+  notifyTwitchMismatch(channel: string): Promise<void>;
+  notifyTwitchRestart(channel: string): Promise<void>;
+  notifyScheduleSwitch(playlist: string, previous: string): Promise<void>;
+  notifyFallbackActivate(playlist: string, fallback: string, reason: string): Promise<void>;
+  notifyFallbackRestore(playlist: string, fallback: string): Promise<void>;
+  notifyDailySummary(day: DailyStats, uptimePercent: number): Promise<void>;
+}
+
+/**
+ * One configured alert destination. Owns the per-event toggles, template
+ * rendering and the debounce/batching window; subclasses only turn a merged
+ * payload into their service's HTTP request.
+ */
+export abstract class ChannelNotifier implements Notifier {
+  protected settings: ChannelSettings;
+  protected context: NotifierContext;
+  private queue: NotifyMessage[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(settings: ChannelSettings, context: NotifierContext) {
+    this.settings = settings;
+    this.context = context;
+  }
+
+  /** False when the channel has no destination configured; sends become no-ops. */
+  protected abstract get enabled(): boolean;
+
+  /** Label for logs, e.g. "Slack (ops)". */
+  protected abstract get label(): string;
+
+  /** Deliver one merged batch, rejecting when it wasn't delivered; `flush` logs the error. */
+  protected abstract deliver(payload: NotifyPayload): Promise<void>;
+
+  renderTemplate(template: string, vars: TemplateVars): string {
+    return renderTemplate(template, vars);
+  }
+
+  protected formatUptime(ms: number): string {
+    return formatDuration(ms);
+  }
+
+  private getMemoryField(): NotifyField {
+    const totalBytes = totalmem();
+    const freeBytes = freemem();
+    const usedGB = ((totalBytes - freeBytes) / 1073741824).toFixed(1);
+    const totalGB = (totalBytes / 1073741824).toFixed(1);
+    const usedPercent = Math.round(((totalBytes - freeBytes) / totalBytes) * 100);
+    return { name: 'RAM', value: `${usedGB}/${totalGB} GB (${usedPercent}%)`, inline: true };
+  }
+
+  protected makeFooterText(extraText?: string): string {
+    const parts: string[] = [];
+    if (this.context.adminUrl) parts.push(`Dashboard: ${this.context.adminUrl}`);
+    parts.push(`Uptime: ${this.formatUptime(this.context.getUptime())}`);
+    parts.push(`v${this.context.appVersion}`);
+    const footer = parts.join(' | ');
+    return extraText ? `${extraText} | ${footer}` : footer;
+  }
+
+  async send(content: string, level: NotifyLevel = 'info', fields?: NotifyField[]): Promise<void> {
+    await this.enqueue({ content, level, fields });
+  }
+
+  /**
+   * Deliver `content` right away for the dashboard's test button, skipping
+   * the batching window and reporting whether it actually went out.
+   */
+  async sendTest(content: string): Promise<TestDelivery> {
+    if (!this.enabled) return { ok: false, error: `${this.label} is disabled or incomplete`, disabled: true };
+    try {
+      await this.deliver(this.buildPayload([{ content, level: 'info' }]));
+      return { ok: true };
+    } catch (err) {
+      return { ok: false, error: err instanceof Error ? err.message : String(err) };
+    }
+  }
+
+  /** Queue the output of one notify* method, if its event is switched on for this channel. */
+  protected async emit(event: DiscordEventKey, vars: TemplateVars, fields?: NotifyField[], mentions?: string[]): Promise<void> {
+    if (!this.settings.events[event]) return;
+    await this.enqueue(await this.renderMessage(event, vars, fields, mentions));
+  }
+
+  /**
+   * Render one event: its template over the common variables plus `vars`,
+   * the built-in `fields` (plus the quality rung while stepped down) followed
+   * by the configured embed fields, and the video's link and thumbnail when
+   * the embed config asks for them.
+   */
+  protected async renderMessage(
+    event: DiscordEventKey, vars: TemplateVars, fields: NotifyField[] = [], mentions?: string[],
+  ): Promise<NotifyMessage> {
+    let common: TemplateVars = {};
+    try {
+      common = (await this.context.getTemplateVars?.()) ?? {};
+    } catch (err) {
+      logger.debug({ err }, 'Template variables unavailable');
+    }
+    const merged: TemplateVars = {
+      uptime: this.formatUptime(this.context.getUptime()),
+      errorClass: '',
+      ...common,
+      ...vars,
+    };
+    const embed = this.settings.embeds?.[event] ?? DEFAULT_DISCORD_EMBEDS[event];
+    const extraFields = (embed?.fields ?? []).map((f) => ({
+      name: renderTemplate(f.name, merged),
+      value: renderTemplate(f.value, merged),
+      inline: f.inline,
+    })).filter((f) => f.name.trim() && f.value.trim());
+    const links = youtubeLinks(String(merged.videoId ?? ''));
+    // While the quality ladder has stepped playback down, every alert says so
+    const quality = String(merged.quality ?? '');
+    const qualityField: NotifyField[] = quality ? [{ name: 'Quality', value: quality, inline: true }] : [];
+    const allFields = [...fields, ...qualityField, ...extraFields];
+    return {
+      content: renderTemplate(this.settings.templates[event], merged),
+      level: EVENT_LEVELS[event],
+      fields: allFields.length > 0 ? allFields : undefined,
+      event,
+      mentions,
+      url: embed?.link ? links?.url : undefined,
+      thumbnailUrl: embed?.thumbnail ? links?.thumbnailUrl : undefined,
+    };
+  }
+
+  /** Last-chance filter before a message is queued (e.g. Discord quiet hours). */
+  protected accepts(_message: NotifyMessage): boolean {
+    return true;
+  }
+
+  private async enqueue(message: NotifyMessage): Promise<void> {
+    if (!this.enabled || !this.accepts(message)) return;
+
+    this.queue.push(message);
+
+    // Critical messages flush immediately
+    if (message.level === 'error') {
+      await this.flush();
+      return;
+    }
+
+    // Start debounce timer if not already running
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), DEBOUNCE_MS);
+    }
+  }
+
+  /** Send anything still batched and stop background work; used when the notifier is replaced. */
+  async close(): Promise<void> {
+    await this.flush();
+  }
+
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    if (this.queue.length === 0) return;
+
+    const messages = this.queue.splice(0);
+    try {
+      await this.deliver(this.buildPayload(messages));
+    } catch (err) {
+      logger.error({ err, channel: this.label }, 'Notification delivery error');
+    }
+  }
+
+  /** Merge queued messages into one payload: highest level wins, structured fields only when unbatched. */
+  protected buildPayload(messages: NotifyMessage[]): NotifyPayload {
+    const level = messages.reduce<NotifyLevel>(
+      (max, m) => LEVEL_PRIORITY[m.level] > LEVEL_PRIORITY[max] ? m.level : max,
+      'info',
+    );
+
+    const isBatched = messages.length > 1;
+    const description = messages.map(m => {
+      const prefix = isBatched ? `${LEVEL_EMOJI[m.level]} ` : '';
+      return prefix + m.content;
+    }).join('\n\n');
+
+    return {
+      title: `${LEVEL_EMOJI[level]} StreamLoop`,
+      description,
+      level,
+      // Use structured fields only for single messages that have them
+      fields: !isBatched && messages[0].fields ? messages[0].fields : undefined,
+      url: isBatched ? undefined : messages[0].url,
+      thumbnailUrl: isBatched ? undefined : messages[0].thumbnailUrl,
+      footer: this.makeFooterText(isBatched ? `${messages.length} events` : undefined),
+      timestamp: new Date().toISOString(),
+      messages,
+    };
+  }
+
+  async notifyError(videoIndex: number, videoId: string, reason: string, attempt: number): Promise<void> {
+    const fields: NotifyField[] = [
+      { name: 'Reason', value: reason, inline: true },
+      { name: 'Video', value: `#${videoIndex} (\`${videoId}\`)`, inline: true },
+      { name: 'Attempt', value: String(attempt), inline: true },
+    ];
+    // `errorCode` kept as a template var name for backwards compatibility
+    // with existing user templates; it now carries mpv's error string.
+    await this.emit('error', { videoIndex, videoId, errorCode: reason, errorClass: classifyError(reason), attempt }, fields);
+  }
+
+  async notifySkip(videoIndex: number, videoId: string, reason: string): Promise<void> {
+    await this.emit('skip', { videoIndex, videoId, reason, errorClass: classifyError(reason) });
+  }
+
+  async notifyRecovery(step: string): Promise<void> {
+    await this.emit('recovery', { step }, [this.getMemoryField()]);
+  }
+
+  async notifyCritical(message: string): Promise<void> {
+    const fields: NotifyField[] = [
+      { name: 'Status', value: message, inline: false },
+      this.getMemoryField(),
+    ];
+    await this.emit('critical', { message }, fields);
+  }
+
+  /** Reminder for a critical alert still open after `openForMs`; `count` starts at 1. */
+  async notifyEscalation(message: string, openForMs: number, count: number, mentions: string[]): Promise<void> {
+    const openFor = this.formatUptime(openForMs);
+    const fields: NotifyField[] = [
+      { name: 'Status', value: message, inline: false },
+      { name: 'Open for', value: openFor, inline: true },
+      { name: 'Reminder', value: String(count), inline: true },
+    ];
+    await this.emit('escalation', { message, openFor, count }, fields, mentions);
+  }
+
+  /** Summary of a closed incident: what tripped, how long it lasted and what fixed it. */
+  async notifyIncident(incident: Incident): Promise<void> {
+    const vars = {
+      root: INCIDENT_ROOT_LABELS[incident.root],
+      lasted: this.formatUptime(incident.durationMs ?? 0),
+      resolvedBy: incident.resolvedBy ? INCIDENT_ACTION_LABELS[incident.resolvedBy] : 'no action',
+      actions: incident.actions.map((a) => INCIDENT_ACTION_LABELS[a]).join(' → ') || 'none',
+      events: incident.eventCount,
+      message: incident.message,
+    };
+    const fields: NotifyField[] = [
+      { name: 'Root cause', value: vars.root, inline: true },
+      { name: 'Lasted', value: vars.lasted, inline: true },
+      { name: 'Fixed by', value: vars.resolvedBy, inline: true },
+      { name: 'Actions', value: vars.actions, inline: false },
+    ];
+    await this.emit('incident', vars, fields);
+  }
+
+  async notifyResume(videoIndex: number, videoId: string): Promise<void> {
+    await this.emit('resume', { videoIndex, videoId });
+  }
+
+  async notifyObsDisconnect(): Promise<void> {
+    await this.emit('obsDisconnect', {});
+  }
+
+  async notifyObsReconnect(): Promise<void> {
+    await this.emit('obsReconnect', {});
+  }
+
+  async notifyStreamDrop(attempt: number, maxAttempts: number): Promise<void> {
+    await this.emit('streamDrop', { attempt, maxAttempts });
+  }
+
+  async notifyStreamRestart(attempts: number): Promise<void> {
+    await this.emit('streamRestart', { attempts });
+  }
+
+  async notifyTwitchMismatch(channel: string): Promise<void> {
+    await this.emit('twitchMismatch', { channel });
+  }
+
+  async notifyTwitchRestart(channel: string): Promise<void> {
+    await this.emit('twitchRestart', { channel });
+  }
+
+  async notifyScheduleSwitch(playlist: string, previous: string): Promise<void> {
+    await this.emit('scheduleSwitch', { playlist, previous });
+  }
+
+  async notifyFallbackActivate(playlist: string, fallback: string, reason: string): Promise<void> {
+    await this.emit('fallbackActivate', { playlist, fallback, reason });
+  }
+
+  async notifyFallbackRestore(playlist: string, fallback: string): Promise<void> {
+    await this.emit('fallbackRestore', { playlist, fallback });
+  }
+
+  /** Previous day's uptime report; `uptimePercent` comes from stats.ts. */
+  async notifyDailySummary(day: DailyStats, uptimePercent: number): Promise<void> {
+    const recoveryMs = Object.values(day.recoveryMs).reduce((sum, ms) => sum + ms, 0);
+    const vars = {
+      date: day.date,
+      uptime: `${uptimePercent}%`,
+      playing: this.formatUptime(day.playingMs),
+      recovery: this.formatUptime(recoveryMs),
+      skips: day.skips,
+      restarts: day.mpvRestarts,
+      streamDown: this.formatUptime(day.obsStreamDownMs),
+      twitchOffline: this.formatUptime(day.twitchOfflineMs),
+    };
+    const fields: NotifyField[] = [
+      { name: 'Uptime', value: vars.uptime, inline: true },
+      { name: 'Playing', value: vars.playing, inline: true },
+      { name: 'In recovery', value: vars.recovery, inline: true },
+      { name: 'Skipped videos', value: String(day.skips), inline: true },
+      { name: 'mpv restarts', value: String(day.mpvRestarts), inline: true },
+      { name: 'Stream drops', value: String(day.streamDrops), inline: true },
+      { name: 'OBS stream down', value: vars.streamDown, inline: true },
+      { name: 'Twitch offline', value: vars.twitchOffline, inline: true },
+    ];
+    await this.emit('dailySummary', vars, fields);
+  }
+}
+
+/**
+ * Fans every notification out to the primary Discord webhook plus each
+ * channel in `config.notifications`. Channels filter by their own toggles.
+ */
+export class NotifierHub implements Notifier {
+  /** The `discord` config block's webhook. */
+  readonly primary: ChannelNotifier;
+  /** One per `config.notifications` entry, in the same order. */
+  readonly channels: ChannelNotifier[];
+
+  constructor(primary: ChannelNotifier, channels: ChannelNotifier[] = []) {
+    this.primary = primary;
+    this.channels = channels;
+  }
+
+  private async all(fn: (n: ChannelNotifier) => Promise<void>): Promise<void> {
+    await Promise.all([this.primary, ...this.channels].map(fn));
+  }
+
+  send(content: string, level?: NotifyLevel, fields?: NotifyField[]) { return this.all((n) => n.send(content, level, fields)); }
+  flush() { return this.all((n) => n.flush()); }
+  close() { return this.all((n) => n.close()); }
+  notifyError(videoIndex: number, videoId: string, reason: string, attempt: number) {
+    return this.all((n) => n.notifyError(videoIndex, videoId, reason, attempt));
+  }
+  notifySkip(videoIndex: number, videoId: string, reason: string) { return this.all((n) => n.notifySkip(videoIndex, videoId, reason)); }
+  notifyRecovery(step: string) { return this.all((n) => n.notifyRecovery(step)); }
+  notifyCritical(message: string) { return this.all((n) => n.notifyCritical(message)); }
+  notifyEscalation(message: string, openForMs: number, count: number, mentions: string[]) {
+    return this.all((n) => n.notifyEscalation(message, openForMs, count, mentions));
+  }
+  notifyIncident(incident: Incident) { return this.all((n) => n.notifyIncident(incident)); }
+  notifyResume(videoIndex: number, videoId: string) { return this.all((n) => n.notifyResume(videoIndex, videoId)); }
+  notifyObsDisconnect() { return this.all((n) => n.notifyObsDisconnect()); }
+  notifyObsReconnect() { return this.all((n) => n.notifyObsReconnect()); }
+  notifyStreamDrop(attempt: number, maxAttempts: number) { return this.all((n) => n.notifyStreamDrop(attempt, maxAttempts)); }
+  notifyStreamRestart(attempts: number) { return this.all((n) => n.notifyStreamRestart(attempts)); }
+  notifyTwitchMismatch(channel: string) { return this.all((n) => n.notifyTwitchMismatch(channel)); }
+  notifyTwitchRestart(channel: string) { return this.all((n) => n.notifyTwitchRestart(channel)); }
+  notifyScheduleSwitch(playlist: string, previous: string) { return this.all((n) => n.notifyScheduleSwitch(playlist, previous)); }
+  notifyFallbackActivate(playlist: string, fallback: string, reason: string) {
+    return this.all((n) => n.notifyFallbackActivate(playlist, fallback, reason));
+  }
+  notifyFallbackRestore(playlist: string, fallback: string) { return this.all((n) => n.notifyFallbackRestore(playlist, fallback)); }
+  notifyDailySummary(day: DailyStats, uptimePercent: number) { return this.all((n) => n.notifyDailySummary(day, uptimePercent)); }
+}
@@ -0,0 +1,110 @@
+import type { DailyStats, DiscordEmbedConfig, DiscordEventKey, Incident } from './types.js';
+import { RecoveryStep } from './types.js';
+import {
+  ChannelNotifier, type ChannelSettings, type Notifier, type NotifierContext, type NotifyField, type NotifyMessage,
+  type NotifyPayload,
+} from './notifier.js';
+import { youtubeLinks, type TemplateVars } from './templates.js';
+
+const SAMPLE_VIDEO_ID = 'jfKfPfyJRdk';
+
+/** Stand-in playback and OBS state, so previews look the same whatever is playing. */
+const SAMPLE_VARS: TemplateVars = {
+  videoTitle: 'lofi hip hop radio 📚 - beats to relax/study to',
+  videoId: SAMPLE_VIDEO_ID,
+  videoIndex: 3,
+  videoUrl: youtubeLinks(SAMPLE_VIDEO_ID)!.url,
+  playlist: 'Main',
+  duration: 3725,
+  position: 1834,
+  obsState: 'streaming',
+  quality: '',
+};
+
+const SAMPLE_DAY: DailyStats = {
+  date: '2026-06-01',
+  observedMs: 86_400_000,
+  playingMs: 85_860_000,
+  recoveryMs: { [RecoveryStep.RetryCurrent]: 200_000, [RecoveryStep.RestartMpv]: 50_000, [RecoveryStep.CriticalAlert]: 0 },
+  mpvRestarts: 1,
+  skips: 2,
+  streamDrops: 0,
+  obsStreamDownMs: 0,
+  twitchOfflineMs: 80_000,
+};
+
+const SAMPLE_INCIDENT: Incident = {
+  id: '00000000-0000-4000-8000-000000000000',
+  root: 'videoFreeze',
+  message: 'Video freeze at 1834s — audio playing but video stalled — URL retry in place (attempt 1/3)',
+  startedAt: '2026-06-01T12:00:00.000Z',
+  endedAt: '2026-06-01T12:02:10.000Z',
+  durationMs: 130_000,
+  actions: ['urlRetry', 'urlRetry', RecoveryStep.RetryCurrent],
+  resolvedBy: RecoveryStep.RetryCurrent,
+  events: [],
+  eventCount: 7,
+};
+
+/** One representative call per event, so previews go through the real notify* code. */
+const SAMPLE_CALLS: Record<DiscordEventKey, (n: Notifier) => Promise<void>> = {
+  error: (n) => n.notifyError(3, SAMPLE_VIDEO_ID, 'HTTP error 403 Forbidden', 2),
+  skip: (n) => n.notifySkip(3, SAMPLE_VIDEO_ID, 'Error 150 (unavailable/not embeddable)'),
+  recovery: (n) => n.notifyRecovery(RecoveryStep.RestartMpv),
+  critical: (n) => n.notifyCritical('All recovery steps exhausted. Player may be unresponsive.'),
+  escalation: (n) => n.notifyEscalation('All recovery steps exhausted. Waiting 60s before retrying.', 30 * 60_000, 2, []),
+  incident: (n) => n.notifyIncident(SAMPLE_INCIDENT),
+  resume: (n) => n.notifyResume(4, SAMPLE_VIDEO_ID),
+  obsDisconnect: (n) => n.notifyObsDisconnect(),
+  obsReconnect: (n) => n.notifyObsReconnect(),
+  streamDrop: (n) => n.notifyStreamDrop(1, 5),
+  streamRestart: (n) => n.notifyStreamRestart(2),
+  twitchMismatch: (n) => n.notifyTwitchMismatch('mychannel'),
+  twitchRestart: (n) => n.notifyTwitchRestart('mychannel'),
+  scheduleSwitch: (n) => n.notifyScheduleSwitch('Late Night Chill', 'Main'),
+  fallbackActivate: (n) => n.notifyFallbackActivate('Main', 'Local Backup', '5 skipped videos in 30 min'),
+  fallbackRestore: (n) => n.notifyFallbackRestore('Main', 'Local Backup'),
+  dailySummary: (n) => n.notifyDailySummary(SAMPLE_DAY, 99.42),
+};
+
+/** Keeps the rendered message instead of queueing it. */
+class PreviewNotifier extends ChannelNotifier {
+  private message: NotifyMessage | null = null;
+
+  protected get enabled(): boolean {
+    return true;
+  }
+
+  protected get label(): string {
+    return 'Preview';
+  }
+
+  protected async deliver(): Promise<void> {}
+
+  protected async emit(event: DiscordEventKey, vars: TemplateVars, fields?: NotifyField[], mentions?: string[]): Promise<void> {
+    this.message = await this.renderMessage(event, vars, fields, mentions);
+  }
+
+  payload(): NotifyPayload | null {
+    return this.message && this.buildPayload([this.message]);
+  }
+}
+
+/**
+ * How `event` would look on Discord with the editor's unsaved `template` and
+ * `embed`, rendered with sample data through the same code as real alerts.
+ */
+export async function previewEvent(
+  settings: ChannelSettings,
+  context: NotifierContext,
+  event: DiscordEventKey,
+  overrides: { template?: string; embed?: DiscordEmbedConfig } = {},
+): Promise<NotifyPayload | null> {
+  const notifier = new PreviewNotifier({
+    events: settings.events,
+    templates: { ...settings.templates, ...(overrides.template !== undefined && { [event]: overrides.template }) },
+    embeds: { ...settings.embeds, ...(overrides.embed && { [event]: overrides.embed }) },
+  }, { ...context, getTemplateVars: async () => SAMPLE_VARS });
+  await SAMPLE_CALLS[event](notifier);
+  return notifier.payload();
+}
@@ -1,15 +1,40 @@
 import { execFile, spawn } from 'child_process';
 import { existsSync, rmSync } from 'fs';
 import { basename, dirname, join } from 'path';
-import OBSWebSocket from 'obs-websocket-js';
-import type { AppConfig } from './types.js';
+import OBSWebSocket, { EventSubscription } from 'obs-websocket-js';
+import type { AppConfig, AudioLevels, ObsHealthAlert, ObsHealthStatus } from './types.js';
 import { logger } from './logger.js';
+import { ObsHealthMonitor } from './obs-health.js';
+
+/** Level reported for silence (and anything quieter). */
+const SILENCE_FLOOR_DB = -100;
+
+/** Peak across channels of an InputVolumeMeters entry ([magnitude, peak, inputPeak] per channel), in dBFS. */
+function peakDb(levels: number[][]): number {
+  const peak = Math.max(0, ...levels.map((channel) => channel[1] ?? 0));
+  return peak > 0 ? Math.max(SILENCE_FLOOR_DB, 20 * Math.log10(peak)) : SILENCE_FLOOR_DB;
+}
 
 const DEFAULT_OBS_PATHS = [
   'C:\\Program Files\\obs-studio\\bin\\64bit\\obs64.exe',
   'C:\\Program Files (x86)\\obs-studio\\bin\\64bit\\obs64.exe',
 ];
 
+/**
+ * Build the command that force-quits every running OBS before a relaunch:
+ * `taskkill /IM` on Windows, `pkill -x` on the executable name elsewhere
+ * (e.g. `obs` on Linux, `OBS` inside the macOS app bundle). Exported for testing.
+ */
+export function obsKillCommand(
+  exeName: string,
+  platform: NodeJS.Platform = process.platform,
+): { cmd: string; args: string[] } {
+  if (platform === 'win32') {
+    return { cmd: 'taskkill', args: ['/F', '/IM', exeName] };
+  }
+  return { cmd: 'pkill', args: ['-KILL', '-x', exeName] };
+}
+
 export class OBSClient {
   private obs = new OBSWebSocket();
   private config: AppConfig;
@@ -20,6 +45,8 @@ export class OBSClient {
   private obsLaunched = false;
   private zombieCheckCount = 0;
   private static readonly ZOMBIE_KILL_THRESHOLD = 5; // force-kill after this many "still running" checks
+  private static readonly RELAUNCH_DELAY_MS = 3000; // let the killed process release its files
+  private static readonly STREAM_RESTART_GAP_MS = 5000; // between StopStream and StartStream
   private onConnectCallback: (() => void) | null = null;
   private onDisconnectCallback: (() => void) | null = null;
   private onStreamDropCallback: ((attempt: number, maxAttempts: number) => void) | null = null;
@@ -36,8 +63,24 @@ export class OBSClient {
   private static readonly STREAM_RESTART_DELAYS = [10_000, 30_000, 60_000, 60_000, 60_000];
   private lastStreamStartTime = 0;
 
+  // Audio meters: OBS pushes InputVolumeMeters ~20 times a second
+  private static readonly AUDIO_PUSH_INTERVAL_MS = 1000;
+  private inputDb: number | null = null;
+  private programDb: number | null = null;
+  private lastAudibleAt = 0;
+  private lastAudioPushAt = 0;
+  /** Mute state per input, fetched on first sight and kept current by InputMuteStateChanged. */
+  private inputMuted = new Map<string, boolean>();
+  private inputVolumeMul: number | null = null;
+  private onAudioLevelsCallback: ((levels: AudioLevels) => void) | null = null;
+
+  private readonly health: ObsHealthMonitor;
+  private healthTimer: ReturnType<typeof setInterval> | null = null;
+  private onHealthAlertCallback: ((alert: ObsHealthAlert) => void) | null = null;
+
   constructor(config: AppConfig) {
     this.config = config;
+    this.health = new ObsHealthMonitor(config.obsHealth);
 
     this.obs.on('ConnectionClosed', () => {
       if (this.connected) {
@@ -45,6 +88,8 @@ export class OBSClient {
         this.connected = false;
         this.failedReconnects = 0;
         this.obsLaunched = false;
+        this.resetAudio();
+        this.stopHealthPoll();
         this.clearStreamRestartTimer();
         this.onDisconnectCallback?.();
         this.scheduleReconnect();
@@ -59,6 +104,16 @@ export class OBSClient {
     this.obs.on('StreamStateChanged' as any, (event: { outputActive: boolean; outputState: string }) => {
       this.handleStreamStateChanged(event);
     });
+
+    this.obs.on('InputVolumeMeters', ({ inputs }) => {
+      this.handleVolumeMeters(inputs as { inputName?: string; inputLevelsMul?: number[][] }[]);
+    });
+    this.obs.on('InputMuteStateChanged', ({ inputName, inputMuted }) => {
+      this.inputMuted.set(inputName, inputMuted);
+    });
+    this.obs.on('InputVolumeChanged', ({ inputName, inputVolumeMul }) => {
+      if (inputName === this.audioInputName) this.inputVolumeMul = inputVolumeMul;
+    });
   }
 
   async connect(): Promise<void> {
@@ -71,8 +126,13 @@ export class OBSClient {
       await this.obs.connect(
         this.config.obsWebsocketUrl,
         this.config.obsWebsocketPassword || undefined,
+        // InputVolumeMeters is high-volume, so OBS only sends it when asked
+        { eventSubscriptions: EventSubscription.All | EventSubscription.InputVolumeMeters },
       );
       this.connected = true;
+      this.resetAudio();
+      void this.fetchInputVolume();
+      this.startHealthPoll();
       this.reconnectDelay = 5000;
       this.failedReconnects = 0;
       this.obsLaunched = false;
@@ -139,28 +199,57 @@ export class OBSClient {
         return;
       }
       this.zombieCheckCount = 0;
-      // Clear OBS crash sentinel so it doesn't prompt for safe mode
-      this.clearObsSentinel();
+      this.launchObs(obsPath);
+    });
+  }
 
-      logger.info({ obsPath }, 'Launching OBS');
-      this.obsLaunched = true;
-      try {
-        const child = spawn(obsPath, ['--disable-shutdown-check'], {
-          cwd: dirname(obsPath),
-          detached: true,
-          stdio: 'ignore',
-          windowsHide: false,
-        });
-        child.unref();
-        child.on('error', (launchErr) => {
-          logger.error({ err: launchErr, obsPath }, 'Failed to launch OBS');
-          this.obsLaunched = false;
-        });
-      } catch (launchErr) {
-        logger.error({ err: launchErr, obsPath }, 'Failed to spawn OBS');
+  private launchObs(obsPath: string): boolean {
+    // Clear OBS crash sentinel so it doesn't prompt for safe mode
+    this.clearObsSentinel();
+
+    logger.info({ obsPath }, 'Launching OBS');
+    this.obsLaunched = true;
+    try {
+      const child = spawn(obsPath, ['--disable-shutdown-check'], {
+        cwd: dirname(obsPath),
+        detached: true,
+        stdio: 'ignore',
+        windowsHide: false,
+      });
+      child.unref();
+      child.on('error', (launchErr) => {
+        logger.error({ err: launchErr, obsPath }, 'Failed to launch OBS');
         this.obsLaunched = false;
-      }
+      });
+      return true;
+    } catch (launchErr) {
+      logger.error({ err: launchErr, obsPath }, 'Failed to spawn OBS');
+      this.obsLaunched = false;
+      return false;
+    }
+  }
+
+  /**
+   * Force-quit OBS and launch it again (a recovery ladder step). The
+   * websocket reconnects on its own once OBS is back up.
+   */
+  async relaunch(): Promise<boolean> {
+    const obsPath = this.resolveObsPath();
+    if (!obsPath) {
+      logger.warn('Cannot relaunch OBS: executable not found. Set obsPath in config.');
+      return false;
+    }
+    const kill = obsKillCommand(basename(obsPath));
+    logger.warn({ obsPath }, 'Relaunching OBS');
+    await new Promise<void>((resolve) => {
+      execFile(kill.cmd, kill.args, (err) => {
+        // Not running is fine: launch it anyway
+        if (err) logger.warn({ err }, 'Failed to kill OBS process before relaunch');
+        resolve();
+      });
     });
+    await new Promise((r) => setTimeout(r, OBSClient.RELAUNCH_DELAY_MS));
+    return this.launchObs(obsPath);
   }
 
   private clearObsSentinel() {
@@ -194,8 +283,80 @@ export class OBSClient {
   onStreamDrop(cb: (attempt: number, maxAttempts: number) => void) { this.onStreamDropCallback = cb; }
   onStreamRestart(cb: (attempts: number) => void) { this.onStreamRestartCallback = cb; }
   onStreamRestartFailed(cb: () => void) { this.onStreamRestartFailedCallback = cb; }
+  /** Fired when an OBS health condition starts or clears; a stalled output is handled as a drop instead when auto-streaming. */
+  onHealthAlert(cb: (alert: ObsHealthAlert) => void) { this.onHealthAlertCallback = cb; }
+  /** Fired with the latest meters at most once a second while OBS sends them. */
+  onAudioLevels(cb: (levels: AudioLevels) => void) { this.onAudioLevelsCallback = cb; }
   isConnected(): boolean { return this.connected; }
 
+  /** Input the audio-silence detector watches. */
+  private get audioInputName(): string {
+    return this.config.detectors.audioSilence.inputName || this.config.obsBrowserSourceName;
+  }
+
+  getAudioLevels(): AudioLevels {
+    return {
+      inputName: this.audioInputName,
+      inputDb: this.inputDb,
+      programDb: this.programDb,
+      inputMuted: this.inputMuted.get(this.audioInputName) ?? null,
+      inputVolumeMul: this.inputVolumeMul,
+      thresholdDb: this.config.detectors.audioSilence.thresholdDb,
+      lastAudibleAt: this.lastAudibleAt ? new Date(this.lastAudibleAt).toISOString() : null,
+    };
+  }
+
+  private resetAudio() {
+    this.inputDb = null;
+    this.programDb = null;
+    this.lastAudibleAt = 0;
+    this.inputMuted.clear();
+    this.inputVolumeMul = null;
+  }
+
+  /**
+   * One InputVolumeMeters event: every input OBS is metering. Meters are
+   * post-fader but pre-mute, so the program mix is the loudest unmuted input.
+   */
+  private handleVolumeMeters(inputs: { inputName?: string; inputLevelsMul?: number[][] }[]) {
+    const now = Date.now();
+    let inputDb: number | null = null;
+    let programDb = SILENCE_FLOOR_DB;
+    for (const { inputName, inputLevelsMul } of inputs) {
+      if (!inputName) continue;
+      const db = peakDb(inputLevelsMul ?? []);
+      if (inputName === this.audioInputName) inputDb = db;
+      if (!this.inputMuted.has(inputName)) void this.fetchInputMute(inputName);
+      if (!this.inputMuted.get(inputName)) programDb = Math.max(programDb, db);
+    }
+    this.inputDb = inputDb;
+    this.programDb = programDb;
+    if ((inputDb ?? programDb) >= this.config.detectors.audioSilence.thresholdDb) this.lastAudibleAt = now;
+    if (now - this.lastAudioPushAt >= OBSClient.AUDIO_PUSH_INTERVAL_MS) {
+      this.lastAudioPushAt = now;
+      this.onAudioLevelsCallback?.(this.getAudioLevels());
+    }
+  }
+
+  private async fetchInputMute(inputName: string) {
+    this.inputMuted.set(inputName, false); // until OBS answers; also stops repeat requests
+    try {
+      const { inputMuted } = await this.obs.call('GetInputMute', { inputName });
+      this.inputMuted.set(inputName, inputMuted);
+    } catch {
+      // Input without audio, or removed meanwhile
+    }
+  }
+
+  private async fetchInputVolume() {
+    try {
+      const { inputVolumeMul } = await this.obs.call('GetInputVolume', { inputName: this.audioInputName });
+      this.inputVolumeMul = inputVolumeMul;
+    } catch {
+      this.inputVolumeMul = null; // no such input, or it has no audio
+    }
+  }
+
   private handleStreamStateChanged(event: { outputActive: boolean; outputState: string }) {
     logger.info({ outputState: event.outputState, outputActive: event.outputActive }, 'OBS stream state changed');
 
@@ -365,6 +526,16 @@ export class OBSClient {
     }
   }
 
+  /** Stop the stream output and start it again, e.g. to reset a stuck encoder or ingest connection. */
+  async restartStream(): Promise<boolean> {
+    if (!this.connected) return false;
+    // Fails when the stream is already down; starting it is still worthwhile
+    if (await this.stopStream()) {
+      await new Promise((r) => setTimeout(r, OBSClient.STREAM_RESTART_GAP_MS));
+    }
+    return this.startStreaming();
+  }
+
   /** Refresh browser source by toggling its URL with a cache-busting param. */
   async refreshBrowserSource(): Promise<boolean> {
     if (!this.connected) return false;
@@ -508,8 +679,71 @@ export class OBSClient {
     }
   }
 
+  /** Latest GetStats / GetStreamStatus figures; null until polled or while disconnected. */
+  getHealth(): ObsHealthStatus | null {
+    return this.connected ? this.health.getStatus() : null;
+  }
+
+  private startHealthPoll() {
+    this.stopHealthPoll();
+    if (!this.config.obsHealth.enabled) return;
+    this.healthTimer = setInterval(() => void this.pollHealth(), this.config.obsHealth.pollIntervalMs);
+  }
+
+  private stopHealthPoll() {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+    this.health.reset();
+  }
+
+  private async pollHealth() {
+    if (!this.connected) return;
+    let alerts: ObsHealthAlert[];
+    try {
+      const [stats, stream] = await Promise.all([this.obs.call('GetStats'), this.obs.call('GetStreamStatus')]);
+      alerts = this.health.add({
+        at: Date.now(),
+        cpuUsage: stats.cpuUsage,
+        memoryUsage: stats.memoryUsage,
+        activeFps: stats.activeFps,
+        renderSkippedFrames: stats.renderSkippedFrames,
+        renderTotalFrames: stats.renderTotalFrames,
+        encoderSkippedFrames: stats.outputSkippedFrames,
+        encoderTotalFrames: stats.outputTotalFrames,
+        stream: stream.outputActive ? {
+          reconnecting: stream.outputReconnecting,
+          congestion: stream.outputCongestion,
+          bytes: stream.outputBytes,
+          skippedFrames: stream.outputSkippedFrames,
+          totalFrames: stream.outputTotalFrames,
+        } : null,
+      });
+    } catch (err) {
+      logger.debug({ err }, 'OBS health poll failed');
+      return;
+    }
+    for (const alert of alerts) {
+      if (alert.condition === 'output' && this.config.obsAutoStream) {
+        // Live on paper only: restart it like any other drop, reported
+        // through onStreamDrop / onStreamRestart rather than as an alert
+        if (alert.active) {
+          logger.warn(alert.message);
+          this.scheduleStreamRestart();
+          await this.stopStream();
+        }
+        continue;
+      }
+      if (alert.active) logger.warn({ condition: alert.condition }, alert.message);
+      else logger.info({ condition: alert.condition }, alert.message);
+      this.onHealthAlertCallback?.(alert);
+    }
+  }
+
   async disconnect(): Promise<void> {
     this.stopStreamMonitor();
+    this.stopHealthPoll();
     this.clearStreamRestartTimer();
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
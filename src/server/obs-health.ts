@@ -0,0 +1,140 @@
+import type { ObsHealthAlert, ObsHealthCondition, ObsHealthConfig, ObsHealthStatus } from './types.js';
+import { formatDuration } from './templates.js';
+
+/** One poll of OBS's GetStats and GetStreamStatus. Frame and byte counters are cumulative. */
+export interface ObsHealthSample {
+  at: number;
+  cpuUsage: number;
+  memoryUsage: number;
+  activeFps: number;
+  renderSkippedFrames: number;
+  renderTotalFrames: number;
+  /** Frames the encoder couldn't keep up with (GetStats outputSkippedFrames). */
+  encoderSkippedFrames: number;
+  encoderTotalFrames: number;
+  /** Null while the stream output isn't active. */
+  stream: {
+    reconnecting: boolean;
+    congestion: number;
+    bytes: number;
+    /** Frames dropped for the network (GetStreamStatus outputSkippedFrames). */
+    skippedFrames: number;
+    totalFrames: number;
+  } | null;
+}
+
+/** Alert message prefixes per condition, when it starts and when it clears. */
+const CONDITION_LABELS: Record<Exclude<ObsHealthCondition, 'output'>, [string, string]> = {
+  cpu: ['OBS CPU high', 'OBS CPU back to normal'],
+  render: ['Rendering lagging', 'Rendering back to normal'],
+  encoder: ['Encoder overloaded', 'Encoder back to normal'],
+  network: ['Network congested', 'Network back to normal'],
+};
+
+/**
+ * Turns OBS health polls into alerts. Skipped-frame shares and CPU are
+ * measured over `windowMs` once at least half of it is covered, so a blip
+ * right after connecting doesn't alert; each condition alerts once when it
+ * starts and once when it clears. An active stream whose byte counter stops
+ * for `stalledPolls` polls raises `output`. Recreated with the OBSClient on
+ * config reload.
+ */
+export class ObsHealthMonitor {
+  private readonly config: ObsHealthConfig;
+  private samples: ObsHealthSample[] = [];
+  private active = new Set<ObsHealthCondition>();
+  private stalledPolls = 0;
+  private status: ObsHealthStatus | null = null;
+
+  constructor(config: ObsHealthConfig) {
+    this.config = config;
+  }
+
+  getStatus(): ObsHealthStatus | null {
+    return this.status;
+  }
+
+  /** Forget everything, e.g. on an OBS disconnect (its counters restart with it). */
+  reset() {
+    this.samples = [];
+    this.active.clear();
+    this.stalledPolls = 0;
+    this.status = null;
+  }
+
+  /** Record a poll; returns the conditions that started or cleared with it. */
+  add(sample: ObsHealthSample): ObsHealthAlert[] {
+    let previous = this.samples.at(-1);
+    // Counters restart with OBS, and the stream's with each stream start
+    if (previous && (sample.renderTotalFrames < previous.renderTotalFrames
+      || sample.encoderTotalFrames < previous.encoderTotalFrames
+      || (sample.stream && previous.stream && sample.stream.totalFrames < previous.stream.totalFrames))) {
+      this.samples = [];
+      previous = undefined;
+    }
+    this.samples.push(sample);
+    this.samples = this.samples.filter((s) => sample.at - s.at <= this.config.windowMs);
+
+    const first = this.samples[0];
+    const span = sample.at - first.at;
+    const percent = (skipped: number, total: number) => (total > 0 ? Math.round((skipped / total) * 1000) / 10 : null);
+    const renderSkippedPercent = percent(
+      sample.renderSkippedFrames - first.renderSkippedFrames, sample.renderTotalFrames - first.renderTotalFrames);
+    const encoderSkippedPercent = percent(
+      sample.encoderSkippedFrames - first.encoderSkippedFrames, sample.encoderTotalFrames - first.encoderTotalFrames);
+    const streamFirst = this.samples.find((s) => s.stream)?.stream;
+    const networkDroppedPercent = sample.stream && streamFirst
+      ? percent(sample.stream.skippedFrames - streamFirst.skippedFrames, sample.stream.totalFrames - streamFirst.totalFrames)
+      : null;
+    const cpuAverage = this.samples.reduce((sum, s) => sum + s.cpuUsage, 0) / this.samples.length;
+
+    const figures: Record<Exclude<ObsHealthCondition, 'output'>, number | null> = {
+      cpu: Math.round(cpuAverage),
+      render: renderSkippedPercent,
+      encoder: encoderSkippedPercent,
+      network: networkDroppedPercent,
+    };
+    const alerts: ObsHealthAlert[] = [];
+    if (span >= this.config.windowMs / 2) {
+      const window = formatDuration(span);
+      for (const condition of Object.keys(figures) as (keyof typeof figures)[]) {
+        const value = figures[condition];
+        if (value === null) continue;
+        const limit = condition === 'cpu' ? this.config.maxCpuPercent : this.config.maxSkippedPercent;
+        const what = condition === 'cpu' ? `${value}% average` : `${value}% frames ${condition === 'network' ? 'dropped' : 'skipped'}`;
+        const [raised, cleared] = CONDITION_LABELS[condition];
+        this.update(alerts, condition, value >= limit, `${raised}: ${what} in last ${window}`, `${cleared}: ${what} in last ${window}`);
+      }
+    }
+
+    const sending = !sample.stream || sample.stream.reconnecting || !previous?.stream || sample.stream.bytes > previous.stream.bytes;
+    this.stalledPolls = sending ? 0 : this.stalledPolls + 1;
+    const stalledFor = formatDuration(this.stalledPolls * this.config.pollIntervalMs);
+    this.update(alerts, 'output', this.stalledPolls >= this.config.stalledPolls,
+      `Stream output stalled: active but no data sent for ${stalledFor}`, 'Stream output sending data again');
+
+    this.status = {
+      sampledAt: new Date(sample.at).toISOString(),
+      cpuUsage: Math.round(sample.cpuUsage * 10) / 10,
+      memoryUsageMb: Math.round(sample.memoryUsage),
+      activeFps: Math.round(sample.activeFps * 10) / 10,
+      renderSkippedPercent,
+      encoderSkippedPercent,
+      networkDroppedPercent,
+      congestion: sample.stream ? sample.stream.congestion : null,
+      streamKbps: sample.stream && previous?.stream && sample.at > previous.at && sample.stream.bytes >= previous.stream.bytes
+        ? Math.round(((sample.stream.bytes - previous.stream.bytes) * 8) / (sample.at - previous.at))
+        : null,
+      reconnecting: sample.stream?.reconnecting ?? false,
+      alerts: [...this.active],
+    };
+    return alerts;
+  }
+
+  private update(alerts: ObsHealthAlert[], condition: ObsHealthCondition, failing: boolean, message: string, clearedMessage: string) {
+    if (failing === this.active.has(condition)) return;
+    if (failing) this.active.add(condition);
+    else this.active.delete(condition);
+    alerts.push({ condition, active: failing, message: failing ? message : clearedMessage });
+  }
+}
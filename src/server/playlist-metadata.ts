@@ -1,6 +1,8 @@
 import { execFile as execFileCb } from 'child_process';
 import { promisify } from 'util';
 import { logger } from './logger.js';
+import type { PlaylistEntry } from './types.js';
+import { listLocalFolder, listM3u, playlistSourceType, ytdlpSourceUrl } from './playlist-source.js';
 
 const execFile = promisify(execFileCb);
 
@@ -60,8 +62,7 @@ export class PlaylistMetadataCache {
   }
 
   /** Build the argv yt-dlp is invoked with. Exposed via class so tests can inspect. */
-  private buildArgv(playlistId: string): string[] {
-    const url = `https://www.youtube.com/playlist?list=${playlistId}`;
+  private buildArgv(url: string): string[] {
     const args: string[] = [];
     if (this.cookiesFromBrowser) {
       args.push('--cookies-from-browser', this.cookiesFromBrowser);
@@ -70,7 +71,8 @@ export class PlaylistMetadataCache {
     return args;
   }
 
-  async fetch(playlistId: string): Promise<PlaylistMetadata> {
+  async fetch(entry: PlaylistEntry): Promise<PlaylistMetadata> {
+    const playlistId = entry.id;
     const cached = this.cache.get(playlistId);
     if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
       return cached.metadata;
@@ -81,7 +83,7 @@ export class PlaylistMetadataCache {
       return inflight;
     }
 
-    const promise = this._doFetch(playlistId).finally(() => {
+    const promise = this._doFetch(entry).finally(() => {
       this.inFlight.delete(playlistId);
     });
 
@@ -104,16 +106,9 @@ export class PlaylistMetadataCache {
     this.cache.clear();
   }
 
-  private async _doFetch(playlistId: string): Promise<PlaylistMetadata> {
-    logger.info({ playlistId }, 'Fetching playlist metadata via yt-dlp');
-
-    const { stdout } = await execFile(
-      this.ytdlpPath,
-      this.buildArgv(playlistId),
-      { maxBuffer: 50 * 1024 * 1024, timeout: 120_000 },
-    );
-
-    const videos = parsePlaylistOutput(stdout);
+  private async _doFetch(entry: PlaylistEntry): Promise<PlaylistMetadata> {
+    const playlistId = entry.id;
+    const videos = await this.listVideos(entry);
     const fetchedAt = Date.now();
     const metadata: PlaylistMetadata = { playlistId, videos, fetchedAt };
 
@@ -122,4 +117,25 @@ export class PlaylistMetadataCache {
 
     return metadata;
   }
+
+  private async listVideos(entry: PlaylistEntry): Promise<PlaylistVideo[]> {
+    const type = playlistSourceType(entry);
+    switch (type) {
+      case 'local':
+        return listLocalFolder(entry.id);
+      case 'm3u':
+        return listM3u(entry.id);
+      case 'url':
+        return [{ index: 0, id: entry.id, title: entry.name || entry.id, duration: 0 }];
+    }
+
+    const url = ytdlpSourceUrl(entry)!;
+    logger.info({ playlistId: entry.id, type }, 'Fetching playlist metadata via yt-dlp');
+    const { stdout } = await execFile(
+      this.ytdlpPath,
+      this.buildArgv(url),
+      { maxBuffer: 50 * 1024 * 1024, timeout: 120_000 },
+    );
+    return parsePlaylistOutput(stdout);
+  }
 }
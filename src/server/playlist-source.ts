@@ -0,0 +1,121 @@
+import { createHash } from 'crypto';
+import { readdir, readFile, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { basename, dirname, extname, join, resolve } from 'path';
+import type { PlaylistEntry, PlaylistSourceType } from './types.js';
+import type { PlaylistVideo } from './playlist-metadata.js';
+
+/** File extensions picked up from `local` folders. Anything else (cover art,
+ *  .nfo, subtitles) is ignored so folder order matches what mpv plays. */
+export const MEDIA_EXTENSIONS = new Set([
+  '.mp4', '.mkv', '.webm', '.mov', '.avi', '.m4v', '.ts', '.flv', '.wmv', '.mpg', '.mpeg',
+  '.mp3', '.m4a', '.flac', '.ogg', '.opus', '.wav', '.aac',
+]);
+
+export function playlistSourceType(entry: PlaylistEntry): PlaylistSourceType {
+  return entry.type ?? 'youtube';
+}
+
+export function isRemote(location: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(location);
+}
+
+/** Signed CDN URLs (YouTube and most yt-dlp sites) go stale mid-video; files
+ *  on disk never do, so proactive URL refreshes are pointless for them. */
+export function sourceUrlsExpire(entry: PlaylistEntry): boolean {
+  return playlistSourceType(entry) !== 'local';
+}
+
+/** URL to hand yt-dlp for metadata, or null for sources that are listed
+ *  without it. */
+export function ytdlpSourceUrl(entry: PlaylistEntry): string | null {
+  switch (playlistSourceType(entry)) {
+    case 'youtube': return `https://www.youtube.com/playlist?list=${entry.id}`;
+    case 'ytdlp': return entry.id;
+    default: return null;
+  }
+}
+
+/** Media files directly inside `dir` (not recursive), in natural name order. */
+export async function listLocalFolder(dir: string): Promise<PlaylistVideo[]> {
+  const root = resolve(dir);
+  const entries = await readdir(root, { withFileTypes: true });
+  return entries
+    .filter((e) => e.isFile() && MEDIA_EXTENSIONS.has(extname(e.name).toLowerCase()))
+    .map((e) => e.name)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' }))
+    .map((name, index) => ({
+      index,
+      id: join(root, name),
+      title: basename(name, extname(name)),
+      duration: 0,
+    }));
+}
+
+/** Parse an M3U/M3U8 playlist. `#EXTINF:<seconds>,<title>` lines name the
+ *  entry that follows; other directives are ignored. Relative entries are
+ *  resolved against `baseDir` when given (local playlist files). */
+export function parseM3u(text: string, baseDir?: string): PlaylistVideo[] {
+  const videos: PlaylistVideo[] = [];
+  let pending: { title: string; duration: number } | null = null;
+
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    if (trimmed.startsWith('#')) {
+      const info = trimmed.match(/^#EXTINF:\s*(-?[\d.]+)[^,]*,(.*)$/i);
+      if (info) {
+        const duration = Number(info[1]);
+        pending = { title: info[2].trim(), duration: duration > 0 ? duration : 0 };
+      }
+      continue;
+    }
+    const location = baseDir && !isRemote(trimmed) ? resolve(baseDir, trimmed) : trimmed;
+    videos.push({
+      index: videos.length,
+      id: location,
+      title: pending?.title || basename(trimmed, extname(trimmed)),
+      duration: pending?.duration ?? 0,
+    });
+    pending = null;
+  }
+
+  return videos;
+}
+
+/** Read a local or remote M3U/M3U8 file and list its entries. */
+export async function listM3u(location: string): Promise<PlaylistVideo[]> {
+  if (isRemote(location)) {
+    const res = await fetch(location, { signal: AbortSignal.timeout(30_000) });
+    if (!res.ok) throw new Error(`Failed to fetch playlist ${location}: HTTP ${res.status}`);
+    return parseM3u(await res.text());
+  }
+  const path = resolve(location);
+  return parseM3u(await readFile(path, 'utf8'), dirname(path));
+}
+
+/**
+ * What mpv should `loadfile` for this entry. Local folders are written out as
+ * a generated M3U in the temp dir rather than handed to mpv as a directory:
+ * mpv's own directory expansion recurses and includes non-media files, which
+ * would put its playlist indices out of step with listLocalFolder's.
+ */
+export async function playlistLoadTarget(entry: PlaylistEntry): Promise<string> {
+  switch (playlistSourceType(entry)) {
+    case 'youtube':
+      return `https://www.youtube.com/playlist?list=${entry.id}`;
+    case 'local': {
+      const files = await listLocalFolder(entry.id);
+      if (files.length === 0) throw new Error(`No media files found in ${entry.id}`);
+      const hash = createHash('sha1').update(resolve(entry.id)).digest('hex').slice(0, 12);
+      const listPath = join(tmpdir(), `streamloop-${hash}.m3u8`);
+      await writeFile(listPath, ['#EXTM3U', ...files.map((f) => f.id)].join('\n') + '\n', 'utf8');
+      return listPath;
+    }
+    case 'm3u':
+      return isRemote(entry.id) ? entry.id : resolve(entry.id);
+    case 'url':
+    case 'ytdlp':
+      return entry.id;
+  }
+}
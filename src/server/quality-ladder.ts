@@ -0,0 +1,124 @@
+import type { EventOptions, EventType, QualityLadderConfig, QualityLadderStatus, QualityRung } from './types.js';
+import type { Notifier } from './notifier.js';
+import { formatDuration } from './templates.js';
+import { logger } from './logger.js';
+
+/** Label of the top rung, which is always `mpvYtdlFormat`. */
+export const TOP_RUNG_LABEL = 'Full';
+
+/**
+ * Adaptive stream quality. When the connection degrades, retrying the same
+ * 1080p format just freezes again: after `stepDownAfter` problems (video
+ * freezes, stutter trips, 403s) within `windowMs` the ladder steps down one
+ * rung, and after `stepUpAfterMs` of healthy playback with no new problems
+ * it steps back up one. RecoveryEngine applies the rung's format to mpv and
+ * reloads in place. Outlives recovery engines recreated on config reload,
+ * like RestartBreaker.
+ */
+export class QualityLadder {
+  private config: QualityLadderConfig;
+  private topFormat: string;
+  private getNotifier: () => Notifier;
+  private rung = 0;
+  private troubles: number[] = [];
+  private changedAt = 0;
+  private lastTroubleAt = 0;
+  private onEventCallback: ((type: EventType, message: string, opts?: EventOptions) => void) | null = null;
+  private onChangeCallback: (() => void) | null = null;
+
+  constructor(config: QualityLadderConfig, topFormat: string, getNotifier: () => Notifier) {
+    this.config = config;
+    this.topFormat = topFormat;
+    this.getNotifier = getNotifier;
+  }
+
+  onEvent(cb: (type: EventType, message: string, opts?: EventOptions) => void) { this.onEventCallback = cb; }
+  onChange(cb: () => void) { this.onChangeCallback = cb; }
+
+  setConfig(config: QualityLadderConfig, topFormat: string) {
+    this.config = config;
+    this.topFormat = topFormat;
+    if (this.rung === 0) return;
+    if (!config.enabled) {
+      this.change(0, 'Quality ladder disabled — back to full quality');
+    } else if (this.rung > config.rungs.length) {
+      this.change(config.rungs.length, `Quality ladder shortened — now at ${config.rungs.at(-1)!.label}`);
+    }
+  }
+
+  private get rungs(): QualityRung[] {
+    return [{ label: TOP_RUNG_LABEL, format: this.topFormat }, ...this.config.rungs];
+  }
+
+  get label(): string {
+    return this.rungs[this.rung].label;
+  }
+
+  /** The `ytdl-format` mpv should be playing with. */
+  get format(): string {
+    return this.rungs[this.rung].format;
+  }
+
+  /** True while playing below the top rung. */
+  get steppedDown(): boolean {
+    return this.rung > 0;
+  }
+
+  getStatus(now = Date.now()): QualityLadderStatus {
+    return {
+      enabled: this.config.enabled,
+      rung: this.rung,
+      rungCount: this.rungs.length,
+      label: this.label,
+      format: this.format,
+      troublesInWindow: this.troubles.filter((t) => now - t < this.config.windowMs).length,
+      changedAt: this.rung > 0 ? new Date(this.changedAt).toISOString() : null,
+      stepUpAt: this.rung > 0
+        ? new Date(Math.max(this.changedAt, this.lastTroubleAt) + this.config.stepUpAfterMs).toISOString()
+        : null,
+    };
+  }
+
+  /**
+   * Record a freeze, stutter trip or 403 blamed on `cause`. Returns true when
+   * it steps the ladder down, i.e. the caller should apply `format`.
+   */
+  recordTrouble(cause: string, now = Date.now()): boolean {
+    if (!this.config.enabled) return false;
+    this.lastTroubleAt = now;
+    this.troubles = this.troubles.filter((t) => now - t < this.config.windowMs);
+    this.troubles.push(now);
+    if (this.troubles.length < this.config.stepDownAfter || this.rung >= this.config.rungs.length) return false;
+    const count = this.troubles.length;
+    this.troubles = [];
+    this.change(this.rung + 1, `Quality stepped down to ${this.rungs[this.rung + 1].label} after ${count} playback problems `
+      + `in ${formatDuration(this.config.windowMs)} (latest: ${cause})`, now);
+    return true;
+  }
+
+  /**
+   * Playback is progressing. Returns true when it has been healthy long enough
+   * to step back up one rung, i.e. the caller should apply `format`.
+   */
+  recordHealthy(now = Date.now()): boolean {
+    if (!this.config.enabled || this.rung === 0) return false;
+    const healthyFor = now - Math.max(this.changedAt, this.lastTroubleAt);
+    if (healthyFor < this.config.stepUpAfterMs) return false;
+    this.change(this.rung - 1, `Quality stepped back up to ${this.rungs[this.rung - 1].label} `
+      + `after ${formatDuration(healthyFor)} of healthy playback`, now);
+    return true;
+  }
+
+  private change(rung: number, message: string, now = Date.now()) {
+    const down = rung > this.rung;
+    this.rung = rung;
+    this.changedAt = now;
+    logger[down ? 'warn' : 'info']({ rung, format: this.format }, message);
+    this.onEventCallback?.('qualityChange', message, {
+      severity: down ? 'warn' : 'info',
+      detail: { rung, label: this.label, format: this.format },
+    });
+    this.onChangeCallback?.();
+    this.getNotifier().notifyRecovery(message).catch((err) => logger.error({ err }, 'Failed to send quality change alert'));
+  }
+}
@@ -1,13 +1,25 @@
+import { EventEmitter } from 'events';
 import { freemem, totalmem } from 'os';
 import { performance } from 'node:perf_hooks';
-import { RecoveryStep, type AppConfig, type MpvHeartbeat, type EventLogEntry } from './types.js';
+import {
+  RecoveryStep, type AppConfig, type MpvHeartbeat, type EventLogEntry, type PlaylistEntry, type PersistedState, type RecoveryReason,
+  type EventType, type EventOptions, type IncidentAction, type IncidentRoot, type LadderReason, type RecoveryLadderStep,
+  type PlaybackStats,
+} from './types.js';
 import type { MpvClient } from './mpv-client.js';
 import type { StateManager } from './state.js';
 import type { OBSClient } from './obs-client.js';
-import type { DiscordNotifier } from './discord.js';
+import type { Notifier } from './notifier.js';
 import { logger } from './logger.js';
 import { FrameMonitor } from './frame-monitor.js';
 import type { EventStore } from './event-store.js';
+import type { VideoBlacklist } from './video-blacklist.js';
+import type { RestartBreaker } from './restart-breaker.js';
+import type { QualityLadder } from './quality-ladder.js';
+import { INCIDENT_ACTION_LABELS, INCIDENT_ROOT_LABELS, type IncidentLog } from './incidents.js';
+import { formatDuration } from './templates.js';
+import { nextScheduleChange, scheduledPlaylistIndex } from './schedule.js';
+import { playlistLoadTarget, sourceUrlsExpire } from './playlist-source.js';
 
 const GiB = 1024 ** 3; // 1073741824
 
@@ -25,20 +37,73 @@ function getSystemMemory() {
 
 const MAX_EVENT_LOG = 100;
 
-export class RecoveryEngine {
+/** How each freeze detector's trip reads in events and alerts. */
+const FREEZE_SYMPTOMS = {
+  'Video freeze': 'audio playing but video stalled',
+  'Output freeze': 'streamed picture frozen',
+  'Black screen': 'streamed picture black or blank',
+} as const;
+
+/** Resolves `entry` (at playlist item `itemIndex`) out-of-band to decide
+ *  whether a failing primary source is back. See source-probe.ts. */
+export type SourceProbe = (entry: PlaylistEntry, itemIndex: number) => Promise<boolean>;
+
+/** Optional collaborators; each feature is off (or a no-op) without its own. */
+export interface RecoveryEngineOptions {
+  /** Persists the event log and seeds it on construction. */
+  eventStore?: EventStore;
+  /** Checks whether a failing primary resolves again while the fallback plays. */
+  probe?: SourceProbe;
+  blacklist?: VideoBlacklist;
+  incidents?: IncidentLog;
+  breaker?: RestartBreaker;
+  quality?: QualityLadder;
+}
+
+/** The playlist entry mpv is on, keyed the way VideoBlacklist stores it. */
+interface CurrentEntry {
+  index: number;
+  key: string;
+  title: string;
+}
+
+/**
+ * Watches mpv and walks the recovery ladder. Emits, for live dashboard push:
+ * - `heartbeat` () after each processed heartbeat
+ * - `event` (EventLogEntry) for every entry added to the event log
+ * - `recoveryStep` (RecoveryStep) whenever the step changes
+ * - `recovery` (RecoveryReason) each time a detector or retry path acts
+ * - `mpvRestart` ('periodic' | 'recovery') before the engine restarts mpv
+ * - `criticalAlert` (message) on the first CriticalAlert step of a recovery
+ * - `recoveryResolved` () when that recovery ends
+ * - `incidentClose` (Incident) when an incident closes
+ */
+export class RecoveryEngine extends EventEmitter {
   private config: AppConfig;
   private mpv: MpvClient;
   private state: StateManager;
   private obs: OBSClient;
-  private discord: DiscordNotifier;
+  private notifier: Notifier;
   private eventStore: EventStore | null;
+  private probe: SourceProbe;
+  private blacklist: VideoBlacklist | null;
+  private incidents: IncidentLog | null;
+  private breaker: RestartBreaker | null;
+  private quality: QualityLadder | null;
+  /** The ytdl-format last set on mpv; null after a (re)connect, when mpv is on its startup format. */
+  private appliedFormat: string | null = null;
+  private pendingFormat: { format: string; done: Promise<void> } | null = null;
 
   private consecutiveErrors = 0;
   private lastHeartbeatAt = Date.now();
   private heartbeatPollTimer: ReturnType<typeof setInterval> | null = null;
   private recoveryStep = RecoveryStep.None;
-  private recoveryReason: 'heartbeat' | 'stall' | 'non-playing' | null = null;
+  private recoveryReason: LadderReason | null = null;
   private recoveryTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Ladder of the recovery in progress, its current step and the attempt at it (from 1). */
+  private ladder: RecoveryLadderStep[] = [];
+  private ladderIndex = 0;
+  private ladderAttempt = 0;
   private totalVideos = 0;
   private startedAt = Date.now();
   private eventLog: EventLogEntry[] = [];
@@ -64,24 +129,52 @@ export class RecoveryEngine {
   private startupGraceLogged = false;
   private periodicRestartTimer: ReturnType<typeof setInterval> | null = null;
   private videoFreezeHeartbeats = 0;
+  /** When the audio-silence detector started watching this stretch of playback; null while not watching. */
+  private audioWatchSince: number | null = null;
+  /** True once the current silence has tripped (or been logged, in detect mode). */
+  private audioSilent = false;
+  /** Consecutive heartbeats with too many dropped frames or too much A/V drift. */
+  private degradedHeartbeats = 0;
+  /** True once the current degraded stretch has tripped (or been logged, in detect mode). */
+  private playbackDegraded = false;
+  /** Drop counters at the previous heartbeat, for the per-heartbeat drop rate. */
+  private lastDropSample: { dropped: number; timePos: number } | null = null;
   private urlRetryCount = 0;
   private videoFreezeRetryCount = 0;
   private lastSeenVideoIndex = -1;
+  /** mpv's decoder stats from the last heartbeat; null while disconnected. */
+  private playbackStats: PlaybackStats | null = null;
+  /** True while the configured fallback source is playing instead of the playlists. */
+  private fallbackActive = false;
+  /** Primary resume position saved on entering the fallback. State tracks the
+   *  fallback's own position while it plays, and this is written back on return. */
+  private primaryResume: Pick<PersistedState, 'videoIndex' | 'videoId' | 'videoTitle' | 'currentTime' | 'videoDuration'> | null = null;
+  private fallbackSkipTimes: number[] = [];
+  private fallbackCriticalTimes: number[] = [];
+  private fallbackProbeTimer: ReturnType<typeof setInterval> | null = null;
+  private fallbackProbeInFlight = false;
   /** Monotonic timestamp (performance.now(), ms) of when the current video's URL
    *  was last resolved (file-loaded). Drives the proactive pre-expiry refresh.
    *  Monotonic, NOT Date.now(): a wall-clock step (NTP correcting a bad RTC after
    *  a power outage) must not make a 6h-old URL look fresh, or a fresh one look
    *  expired. perf clock ticks at real rate and is immune to clock adjustments. */
   private urlResolvedAt = performance.now();
-  private static readonly STALL_THRESHOLD = 3;
-  private static readonly NON_PLAYING_THRESHOLD = 6;
-  private static readonly VIDEO_FREEZE_THRESHOLD = 4;
+  /** Playlist entry mpv most recently started, looked up on `fileStarted`.
+   *  Held as a promise so an end-file racing the lookup can still await it. */
+  private currentEntry: Promise<CurrentEntry | null> = Promise.resolve(null);
+  /** Blacklisted entries skipped in a row without a video confirming. Once it
+   *  covers the whole playlist, skipping stops so mpv doesn't spin forever. */
+  private blacklistSkipStreak = 0;
+  /** A critical alert was raised in the current recovery. With escalation on,
+   *  later CriticalAlert cycles leave the reminders to AlertManager. */
+  private criticalRaised = false;
+  /** First time playback looked healthy (resetRecovery) since the open
+   *  incident's latest detector trip or action; null while it doesn't. */
+  private incidentResumedAt: number | null = null;
+  /** A detect-only heartbeat timeout was logged; cleared by the next heartbeat. */
+  private heartbeatTimeoutLogged = false;
   /** Don't treat the brief video-EOF burst at a video's natural end as a freeze. */
   private static readonly VIDEO_FREEZE_END_GUARD_SEC = 10;
-  /** video-bitrate (bits/s) at or below this means no video bytes are arriving. */
-  private static readonly FROZEN_VIDEO_BITRATE = 1000;
-  /** In-place URL retries for a video freeze before escalating to a restart. */
-  private static readonly MAX_VIDEO_FREEZE_RETRIES = 3;
 
   // Bound handlers so we can remove them from mpv EventEmitter
   private boundOnConnect = () => this.onMpvConnect();
@@ -89,21 +182,28 @@ export class RecoveryEngine {
   private boundOnFileEnded = (reason: string, fileError?: string) => this.onFileEnded(reason, fileError);
   private boundOnProcessExit = () => this.onProcessExit();
   private boundOnFileLoaded = () => { this.urlResolvedAt = performance.now(); };
+  private boundOnFileStarted = () => { this.currentEntry = this.onFileStarted(); };
 
   constructor(
     config: AppConfig,
     mpv: MpvClient,
     state: StateManager,
     obs: OBSClient,
-    discord: DiscordNotifier,
-    eventStore?: EventStore,
+    notifier: Notifier,
+    { eventStore, probe, blacklist, incidents, breaker, quality }: RecoveryEngineOptions = {},
   ) {
+    super();
     this.config = config;
     this.mpv = mpv;
     this.state = state;
     this.obs = obs;
-    this.discord = discord;
+    this.notifier = notifier;
     this.eventStore = eventStore ?? null;
+    this.probe = probe ?? (async () => false);
+    this.blacklist = blacklist ?? null;
+    this.incidents = incidents ?? null;
+    this.breaker = breaker ?? null;
+    this.quality = quality ?? null;
     if (this.eventStore) {
       this.eventLog = this.eventStore.loadRecent(MAX_EVENT_LOG);
     }
@@ -118,6 +218,7 @@ export class RecoveryEngine {
     this.mpv.on('fileEnded', this.boundOnFileEnded);
     this.mpv.on('processExit', this.boundOnProcessExit);
     this.mpv.on('fileLoaded', this.boundOnFileLoaded);
+    this.mpv.on('fileStarted', this.boundOnFileStarted);
     this.startHeartbeatPoll();
     this.startPeriodicRestartTimer();
     this.startFrameMonitor();
@@ -133,6 +234,12 @@ export class RecoveryEngine {
     this.frameMonitor?.stop();
     this.frameMonitor = null;
     this.clearRecoveryTimer();
+    this.stopFallbackProbe();
+    // Hand state back pointing at the primary so the next engine (config
+    // reload) or the next run resumes there rather than at a fallback index.
+    if (this.fallbackActive && this.primaryResume) {
+      this.state.update(this.primaryResume);
+    }
   }
 
   private removeMpvListeners() {
@@ -141,6 +248,7 @@ export class RecoveryEngine {
     this.mpv.removeListener('fileEnded', this.boundOnFileEnded);
     this.mpv.removeListener('processExit', this.boundOnProcessExit);
     this.mpv.removeListener('fileLoaded', this.boundOnFileLoaded);
+    this.mpv.removeListener('fileStarted', this.boundOnFileStarted);
   }
 
   /** Saved playlist index, clamped into [0, playlists.length). Guards both an
@@ -151,10 +259,18 @@ export class RecoveryEngine {
     return Number.isInteger(i) && i >= 0 && i < this.config.playlists.length ? i : 0;
   }
 
+  /** The source mpv should be playing: the fallback while it's active, else the current playlist. */
+  private activeSource(): PlaylistEntry {
+    return this.fallbackActive ? this.config.fallback.source! : this.config.playlists[this.currentPlaylistIndex()];
+  }
+
   getStatus() {
     const playlistIndex = this.currentPlaylistIndex();
+    const scheduled = nextScheduleChange(this.config, new Date(), playlistIndex);
     return {
       recoveryStep: this.recoveryStep,
+      /** 1-based position in the ladder being run; 0 while healthy. */
+      recoveryLadderStep: this.recoveryStep === RecoveryStep.None ? 0 : this.ladderIndex + 1,
       lastHeartbeatAt: this.lastHeartbeatAt,
       consecutiveErrors: this.consecutiveErrors,
       totalVideos: this.totalVideos,
@@ -162,12 +278,23 @@ export class RecoveryEngine {
       playlistIndex,
       totalPlaylists: this.config.playlists.length,
       currentPlaylistId: this.config.playlists[playlistIndex].id,
+      playlistName: this.fallbackActive ? this.fallbackLabel() : this.playlistLabel(playlistIndex),
       systemMemory: getSystemMemory(),
       mpvConnected: this.mpv.isConnected(),
       mpvRunning: this.mpv.isRunning(),
       paused: this.lastKnownPaused,
+      // Stale once heartbeats stop (mpv hung or gone), not just when one says so.
+      playing: this.lastPlaying && this.mpv.isConnected()
+        && Date.now() - this.lastHeartbeatAt <= this.config.heartbeatIntervalMs * 2,
       intentionallyStopped: this.intentionallyStopped,
       videoConfirmed: this.videoConfirmed,
+      fallbackActive: this.fallbackActive,
+      playbackStats: this.playbackStats,
+      nextScheduleChange: scheduled && {
+        at: new Date(scheduled.at).toISOString(),
+        playlistIndex: scheduled.playlistIndex,
+        playlistName: this.playlistLabel(scheduled.playlistIndex),
+      },
     };
   }
 
@@ -179,9 +306,9 @@ export class RecoveryEngine {
   setIntentionallyStopped(stopped: boolean) {
     this.intentionallyStopped = stopped;
     if (stopped) {
-      this.addEvent('Playback intentionally stopped');
+      this.addEvent('playbackControl', 'Playback intentionally stopped', { detail: { action: 'stop' } });
     } else {
-      this.addEvent('Playback resumed from intentional stop');
+      this.addEvent('playbackControl', 'Playback resumed from intentional stop', { detail: { action: 'resume' } });
     }
   }
 
@@ -191,11 +318,26 @@ export class RecoveryEngine {
 
   // --- Public: load playlist into mpv ---
 
-  async loadCurrentPlaylist() {
+  /** False if the source couldn't be resolved (mpv keeps what it had); rejects if mpv fails the load. */
+  async loadCurrentPlaylist(): Promise<boolean> {
+    // A (re)load is a boundary too: if the schedule moved on while mpv was down
+    // or restarting, start the scheduled playlist rather than resuming the old one.
+    // The fallback overrides the schedule until the primary is back.
+    if (!this.fallbackActive) this.applyScheduledPlaylist();
+    await this.applyQualityFormat();
     const savedState = this.state.get();
-    const playlistIndex = this.currentPlaylistIndex();
-    const playlist = this.config.playlists[playlistIndex];
-    const url = `https://www.youtube.com/playlist?list=${playlist.id}`;
+    const playlist = this.activeSource();
+    let url: string;
+    try {
+      url = await playlistLoadTarget(playlist);
+    } catch (err) {
+      logger.error({ err, playlistId: playlist.id }, 'Failed to resolve playlist source');
+      const error = err instanceof Error ? err.message : String(err);
+      this.addEvent('playlistLoadFailed', `Cannot load playlist ${playlist.name || playlist.id}: ${error}`, {
+        severity: 'error', detail: { error },
+      });
+      return false;
+    }
 
     let seekTime = savedState.currentTime;
     const jumpIndex = savedState.videoIndex;
@@ -207,13 +349,17 @@ export class RecoveryEngine {
     // so we leave seekTime alone in that case.
     if (seekTime > 0 && savedState.videoDuration > 0 && seekTime >= savedState.videoDuration) {
       logger.warn({ seekTime, videoDuration: savedState.videoDuration }, 'Saved currentTime exceeds known video duration — discarding resume position');
-      this.addEvent(`Discarding stale resume position (${Math.floor(seekTime)}s > ${Math.floor(savedState.videoDuration)}s video)`);
+      this.addEvent('playlistLoad', `Discarding stale resume position (${Math.floor(seekTime)}s > ${Math.floor(savedState.videoDuration)}s video)`, {
+        detail: { seekTime, videoDuration: savedState.videoDuration },
+      });
       this.state.update({ currentTime: 0 });
       seekTime = 0;
     }
 
     logger.info({ playlistId: playlist.id, videoIndex: jumpIndex, currentTime: seekTime }, 'Loading playlist in mpv');
-    this.addEvent(`Loading playlist ${playlist.name || playlist.id}`);
+    this.addEvent('playlistLoad', `Loading playlist ${playlist.name || playlist.id}`, {
+      videoIndex: jumpIndex, detail: { currentTime: seekTime },
+    });
 
     // Only pre-set start when targeting video 0.
     // For jumpIndex > 0, setting start here would cause video 0 to attempt
@@ -270,17 +416,38 @@ export class RecoveryEngine {
     setTimeout(async () => {
       await this.mpv.setProperty('start', 'none').catch(() => {});
     }, 30000);
+    return true;
   }
 
   // --- Private: event log ---
 
-  private addEvent(message: string) {
-    const entry = { timestamp: new Date().toISOString(), message };
+  /**
+   * Append to the dashboard event log (and the persisted history). Public so
+   * index.ts can log OBS and Twitch events into the same timeline. Video and
+   * playlist context default to what's currently playing; an open incident
+   * collects the entry.
+   */
+  addEvent(type: EventType, message: string, opts: EventOptions = {}) {
+    const current = this.state.get();
+    const incidentId = this.incidents?.activeId;
+    const entry: EventLogEntry = {
+      timestamp: new Date().toISOString(),
+      type,
+      severity: opts.severity ?? 'info',
+      message,
+      videoIndex: opts.videoIndex ?? current.videoIndex,
+      videoId: opts.videoId ?? current.videoId,
+      playlistId: this.activeSource().id,
+      ...(incidentId && { incidentId }),
+      ...(opts.detail && { detail: opts.detail }),
+    };
     this.eventLog.push(entry);
     if (this.eventLog.length > MAX_EVENT_LOG) {
       this.eventLog.shift();
     }
     this.eventStore?.append(entry);
+    this.incidents?.attach(entry);
+    this.emit('event', entry);
   }
 
   // --- Private: mpv event handlers ---
@@ -288,7 +455,9 @@ export class RecoveryEngine {
   private async onMpvConnect() {
     const resumeInfo = { videoIndex: this.state.get().videoIndex, currentTime: this.state.get().currentTime };
     logger.info(resumeInfo, 'mpv connected, loading playlist');
-    this.addEvent(`mpv connected — resuming video #${resumeInfo.videoIndex} at ${Math.floor(resumeInfo.currentTime)}s`);
+    this.addEvent('mpvConnect', `mpv connected — resuming video #${resumeInfo.videoIndex} at ${Math.floor(resumeInfo.currentTime)}s`, {
+      videoIndex: resumeInfo.videoIndex, detail: { currentTime: resumeInfo.currentTime },
+    });
     this.resetRecovery();
     this.lastHeartbeatAt = Date.now();
     this.nonPlayingHeartbeats = 0;
@@ -298,33 +467,100 @@ export class RecoveryEngine {
     this.videoFreezeHeartbeats = 0;
     this.videoFreezeRetryCount = 0;
     this.urlResolvedAt = performance.now();
+    // A restarted mpv is back on its startup format; a reload may have moved the ladder
+    this.appliedFormat = null;
     await this.loadCurrentPlaylist();
   }
 
   private onMpvDisconnect() {
     logger.warn('mpv disconnected');
-    this.addEvent('mpv disconnected');
+    this.addEvent('mpvDisconnect', 'mpv disconnected', { severity: 'warn' });
     this.videoConfirmed = false;
+    this.playbackStats = null;
     // Heartbeat poll will detect timeout and trigger recovery
   }
 
+  /**
+   * Identify the entry mpv just started and, if it's blacklisted, move past it
+   * before yt-dlp spends time resolving a video that's known to be dead.
+   */
+  private async onFileStarted(): Promise<CurrentEntry | null> {
+    let entry: CurrentEntry;
+    let playlistCount: number;
+    try {
+      const index = await this.mpv.getProperty('playlist-pos') as number;
+      const [filename, title, count] = await Promise.all([
+        this.mpv.getProperty(`playlist/${index}/filename`),
+        this.mpv.getProperty(`playlist/${index}/title`).catch(() => ''),
+        this.mpv.getProperty('playlist-count').catch(() => 0),
+      ]);
+      const file = String(filename ?? '');
+      entry = { index, key: this.extractVideoId(file) || file, title: this.sanitizeTitle(String(title ?? '')) };
+      playlistCount = count as number;
+    } catch {
+      return null;
+    }
+    if (!this.blacklist?.isSkipped(entry.key)) return entry;
+
+    const limit = Math.max(playlistCount, 1);
+    if (this.blacklistSkipStreak >= limit) {
+      // Every entry is blacklisted (or the rest keep failing) — play it anyway
+      // and let the normal error handling take over. Logged once per streak.
+      if (this.blacklistSkipStreak === limit) {
+        logger.warn({ playlistCount }, 'Every playlist entry is blacklisted — playing them anyway');
+        this.addEvent('blacklistSkip', 'Every video in the playlist is blacklisted — playing anyway', {
+          severity: 'warn', videoIndex: entry.index, videoId: entry.key, detail: { playlistCount, exhausted: true },
+        });
+        this.blacklistSkipStreak++;
+      }
+      return entry;
+    }
+    this.blacklistSkipStreak++;
+    logger.info({ videoIndex: entry.index, videoId: entry.key }, 'Skipping blacklisted video');
+    this.addEvent('blacklistSkip', `Skipping blacklisted video #${entry.index} (${entry.key})`, {
+      videoIndex: entry.index, videoId: entry.key, detail: { title: entry.title || null },
+    });
+    try { await this.mpv.next(); } catch { /* ignore */ }
+    return entry;
+  }
+
   private async onFileEnded(reason: string, fileError?: string) {
+    // Captured now: by the time an await below returns, mpv may have started the next file.
+    const endedEntry = this.currentEntry;
     // In-place URL retry for premature EOF / network errors.
     // Runs before the existing error/eof handling so a signed-URL
     // expiry doesn't burn a consecutiveErrors slot or get skipped.
-    if (this.shouldRetryUrl(reason, fileError)) {
-      if (this.urlRetryCount < 2) {
+    const prematureEof = this.config.detectors.prematureEof;
+    if (prematureEof.mode !== 'off' && this.shouldRetryUrl(reason, fileError)) {
+      if (prematureEof.mode === 'detect') {
+        this.logDetectOnly('urlRetry', `Premature stream end (${reason})`, { reason, fileError });
+      } else if (this.urlRetryCount < prematureEof.maxRetries) {
         this.urlRetryCount++;
         const seek = this.state.get().currentTime;
         logger.warn({ reason, fileError, seek, attempt: this.urlRetryCount }, 'Premature stream end — retrying in place');
-        this.addEvent(`Premature stream end (${reason}) — retrying at ${Math.floor(seek)}s (attempt ${this.urlRetryCount}/2)`);
-        await this.discord.notifyRecovery('URL retry');
+        const retryMsg = `Premature stream end (${reason}) — retrying at ${Math.floor(seek)}s (attempt ${this.urlRetryCount}/${prematureEof.maxRetries})`;
+        this.openIncident('urlRetry', retryMsg);
+        this.addEvent('urlRetry', retryMsg, {
+          severity: 'warn', detail: { reason, fileError, seek, attempt: this.urlRetryCount },
+        });
+        this.recordIncidentAction('urlRetry');
+        this.emit('recovery', 'urlRetry' satisfies RecoveryReason);
+        if (fileError && /403|forbidden/i.test(fileError)) await this.recordQualityTrouble('HTTP 403');
+        await this.notifier.notifyRecovery('URL retry');
         await this.retryCurrentAtPosition(seek);
         return;
+      } else {
+        // Retries exhausted for this video — fall through to existing logic
+        logger.warn({ videoIndex: this.state.get().videoIndex }, 'URL retries exhausted — falling through to error handling');
+        this.addEvent('urlRetry', 'URL retries exhausted — escalating to error handling', {
+          severity: 'warn', detail: { reason, fileError, exhausted: true },
+        });
+        // An 'error' end is counted against the entry below; a premature 'eof' isn't.
+        if (reason !== 'error') {
+          const { videoIndex, videoId } = this.state.get();
+          await this.recordBlacklistFailure(await endedEntry, videoIndex, videoId, fileError ?? `premature ${reason}`);
+        }
       }
-      // Retries exhausted for this video — fall through to existing logic
-      logger.warn({ videoIndex: this.state.get().videoIndex }, 'URL retries exhausted — falling through to error handling');
-      this.addEvent('URL retries exhausted — escalating to error handling');
     }
 
     if (reason === 'error') {
@@ -333,7 +569,7 @@ export class RecoveryEngine {
       if (this.seekPending) {
         this.seekPending = false;
         logger.warn('Seek failed (YouTube may have rejected the position), replaying from start');
-        this.addEvent('Seek to saved position failed — replaying from start');
+        this.addEvent('seekFailed', 'Seek to saved position failed — replaying from start', { severity: 'warn', detail: { fileError } });
         this.state.update({ currentTime: 0 });
         // Clear mpv's start property so the bad seek isn't re-applied to
         // subsequent video loads (otherwise every auto-advanced video fails
@@ -353,23 +589,46 @@ export class RecoveryEngine {
       // Surface mpv's file_error string so the events timeline / dashboard
       // shows *why* a video failed instead of a bare "Playback error".
       const reasonSuffix = fileError ? ` — ${fileError}` : '';
-      this.addEvent(`Playback error on video #${videoIndex} (${videoId})${reasonSuffix}`);
-      await this.discord.notifyError(videoIndex, videoId, fileError ?? 'unknown', this.consecutiveErrors);
+      this.addEvent('playbackError', `Playback error on video #${videoIndex} (${videoId})${reasonSuffix}`, {
+        severity: 'error', videoIndex, videoId,
+        detail: { fileError: fileError ?? null, consecutiveErrors: this.consecutiveErrors },
+      });
+      // Counted per failure, not per skip: a dead entry among good ones resets
+      // consecutiveErrors every loop and would otherwise never be blacklisted.
+      await this.recordBlacklistFailure(await endedEntry, videoIndex, videoId, fileError);
+      await this.notifier.notifyError(videoIndex, videoId, fileError ?? 'unknown', this.consecutiveErrors);
       // mpv is actively cycling through videos — not stuck — so don't let
       // the non-playing counter escalate to a restart that would throw away
       // the skip progress and start the cycle over from position 0.
       this.nonPlayingHeartbeats = 0;
       if (this.consecutiveErrors >= this.config.maxConsecutiveErrors) {
         const skipReason = `${this.consecutiveErrors} consecutive playback errors`;
-        this.addEvent(`Skipping video #${videoIndex} (${videoId}): ${skipReason}`);
-        await this.discord.notifySkip(videoIndex, videoId, skipReason);
-        try { await this.mpv.next(); } catch { /* ignore */ }
+        this.addEvent('skip', `Skipping video #${videoIndex} (${videoId}): ${skipReason}`, {
+          severity: 'warn', videoIndex, videoId, detail: { reason: skipReason, fileError: fileError ?? null },
+        });
+        this.emit('recovery', 'skip' satisfies RecoveryReason);
+        await this.notifier.notifySkip(videoIndex, videoId, skipReason);
         this.consecutiveErrors = 0;
+        if (this.recordFallbackTrigger(this.fallbackSkipTimes, this.config.fallback.maxSkips)) {
+          await this.enterFallback(`${this.config.fallback.maxSkips} skipped videos in ${this.fallbackWindowLabel()}`);
+          return;
+        }
+        try { await this.mpv.next(); } catch { /* ignore */ }
       }
     } else if (reason === 'eof') {
       this.consecutiveErrors = 0;
-      // Check if we need to advance to next playlist
-      if (this.totalVideos > 0 && this.config.playlists.length > 1) {
+      // The fallback just loops until the probe brings the primary back.
+      if (this.fallbackActive) return;
+      // A natural video end is the boundary at which a due schedule change applies.
+      const scheduled = this.applyScheduledPlaylist();
+      if (scheduled !== null) {
+        await this.loadSwitchedSource(this.config.playlists[scheduled]);
+        return;
+      }
+      // Check if we need to advance to next playlist. While a schedule block is
+      // active it owns the playlist choice, so let mpv loop it instead.
+      if (this.totalVideos > 0 && this.config.playlists.length > 1
+        && scheduledPlaylistIndex(this.config, new Date()) === null) {
         const currentState = this.state.get();
         if (currentState.videoIndex >= this.totalVideos - 1) {
           await this.advanceToNextPlaylist();
@@ -378,9 +637,22 @@ export class RecoveryEngine {
     }
   }
 
+  /** Count a failed play against the video, logging when it tips it onto the blacklist. */
+  private async recordBlacklistFailure(entry: CurrentEntry | null, videoIndex: number, videoId: string, fileError?: string) {
+    if (!this.blacklist) return;
+    const key = entry?.key || videoId;
+    const added = this.blacklist.recordFailure(key, fileError ?? 'unknown', entry?.title || undefined);
+    if (!added) return;
+    logger.warn({ videoId: key, failures: added.failures, skipUntil: added.skipUntil }, 'Video blacklisted');
+    this.addEvent('blacklistAdd', `Blacklisted video #${videoIndex} (${key}) after ${added.failures} failures — skipping until ${added.skipUntil}`, {
+      severity: 'warn', videoIndex, videoId: key,
+      detail: { failures: added.failures, lastError: added.lastError, skipUntil: added.skipUntil },
+    });
+  }
+
   private onProcessExit() {
     logger.warn('mpv process exited');
-    this.addEvent('mpv process exited');
+    this.addEvent('mpvExit', 'mpv process exited', { severity: 'warn' });
   }
 
   // --- Private: heartbeat polling ---
@@ -393,11 +665,20 @@ export class RecoveryEngine {
       // so isConnected() is true, but IPC queries hang and lastHeartbeatAt
       // never updates. This catches that case.
       const elapsed = Date.now() - this.lastHeartbeatAt;
-      if (elapsed > this.config.heartbeatTimeoutMs && this.recoveryStep === RecoveryStep.None) {
+      const heartbeatMode = this.config.detectors.heartbeat.mode;
+      if (elapsed > this.config.heartbeatTimeoutMs && heartbeatMode === 'detect' && !this.heartbeatTimeoutLogged) {
+        this.heartbeatTimeoutLogged = true;
+        this.logDetectOnly('heartbeatTimeout', `Heartbeat timeout (${Math.round(elapsed / 1000)}s)`, { elapsedMs: elapsed });
+      } else if (elapsed > this.config.heartbeatTimeoutMs && heartbeatMode === 'recover' && this.recoveryStep === RecoveryStep.None) {
         const mem = getSystemMemory();
         logger.warn({ elapsedMs: elapsed, systemMemory: mem }, 'Heartbeat timeout, starting recovery');
-        this.addEvent(`Heartbeat timeout (${Math.round(elapsed / 1000)}s), starting recovery (RAM: ${mem.usedGB}/${mem.totalGB}GB, ${mem.usedPercent}%)`);
+        const timeoutMsg = `Heartbeat timeout (${Math.round(elapsed / 1000)}s), starting recovery (RAM: ${mem.usedGB}/${mem.totalGB}GB, ${mem.usedPercent}%)`;
+        this.openIncident('heartbeat', timeoutMsg);
+        this.addEvent('heartbeatTimeout', timeoutMsg, {
+          severity: 'warn', detail: { elapsedMs: elapsed, systemMemory: mem },
+        });
         this.recoveryReason = 'heartbeat';
+        this.emit('recovery', 'heartbeat' satisfies RecoveryReason);
         this.startRecoverySequence();
         return;
       }
@@ -405,7 +686,9 @@ export class RecoveryEngine {
       try {
         const hb = await this.pollMpvState();
         this.lastHeartbeatAt = Date.now();
+        this.heartbeatTimeoutLogged = false;
         this.processHeartbeat(hb);
+        this.emit('heartbeat');
       } catch {
         // mpv may be restarting or unresponsive — timeout check above will catch it
       }
@@ -420,8 +703,10 @@ export class RecoveryEngine {
   }
 
   private async pollMpvState(): Promise<MpvHeartbeat> {
-    const [timePos, duration, paused, idle, playlistPos, playlistCount, mediaTitle, filename, videoParams, vfps, videoBitrate, audioBitrate] =
-      await Promise.all([
+    const [
+      timePos, duration, paused, idle, playlistPos, playlistCount, mediaTitle, filename, videoParams, vfps, videoBitrate, audioBitrate,
+      containerFps, frameDrops, decoderFrameDrops, avsync,
+    ] = await Promise.all([
         this.mpv.getProperty('time-pos').catch(() => 0),
         this.mpv.getProperty('duration').catch(() => 0),
         this.mpv.getProperty('pause').catch(() => false),
@@ -434,6 +719,10 @@ export class RecoveryEngine {
         this.mpv.getProperty('estimated-vf-fps').catch(() => 0),
         this.mpv.getProperty('video-bitrate').catch(() => null),
         this.mpv.getProperty('audio-bitrate').catch(() => null),
+        this.mpv.getProperty('container-fps').catch(() => 0),
+        this.mpv.getProperty('frame-drop-count').catch(() => null),
+        this.mpv.getProperty('decoder-frame-drop-count').catch(() => null),
+        this.mpv.getProperty('avsync').catch(() => null),
       ]);
     return {
       timePos: timePos as number,
@@ -449,6 +738,10 @@ export class RecoveryEngine {
       // -1 means "unknown" so the freeze check never trips on a missing reading.
       videoBitrate: typeof videoBitrate === 'number' ? videoBitrate : -1,
       audioBitrate: typeof audioBitrate === 'number' ? audioBitrate : -1,
+      containerFps: (containerFps as number) || 0,
+      frameDrops: typeof frameDrops === 'number' ? frameDrops : -1,
+      decoderFrameDrops: typeof decoderFrameDrops === 'number' ? decoderFrameDrops : -1,
+      avsync: typeof avsync === 'number' ? avsync : null,
     };
   }
 
@@ -469,11 +762,19 @@ export class RecoveryEngine {
     const isPlaying = !hb.paused && !hb.idle && hb.timePos > 0;
     const videoId = this.extractVideoId(hb.filename);
     const mediaTitle = this.sanitizeTitle(hb.mediaTitle);
+    this.playbackStats = {
+      vfps: hb.vfps, videoBitrate: hb.videoBitrate, audioBitrate: hb.audioBitrate, containerFps: hb.containerFps,
+      frameDrops: hb.frameDrops, decoderFrameDrops: hb.decoderFrameDrops,
+      dropPercent: this.measureDropPercent(hb),
+      avsyncMs: hb.avsync != null ? Math.round(hb.avsync * 1000) : null,
+    };
 
     this.trackPlaybackFlags(hb, isPlaying);
     this.resetCountersOnVideoChange(hb);
     this.detectStall(hb, isPlaying, videoId);
     this.detectVideoFreeze(hb, isPlaying, videoId);
+    this.detectAudioSilence(isPlaying);
+    this.detectPlaybackQuality(isPlaying, hb, videoId);
     this.maybeProactiveRefresh(hb, isPlaying, videoId);
     this.persistState(hb, isPlaying, videoId, mediaTitle);
     this.autoResumeIfPaused(hb);
@@ -487,7 +788,11 @@ export class RecoveryEngine {
       if (!this.videoConfirmed) {
         this.videoConfirmed = true;
         logger.info('Video confirmed rendering — playback is visible');
-        this.addEvent('Video confirmed rendering');
+        this.addEvent('videoConfirmed', 'Video confirmed rendering');
+        this.blacklistSkipStreak = 0;
+        this.currentEntry.then((entry) => {
+          if (entry) this.blacklist?.recordSuccess(entry.key);
+        });
       }
     }
     // Clear seekPending once playback is confirmed — prevents stale flag
@@ -520,24 +825,40 @@ export class RecoveryEngine {
 
   /** Stall detection: mpv claims to be playing but timePos isn't advancing. */
   private detectStall(hb: MpvHeartbeat, isPlaying: boolean, videoId: string) {
+    const { mode, heartbeats } = this.config.detectors.stall;
     if (isPlaying) {
       if (Math.abs(hb.timePos - this.lastProgressTime) < 1) {
         this.stalledHeartbeats++;
-        if (this.stalledHeartbeats >= RecoveryEngine.STALL_THRESHOLD && this.recoveryStep === RecoveryStep.None) {
+        if (mode === 'detect' && this.stalledHeartbeats === heartbeats) {
+          this.logDetectOnly('stall', `Player stalled at ${Math.floor(hb.timePos)}s on video #${hb.playlistPos} (${videoId}) — no progress for ${heartbeats} heartbeats`, {
+            timePos: hb.timePos, stalledHeartbeats: this.stalledHeartbeats,
+          });
+        } else if (mode === 'recover' && this.stalledHeartbeats >= heartbeats && this.recoveryStep === RecoveryStep.None) {
           const mem = getSystemMemory();
           const stallMsg = `Player stalled at ${Math.floor(hb.timePos)}s on video #${hb.playlistPos} (${videoId}) — no progress for ${this.stalledHeartbeats} heartbeats (RAM: ${mem.usedGB}/${mem.totalGB}GB, ${mem.usedPercent}%)`;
           logger.warn({ timePos: hb.timePos, stalledHeartbeats: this.stalledHeartbeats, playlistPos: hb.playlistPos, videoId, systemMemory: mem }, 'Player stalled — video not advancing');
-          this.addEvent(stallMsg);
-          this.discord.notifyRecovery('Stall detected');
+          this.openIncident('stall', stallMsg);
+          this.addEvent('stall', stallMsg, {
+            severity: 'warn', videoIndex: hb.playlistPos, videoId,
+            detail: { timePos: hb.timePos, stalledHeartbeats: this.stalledHeartbeats, systemMemory: mem },
+          });
+          this.notifier.notifyRecovery('Stall detected');
           this.recoveryReason = 'stall';
+          this.emit('recovery', 'stall' satisfies RecoveryReason);
           this.startRecoverySequence();
         }
       } else {
         this.stalledHeartbeats = 0;
         this.lastProgressTime = hb.timePos;
-        // Don't cancel recovery if video freeze is still active —
-        // audio advancing doesn't mean the freeze resolved
-        if (this.videoFreezeHeartbeats < RecoveryEngine.VIDEO_FREEZE_THRESHOLD) {
+        this.breaker?.recordHealthy();
+        // Healthy long enough at a lower quality: step back up and reload in
+        // place (retryCurrentAtPosition sets the new format before reloading)
+        if (this.recoveryStep === RecoveryStep.None && !this.isNearEndOfFile(hb) && this.quality?.recordHealthy()) {
+          void this.retryCurrentAtPosition(hb.timePos);
+        }
+        // Don't cancel recovery if video freeze, audio silence or stutter is
+        // still active — time advancing doesn't mean any of them resolved
+        if (this.videoFreezeHeartbeats < this.config.detectors.videoFreeze.heartbeats && !this.symptomPersists()) {
           this.resetRecovery();
         }
       }
@@ -561,14 +882,24 @@ export class RecoveryEngine {
    * while audio-bitrate keeps flowing.
    */
   private detectVideoFreeze(hb: MpvHeartbeat, isPlaying: boolean, videoId: string) {
+    const { mode, heartbeats, frozenBitrate } = this.config.detectors.videoFreeze;
+    if (mode === 'off') {
+      this.videoFreezeHeartbeats = 0;
+      return;
+    }
     const nearEndOfFile = this.isNearEndOfFile(hb);
     const videoFramesStalled = hb.vfps < 1;
-    const videoBytesStalled = hb.videoBitrate >= 0 && hb.videoBitrate < RecoveryEngine.FROZEN_VIDEO_BITRATE;
+    const videoBytesStalled = hb.videoBitrate >= 0 && hb.videoBitrate < frozenBitrate;
     const videoStalled = videoFramesStalled || videoBytesStalled;
 
     if (isPlaying && this.videoConfirmed && videoStalled && !nearEndOfFile) {
       this.videoFreezeHeartbeats++;
-      if (this.videoFreezeHeartbeats >= RecoveryEngine.VIDEO_FREEZE_THRESHOLD && this.recoveryStep === RecoveryStep.None) {
+      if (mode === 'detect' && this.videoFreezeHeartbeats >= heartbeats) {
+        this.logDetectOnly('videoFreeze', `Video freeze at ${Math.floor(hb.timePos)}s — audio playing but video stalled`, {
+          vfps: hb.vfps, videoBitrate: hb.videoBitrate, audioBitrate: hb.audioBitrate, playlistPos: hb.playlistPos, videoId,
+        });
+        this.videoFreezeHeartbeats = 0; // require a fresh window before logging again
+      } else if (mode === 'recover' && this.videoFreezeHeartbeats >= heartbeats && this.recoveryStep === RecoveryStep.None) {
         this.handleVideoFreeze(hb.timePos, 'Video freeze', {
           vfps: hb.vfps, videoBitrate: hb.videoBitrate, audioBitrate: hb.audioBitrate,
           videoFreezeHeartbeats: this.videoFreezeHeartbeats, playlistPos: hb.playlistPos, videoId,
@@ -592,27 +923,148 @@ export class RecoveryEngine {
    */
   private maybeProactiveRefresh(hb: MpvHeartbeat, isPlaying: boolean, videoId: string) {
     if (this.config.proactiveUrlRefreshMs > 0
+      && sourceUrlsExpire(this.activeSource())
       && isPlaying && this.videoConfirmed && !hb.paused
       && !this.intentionallyStopped && this.recoveryStep === RecoveryStep.None
       && !this.isNearEndOfFile(hb)
       && performance.now() - this.urlResolvedAt >= this.config.proactiveUrlRefreshMs) {
       const ageMin = Math.round((performance.now() - this.urlResolvedAt) / 60000);
       logger.info({ ageMin, timePos: hb.timePos, playlistPos: hb.playlistPos, videoId }, 'Proactive signed-URL refresh before TTL expiry');
-      this.addEvent(`Proactive URL refresh at ${Math.floor(hb.timePos)}s (URL ~${ageMin}min old) — pre-empting signed-URL expiry`);
+      this.addEvent('proactiveRefresh', `Proactive URL refresh at ${Math.floor(hb.timePos)}s (URL ~${ageMin}min old) — pre-empting signed-URL expiry`, {
+        videoIndex: hb.playlistPos, videoId, detail: { timePos: hb.timePos, urlAgeMin: ageMin },
+      });
       // Stamp now so we don't re-fire on the next heartbeat while the reload is
       // in flight; the resulting file-loaded resets it to the precise moment.
       this.urlResolvedAt = performance.now();
+      this.emit('recovery', 'proactiveRefresh' satisfies RecoveryReason);
       this.retryCurrentAtPosition(hb.timePos);
     }
   }
 
+  /**
+   * Audio silence: the picture is fine but nothing is heard — mpv's audio
+   * device changed, or the OBS source got muted. OBSClient meters the watched
+   * input (or the loudest unmuted one if it has no audio); quiet for `graceMs`
+   * trips, so quiet passages don't, while a muted or zero-volume input trips
+   * at once. Only watched during confirmed playback, and the grace starts over
+   * with each stretch of it (e.g. after an mpv restart).
+   */
+  private detectAudioSilence(isPlaying: boolean) {
+    const { mode, graceMs, thresholdDb } = this.config.detectors.audioSilence;
+    const levels = this.obs.getAudioLevels();
+    if (mode === 'off' || !isPlaying || !this.videoConfirmed || !this.obs.isConnected() || levels.programDb === null) {
+      this.audioWatchSince = null;
+      this.audioSilent = false;
+      return;
+    }
+    const now = Date.now();
+    this.audioWatchSince ??= now;
+    const quietForMs = now - Math.max(this.audioWatchSince, levels.lastAudibleAt ? Date.parse(levels.lastAudibleAt) : 0);
+    const muted = levels.inputMuted === true || levels.inputVolumeMul === 0;
+    if (!muted && quietForMs < graceMs) {
+      this.audioSilent = false;
+      return;
+    }
+    if (this.audioSilent) return;
+
+    const message = muted
+      ? `Audio lost — OBS input "${levels.inputName}" is ${levels.inputMuted ? 'muted' : 'at zero volume'}`
+      : `Audio silent for ${formatDuration(quietForMs)} — ${levels.inputDb !== null ? `OBS input "${levels.inputName}"` : 'program mix'} below ${thresholdDb} dB`;
+    const detail = {
+      inputName: levels.inputName, inputDb: levels.inputDb, programDb: levels.programDb,
+      inputMuted: levels.inputMuted, inputVolumeMul: levels.inputVolumeMul, quietForMs,
+    };
+    if (mode === 'detect') {
+      this.audioSilent = true;
+      this.logDetectOnly('audioSilence', message, detail);
+      return;
+    }
+    if (this.recoveryStep !== RecoveryStep.None) return; // trips once the other recovery ends
+    this.audioSilent = true;
+    logger.warn(detail, 'Audio silence — entering recovery');
+    this.openIncident('audioSilence', message);
+    this.addEvent('audioSilence', message, { severity: 'warn', detail });
+    this.notifier.notifyRecovery('Audio silence detected');
+    this.recoveryReason = 'audioSilence';
+    this.emit('recovery', 'audioSilence' satisfies RecoveryReason);
+    this.startRecoverySequence();
+  }
+
+  /**
+   * Frames mpv dropped (at the output and in the decoder) since the last
+   * heartbeat, as a percentage of the frames due while time-pos advanced.
+   * Null when mpv can't tell, or across a seek or file change.
+   */
+  private measureDropPercent(hb: MpvHeartbeat): number | null {
+    const known = hb.frameDrops >= 0 || hb.decoderFrameDrops >= 0;
+    const dropped = Math.max(0, hb.frameDrops) + Math.max(0, hb.decoderFrameDrops);
+    const previous = this.lastDropSample;
+    this.lastDropSample = known ? { dropped, timePos: hb.timePos } : null;
+    if (!previous || !known || !(hb.containerFps > 0)) return null;
+    const elapsed = hb.timePos - previous.timePos;
+    // Counters restart with each file; a jump in time-pos is a seek
+    if (dropped < previous.dropped || elapsed <= 0 || elapsed > (this.config.heartbeatIntervalMs / 1000) * 3) return null;
+    return Math.min(100, Math.round(((dropped - previous.dropped) / (elapsed * hb.containerFps)) * 1000) / 10);
+  }
+
+  /**
+   * Stutter: playback keeps going but mpv drops a share of its frames (a
+   * decoder the box can't keep up with) or audio and video drift apart. Trips
+   * after `heartbeats` degraded heartbeats in a row; the ladder's in-place
+   * reload usually clears it.
+   */
+  private detectPlaybackQuality(isPlaying: boolean, hb: MpvHeartbeat, videoId: string) {
+    const { mode, maxDropPercent, maxAvsyncMs, heartbeats } = this.config.detectors.playbackQuality;
+    const dropPercent = this.playbackStats?.dropPercent ?? null;
+    const avsyncMs = this.playbackStats?.avsyncMs ?? null;
+    const dropping = dropPercent !== null && dropPercent >= maxDropPercent;
+    const desynced = avsyncMs !== null && Math.abs(avsyncMs) >= maxAvsyncMs;
+    if (mode === 'off' || !isPlaying || !this.videoConfirmed || !(dropping || desynced)) {
+      this.degradedHeartbeats = 0;
+      this.playbackDegraded = false;
+      return;
+    }
+    this.degradedHeartbeats++;
+    if (this.playbackDegraded || this.degradedHeartbeats < heartbeats) return;
+
+    const symptoms = [
+      dropping && `${dropPercent}% of frames dropped`,
+      desynced && `A/V out of sync by ${avsyncMs} ms`,
+    ].filter(Boolean).join(', ');
+    const message = `Playback degraded on video #${hb.playlistPos} (${videoId}) — ${symptoms} for ${this.degradedHeartbeats} heartbeats`;
+    const detail = { dropPercent, avsyncMs, vfps: hb.vfps, containerFps: hb.containerFps, degradedHeartbeats: this.degradedHeartbeats };
+    if (mode === 'detect') {
+      this.playbackDegraded = true;
+      this.logDetectOnly('playbackQuality', message, detail);
+      return;
+    }
+    if (this.recoveryStep !== RecoveryStep.None) return;
+    this.playbackDegraded = true;
+    logger.warn({ ...detail, playlistPos: hb.playlistPos, videoId }, 'Playback degraded — entering recovery');
+    this.openIncident('playbackQuality', message);
+    this.addEvent('playbackQuality', message, { severity: 'warn', videoIndex: hb.playlistPos, videoId, detail });
+    this.notifier.notifyRecovery('Dropped frames / A/V desync');
+    this.recoveryReason = 'playbackQuality';
+    this.emit('recovery', 'playbackQuality' satisfies RecoveryReason);
+    // The sequence's RetryCurrent reload applies a stepped-down format first
+    void this.recordQualityTrouble('dropped frames / A/V desync');
+    this.startRecoverySequence();
+  }
+
+  /** Audio silence or stutter tripped recovery and hasn't cleared; playback progressing doesn't end either. */
+  private symptomPersists(): boolean {
+    const { audioSilence, playbackQuality } = this.config.detectors;
+    return (this.audioSilent && audioSilence.mode === 'recover')
+      || (this.playbackDegraded && playbackQuality.mode === 'recover');
+  }
+
   /**
    * Only write state when video is making progress and not in recovery
    * (during recovery, mpv may temporarily report playlistPos=0 which
    * would overwrite the correct resume position).
    */
   private persistState(hb: MpvHeartbeat, isPlaying: boolean, videoId: string, mediaTitle: string) {
-    if (this.stalledHeartbeats < RecoveryEngine.STALL_THRESHOLD && this.recoveryStep === RecoveryStep.None) {
+    if (this.stalledHeartbeats < this.config.detectors.stall.heartbeats && this.recoveryStep === RecoveryStep.None) {
       const update: Record<string, unknown> = {
         videoIndex: hb.playlistPos,
         videoId,
@@ -632,7 +1084,7 @@ export class RecoveryEngine {
       this.consecutivePausedHeartbeats++;
       if (this.consecutivePausedHeartbeats >= 2) {
         logger.info('Video paused, auto-resuming');
-        this.addEvent('Video paused — auto-resuming');
+        this.addEvent('playbackControl', 'Video paused — auto-resuming', { detail: { action: 'autoResume' } });
         this.mpv.play().catch(() => {});
         this.consecutivePausedHeartbeats = 0;
       }
@@ -643,7 +1095,8 @@ export class RecoveryEngine {
 
   /** Non-playing detection: mpv is connected but stuck in idle/buffering. */
   private detectNonPlaying(hb: MpvHeartbeat, isPlaying: boolean, videoId: string) {
-    if (isPlaying || hb.paused) {
+    const { mode, heartbeats } = this.config.detectors.nonPlaying;
+    if (isPlaying || hb.paused || mode === 'off') {
       this.nonPlayingHeartbeats = 0;
     } else if (this.totalVideos > 0) {
       this.nonPlayingHeartbeats++;
@@ -660,18 +1113,29 @@ export class RecoveryEngine {
         (Date.now() - this.mpvConnectedAt) < this.config.initialLoadGraceMs;
       if (inStartupGrace) {
         // Log once so the dashboard shows the hold-off is deliberate, not a hang.
-        if (!this.startupGraceLogged && this.nonPlayingHeartbeats >= RecoveryEngine.NON_PLAYING_THRESHOLD) {
+        if (!this.startupGraceLogged && this.nonPlayingHeartbeats >= heartbeats) {
           const graceS = Math.round(this.config.initialLoadGraceMs / 1000);
           logger.info({ heartbeats: this.nonPlayingHeartbeats, graceMs: this.config.initialLoadGraceMs, playlistPos: hb.playlistPos }, 'Still loading — holding off non-playing recovery during startup grace');
-          this.addEvent(`Still loading playlist/video — holding off recovery during startup grace (up to ${graceS}s)`);
+          this.addEvent('startupGrace', `Still loading playlist/video — holding off recovery during startup grace (up to ${graceS}s)`, {
+            detail: { graceMs: this.config.initialLoadGraceMs },
+          });
           this.startupGraceLogged = true;
         }
-      } else if (this.nonPlayingHeartbeats >= RecoveryEngine.NON_PLAYING_THRESHOLD && this.recoveryStep === RecoveryStep.None) {
+      } else if (mode === 'detect' && this.nonPlayingHeartbeats === heartbeats) {
+        this.logDetectOnly('nonPlaying', `Player not playing for ${heartbeats} heartbeats on video #${hb.playlistPos} (${videoId})`, {
+          paused: hb.paused, idle: hb.idle, heartbeats: this.nonPlayingHeartbeats,
+        });
+      } else if (mode === 'recover' && this.nonPlayingHeartbeats >= heartbeats && this.recoveryStep === RecoveryStep.None) {
         const npMsg = `Player not playing for ${this.nonPlayingHeartbeats} heartbeats on video #${hb.playlistPos} (${videoId})`;
         logger.warn({ paused: hb.paused, idle: hb.idle, heartbeats: this.nonPlayingHeartbeats, playlistPos: hb.playlistPos, videoId }, 'Player stuck in non-playing state');
-        this.addEvent(npMsg);
-        this.discord.notifyRecovery('Non-playing recovery');
-        this.recoveryReason = 'non-playing';
+        this.openIncident('nonPlaying', npMsg);
+        this.addEvent('nonPlaying', npMsg, {
+          severity: 'warn', videoIndex: hb.playlistPos, videoId,
+          detail: { paused: hb.paused, idle: hb.idle, heartbeats: this.nonPlayingHeartbeats },
+        });
+        this.notifier.notifyRecovery('Non-playing recovery');
+        this.recoveryReason = 'nonPlaying';
+        this.emit('recovery', 'nonPlaying' satisfies RecoveryReason);
         this.startRecoverySequence();
       }
     }
@@ -738,6 +1202,7 @@ export class RecoveryEngine {
   private async retryCurrentAtPosition(seekSeconds: number): Promise<void> {
     const pos = this.state.get().videoIndex;
     const secs = Math.floor(Math.max(0, seekSeconds));
+    await this.applyQualityFormat();
     // Order matters: the start position must be registered before the reload
     // triggers yt-dlp re-resolution, or the seek silently won't apply.
     try { await this.mpv.setProperty('start', `+${secs}`); } catch { /* ignore */ }
@@ -752,27 +1217,70 @@ export class RecoveryEngine {
     }, 30_000);
   }
 
+  /**
+   * A video freeze, stutter trip or 403 counts towards stepping the quality
+   * ladder down. A new format is set right away, so the next video picks it up
+   * too; every reload path also awaits applyQualityFormat before reloading.
+   */
+  private async recordQualityTrouble(cause: string): Promise<void> {
+    if (this.quality?.recordTrouble(cause)) await this.applyQualityFormat();
+  }
+
+  /**
+   * Set mpv's ytdl-format to the ladder's current rung if it isn't already;
+   * it takes effect on the next load. Never rejects.
+   */
+  private async applyQualityFormat(): Promise<void> {
+    if (!this.quality || this.quality.format === this.appliedFormat) return;
+    const format = this.quality.format;
+    // A step down and the reload right behind it share one set
+    if (this.pendingFormat?.format !== format) {
+      const done = this.mpv.setProperty('ytdl-format', format).then(
+        () => { this.appliedFormat = format; },
+        (err) => logger.warn({ err, format }, 'Failed to set ytdl-format'),
+      ).finally(() => {
+        if (this.pendingFormat?.done === done) this.pendingFormat = null;
+      });
+      this.pendingFormat = { format, done };
+    }
+    await this.pendingFormat!.done;
+  }
+
   /** Shared freeze-recovery path for both the bitrate/vfps detector and the
-   *  screenshot detector. Spends the in-place URL-retry budget first, then
+   *  screenshot detectors. Spends the in-place URL-retry budget first, then
    *  escalates to the standard recovery sequence. No-op if already recovering. */
-  private handleVideoFreeze(seekSeconds: number, label: 'Video freeze' | 'Output freeze', detail: Record<string, unknown>) {
+  private handleVideoFreeze(seekSeconds: number, label: 'Video freeze' | 'Output freeze' | 'Black screen', detail: Record<string, unknown>) {
     if (this.recoveryStep !== RecoveryStep.None) return;
     const mem = getSystemMemory();
     const pos = Math.floor(seekSeconds);
     // The bitrate/vfps detector sees audio advancing while video bytes stall;
-    // the screenshot detector sees a frozen picture without knowing the audio state.
-    const symptom = label === 'Output freeze' ? 'streamed picture frozen' : 'audio playing but video stalled';
-    if (this.videoFreezeRetryCount < RecoveryEngine.MAX_VIDEO_FREEZE_RETRIES) {
+    // the screenshot detectors see a frozen or blank picture without knowing the audio state.
+    const symptom = FREEZE_SYMPTOMS[label];
+    const type = label === 'Output freeze' ? 'outputFreeze' : label === 'Black screen' ? 'blackScreen' : 'videoFreeze';
+    this.emit('recovery', type satisfies RecoveryReason);
+    // Output freezes and black screens are as likely OBS's doing as the connection's
+    if (label === 'Video freeze') void this.recordQualityTrouble('video freeze');
+    const maxRetries = this.config.detectors.videoFreeze.maxRetries;
+    if (this.videoFreezeRetryCount < maxRetries) {
       this.videoFreezeRetryCount++;
       logger.warn({ ...detail, timePos: seekSeconds, attempt: this.videoFreezeRetryCount, systemMemory: mem }, `${label} — retrying URL in place`);
-      this.addEvent(`${label} at ${pos}s — ${symptom} — URL retry in place (attempt ${this.videoFreezeRetryCount}/${RecoveryEngine.MAX_VIDEO_FREEZE_RETRIES})`);
-      this.discord.notifyRecovery(`${label} — URL retry`);
+      const freezeMsg = `${label} at ${pos}s — ${symptom} — URL retry in place (attempt ${this.videoFreezeRetryCount}/${maxRetries})`;
+      this.openIncident(type, freezeMsg);
+      this.addEvent(type, freezeMsg, {
+        severity: 'warn', detail: { ...detail, timePos: seekSeconds, attempt: this.videoFreezeRetryCount },
+      });
+      this.recordIncidentAction('urlRetry');
+      this.notifier.notifyRecovery(`${label} — URL retry`);
       this.videoFreezeHeartbeats = 0; // cooldown: require a fresh window before re-firing
       this.retryCurrentAtPosition(seekSeconds);
     } else {
       logger.warn({ ...detail, timePos: seekSeconds, systemMemory: mem }, `${label} URL retries exhausted — escalating to recovery sequence`);
-      this.addEvent(`${label} retries exhausted — escalating recovery`);
-      this.recoveryReason = 'stall';
+      const exhaustedMsg = `${label} retries exhausted — escalating recovery`;
+      this.openIncident(type, exhaustedMsg);
+      this.addEvent(type, exhaustedMsg, {
+        severity: 'warn', detail: { ...detail, timePos: seekSeconds, exhausted: true },
+      });
+      this.recoveryReason = type;
       this.startRecoverySequence();
     }
   }
@@ -782,7 +1290,8 @@ export class RecoveryEngine {
   private startFrameMonitor() {
     this.frameMonitor?.stop();
     this.frameMonitor = null;
-    if (!this.config.outputCheckEnabled) {
+    const { outputFreeze, blackScreen } = this.config.detectors;
+    if (!this.config.outputCheckEnabled || (outputFreeze.mode === 'off' && blackScreen.mode === 'off')) {
       logger.info('Output freeze monitor disabled by config');
       return;
     }
@@ -791,9 +1300,17 @@ export class RecoveryEngine {
       captureFrame: () => this.obs.getSourceScreenshot(),
       shouldCapture: () => this.canCheckOutput(),
       onFreeze: () => this.onOutputFreeze(),
+      onBlack: () => this.onBlackScreen(),
       onSuspect: () => logger.debug('Output appears static — confirming with a second screenshot'),
       onFalseAlarm: () => logger.info({ windowMs: this.config.outputFreezeWindowMs }, 'Output freeze suspected but confirmation frame changed — false alarm'),
       getWindowMs: () => this.config.outputFreezeWindowMs,
+      getAnalysis: () => ({
+        hashDistance: this.config.detectors.outputFreeze.hashDistance,
+        detectBlack: this.config.detectors.blackScreen.mode !== 'off',
+        maxLuma: this.config.detectors.blackScreen.maxLuma,
+        maxStdDev: this.config.detectors.blackScreen.maxStdDev,
+        ignoreRegion: this.config.outputIgnoreRegion,
+      }),
     });
     this.frameMonitor.start();
   }
@@ -810,30 +1327,201 @@ export class RecoveryEngine {
 
   private onOutputFreeze() {
     if (!this.canCheckOutput()) return; // re-check at fire time
+    const { mode } = this.config.detectors.outputFreeze;
+    if (mode === 'off') return; // monitor running for black-screen checks only
+    // mpv decoding frames that carry next to no data is a genuinely static
+    // video (a still slide, a paused visualizer): the picture is meant to hold.
+    const stats = this.playbackStats;
+    if (stats && stats.vfps >= 1 && stats.videoBitrate >= 0 && stats.videoBitrate < this.config.detectors.videoFreeze.frozenBitrate) {
+      logger.info({ vfps: stats.vfps, videoBitrate: stats.videoBitrate }, 'Output static but the video itself is a still picture — not a freeze');
+      return;
+    }
+    if (mode === 'detect') {
+      this.logDetectOnly('outputFreeze', `Output freeze at ${Math.floor(this.lastTimePos)}s — streamed picture frozen`, {
+        detectedBy: 'screenshot', playlistPos: this.lastSeenVideoIndex,
+      });
+      return;
+    }
     logger.debug('Output freeze confirmed by screenshot — entering recovery');
     this.handleVideoFreeze(this.lastTimePos, 'Output freeze', {
       detectedBy: 'screenshot', playlistPos: this.lastSeenVideoIndex,
     });
   }
 
+  private onBlackScreen() {
+    if (!this.canCheckOutput()) return; // re-check at fire time
+    const detail = { detectedBy: 'screenshot', playlistPos: this.lastSeenVideoIndex };
+    if (this.config.detectors.blackScreen.mode === 'detect') {
+      this.logDetectOnly('blackScreen', `Black screen at ${Math.floor(this.lastTimePos)}s — ${FREEZE_SYMPTOMS['Black screen']}`, detail);
+      return;
+    }
+    logger.debug('Black screen confirmed by screenshot — entering recovery');
+    this.handleVideoFreeze(this.lastTimePos, 'Black screen', detail);
+  }
+
   // --- Private: playlist advancement ---
 
   private async advanceToNextPlaylist() {
     const current = this.state.get();
     const next = (current.playlistIndex + 1) % this.config.playlists.length;
-    const playlist = this.config.playlists[next];
-    this.addEvent(`Playlist finished. Advancing to ${next + 1}/${this.config.playlists.length}: ${playlist.name || playlist.id}`);
+    this.addEvent('playlistAdvance', `Playlist finished. Advancing to ${next + 1}/${this.config.playlists.length}: ${this.playlistLabel(next)}`, {
+      detail: { from: current.playlistIndex, to: next },
+    });
     this.state.update({ playlistIndex: next, videoIndex: 0, videoId: '', currentTime: 0 });
     this.state.flush();
-    this.totalVideos = 0;
+    await this.loadSwitchedSource(this.config.playlists[next]);
+  }
 
-    const url = `https://www.youtube.com/playlist?list=${playlist.id}`;
-    try { await this.mpv.loadPlaylist(url); } catch { /* ignore */ }
+  /** Load `playlist` from the top after a switch (advance, schedule or
+   *  fallback) has already been written to state. */
+  private async loadSwitchedSource(playlist: PlaylistEntry) {
+    this.totalVideos = 0;
+    try {
+      await this.mpv.loadPlaylist(await playlistLoadTarget(playlist));
+    } catch (err) {
+      logger.error({ err, playlistId: playlist.id }, 'Failed to load playlist');
+    }
     this.consecutiveErrors = 0;
     this.stalledHeartbeats = 0;
     this.nonPlayingHeartbeats = 0;
   }
 
+  private playlistLabel(index: number): string {
+    const playlist = this.config.playlists[index];
+    return playlist.name || playlist.id;
+  }
+
+  // --- Private: scheduled programming ---
+
+  /** If the schedule wants a different playlist than the one in state, point
+   *  state at the top of it and announce the change. Returns the new playlist
+   *  index if it switched, else null; the caller decides how to (re)load mpv. */
+  private applyScheduledPlaylist(): number | null {
+    const target = scheduledPlaylistIndex(this.config, new Date());
+    const current = this.currentPlaylistIndex();
+    if (target === null || target === current) return null;
+    const playlist = this.playlistLabel(target);
+    const previous = this.playlistLabel(current);
+    logger.info({ from: current, to: target }, 'Scheduled playlist change');
+    this.addEvent('scheduleSwitch', `Scheduled switch: ${previous} → ${playlist}`, { detail: { from: current, to: target } });
+    this.notifier.notifyScheduleSwitch(playlist, previous);
+    this.state.update({ playlistIndex: target, videoIndex: 0, videoId: '', videoTitle: '', currentTime: 0 });
+    this.state.flush();
+    return target;
+  }
+
+  // --- Private: fallback source ---
+
+  /** Record a skip/critical in `times` and report whether `max` of them now
+   *  fall within the fallback window. Always false while the fallback is
+   *  disabled, already active, or `max` is 0. */
+  private recordFallbackTrigger(times: number[], max: number): boolean {
+    const fallback = this.config.fallback;
+    if (!fallback.enabled || !fallback.source || this.fallbackActive || max <= 0) return false;
+    const now = Date.now();
+    times.push(now);
+    while (times.length > 0 && now - times[0] > fallback.windowMs) times.shift();
+    return times.length >= max;
+  }
+
+  private fallbackWindowLabel(): string {
+    return `${Math.round(this.config.fallback.windowMs / 60000)} min`;
+  }
+
+  private fallbackLabel(): string {
+    const source = this.config.fallback.source!;
+    return source.name || source.id;
+  }
+
+  private async enterFallback(reason: string) {
+    const primary = this.playlistLabel(this.currentPlaylistIndex());
+    const fallback = this.fallbackLabel();
+    const { videoIndex, videoId, videoTitle, currentTime, videoDuration } = this.state.get();
+    this.primaryResume = { videoIndex, videoId, videoTitle, currentTime, videoDuration };
+    this.fallbackActive = true;
+    this.fallbackSkipTimes = [];
+    this.fallbackCriticalTimes = [];
+    logger.warn({ reason, primary, fallback }, 'Primary source failing — switching to fallback');
+    this.addEvent('fallbackActivate', `${primary} keeps failing (${reason}) — switching to fallback ${fallback}`, {
+      severity: 'warn', detail: { reason, fallbackId: this.config.fallback.source!.id },
+    });
+    this.notifier.notifyFallbackActivate(primary, fallback, reason);
+    this.recordIncidentAction('fallback');
+    this.state.update({ videoIndex: 0, videoId: '', videoTitle: '', currentTime: 0, videoDuration: 0 });
+    this.state.flush();
+    await this.loadSwitchedSource(this.config.fallback.source!);
+    this.startFallbackProbe();
+  }
+
+  /**
+   * Load the primary at its resume position. The switch only sticks once mpv
+   * has the primary loaded: if the load fails, the fallback's position is put
+   * back and probing carries on.
+   */
+  private async exitFallback() {
+    const primary = this.playlistLabel(this.currentPlaylistIndex());
+    const fallback = this.fallbackLabel();
+    const { videoIndex, videoId, videoTitle, currentTime, videoDuration } = this.state.get();
+    const fallbackPosition = { videoIndex, videoId, videoTitle, currentTime, videoDuration };
+    logger.info({ primary, fallback }, 'Primary source resolving again — leaving fallback');
+    // loadCurrentPlaylist picks the primary (and its resume position) only once fallback is off
+    this.fallbackActive = false;
+    if (this.primaryResume) this.state.update(this.primaryResume);
+    let loaded = false;
+    try {
+      loaded = await this.loadCurrentPlaylist();
+    } catch (err) {
+      logger.error({ err, primary }, 'Failed to load primary source');
+    }
+    if (!loaded) {
+      this.fallbackActive = true;
+      this.state.update(fallbackPosition);
+      logger.warn({ primary, fallback }, 'Primary source failed to load — staying on fallback');
+      return;
+    }
+    this.stopFallbackProbe();
+    this.primaryResume = null;
+    this.state.flush();
+    this.totalVideos = 0;
+    this.consecutiveErrors = 0;
+    this.addEvent('fallbackRestore', `${primary} is resolving again — switching back from fallback ${fallback}`, {
+      detail: { fallbackId: this.config.fallback.source!.id },
+    });
+    this.notifier.notifyFallbackRestore(primary, fallback);
+  }
+
+  private startFallbackProbe() {
+    this.stopFallbackProbe();
+    this.fallbackProbeTimer = setInterval(() => void this.probePrimary(), this.config.fallback.probeIntervalMs);
+  }
+
+  private stopFallbackProbe() {
+    if (this.fallbackProbeTimer) {
+      clearInterval(this.fallbackProbeTimer);
+      this.fallbackProbeTimer = null;
+    }
+  }
+
+  private async probePrimary() {
+    // A yt-dlp resolve can outlast the probe interval; never stack them.
+    if (!this.fallbackActive || this.fallbackProbeInFlight) return;
+    this.fallbackProbeInFlight = true;
+    try {
+      const playlist = this.config.playlists[this.currentPlaylistIndex()];
+      const ok = await this.probe(playlist, this.primaryResume?.videoIndex ?? 0);
+      if (!this.fallbackActive) return;
+      if (ok) {
+        await this.exitFallback();
+      } else {
+        logger.info({ playlistId: playlist.id }, 'Primary source still failing — staying on fallback');
+      }
+    } catch (err) {
+      logger.error({ err }, 'Primary source probe failed — staying on fallback');
+    } finally {
+      this.fallbackProbeInFlight = false;
+    }
+  }
+
   // --- Private: periodic mpv restart ---
 
   private startPeriodicRestartTimer() {
@@ -845,9 +1533,14 @@ export class RecoveryEngine {
     this.periodicRestartTimer = setInterval(async () => {
       if (this.recoveryStep !== RecoveryStep.None) return;
       if (!this.mpv.isConnected()) return;
+      // Not during a restart storm; periodic restarts don't count towards one
+      if (this.breaker?.tripped) return;
       const mem = getSystemMemory();
       logger.info({ systemMemory: mem }, 'Periodic mpv restart');
-      this.addEvent(`Periodic mpv restart (RAM: ${mem.usedGB}/${mem.totalGB}GB, ${mem.usedPercent}%)`);
+      this.addEvent('periodicRestart', `Periodic mpv restart (RAM: ${mem.usedGB}/${mem.totalGB}GB, ${mem.usedPercent}%)`, {
+        detail: { systemMemory: mem },
+      });
+      this.emit('mpvRestart', 'periodic');
       try {
         await this.mpv.restart();
         // onMpvConnect will call loadCurrentPlaylist
@@ -866,15 +1559,36 @@ export class RecoveryEngine {
 
   // --- Private: recovery escalation ---
 
+  /** Run the ladder configured for the current reason from its first step. */
   private async startRecoverySequence() {
-    await this.executeStep(RecoveryStep.RetryCurrent);
+    const ladders = this.config.recoveryLadder;
+    this.ladder = (this.recoveryReason && ladders[this.recoveryReason]) || ladders.default;
+    await this.runLadderStep(0, 1);
   }
 
-  private async executeStep(step: RecoveryStep) {
-    this.recoveryStep = step;
-    logger.info({ step }, 'Executing recovery step');
-    this.addEvent(`Recovery step: ${step}`);
-    await this.discord.notifyRecovery(step);
+  private async runLadderStep(index: number, attempt: number) {
+    this.ladderIndex = index;
+    this.ladderAttempt = attempt;
+    const step = this.ladder[index];
+    if (step.action === RecoveryStep.RestartMpv && this.breaker && !this.breaker.tryRestart()) {
+      this.holdForBreaker(index, attempt);
+      return;
+    }
+    await this.executeStep(step, attempt);
+    // Playback recovered mid-step, or the fallback took over
+    if (this.recoveryStep === RecoveryStep.None) return;
+    this.scheduleNextStep(step.delayMs ?? this.config.recoveryDelayMs);
+  }
+
+  private async executeStep({ action: step, attempts }: RecoveryLadderStep, attempt: number) {
+    this.setRecoveryStep(step);
+    logger.info({ step, attempt, attempts }, 'Executing recovery step');
+    this.addEvent('recoveryStep', `Recovery step: ${step}${attempts > 1 ? ` (attempt ${attempt}/${attempts})` : ''}`, {
+      severity: step === RecoveryStep.CriticalAlert ? 'error' : 'warn',
+      detail: { step, reason: this.recoveryReason, ladderStep: this.ladderIndex + 1, attempt },
+    });
+    this.recordIncidentAction(step as IncidentAction);
+    await this.notifier.notifyRecovery(step);
 
     switch (step) {
       case RecoveryStep.RetryCurrent: {
@@ -884,44 +1598,90 @@ export class RecoveryEngine {
         // so RetryCurrent did nothing and always burned through to RestartMpv
         // (a full mpv restart = black screen). reloadIndex re-resolves the URL
         // in place, giving this step a real chance to fix things first.
+        await this.applyQualityFormat();
         try { await this.mpv.reloadIndex(pos); } catch { /* may fail */ }
-        this.scheduleNextStep(RecoveryStep.RestartMpv, this.config.recoveryDelayMs);
         break;
       }
 
+      case RecoveryStep.ReloadPlaylist:
+        await this.loadCurrentPlaylist();
+        break;
+
+      case RecoveryStep.SkipVideo:
+        try { await this.mpv.next(); } catch { /* may fail */ }
+        break;
+
       case RecoveryStep.RestartMpv: {
+        this.emit('mpvRestart', 'recovery');
         try {
           await this.mpv.restart();
           // onMpvConnect will call loadCurrentPlaylist
         } catch (err) {
           logger.warn({ err }, 'mpv restart failed');
         }
-        this.scheduleNextStep(RecoveryStep.CriticalAlert, 15000);
         break;
       }
 
-      case RecoveryStep.CriticalAlert:
-        await this.discord.notifyCritical(
-          'All recovery steps exhausted. Waiting 60s before retrying.',
-        );
-        this.recoveryTimer = setTimeout(() => {
-          this.recoveryStep = RecoveryStep.None;
-          this.startRecoverySequence();
-        }, 60000);
+      case RecoveryStep.ToggleSource:
+        if (!(await this.obs.toggleBrowserSource())) logger.warn('OBS capture source toggle failed');
         break;
+
+      case RecoveryStep.RestartStream:
+        if (!(await this.obs.restartStream())) logger.warn('OBS stream restart failed');
+        break;
+
+      case RecoveryStep.RelaunchObs:
+        if (!(await this.obs.relaunch())) logger.warn('OBS relaunch failed');
+        break;
+
+      case RecoveryStep.CriticalAlert: {
+        const message = this.ladderIndex === this.ladder.length - 1
+          ? `All recovery steps exhausted. Waiting ${Math.round((this.ladder[this.ladderIndex].delayMs ?? this.config.recoveryDelayMs) / 1000)}s before retrying.`
+          : `Recovery still failing after ${this.ladderIndex} step${this.ladderIndex === 1 ? '' : 's'}. Trying ${this.ladder[this.ladderIndex + 1].action} next.`;
+        if (!this.criticalRaised || !this.config.escalation.enabled) {
+          await this.notifier.notifyCritical(message);
+        }
+        if (!this.criticalRaised) {
+          this.criticalRaised = true;
+          this.emit('criticalAlert', message);
+        }
+        if (this.recordFallbackTrigger(this.fallbackCriticalTimes, this.config.fallback.maxCriticals)) {
+          this.clearRecoveryTimer();
+          this.setRecoveryStep(RecoveryStep.None);
+          this.recoveryReason = null;
+          this.resolveCritical();
+          await this.enterFallback(`${this.config.fallback.maxCriticals} critical alerts in ${this.fallbackWindowLabel()}`);
+          this.closeIncident();
+        }
+        break;
+      }
     }
   }
 
-  private scheduleNextStep(nextStep: RecoveryStep, delayMs: number) {
+  /**
+   * After `delayMs`, move on if playback still hasn't recovered: the current
+   * step again until its attempts run out, then the next one. Past the last
+   * step the ladder starts over.
+   */
+  private scheduleNextStep(delayMs: number) {
     this.clearRecoveryTimer();
     this.recoveryTimer = setTimeout(() => {
       if (this.recoveryStep === RecoveryStep.None) return;
       const elapsed = Date.now() - this.lastHeartbeatAt;
-      const stillStalled = this.stalledHeartbeats >= RecoveryEngine.STALL_THRESHOLD;
-      const stillNotPlaying = this.nonPlayingHeartbeats >= RecoveryEngine.NON_PLAYING_THRESHOLD;
-      const stillFrozen = this.videoFreezeHeartbeats >= RecoveryEngine.VIDEO_FREEZE_THRESHOLD;
-      if (elapsed > this.config.heartbeatTimeoutMs || stillStalled || stillNotPlaying || stillFrozen) {
-        this.executeStep(nextStep);
+      // Only detectors set to recover keep a recovery escalating.
+      const { stall, nonPlaying, videoFreeze } = this.config.detectors;
+      const stillStalled = stall.mode === 'recover' && this.stalledHeartbeats >= stall.heartbeats;
+      const stillNotPlaying = nonPlaying.mode === 'recover' && this.nonPlayingHeartbeats >= nonPlaying.heartbeats;
+      const stillFrozen = videoFreeze.mode === 'recover' && this.videoFreezeHeartbeats >= videoFreeze.heartbeats;
+      if (elapsed > this.config.heartbeatTimeoutMs || stillStalled || stillNotPlaying || stillFrozen || this.symptomPersists()) {
+        if (this.ladderAttempt < this.ladder[this.ladderIndex].attempts) {
+          this.runLadderStep(this.ladderIndex, this.ladderAttempt + 1);
+        } else if (this.ladderIndex < this.ladder.length - 1) {
+          this.runLadderStep(this.ladderIndex + 1, 1);
+        } else {
+          logger.warn({ reason: this.recoveryReason }, 'Recovery ladder exhausted, starting over');
+          this.runLadderStep(0, 1);
+        }
       } else {
         logger.info({ reason: this.recoveryReason }, 'Recovery condition resolved, cancelling recovery');
         this.resetRecovery();
@@ -929,16 +1689,96 @@ export class RecoveryEngine {
     }, delayMs);
   }
 
+  /**
+   * The restart breaker is open: retry this step when it lets a trial restart
+   * through, checking often enough to pick up a dashboard reset. Playback
+   * resuming meanwhile clears the timer in resetRecovery.
+   */
+  private holdForBreaker(index: number, attempt: number) {
+    this.clearRecoveryTimer();
+    const delayMs = Math.min(this.breaker!.msUntilRetry(), this.config.heartbeatIntervalMs);
+    this.recoveryTimer = setTimeout(() => void this.runLadderStep(index, attempt), delayMs);
+  }
+
   private resetRecovery() {
     if (this.recoveryStep !== RecoveryStep.None) {
       logger.info({ previousStep: this.recoveryStep }, 'Recovery resolved');
-      this.addEvent('Recovery resolved — playback resumed');
+      this.addEvent('recoveryResolved', 'Recovery resolved — playback resumed', { detail: { previousStep: this.recoveryStep } });
       const currentState = this.state.get();
-      this.discord.notifyResume(currentState.videoIndex, currentState.videoId);
+      this.notifier.notifyResume(currentState.videoIndex, currentState.videoId);
+      this.resolveCritical();
     }
-    this.recoveryStep = RecoveryStep.None;
+    this.setRecoveryStep(RecoveryStep.None);
     this.recoveryReason = null;
     this.clearRecoveryTimer();
+    this.settleIncident();
+  }
+
+  /** A detector in `detect` mode tripped: log it so it can be tuned, but don't recover. */
+  private logDetectOnly(type: EventType, message: string, detail: Record<string, unknown>) {
+    logger.warn({ ...detail, type }, `${message} — detect only, not recovering`);
+    this.addEvent(type, `${message} — detect only, not recovering`, { severity: 'warn', detail: { ...detail, detectOnly: true } });
+  }
+
+  /** A detector tripped: open an incident, or keep the open one from settling. */
+  private openIncident(root: IncidentRoot, message: string) {
+    this.incidents?.open(root, message);
+    this.incidentResumedAt = null;
+  }
+
+  private recordIncidentAction(action: IncidentAction) {
+    this.incidents?.recordAction(action);
+    this.incidentResumedAt = null;
+  }
+
+  /** Close the open incident once playback has stayed healthy for the settle window. */
+  private settleIncident() {
+    if (!this.incidents?.activeId) return;
+    const now = Date.now();
+    this.incidentResumedAt ??= now;
+    if (now - this.incidentResumedAt >= this.config.heartbeatIntervalMs * this.incidentSettleHeartbeats()) {
+      this.closeIncident(this.incidentResumedAt);
+    }
+  }
+
+  /** Healthy heartbeats before an incident closes: long enough for the slowest
+   *  detector to trip again, so a relapse joins the same incident. */
+  private incidentSettleHeartbeats(): number {
+    const { stall, videoFreeze, nonPlaying } = this.config.detectors;
+    return Math.max(stall.heartbeats, videoFreeze.heartbeats, nonPlaying.heartbeats);
+  }
+
+  /** Close the open incident as of `at`, log its summary and send it to Discord. */
+  private closeIncident(at = Date.now()) {
+    const incident = this.incidents?.close(at);
+    this.incidentResumedAt = null;
+    if (!incident) return;
+    const root = INCIDENT_ROOT_LABELS[incident.root];
+    const resolvedBy = incident.resolvedBy ? INCIDENT_ACTION_LABELS[incident.resolvedBy] : 'no action';
+    this.addEvent('incidentClose', `Incident closed after ${formatDuration(incident.durationMs!)}: ${root}, resolved by ${resolvedBy} (${incident.eventCount} events)`, {
+      detail: {
+        incidentId: incident.id, root: incident.root, durationMs: incident.durationMs,
+        resolvedBy: incident.resolvedBy, actions: incident.actions, eventCount: incident.eventCount,
+      },
+    });
+    this.emit('incidentClose', incident);
+    void this.notifier.notifyIncident(incident);
+  }
+
+  /**
+   * The recovery is over (playback resumed or the fallback took over). Emitted
+   * even if this engine raised no critical, so an alert opened by the engine
+   * a config reload replaced still gets resolved.
+   */
+  private resolveCritical() {
+    this.criticalRaised = false;
+    this.emit('recoveryResolved');
+  }
+
+  private setRecoveryStep(step: RecoveryStep) {
+    if (step === this.recoveryStep) return;
+    this.recoveryStep = step;
+    this.emit('recoveryStep', step);
   }
 
   private clearRecoveryTimer() {
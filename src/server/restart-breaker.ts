@@ -0,0 +1,144 @@
+import type { EventOptions, EventType, RestartBreakerConfig, RestartBreakerState, RestartBreakerStatus } from './types.js';
+import type { Notifier } from './notifier.js';
+import { formatDuration } from './templates.js';
+import { logger } from './logger.js';
+
+/**
+ * Circuit breaker for automatic mpv restarts. When mpv dies right after every
+ * restart (bad binary, broken yt-dlp, no network), RecoveryEngine would
+ * otherwise restart it as fast as the ladder allows. After
+ * `maxRestarts` in `windowMs` the breaker opens: restarts wait until
+ * `retryAt`, then one trial restart is let through (half-open). Playback
+ * progressing closes it; another restart request re-opens it with the pause
+ * doubled, up to `maxBackoffMs`. One critical alert is sent per storm: a
+ * relapse within `windowMs` of closing re-opens with the doubled pause instead.
+ * Outlives recovery engines recreated on config reload, like AlertManager.
+ */
+export class RestartBreaker {
+  private config: RestartBreakerConfig;
+  private getNotifier: () => Notifier;
+  private state: RestartBreakerState = 'closed';
+  private restarts: number[] = [];
+  private backoffMs: number;
+  private retryAt = 0;
+  private trippedAt = 0;
+  private closedAt = 0;
+  private trips = 0;
+  private onEventCallback: ((type: EventType, message: string, opts?: EventOptions) => void) | null = null;
+  private onChangeCallback: (() => void) | null = null;
+
+  constructor(config: RestartBreakerConfig, getNotifier: () => Notifier) {
+    this.config = config;
+    this.getNotifier = getNotifier;
+    this.backoffMs = config.backoffMs;
+  }
+
+  onEvent(cb: (type: EventType, message: string, opts?: EventOptions) => void) { this.onEventCallback = cb; }
+  onChange(cb: () => void) { this.onChangeCallback = cb; }
+
+  setConfig(config: RestartBreakerConfig) {
+    this.config = config;
+    if (!config.enabled && this.state !== 'closed') this.close('Restart breaker disabled — automatic restarts resumed');
+    this.backoffMs = Math.min(Math.max(this.backoffMs, config.backoffMs), config.maxBackoffMs);
+  }
+
+  /** True while automatic restarts are paused or on trial. */
+  get tripped(): boolean {
+    return this.state !== 'closed';
+  }
+
+  /** Time until an open breaker lets a trial restart through; 0 otherwise. */
+  msUntilRetry(now = Date.now()): number {
+    return this.state === 'open' ? Math.max(0, this.retryAt - now) : 0;
+  }
+
+  getStatus(now = Date.now()): RestartBreakerStatus {
+    return {
+      enabled: this.config.enabled,
+      state: this.state,
+      restartsInWindow: this.restarts.filter((t) => now - t < this.config.windowMs).length,
+      maxRestarts: this.config.maxRestarts,
+      windowMs: this.config.windowMs,
+      backoffMs: this.backoffMs,
+      retryAt: this.state === 'open' ? new Date(this.retryAt).toISOString() : null,
+      trippedAt: this.state !== 'closed' ? new Date(this.trippedAt).toISOString() : null,
+      trips: this.trips,
+    };
+  }
+
+  /**
+   * Ask before an automatic mpv restart. Returns false while open; otherwise
+   * records the restart, which may open the breaker for the next one.
+   */
+  tryRestart(now = Date.now()): boolean {
+    if (!this.config.enabled) return true;
+    if (this.state === 'halfOpen') {
+      // The trial restart didn't bring playback back
+      this.backoffMs = Math.min(this.backoffMs * 2, this.config.maxBackoffMs);
+      this.open(now, `Trial restart failed — pausing automatic mpv restarts for ${formatDuration(this.backoffMs)}`);
+      return false;
+    }
+    if (this.state === 'open') {
+      if (now < this.retryAt) return false;
+      this.state = 'halfOpen';
+      logger.info('Restart breaker half-open, allowing one trial restart');
+      this.onEventCallback?.('restartBreaker', 'Restart breaker half-open — trying one mpv restart', {
+        severity: 'warn', detail: { state: this.state },
+      });
+      this.onChangeCallback?.();
+    }
+    this.restarts = this.restarts.filter((t) => now - t < this.config.windowMs);
+    this.restarts.push(now);
+    if (this.state === 'closed' && this.restarts.length >= this.config.maxRestarts) this.trip(now);
+    return true;
+  }
+
+  /** Playback is progressing: a tripped breaker closes. */
+  recordHealthy(now = Date.now()) {
+    if (this.state === 'closed') return;
+    this.closedAt = now;
+    this.close(`Playback resumed — restart breaker closed after ${formatDuration(now - this.trippedAt)}`);
+  }
+
+  /** Dashboard reset: close, forget recent restarts and start the next storm from scratch. */
+  reset() {
+    this.restarts = [];
+    this.closedAt = 0;
+    this.backoffMs = this.config.backoffMs;
+    this.close('Restart breaker reset from the dashboard', true);
+  }
+
+  private trip(now: number) {
+    this.trips++;
+    if (this.closedAt && now - this.closedAt < this.config.windowMs) {
+      this.backoffMs = Math.min(this.backoffMs * 2, this.config.maxBackoffMs);
+      this.open(now, `Restart storm resumed — pausing automatic mpv restarts for ${formatDuration(this.backoffMs)}`);
+      return;
+    }
+    this.trippedAt = now;
+    this.backoffMs = this.config.backoffMs;
+    const message = `Restart storm: ${this.restarts.length} mpv restarts in ${formatDuration(this.config.windowMs)}. `
+      + `Pausing automatic restarts for ${formatDuration(this.backoffMs)}.`;
+    this.open(now, message);
+    this.getNotifier().notifyCritical(message).catch((err) => logger.error({ err }, 'Failed to send restart storm alert'));
+  }
+
+  private open(now: number, message: string) {
+    this.state = 'open';
+    this.retryAt = now + this.backoffMs;
+    logger.error({ backoffMs: this.backoffMs, restarts: this.restarts.length }, message);
+    this.onEventCallback?.('restartBreaker', message, {
+      severity: 'error',
+      detail: { state: this.state, backoffMs: this.backoffMs, retryAt: new Date(this.retryAt).toISOString(), restarts: this.restarts.length },
+    });
+    this.onChangeCallback?.();
+  }
+
+  private close(message: string, force = false) {
+    if (this.state === 'closed' && !force) return;
+    this.state = 'closed';
+    logger.info(message);
+    this.onEventCallback?.('restartBreaker', message, { detail: { state: this.state } });
+    this.onChangeCallback?.();
+  }
+}
@@ -0,0 +1,89 @@
+import type { AppConfig, ScheduleBlock, ScheduleConfig } from './types.js';
+
+/** How far ahead nextScheduleChange looks. A week covers every weekday pattern. */
+const LOOKAHEAD_DAYS = 8;
+
+export interface ScheduledChange {
+  /** Epoch ms of the boundary at which the switch becomes due. */
+  at: number;
+  playlistIndex: number;
+}
+
+function parseHhmm(hhmm: string): number {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+}
+
+/** A weekly local-time window: schedule blocks, Discord quiet hours. */
+type TimeWindow = Pick<ScheduleBlock, 'days' | 'start' | 'end'>;
+
+function appliesOn(block: TimeWindow, day: number): boolean {
+  return block.days.length === 0 || block.days.includes(day);
+}
+
+/** True if `block` covers the local time `now`. A block whose end is at or
+ *  before its start runs past midnight and belongs to the day it starts on,
+ *  so Fri 22:00–06:00 covers Saturday's early hours too. */
+export function blockCovers(block: TimeWindow, now: Date): boolean {
+  const minute = now.getHours() * 60 + now.getMinutes();
+  const day = now.getDay();
+  const start = parseHhmm(block.start);
+  const end = parseHhmm(block.end);
+  if (start < end) {
+    return appliesOn(block, day) && minute >= start && minute < end;
+  }
+  const prevDay = (day + 6) % 7;
+  return (appliesOn(block, day) && minute >= start) || (appliesOn(block, prevDay) && minute < end);
+}
+
+/** The block in effect at `now` (first match wins), or null. */
+export function activeScheduleBlock(schedule: ScheduleConfig, now: Date): ScheduleBlock | null {
+  if (!schedule.enabled) return null;
+  return schedule.blocks.find((b) => blockCovers(b, now)) ?? null;
+}
+
+/** Index into `config.playlists` the schedule wants playing at `now`, or null
+ *  when the schedule is off, no block is active, or the block's playlist id
+ *  no longer exists (in which case the current playlist is left alone). */
+export function scheduledPlaylistIndex(config: AppConfig, now: Date): number | null {
+  const block = activeScheduleBlock(config.schedule, now);
+  if (!block) return null;
+  const index = config.playlists.findIndex((p) => p.id === block.playlistId);
+  return index >= 0 ? index : null;
+}
+
+/**
+ * Next time the schedule will switch away from `currentPlaylistIndex`, or null
+ * if nothing changes within the lookahead. Only block start/end instants can
+ * change the scheduled playlist, so those are the only candidates evaluated.
+ * The switch itself is applied at the first video boundary after `at`.
+ */
+export function nextScheduleChange(config: AppConfig, now: Date, currentPlaylistIndex: number): ScheduledChange | null {
+  if (!config.schedule.enabled || config.schedule.blocks.length === 0) return null;
+
+  const minutes = new Set<number>();
+  for (const block of config.schedule.blocks) {
+    minutes.add(parseHhmm(block.start));
+    minutes.add(parseHhmm(block.end));
+  }
+
+  const candidates: Date[] = [];
+  for (let d = 0; d < LOOKAHEAD_DAYS; d++) {
+    for (const minute of minutes) {
+      // setHours on a copy (not epoch arithmetic) so DST days land on wall-clock time.
+      const t = new Date(now.getFullYear(), now.getMonth(), now.getDate() + d);
+      t.setHours(Math.floor(minute / 60), minute % 60, 0, 0);
+      if (t.getTime() > now.getTime()) candidates.push(t);
+    }
+  }
+  candidates.sort((a, b) => a.getTime() - b.getTime());
+
+  let playing = currentPlaylistIndex;
+  for (const t of candidates) {
+    const target = scheduledPlaylistIndex(config, t);
+    if (target === null) continue;
+    if (target !== playing) return { at: t.getTime(), playlistIndex: target };
+    playing = target;
+  }
+  return null;
+}
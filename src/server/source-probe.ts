@@ -0,0 +1,60 @@
+import { execFile as execFileCb } from 'child_process';
+import { promisify } from 'util';
+import type { PlaylistEntry } from './types.js';
+import { listLocalFolder, listM3u, playlistLoadTarget, playlistSourceType } from './playlist-source.js';
+
+const execFile = promisify(execFileCb);
+
+type ExecFn = (
+  file: string,
+  args: string[],
+  opts: { timeout: number; maxBuffer: number },
+) => Promise<{ stdout: string; stderr: string }>;
+
+export interface ProbeOptions {
+  /** Playlist item to resolve (0-based). Probing the item that was failing
+   *  tells us more than probing the head of the playlist. */
+  itemIndex?: number;
+  cookiesFromBrowser?: string;
+  /** Same player_client pin mpv's ytdl_hook uses, so the probe sees what playback would. */
+  playerClient?: string;
+  execFn?: ExecFn;
+}
+
+/**
+ * Check whether a playlist source is playable again without touching mpv.
+ *
+ * Remote sources are resolved through yt-dlp (`-g` prints the media URLs, so
+ * it exercises the same extraction that fails during a 403 wave); local
+ * folders and M3U files only need to list at least one entry. Never throws —
+ * any failure is reported as `false`.
+ */
+export async function probeSource(
+  ytdlpPath: string,
+  entry: PlaylistEntry,
+  opts: ProbeOptions = {},
+): Promise<boolean> {
+  const exec = (opts.execFn ?? (execFile as unknown as ExecFn));
+  try {
+    switch (playlistSourceType(entry)) {
+      case 'local':
+        return (await listLocalFolder(entry.id)).length > 0;
+      case 'm3u':
+        return (await listM3u(entry.id)).length > 0;
+    }
+
+    const args: string[] = [];
+    if (opts.cookiesFromBrowser) {
+      args.push('--cookies-from-browser', opts.cookiesFromBrowser);
+    }
+    if (opts.playerClient) {
+      args.push('--extractor-args', `youtube:player_client=${opts.playerClient}`);
+    }
+    args.push('-g', '--no-warnings', '--playlist-items', String((opts.itemIndex ?? 0) + 1));
+    args.push(await playlistLoadTarget(entry));
+    const { stdout } = await exec(ytdlpPath, args, { timeout: 120_000, maxBuffer: 10 * 1024 * 1024 });
+    return stdout.trim().length > 0;
+  } catch {
+    return false;
+  }
+}
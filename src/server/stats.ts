@@ -0,0 +1,248 @@
+import { readFileSync, writeFileSync, renameSync } from 'fs';
+import { resolve } from 'path';
+import { RecoveryStep } from './types.js';
+import type { DailyStats } from './types.js';
+import type { RecoveryEngine } from './recovery.js';
+import type { OBSClient } from './obs-client.js';
+import type { TwitchLivenessChecker } from './twitch.js';
+import { logger } from './logger.js';
+
+const SAMPLE_INTERVAL_MS = 5_000;
+/** A gap longer than this between samples (host asleep, event loop blocked)
+ *  isn't attributed to any state — we don't know what happened in it. */
+const MAX_SAMPLE_GAP_MS = SAMPLE_INTERVAL_MS * 3;
+const WRITE_DEBOUNCE_MS = 30_000;
+const RETENTION_DAYS = 90;
+
+export interface StatsSample {
+  playing: boolean;
+  recoveryStep: RecoveryStep;
+  /** False while OBS is disconnected or its stream output is inactive. */
+  obsStreaming: boolean;
+  /** null when the Twitch check is disabled or hasn't answered yet. */
+  twitchLive: boolean | null;
+}
+
+export interface StatsSources {
+  getRecovery: () => RecoveryEngine;
+  getObs: () => OBSClient;
+  getTwitch: () => TwitchLivenessChecker;
+}
+
+interface PersistedStats {
+  days: DailyStats[];
+  /** Last day a daily summary was handed to `onDayComplete`. */
+  lastReported: string | null;
+}
+
+/** Local calendar date, `YYYY-MM-DD`. */
+export function localDate(at: number): string {
+  const d = new Date(at);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function nextLocalMidnight(at: number): number {
+  const d = new Date(at);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1).getTime();
+}
+
+function emptyDay(date: string): DailyStats {
+  return {
+    date,
+    observedMs: 0,
+    playingMs: 0,
+    recoveryMs: Object.fromEntries(Object.values(RecoveryStep).filter((s) => s !== RecoveryStep.None).map((s) => [s, 0])),
+    mpvRestarts: 0,
+    skips: 0,
+    streamDrops: 0,
+    obsStreamDownMs: 0,
+    twitchOfflineMs: 0,
+  };
+}
+
+/**
+ * Per-day playback statistics for uptime reporting. Samples the recovery
+ * engine (whose `playing`/`recoveryStep` are maintained by the heartbeat loop),
+ * OBS and Twitch every few seconds and attributes each interval to the state
+ * seen at its start, split at local midnight. Counters are fed by index.ts from
+ * engine and OBS callbacks. Persisted to `stats.json` next to the state file.
+ */
+export class StatsTracker {
+  private filePath: string;
+  private days: Map<string, DailyStats>;
+  private lastReported: string | null;
+  private lastSample: StatsSample | null = null;
+  private lastSampleAt = 0;
+  private sampleTimer: ReturnType<typeof setInterval> | null = null;
+  private writeTimer: ReturnType<typeof setTimeout> | null = null;
+  private onDayCompleteCallback: ((day: DailyStats) => void) | null = null;
+
+  constructor(filePath: string) {
+    this.filePath = resolve(filePath);
+    const persisted = this.load();
+    this.days = new Map(persisted.days.map((d) => [d.date, d]));
+    this.lastReported = persisted.lastReported;
+  }
+
+  private load(): PersistedStats {
+    try {
+      const parsed = JSON.parse(readFileSync(this.filePath, 'utf-8')) as Partial<PersistedStats>;
+      return {
+        days: (parsed.days ?? []).map((d) => ({ ...emptyDay(d.date), ...d })),
+        lastReported: parsed.lastReported ?? null,
+      };
+    } catch {
+      return { days: [], lastReported: null };
+    }
+  }
+
+  /** Called once per finished day (at the first sample after it ends) for the daily summary. */
+  onDayComplete(cb: (day: DailyStats) => void) { this.onDayCompleteCallback = cb; }
+
+  start(sources: StatsSources) {
+    this.stop();
+    this.sampleTimer = setInterval(async () => {
+      try {
+        this.record(await readSample(sources));
+      } catch (err) {
+        logger.debug({ err }, 'Stats sample failed');
+      }
+    }, SAMPLE_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.sampleTimer) {
+      clearInterval(this.sampleTimer);
+      this.sampleTimer = null;
+    }
+    this.lastSample = null;
+  }
+
+  /** Attribute the time since the previous sample to the previous sample's state. */
+  record(sample: StatsSample, now = Date.now()) {
+    const prev = this.lastSample;
+    let from = this.lastSampleAt;
+    this.lastSample = sample;
+    this.lastSampleAt = now;
+    if (!prev || now <= from || now - from > MAX_SAMPLE_GAP_MS) {
+      this.day(localDate(now));
+      this.reportFinishedDays(now);
+      return;
+    }
+    while (from < now) {
+      const until = Math.min(now, nextLocalMidnight(from));
+      const ms = until - from;
+      const day = this.day(localDate(from));
+      day.observedMs += ms;
+      if (prev.playing) day.playingMs += ms;
+      if (prev.recoveryStep !== RecoveryStep.None) day.recoveryMs[prev.recoveryStep] = (day.recoveryMs[prev.recoveryStep] ?? 0) + ms;
+      if (!prev.obsStreaming) day.obsStreamDownMs += ms;
+      if (prev.twitchLive === false) day.twitchOfflineMs += ms;
+      from = until;
+    }
+    this.reportFinishedDays(now);
+    this.debouncedWrite();
+  }
+
+  countMpvRestart(now = Date.now()) {
+    this.day(localDate(now)).mpvRestarts++;
+    this.debouncedWrite();
+  }
+
+  countSkip(now = Date.now()) {
+    this.day(localDate(now)).skips++;
+    this.debouncedWrite();
+  }
+
+  countStreamDrop(now = Date.now()) {
+    this.day(localDate(now)).streamDrops++;
+    this.debouncedWrite();
+  }
+
+  /** The most recent `count` days that have any data, newest first. */
+  getDays(count: number): DailyStats[] {
+    return [...this.days.values()]
+      .sort((a, b) => b.date.localeCompare(a.date))
+      .slice(0, count)
+      .map((d) => ({ ...d, recoveryMs: { ...d.recoveryMs } }));
+  }
+
+  /** Write immediately (used on shutdown). */
+  flush() {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = null;
+    }
+    this.writeToDisk();
+  }
+
+  private day(date: string): DailyStats {
+    let day = this.days.get(date);
+    if (!day) {
+      day = emptyDay(date);
+      this.days.set(date, day);
+      this.prune();
+    }
+    return day;
+  }
+
+  private prune() {
+    const dates = [...this.days.keys()].sort();
+    for (const date of dates.slice(0, Math.max(0, dates.length - RETENTION_DAYS))) {
+      this.days.delete(date);
+    }
+  }
+
+  /** Hand every unreported day before today to the summary callback, oldest first. */
+  private reportFinishedDays(now: number) {
+    const today = localDate(now);
+    const finished = [...this.days.keys()]
+      .filter((date) => date < today && (this.lastReported === null || date > this.lastReported))
+      .sort();
+    if (finished.length === 0) return;
+    this.lastReported = finished[finished.length - 1];
+    for (const date of finished) this.onDayCompleteCallback?.({ ...this.days.get(date)! });
+    this.debouncedWrite();
+  }
+
+  private debouncedWrite() {
+    if (this.writeTimer) return;
+    this.writeTimer = setTimeout(() => {
+      this.writeTimer = null;
+      this.writeToDisk();
+    }, WRITE_DEBOUNCE_MS);
+  }
+
+  private writeToDisk() {
+    const tmpPath = this.filePath + '.tmp';
+    const data: PersistedStats = { days: [...this.days.values()], lastReported: this.lastReported };
+    try {
+      writeFileSync(tmpPath, JSON.stringify(data, null, 2), 'utf-8');
+      renameSync(tmpPath, this.filePath);
+    } catch (err) {
+      logger.error({ err }, 'Failed to write stats file');
+    }
+  }
+}
+
+async function readSample(sources: StatsSources): Promise<StatsSample> {
+  const status = sources.getRecovery().getStatus();
+  const obs = sources.getObs();
+  const twitch = sources.getTwitch().getStatus();
+  return {
+    playing: status.playing,
+    recoveryStep: status.recoveryStep,
+    obsStreaming: obs.isConnected() ? await obs.isStreaming() : false,
+    twitchLive: twitch.enabled ? twitch.channelLive : null,
+  };
+}
+
+/** Share of the day spent playing, as a percentage of the wall-clock day
+ *  (elapsed so far for today), so time the app wasn't running counts as down. */
+export function uptimePercent(day: DailyStats, now = Date.now()): number {
+  const [y, m, d] = day.date.split('-').map(Number);
+  const start = new Date(y, m - 1, d).getTime();
+  const span = Math.min(now, nextLocalMidnight(start)) - start;
+  if (span <= 0) return 0;
+  return Math.min(100, Math.round((day.playingMs / span) * 10000) / 100);
+}
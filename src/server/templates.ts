@@ -0,0 +1,163 @@
+/**
+ * Alert template rendering. Beyond `{var}` substitution, templates support
+ * formatter chains (`{duration|hms}`, `{videoTitle|truncate:60}`) and
+ * `{#if var}…{else}…{/if}` blocks, which nest and negate with `{#if !var}`.
+ * A variable that isn't set and has no formatters is left as written, so a
+ * typo shows up in the message instead of vanishing.
+ */
+
+export type TemplateValue = string | number | boolean | null | undefined;
+export type TemplateVars = Record<string, TemplateValue>;
+
+type Formatter = (value: TemplateValue, arg: string | undefined) => TemplateValue;
+
+const FORMATTERS: Record<string, Formatter> = {
+  /** Seconds as `H:MM:SS` (`M:SS` under an hour). */
+  hms: (value) => isNumber(value) ? formatHms(value) : value,
+  /** Seconds as `2h 15m` / `4m 10s`. */
+  human: (value) => isNumber(value) ? formatDuration(value * 1000) : value,
+  /** Cut to N characters, ending in an ellipsis when shortened. */
+  truncate: (value, arg) => {
+    const text = toText(value);
+    const max = Number(arg);
+    return max > 0 && text.length > max ? text.slice(0, max - 1).trimEnd() + '…' : text;
+  },
+  upper: (value) => toText(value).toUpperCase(),
+  lower: (value) => toText(value).toLowerCase(),
+  /** Fallback text when the value is empty. */
+  default: (value, arg) => toText(value) === '' ? (arg ?? '') : value,
+};
+
+export const TEMPLATE_FORMATTERS = Object.keys(FORMATTERS);
+
+interface FormatterCall { name: string; arg?: string }
+interface VarNode { kind: 'var'; name: string; formatters: FormatterCall[]; raw: string }
+interface IfNode { kind: 'if'; name: string; negate: boolean; then: TemplateNode[]; else: TemplateNode[] | null }
+type TemplateNode = string | VarNode | IfNode;
+
+const TAG = /\{(#if\s+!?\w+|else|\/if|\w+(?:\|\w+(?::[^|{}]*)?)*)\}/g;
+
+function parse(template: string): { nodes: TemplateNode[]; error: string | null } {
+  const root: TemplateNode[] = [];
+  const open: IfNode[] = [];
+  let out = root;
+  let error: string | null = null;
+  let last = 0;
+
+  for (const match of template.matchAll(TAG)) {
+    if (match.index > last) out.push(template.slice(last, match.index));
+    last = match.index + match[0].length;
+    const tag = match[1];
+
+    if (tag.startsWith('#if')) {
+      const [, negate, name] = /^#if\s+(!?)(\w+)$/.exec(tag)!;
+      const node: IfNode = { kind: 'if', name, negate: negate === '!', then: [], else: null };
+      out.push(node);
+      open.push(node);
+      out = node.then;
+    } else if (tag === 'else') {
+      const current = open.at(-1);
+      if (!current || current.else) {
+        error ??= '{else} outside an {#if} block';
+        out.push(match[0]);
+        continue;
+      }
+      current.else = [];
+      out = current.else;
+    } else if (tag === '/if') {
+      if (!open.pop()) {
+        error ??= '{/if} without a matching {#if}';
+        out.push(match[0]);
+        continue;
+      }
+      const parent = open.at(-1);
+      out = parent ? (parent.else ?? parent.then) : root;
+    } else {
+      const [name, ...calls] = tag.split('|');
+      const formatters = calls.map((call): FormatterCall => {
+        const colon = call.indexOf(':');
+        return colon < 0 ? { name: call } : { name: call.slice(0, colon), arg: call.slice(colon + 1) };
+      });
+      const unknown = formatters.find((f) => !Object.hasOwn(FORMATTERS, f.name));
+      if (unknown) error ??= `Unknown formatter "${unknown.name}" in ${match[0]}`;
+      out.push({ kind: 'var', name, formatters, raw: match[0] });
+    }
+  }
+  if (last < template.length) out.push(template.slice(last));
+  // Unclosed blocks still render (to the end of the template) but are reported
+  if (open.length > 0) error ??= `{#if ${open[0].name}} is never closed with {/if}`;
+  return { nodes: root, error };
+}
+
+function renderNodes(nodes: TemplateNode[], vars: TemplateVars): string {
+  return nodes.map((node) => {
+    if (typeof node === 'string') return node;
+    if (node.kind === 'if') {
+      return renderNodes(isTruthy(vars[node.name]) !== node.negate ? node.then : (node.else ?? []), vars);
+    }
+    if (!(node.name in vars) && node.formatters.length === 0) return node.raw;
+    let value = vars[node.name];
+    for (const call of node.formatters) {
+      if (Object.hasOwn(FORMATTERS, call.name)) value = FORMATTERS[call.name](value, call.arg);
+    }
+    return toText(value);
+  }).join('');
+}
+
+export function renderTemplate(template: string, vars: TemplateVars): string {
+  return renderNodes(parse(template).nodes, vars);
+}
+
+/** Syntax problem in a template (unbalanced blocks, unknown formatter), or null. */
+export function templateError(template: string): string | null {
+  return parse(template).error;
+}
+
+/** `2h 15m`, `4m 10s` or `12s`. */
+export function formatDuration(ms: number): string {
+  const s = Math.floor(ms / 1000);
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  if (h > 0) return `${h}h ${m}m`;
+  if (m > 0) return `${m}m ${s % 60}s`;
+  return `${s}s`;
+}
+
+/** `1:02:05`, or `4:10` under an hour. */
+export function formatHms(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+/** Coarse kind of an mpv / yt-dlp error string, for `{errorClass}`. */
+export function classifyError(text: string): 'unavailable' | 'auth' | 'network' | 'format' | 'other' {
+  if (/unavailable|private video|removed|not embeddable|blocked|copyright|terminated/i.test(text)) return 'unavailable';
+  if (/\b403\b|forbidden|sign in|login|cookies|age.restricted/i.test(text)) return 'auth';
+  if (/http|network|timed? ?out|tls|ssl|connection|loading failed|no (audio or video|video or audio)/i.test(text)) return 'network';
+  if (/unrecognized|unsupported|codec|demux|format/i.test(text)) return 'format';
+  return 'other';
+}
+
+/** Watch link and thumbnail for a YouTube video id; null for anything else (local files, URLs). */
+export function youtubeLinks(videoId: string): { url: string; thumbnailUrl: string } | null {
+  if (!/^[\w-]{11}$/.test(videoId)) return null;
+  return {
+    url: `https://www.youtube.com/watch?v=${videoId}`,
+    thumbnailUrl: `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
+  };
+}
+
+function isNumber(value: TemplateValue): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isTruthy(value: TemplateValue): boolean {
+  return value !== undefined && value !== null && value !== false && value !== '' && value !== 0;
+}
+
+function toText(value: TemplateValue): string {
+  return value === undefined || value === null ? '' : String(value);
+}
@@ -1,6 +1,6 @@
-import type { AppConfig } from './types.js';
+import type { AppConfig, EventOptions, EventType } from './types.js';
 import type { OBSClient } from './obs-client.js';
-import type { DiscordNotifier } from './discord.js';
+import type { Notifier } from './notifier.js';
 import { logger } from './logger.js';
 
 const TWITCH_TOKEN_URL = 'https://id.twitch.tv/oauth2/token';
@@ -24,7 +24,7 @@ export interface TwitchLivenessStatus {
 export class TwitchLivenessChecker {
   private config: AppConfig;
   private obs: OBSClient;
-  private discord: DiscordNotifier;
+  private notifier: Notifier;
 
   private accessToken: string | null = null;
   private tokenExpiresAt = 0;
@@ -39,11 +39,13 @@ export class TwitchLivenessChecker {
   private lastCheckAt: number | null = null;
   private lastRestartAt: number | null = null;
   private restartCount = 0;
+  private onStatusChangeCallback: ((status: TwitchLivenessStatus) => void) | null = null;
+  private onEventCallback: ((type: EventType, message: string, opts?: EventOptions) => void) | null = null;
 
-  constructor(config: AppConfig, obs: OBSClient, discord: DiscordNotifier) {
+  constructor(config: AppConfig, obs: OBSClient, notifier: Notifier) {
     this.config = config;
     this.obs = obs;
-    this.discord = discord;
+    this.notifier = notifier;
   }
 
   get enabled(): boolean {
@@ -86,6 +88,11 @@ export class TwitchLivenessChecker {
     }
   }
 
+  /** Called after every liveness check and stream restart. */
+  onStatusChange(cb: (status: TwitchLivenessStatus) => void) { this.onStatusChangeCallback = cb; }
+  /** Mismatch restarts and their outcome, for the dashboard event log. */
+  onEvent(cb: (type: EventType, message: string, opts?: EventOptions) => void) { this.onEventCallback = cb; }
+
   getStatus(): TwitchLivenessStatus {
     return {
       enabled: this.enabled,
@@ -136,6 +143,8 @@ export class TwitchLivenessChecker {
       }
     } catch (err) {
       logger.error({ err }, 'Twitch liveness check failed');
+    } finally {
+      this.onStatusChangeCallback?.(this.getStatus());
     }
   }
 
@@ -145,13 +154,20 @@ export class TwitchLivenessChecker {
     this.consecutiveMismatches = 0;
 
     logger.warn('Twitch liveness: restarting stream (OBS says live, Twitch says offline)');
-    await this.discord.notifyTwitchMismatch(this.config.twitchChannel);
+    const channel = this.config.twitchChannel;
+    this.onEventCallback?.('twitchMismatch', `Twitch reports ${channel} offline while OBS is streaming — restarting stream`, {
+      severity: 'warn', detail: { channel, threshold: MISMATCH_THRESHOLD },
+    });
+    await this.notifier.notifyTwitchMismatch(this.config.twitchChannel);
 
     try {
       const stopped = await this.obs.stopStream();
       if (!stopped) {
         logger.error('Failed to stop OBS stream for Twitch liveness restart');
-        await this.discord.notifyCritical('Twitch liveness restart failed: could not stop stream.');
+        this.onEventCallback?.('twitchRestart', 'Twitch liveness restart failed: could not stop stream', {
+          severity: 'error', detail: { channel, ok: false },
+        });
+        await this.notifier.notifyCritical('Twitch liveness restart failed: could not stop stream.');
         return;
       }
 
@@ -163,16 +179,26 @@ export class TwitchLivenessChecker {
 
       if (started) {
         logger.info('Twitch liveness: stream restarted successfully');
-        await this.discord.notifyTwitchRestart(this.config.twitchChannel);
+        this.onEventCallback?.('twitchRestart', 'Stream restarted after Twitch liveness mismatch', {
+          detail: { channel, ok: true, restartCount: this.restartCount },
+        });
+        await this.notifier.notifyTwitchRestart(this.config.twitchChannel);
       } else {
         logger.error('Twitch liveness: failed to restart stream');
-        await this.discord.notifyCritical('Twitch liveness restart failed: could not start stream.');
+        this.onEventCallback?.('twitchRestart', 'Twitch liveness restart failed: could not start stream', {
+          severity: 'error', detail: { channel, ok: false },
+        });
+        await this.notifier.notifyCritical('Twitch liveness restart failed: could not start stream.');
       }
     } catch (err) {
       logger.error({ err }, 'Twitch liveness stream restart error');
-      await this.discord.notifyCritical('Twitch liveness restart encountered an error.');
+      this.onEventCallback?.('twitchRestart', 'Twitch liveness restart encountered an error', {
+        severity: 'error', detail: { channel, ok: false, error: err instanceof Error ? err.message : String(err) },
+      });
+      await this.notifier.notifyCritical('Twitch liveness restart encountered an error.');
     } finally {
       this.restartInProgress = false;
+      this.onStatusChangeCallback?.(this.getStatus());
     }
   }
 
@@ -15,6 +15,22 @@ export interface MpvHeartbeat {
   videoBitrate: number;
   /** Audio stream bitrate in bits/s, or -1 when unknown/unavailable. */
   audioBitrate: number;
+  /** Source frame rate (container-fps), or 0 when unknown. */
+  containerFps: number;
+  /** Frames dropped at the video output for the current file (frame-drop-count), or -1 when unknown. */
+  frameDrops: number;
+  /** Frames dropped by the decoder for the current file (decoder-frame-drop-count), or -1 when unknown. */
+  decoderFrameDrops: number;
+  /** Last A/V sync difference in seconds (avsync), or null when unavailable. */
+  avsync: number | null;
+}
+
+/** Latest mpv playback readings: `RecoveryEngine.getStatus().playbackStats`. */
+export interface PlaybackStats extends Pick<MpvHeartbeat, 'vfps' | 'videoBitrate' | 'audioBitrate' | 'containerFps' | 'frameDrops' | 'decoderFrameDrops'> {
+  /** Frames dropped over the last heartbeat as % of the frames due; null when it can't be measured. */
+  dropPercent: number | null;
+  /** A/V sync difference in ms; null when unavailable. */
+  avsyncMs: number | null;
 }
 
 export interface MpvPlaylistEntry {
@@ -29,11 +45,59 @@ export interface MpvPlaylistEntry {
 
 export enum RecoveryStep {
   None = 'none',
+  /** Reload the current video in place, re-resolving its URL. */
   RetryCurrent = 'retryCurrent',
+  /** Reload the whole playlist at the saved resume position. */
+  ReloadPlaylist = 'reloadPlaylist',
+  SkipVideo = 'skipVideo',
   RestartMpv = 'restartMpv',
+  /** Hide and re-show the OBS capture source. */
+  ToggleSource = 'toggleSource',
+  /** Stop and restart the OBS stream output. */
+  RestartStream = 'restartStream',
+  /** Force-quit and relaunch OBS. */
+  RelaunchObs = 'relaunchObs',
   CriticalAlert = 'criticalAlert',
 }
 
+/** A recovery ladder action: any step but None. */
+export type RecoveryAction = Exclude<RecoveryStep, RecoveryStep.None>;
+
+/** What set off a recovery action. Counted per reason by `GET /metrics`. */
+export type RecoveryReason =
+  | 'stall'
+  | 'videoFreeze'
+  | 'outputFreeze'
+  | 'blackScreen'
+  | 'audioSilence'
+  | 'playbackQuality'
+  | 'nonPlaying'
+  | 'heartbeat'
+  | 'urlRetry'
+  | 'proactiveRefresh'
+  | 'skip';
+
+// --- Statistics ---
+
+/** One local calendar day of playback statistics (see StatsTracker). */
+export interface DailyStats {
+  /** Local date, `YYYY-MM-DD`. */
+  date: string;
+  /** Time StreamLoop was running and sampling. */
+  observedMs: number;
+  playingMs: number;
+  /** Time spent at each recovery step. */
+  /** Days saved before an action existed lack its key. */
+  recoveryMs: Partial<Record<RecoveryAction, number>>;
+  mpvRestarts: number;
+  skips: number;
+  streamDrops: number;
+  /** OBS disconnected or its stream output inactive. */
+  obsStreamDownMs: number;
+  /** Twitch API reported the channel offline. */
+  twitchOfflineMs: number;
+}
+
 // --- Persisted state ---
 
 export interface PersistedState {
@@ -47,18 +111,344 @@ export interface PersistedState {
   updatedAt: string;
 }
 
+export interface BlacklistEntry {
+  /** YouTube video id, or the filename/URL for other source types. */
+  videoId: string;
+  title?: string;
+  failures: number;
+  lastError: string;
+  firstSeen: string;
+  lastSeen: string;
+  /** ISO time until which the video is skipped; null until the threshold is reached. */
+  skipUntil: string | null;
+  /** Skipped until cleared, ignoring `skipUntil`. */
+  banned: boolean;
+}
+
 // --- Config ---
 
+/**
+ * How a playlist entry's `id` is interpreted:
+ * - `youtube`: a YouTube playlist id (the default when `type` is omitted)
+ * - `local`: a folder of media files, played in name order
+ * - `m3u`: path or URL of an M3U/M3U8 playlist file
+ * - `url`: a single direct media URL, looped on its own
+ * - `ytdlp`: any other page or playlist URL yt-dlp can resolve
+ */
+export type PlaylistSourceType = 'youtube' | 'local' | 'm3u' | 'url' | 'ytdlp';
+
 export interface PlaylistEntry {
+  type?: PlaylistSourceType;
   id: string;
   name?: string;
 }
 
+/** One time-of-day block of the programming grid. */
+export interface ScheduleBlock {
+  /** Weekdays the block starts on (0 = Sunday … 6 = Saturday). Empty = every day. */
+  days: number[];
+  /** Local start time, "HH:MM". */
+  start: string;
+  /** Local end time, "HH:MM" (exclusive). At or before `start` wraps past midnight. */
+  end: string;
+  /** `id` of the entry in `playlists` to play during this block. */
+  playlistId: string;
+}
+
+export interface ScheduleConfig {
+  enabled: boolean;
+  /** First matching block wins when blocks overlap. */
+  blocks: ScheduleBlock[];
+}
+
+/** Backup source played while the primary playlists keep failing. */
+export interface FallbackConfig {
+  enabled: boolean;
+  /** What to play instead, e.g. `{ type: 'local', id: 'D:\\Loop' }` or another YouTube playlist. */
+  source: PlaylistEntry | null;
+  /** Skipped videos within `windowMs` that trigger the fallback. 0 = skips never trigger it. */
+  maxSkips: number;
+  /** Critical alerts within `windowMs` that trigger the fallback. 0 = criticals never trigger it. */
+  maxCriticals: number;
+  windowMs: number;
+  /** How often the primary is re-resolved in the background while on the fallback. */
+  probeIntervalMs: number;
+}
+
+/** Re-notification of unacknowledged critical alerts; see AlertManager. */
+export interface EscalationConfig {
+  enabled: boolean;
+  /** Time between reminders while a critical alert stays open. */
+  intervalMs: number;
+  /** Discord mentions added at each reminder, cumulative: reminder N pings
+   *  levels[0..N-1]; the last level repeats. Same format as `discord.mentions`. */
+  levels: string[][];
+}
+
+/** One critical incident, from the first CriticalAlert until recovery resolves. */
+export interface CriticalAlert {
+  id: string;
+  message: string;
+  openedAt: string;
+  /** Reminders sent so far. */
+  escalations: number;
+  acknowledgedAt: string | null;
+  acknowledgedBy: string | null;
+  resolvedAt: string | null;
+}
+
+export interface RestartBreakerConfig {
+  enabled: boolean;
+  /** Automatic mpv restarts within `windowMs` that open the breaker. */
+  maxRestarts: number;
+  windowMs: number;
+  /** First pause after opening; doubled each time a trial restart fails. */
+  backoffMs: number;
+  maxBackoffMs: number;
+}
+
+/** closed: restarts allowed; open: paused until retryAt; halfOpen: one trial restart made. */
+export type RestartBreakerState = 'closed' | 'open' | 'halfOpen';
+
+/** Restart-storm circuit breaker, as reported in /api/status; see RestartBreaker. */
+export interface RestartBreakerStatus {
+  enabled: boolean;
+  state: RestartBreakerState;
+  restartsInWindow: number;
+  maxRestarts: number;
+  windowMs: number;
+  /** Current pause length; doubles on every re-open up to maxBackoffMs. */
+  backoffMs: number;
+  /** When the next trial restart is allowed; null unless open. */
+  retryAt: string | null;
+  /** When the current storm began; null while closed. */
+  trippedAt: string | null;
+  /** Times the breaker has opened since startup. */
+  trips: number;
+}
+
+/** One step of the quality ladder: a yt-dlp format selector and how it's shown. */
+export interface QualityRung {
+  label: string;
+  /** Set as mpv's `ytdl-format`, e.g. `bestvideo[height<=?720]+bestaudio/best[height<=?720]/best`. */
+  format: string;
+}
+
+export interface QualityLadderConfig {
+  enabled: boolean;
+  /** Rungs below `mpvYtdlFormat` (the top rung), best first. */
+  rungs: QualityRung[];
+  /** Video freezes, stutter trips or 403s within `windowMs` that step down one rung. */
+  stepDownAfter: number;
+  windowMs: number;
+  /** Healthy playback since the last change or problem before stepping back up one rung. */
+  stepUpAfterMs: number;
+}
+
+/** Adaptive quality ladder, as reported in /api/status; see QualityLadder. */
+export interface QualityLadderStatus {
+  enabled: boolean;
+  /** 0 is the top rung (`mpvYtdlFormat`). */
+  rung: number;
+  rungCount: number;
+  label: string;
+  format: string;
+  /** Problems counted towards the next step down. */
+  troublesInWindow: number;
+  /** When the current rung was entered; null on the top rung. */
+  changedAt: string | null;
+  /** When healthy playback steps back up, barring new problems; null on the top rung. */
+  stepUpAt: string | null;
+}
+
+export interface ObsHealthConfig {
+  enabled: boolean;
+  /** How often GetStats and GetStreamStatus are polled. */
+  pollIntervalMs: number;
+  /** Span the skipped-frame and CPU figures are measured over. */
+  windowMs: number;
+  /** Share of frames missed at render, skipped by the encoder or dropped by the network that alerts. */
+  maxSkippedPercent: number;
+  /** Average OBS CPU usage that alerts. */
+  maxCpuPercent: number;
+  /** Polls in a row with an active stream sending no bytes before it counts as a drop. */
+  stalledPolls: number;
+}
+
+/** What an OBS health alert is about; `output` is an active stream sending nothing. */
+export type ObsHealthCondition = 'cpu' | 'render' | 'encoder' | 'network' | 'output';
+
+/** A health condition starting (`active`) or clearing; see ObsHealthMonitor. */
+export interface ObsHealthAlert {
+  condition: ObsHealthCondition;
+  active: boolean;
+  message: string;
+}
+
+/** OBS output health as reported in /api/status; figures over `windowMs` unless noted. */
+export interface ObsHealthStatus {
+  sampledAt: string;
+  cpuUsage: number;
+  memoryUsageMb: number;
+  /** Frames OBS rendered per second at the last poll. */
+  activeFps: number;
+  /** Null until enough frames were counted. */
+  renderSkippedPercent: number | null;
+  encoderSkippedPercent: number | null;
+  networkDroppedPercent: number | null;
+  /** 0–1 at the last poll; null while not streaming. */
+  congestion: number | null;
+  /** Upload rate since the previous poll; null while not streaming. */
+  streamKbps: number | null;
+  reconnecting: boolean;
+  /** Conditions currently alerting. */
+  alerts: ObsHealthCondition[];
+}
+
+/** OBS audio meters (InputVolumeMeters) as reported in /api/status; see OBSClient. */
+export interface AudioLevels {
+  /** Input watched for silence: `detectors.audioSilence.inputName`, else the capture source. */
+  inputName: string;
+  /** Its peak in dBFS (-100 = silent); null while OBS doesn't meter it (no audio on it). */
+  inputDb: number | null;
+  /** Loudest unmuted input in dBFS, standing in for the program mix; null until OBS sends meters. */
+  programDb: number | null;
+  /** Null when unknown (not connected, or the input has no audio). */
+  inputMuted: boolean | null;
+  inputVolumeMul: number | null;
+  /** `detectors.audioSilence.thresholdDb`, so the dashboard meter can mark it. */
+  thresholdDb: number;
+  /** Last time the input (or the program mix, while the input isn't metered) reached `thresholdDb`. */
+  lastAudibleAt: string | null;
+}
+
+/** Part of the OBS screenshot, in percent of its width and height from the top left. */
+export interface FrameRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Detector whose trip opened an incident. */
+export type IncidentRoot = Extract<RecoveryReason, 'stall' | 'videoFreeze' | 'outputFreeze' | 'blackScreen' | 'audioSilence' | 'playbackQuality' | 'nonPlaying' | 'heartbeat' | 'urlRetry'>;
+
+/** Recovery action taken during an incident: a ladder step, an in-place URL retry or the fallback source. */
+export type IncidentAction = RecoveryAction | 'urlRetry' | 'fallback';
+
+/** One playback problem, from the detector trip until recovery resolves; see IncidentLog. */
+export interface Incident {
+  id: string;
+  root: IncidentRoot;
+  /** Message of the event that opened it. */
+  message: string;
+  startedAt: string;
+  endedAt: string | null;
+  durationMs: number | null;
+  /** Actions in the order they were taken; the latest 20 on a long outage. */
+  actions: IncidentAction[];
+  /** Last action before playback resumed (critical alerts don't count); null while open or if none was taken. */
+  resolvedBy: IncidentAction | null;
+  /** Event log entries logged while it was open, capped. */
+  events: EventLogEntry[];
+  /** Events logged while open, including any past the cap. */
+  eventCount: number;
+}
+
+/** Per-video failure registry; see VideoBlacklist. */
+export interface BlacklistConfig {
+  enabled: boolean;
+  /** Skips (maxConsecutiveErrors reached) before a video is blacklisted. */
+  failureThreshold: number;
+  /** How long a blacklisted video is skipped before it's tried again. */
+  ttlMs: number;
+}
+
+/** Failures that run the recovery ladder; each may have its own. */
+export type LadderReason = Exclude<IncidentRoot, 'urlRetry'>;
+
+export interface RecoveryLadderStep {
+  action: RecoveryAction;
+  /** Wait after each attempt before checking playback; defaults to `recoveryDelayMs`. */
+  delayMs?: number;
+  /** Times the action is tried before moving to the next step. */
+  attempts: number;
+}
+
+/** `default` runs for reasons without a ladder of their own. */
+export interface RecoveryLadderConfig extends Partial<Record<LadderReason, RecoveryLadderStep[]>> {
+  default: RecoveryLadderStep[];
+}
+
+/** `detect` logs a detector tripping without recovering; `off` ignores it. */
+export type DetectorMode = 'off' | 'detect' | 'recover';
+
+export interface DetectorConfig {
+  mode: DetectorMode;
+}
+
+/** Health detectors RecoveryEngine runs each heartbeat (or screenshot/end-file). */
+export interface DetectorsConfig {
+  /** mpv reports playing but time-pos doesn't advance. */
+  stall: DetectorConfig & { heartbeats: number };
+  /** Audio advances but video frames or bytes stop arriving. */
+  videoFreeze: DetectorConfig & {
+    heartbeats: number;
+    /** video-bitrate (bits/s) below this means no video bytes are arriving. */
+    frozenBitrate: number;
+    /** In-place URL retries (shared with outputFreeze and blackScreen) before the recovery sequence. */
+    maxRetries: number;
+  };
+  /** OBS screenshots of the stream stop changing; runs only with `outputCheckEnabled`. */
+  outputFreeze: DetectorConfig & {
+    /** Perceptual-hash bits (of 64) two screenshots may differ by and still count as the same picture. */
+    hashDistance: number;
+  };
+  /** OBS screenshots of the stream are black or one flat colour; runs only with `outputCheckEnabled`. */
+  blackScreen: DetectorConfig & {
+    /** Mean luma (0–255) at or below this is black. */
+    maxLuma: number;
+    /** Luma standard deviation at or below this is a flat, near-uniform frame. */
+    maxStdDev: number;
+  };
+  /** OBS meters no sound (or the watched input is muted or at zero volume) while video plays. */
+  audioSilence: DetectorConfig & {
+    /** Peak level (dBFS) below this is silence. */
+    thresholdDb: number;
+    /** Silence allowed for quiet passages before it trips; mute and zero volume trip at once. */
+    graceMs: number;
+    /** OBS input to watch; empty = `obsBrowserSourceName`. Without audio on it, the loudest unmuted input is watched. */
+    inputName: string;
+  };
+  /** mpv keeps playing but drops frames or drifts out of A/V sync (stutter). */
+  playbackQuality: DetectorConfig & {
+    /** Frames dropped per heartbeat, as % of the frames due, at or above which playback counts as degraded. */
+    maxDropPercent: number;
+    /** A/V sync difference (either way) at or above which playback counts as degraded. */
+    maxAvsyncMs: number;
+    /** Consecutive degraded heartbeats before it trips. */
+    heartbeats: number;
+  };
+  /** mpv is connected but idle or buffering. */
+  nonPlaying: DetectorConfig & { heartbeats: number };
+  /** mpv stops answering for `heartbeatTimeoutMs`. */
+  heartbeat: DetectorConfig;
+  /** A video ends early or on a network error mid-playback. */
+  prematureEof: DetectorConfig & {
+    /** In-place URL retries per video before normal error handling. */
+    maxRetries: number;
+  };
+}
+
+export type DetectorKey = keyof DetectorsConfig;
+
 export interface DiscordEventToggles {
   error: boolean;
   skip: boolean;
   recovery: boolean;
   critical: boolean;
+  escalation: boolean;
+  incident: boolean;
   resume: boolean;
   obsDisconnect: boolean;
   obsReconnect: boolean;
@@ -66,6 +456,10 @@ export interface DiscordEventToggles {
   streamRestart: boolean;
   twitchMismatch: boolean;
   twitchRestart: boolean;
+  scheduleSwitch: boolean;
+  fallbackActivate: boolean;
+  fallbackRestore: boolean;
+  dailySummary: boolean;
 }
 
 export interface DiscordTemplates {
@@ -73,6 +467,8 @@ export interface DiscordTemplates {
   skip: string;
   recovery: string;
   critical: string;
+  escalation: string;
+  incident: string;
   resume: string;
   obsDisconnect: string;
   obsReconnect: string;
@@ -80,13 +476,93 @@ export interface DiscordTemplates {
   streamRestart: string;
   twitchMismatch: string;
   twitchRestart: string;
+  scheduleSwitch: string;
+  fallbackActivate: string;
+  fallbackRestore: string;
+  dailySummary: string;
+}
+
+export type DiscordEventKey = keyof DiscordEventToggles;
+
+/** Sends matching alerts to another webhook instead of `discord.webhookUrl`. */
+export interface DiscordRoute {
+  name: string;
+  webhookUrl: string;
+  /** Message levels this route takes. Empty = any. */
+  levels: Array<'info' | 'warn' | 'error'>;
+  /** Events this route takes. Empty = any. */
+  events: DiscordEventKey[];
+}
+
+/** Local-time window during which only error-level (critical) alerts are sent. */
+export interface QuietHoursConfig {
+  enabled: boolean;
+  /** "HH:MM"; an end at or before the start wraps past midnight. */
+  start: string;
+  end: string;
+  /** Weekdays the window starts on (0 = Sunday … 6 = Saturday). Empty = every day. */
+  days: number[];
+}
+
+/** Extra embed field for one event; `name` and `value` are templates. */
+export interface DiscordEmbedField {
+  name: string;
+  value: string;
+  inline: boolean;
+}
+
+/** Per-event embed extras, on top of the event's built-in fields. */
+export interface DiscordEmbedConfig {
+  fields: DiscordEmbedField[];
+  /** YouTube thumbnail of the event's video. */
+  thumbnail: boolean;
+  /** Link the embed title to the event's video on YouTube. */
+  link: boolean;
+}
+
+/** One embed on `webhookUrl`, edited in place, instead of a post per alert. */
+export interface DiscordStatusMessageConfig {
+  enabled: boolean;
+  /** How often the message is refreshed. */
+  updateIntervalMs: number;
 }
 
 export interface DiscordConfig {
   webhookUrl: string;
   botName: string;
   avatarUrl: string;
-  rolePing: string;
+  events: DiscordEventToggles;
+  templates: DiscordTemplates;
+  /** Per-event mentions: role IDs, `user:<id>`, `here` or `everyone`. */
+  mentions: Partial<Record<DiscordEventKey, string[]>>;
+  /** First matching route wins; unmatched alerts go to `webhookUrl`. */
+  routes: DiscordRoute[];
+  quietHours: QuietHoursConfig;
+  /** Events without an entry use `DEFAULT_DISCORD_EMBEDS`. */
+  embeds: Partial<Record<DiscordEventKey, DiscordEmbedConfig>>;
+  /** Only critical alerts (and the daily summary) are still posted when enabled. */
+  statusMessage: DiscordStatusMessageConfig;
+}
+
+export type NotificationChannelType = 'discord' | 'slack' | 'telegram' | 'ntfy' | 'gotify' | 'webhook';
+
+/** An alert destination beyond the primary `discord` webhook. */
+export interface NotificationChannelConfig {
+  type: NotificationChannelType;
+  /** Shown in logs and the dashboard. */
+  name: string;
+  enabled: boolean;
+  /**
+   * - `discord`, `slack`, `webhook`: the webhook URL
+   * - `telegram`: Bot API base URL (defaults to https://api.telegram.org)
+   * - `ntfy`: the topic URL, e.g. https://ntfy.sh/my-topic
+   * - `gotify`: the server URL
+   */
+  url: string;
+  /** Telegram bot token, Gotify application token or ntfy access token. */
+  token: string;
+  /** Telegram chat id. */
+  chatId: string;
   events: DiscordEventToggles;
   templates: DiscordTemplates;
 }
@@ -97,15 +573,27 @@ export interface AppConfig {
   obsWebsocketPassword: string;
   obsBrowserSourceName: string;
   playlists: PlaylistEntry[];
+  schedule: ScheduleConfig;
+  fallback: FallbackConfig;
+  blacklist: BlacklistConfig;
+  escalation: EscalationConfig;
+  restartBreaker: RestartBreakerConfig;
+  obsHealth: ObsHealthConfig;
+  qualityLadder: QualityLadderConfig;
+  detectors: DetectorsConfig;
+  recoveryLadder: RecoveryLadderConfig;
   discord: DiscordConfig;
+  notifications: NotificationChannelConfig[];
   heartbeatIntervalMs: number;
   heartbeatTimeoutMs: number;
   maxConsecutiveErrors: number;
   stateFilePath: string;
+  eventRetentionDays: number;
   recoveryDelayMs: number;
   initialLoadGraceMs: number;
   outputCheckEnabled: boolean;
   outputFreezeWindowMs: number;
+  outputIgnoreRegion: FrameRegion | null;
   proactiveUrlRefreshMs: number;
   obsAutoRestart: boolean;
   obsAutoStream: boolean;
@@ -128,7 +616,80 @@ export interface AppConfig {
 
 // --- Event log ---
 
+export type EventSeverity = 'info' | 'warn' | 'error';
+
+/** What happened, for filtering and alerting without parsing `message`. */
+export type EventType =
+  // Playlist and source lifecycle
+  | 'playlistLoad'
+  | 'playlistLoadFailed'
+  | 'playlistAdvance'
+  | 'scheduleSwitch'
+  | 'fallbackActivate'
+  | 'fallbackRestore'
+  // mpv process
+  | 'mpvConnect'
+  | 'mpvDisconnect'
+  | 'mpvExit'
+  | 'periodicRestart'
+  | 'restartBreaker'
+  | 'qualityChange'
+  // Playback
+  | 'playbackControl'
+  | 'videoConfirmed'
+  | 'startupGrace'
+  | 'playbackError'
+  | 'seekFailed'
+  | 'skip'
+  | 'urlRetry'
+  | 'proactiveRefresh'
+  | 'blacklistAdd'
+  | 'blacklistSkip'
+  // Detectors and recovery
+  | 'stall'
+  | 'nonPlaying'
+  | 'heartbeatTimeout'
+  | 'videoFreeze'
+  | 'outputFreeze'
+  | 'blackScreen'
+  | 'audioSilence'
+  | 'playbackQuality'
+  | 'recoveryStep'
+  | 'recoveryResolved'
+  | 'alertEscalate'
+  | 'alertAck'
+  | 'incidentClose'
+  // OBS and Twitch
+  | 'obsConnect'
+  | 'obsDisconnect'
+  | 'streamDrop'
+  | 'streamRestart'
+  | 'streamRestartFailed'
+  | 'obsHealth'
+  | 'twitchMismatch'
+  | 'twitchRestart';
+
 export interface EventLogEntry {
   timestamp: string;
   message: string;
+  /** Absent on entries written before severities existed; read as `info`. */
+  severity?: EventSeverity;
+  /** Absent on entries written before typed events existed. */
+  type?: EventType;
+  /** What was playing when the event was logged. */
+  videoIndex?: number;
+  videoId?: string;
+  playlistId?: string;
+  /** Incident open when it was logged. */
+  incidentId?: string;
+  /** Type-specific structured data (positions, counters, error strings). */
+  detail?: Record<string, unknown>;
+}
+
+/** Optional fields for `RecoveryEngine.addEvent`; video/playlist default to what's playing. */
+export interface EventOptions {
+  severity?: EventSeverity;
+  videoIndex?: number;
+  videoId?: string;
+  detail?: Record<string, unknown>;
 }
@@ -83,6 +83,7 @@ export class Updater {
   private isDevMode: boolean;
   private releaseAssetUrl: string | null = null;
   private releaseChecksumUrl: string | null = null;
+  private onStatusChangeCallback: ((info: UpdateInfo) => void) | null = null;
 
   constructor() {
     // Read version from package.json
@@ -96,6 +97,14 @@ export class Updater {
     this.isDevMode = !existsSync(nodeDir);
   }
 
+  onStatusChange(cb: (info: UpdateInfo) => void) { this.onStatusChangeCallback = cb; }
+
+  private setStatus(status: UpdateStatus, error: string | null = null) {
+    this.status = status;
+    this.error = error;
+    this.onStatusChangeCallback?.(this.getStatus());
+  }
+
   getStatus(): UpdateInfo {
     return {
       currentVersion: this.currentVersion,
@@ -114,8 +123,7 @@ export class Updater {
       return this.getStatus();
     }
 
-    this.status = 'checking';
-    this.error = null;
+    this.setStatus('checking');
 
     try {
       const res = await fetch(GITHUB_API_URL, {
@@ -129,8 +137,8 @@ export class Updater {
         // No releases yet
         this.latestVersion = this.currentVersion;
         this.updateAvailable = false;
-        this.status = 'idle';
         this.lastCheckTime = now;
+        this.setStatus('idle');
         return this.getStatus();
       }
 
@@ -154,12 +162,11 @@ export class Updater {
           checksumUrl && isAllowedDownloadUrl(checksumUrl) ? checksumUrl : null;
       }
 
-      this.status = 'idle';
       this.lastCheckTime = now;
+      this.setStatus('idle');
       logger.info({ currentVersion: this.currentVersion, latestVersion: this.latestVersion, updateAvailable: this.updateAvailable }, 'Update check complete');
     } catch (err) {
-      this.status = 'error';
-      this.error = err instanceof Error ? err.message : String(err);
+      this.setStatus('error', err instanceof Error ? err.message : String(err));
       logger.error({ err }, 'Update check failed');
     }
 
@@ -191,8 +198,7 @@ export class Updater {
       mkdirSync(tmpDir, { recursive: true });
 
       // Download
-      this.status = 'downloading';
-      this.error = null;
+      this.setStatus('downloading');
       logger.info({ url: this.releaseAssetUrl }, 'Downloading update');
 
       const zipPath = join(tmpDir, 'update.zip');
@@ -226,7 +232,7 @@ export class Updater {
       }
 
       // Extract
-      this.status = 'extracting';
+      this.setStatus('extracting');
       logger.info('Extracting update');
       const extractDir = join(tmpDir, 'extracted');
       mkdirSync(extractDir, { recursive: true });
@@ -268,11 +274,10 @@ export class Updater {
         renameSync(newYtdlpDir, stagedYtdlpDir);
       }
 
-      this.status = 'ready';
+      this.setStatus('ready');
       logger.info({ from: this.currentVersion, to: this.latestVersion }, 'Update staged, restart required');
     } catch (err) {
-      this.status = 'error';
-      this.error = err instanceof Error ? err.message : String(err);
+      this.setStatus('error', err instanceof Error ? err.message : String(err));
       logger.error({ err }, 'Update failed');
       // Clean up partial download/extraction
       try {
@@ -0,0 +1,116 @@
+import { readFileSync, writeFileSync, renameSync } from 'fs';
+import { resolve } from 'path';
+import type { BlacklistConfig, BlacklistEntry } from './types.js';
+import { logger } from './logger.js';
+
+/**
+ * Persisted registry of videos that keep failing (private, region-locked,
+ * removed). Keyed by YouTube video id, or by the raw filename/URL for other
+ * source types. Once an entry reaches `failureThreshold` skips it is
+ * blacklisted for `ttlMs`, after which the engine gives it another try; a
+ * banned entry is skipped until cleared from the dashboard.
+ */
+export class VideoBlacklist {
+  private filePath: string;
+  private config: BlacklistConfig;
+  private entries: Map<string, BlacklistEntry>;
+
+  constructor(filePath: string, config: BlacklistConfig) {
+    this.filePath = resolve(filePath);
+    this.config = config;
+    this.entries = this.load();
+  }
+
+  private load(): Map<string, BlacklistEntry> {
+    try {
+      const raw = JSON.parse(readFileSync(this.filePath, 'utf-8')) as BlacklistEntry[];
+      const entries = new Map(raw.filter((e) => e && typeof e.videoId === 'string').map((e) => [e.videoId, e]));
+      logger.info({ count: entries.size }, 'Loaded video blacklist');
+      return entries;
+    } catch {
+      return new Map();
+    }
+  }
+
+  setConfig(config: BlacklistConfig) {
+    this.config = config;
+  }
+
+  /** Whether the engine should skip this video right now. */
+  isSkipped(videoId: string, now = Date.now()): boolean {
+    if (!this.config.enabled || !videoId) return false;
+    const entry = this.entries.get(videoId);
+    if (!entry) return false;
+    if (entry.banned) return true;
+    return entry.skipUntil !== null && Date.parse(entry.skipUntil) > now;
+  }
+
+  /**
+   * Count a failed play (the engine gave up on the video). Returns the entry
+   * when this failure blacklisted it, so the caller can log it once.
+   */
+  recordFailure(videoId: string, error: string, title?: string, now = Date.now()): BlacklistEntry | null {
+    if (!this.config.enabled || !videoId) return null;
+    const at = new Date(now).toISOString();
+    const entry = this.entries.get(videoId) ?? {
+      videoId, failures: 0, lastError: '', firstSeen: at, lastSeen: at, skipUntil: null, banned: false,
+    };
+    entry.failures++;
+    entry.lastError = error;
+    entry.lastSeen = at;
+    if (title) entry.title = title;
+    this.entries.set(videoId, entry);
+
+    let added = false;
+    if (!entry.banned && entry.failures >= this.config.failureThreshold && !this.isSkipped(videoId, now)) {
+      entry.skipUntil = new Date(now + this.config.ttlMs).toISOString();
+      added = true;
+    }
+    this.writeToDisk();
+    return added ? { ...entry } : null;
+  }
+
+  /** A video played fine — forget its failures (bans are only lifted by `clear`). */
+  recordSuccess(videoId: string) {
+    const entry = this.entries.get(videoId);
+    if (!entry || entry.banned) return;
+    this.entries.delete(videoId);
+    this.writeToDisk();
+  }
+
+  /** Skip the video until it's cleared, regardless of TTL. */
+  ban(videoId: string): BlacklistEntry {
+    const at = new Date().toISOString();
+    const entry = this.entries.get(videoId) ?? {
+      videoId, failures: 0, lastError: '', firstSeen: at, lastSeen: at, skipUntil: null, banned: false,
+    };
+    entry.banned = true;
+    this.entries.set(videoId, entry);
+    this.writeToDisk();
+    return { ...entry };
+  }
+
+  /** Remove an entry (blacklisted or banned). Returns false if it wasn't listed. */
+  clear(videoId: string): boolean {
+    if (!this.entries.delete(videoId)) return false;
+    this.writeToDisk();
+    return true;
+  }
+
+  /** Every tracked entry, most recently failed first. */
+  list(): BlacklistEntry[] {
+    return [...this.entries.values()]
+      .map((e) => ({ ...e }))
+      .sort((a, b) => b.lastSeen.localeCompare(a.lastSeen));
+  }
+
+  private writeToDisk() {
+    const tmpPath = this.filePath + '.tmp';
+    try {
+      writeFileSync(tmpPath, JSON.stringify([...this.entries.values()], null, 2), 'utf-8');
+      renameSync(tmpPath, this.filePath);
+    } catch (err) {
+      logger.error({ err }, 'Failed to write video blacklist');
+    }
+  }
+}